@@ -0,0 +1,100 @@
+import { useEffect } from 'react';
+import { Link, NavLink, Outlet } from 'react-router-dom';
+import type { Session } from '@supabase/supabase-js';
+import { LogOut, Wrench } from 'lucide-react';
+import { canManageCategories, canManageOrders, canManageParts, canManagePricing, canManageShipping, canManageUsers, getSessionRole } from '../lib/roles';
+import { resumeUploads } from '../lib/uploadQueue';
+import type { MessageKey } from '../lib/i18n';
+import { useAuth } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+import CurrencySelect from './CurrencySelect';
+import LanguageSelect from './LanguageSelect';
+import NotificationBell from './NotificationBell';
+
+type AppLayoutProps = {
+  session: Session;
+};
+
+type NavItem = { to: string; labelKey: MessageKey };
+
+const NAV_LINKS: NavItem[] = [
+  { to: '/parts', labelKey: 'nav.parts' },
+  { to: '/catalog', labelKey: 'nav.catalog' },
+  { to: '/fitment', labelKey: 'nav.fitment' },
+  { to: '/saved', labelKey: 'nav.saved' },
+  { to: '/cart', labelKey: 'nav.cart' },
+  { to: '/orders', labelKey: 'nav.orders' },
+];
+
+function AppLayout({ session }: AppLayoutProps) {
+  const { t } = useI18n();
+  const { profile, signOut } = useAuth();
+  const role = getSessionRole(session);
+  const navLinks: NavItem[] = [
+    ...NAV_LINKS,
+    ...(canManageParts(role) ? [{ to: '/inventory', labelKey: 'nav.lowStock' } as const] : []),
+    ...(canManageOrders(role) ? [{ to: '/admin/orders', labelKey: 'nav.orderQueue' } as const] : []),
+    ...(canManageCategories(role) ? [{ to: '/admin/categories', labelKey: 'nav.categories' } as const] : []),
+    ...(canManageShipping(role) ? [{ to: '/admin/shipping', labelKey: 'nav.shipping' } as const] : []),
+    ...(canManagePricing(role) ? [{ to: '/admin/pricing', labelKey: 'nav.pricing' } as const] : []),
+    ...(canManageUsers(role) ? [{ to: '/admin/users', labelKey: 'nav.users' } as const] : []),
+  ];
+
+  // Pick up photo uploads left unfinished by an earlier visit
+  useEffect(() => {
+    if (canManageParts(role)) resumeUploads();
+  }, [role]);
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="border-b bg-white">
+        <div className="container mx-auto flex items-center justify-between px-6 py-3">
+          <div className="flex items-center gap-8">
+            <div className="flex items-center gap-2 font-bold text-gray-900">
+              <Wrench className="text-blue-600" size={20} />
+              {t('app.name')}
+            </div>
+            <nav className="flex gap-1">
+              {navLinks.map(link => (
+                <NavLink
+                  key={link.to}
+                  to={link.to}
+                  className={({ isActive }) =>
+                    `rounded-md px-3 py-2 text-sm font-medium ${
+                      isActive ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                    }`
+                  }
+                >
+                  {t(link.labelKey)}
+                </NavLink>
+              ))}
+            </nav>
+          </div>
+          <div className="flex items-center gap-4">
+            <LanguageSelect />
+            <CurrencySelect />
+            <NotificationBell userId={session.user.id} />
+            <Link to="/profile" title={t('nav.profile')} className="rounded-md px-2 py-1 text-right text-sm hover:bg-gray-100">
+              <div className="text-gray-900">{profile?.full_name || session.user.email}</div>
+              <div className="text-xs text-gray-500">
+                {[t(`role.${role}`), profile?.shop_name].filter(Boolean).join(' · ')}
+              </div>
+            </Link>
+            <button
+              onClick={signOut}
+              className="flex items-center gap-2 rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+            >
+              <LogOut size={16} />
+              {t('nav.signOut')}
+            </button>
+          </div>
+        </div>
+      </header>
+      <main className="container mx-auto p-6">
+        <Outlet />
+      </main>
+    </div>
+  );
+}
+
+export default AppLayout;
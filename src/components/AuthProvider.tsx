@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { fetchProfile, getSessionExpired, setSessionExpired, subscribeSessionExpired } from '../lib/auth';
+import { getSessionRole } from '../lib/roles';
+import { AuthContext } from '../hooks/useAuth';
+import type { AuthState } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+import type { Profile } from '../types';
+import SignInForm from './SignInForm';
+
+type AuthProviderProps = {
+  children: ReactNode;
+};
+
+// Tracks the Supabase session for the whole app. When a token lapses the
+// current page stays up and a dialog asks the user to sign in again.
+function AuthProvider({ children }: AuthProviderProps) {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const sessionExpired = useSyncExternalStore(subscribeSessionExpired, getSessionExpired);
+  // Tells a sign-out the user asked for apart from a lapsed refresh token
+  const signingOut = useRef(false);
+
+  // Initialize session
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') setPasswordRecovery(true);
+
+      if (event === 'SIGNED_OUT' && !signingOut.current) {
+        setSessionExpired(true);
+        return;
+      }
+
+      signingOut.current = false;
+      if (session && getSessionExpired()) {
+        setSessionExpired(false);
+        // Refetch whatever failed while the session was gone
+        queryClient.invalidateQueries();
+      }
+      setSession(session);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  const userId = session?.user.id;
+
+  // Fetch the signed-in user's profile
+  const { data: profile = null } = useQuery<Profile, Error>({
+    queryKey: ['profile', userId],
+    queryFn: () => fetchProfile(userId!),
+    enabled: !!userId,
+  });
+
+  const signOut = useCallback(async () => {
+    signingOut.current = true;
+    setSessionExpired(false);
+    await supabase.auth.signOut();
+    setSession(null);
+    setPasswordRecovery(false);
+    queryClient.clear();
+  }, [queryClient]);
+
+  const endPasswordRecovery = useCallback(() => setPasswordRecovery(false), []);
+
+  const value = useMemo<AuthState>(() => ({
+    session,
+    user: session?.user ?? null,
+    role: session ? getSessionRole(session) : 'buyer',
+    profile,
+    loading,
+    passwordRecovery,
+    endPasswordRecovery,
+    signOut,
+  }), [session, profile, loading, passwordRecovery, endPasswordRecovery, signOut]);
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      {session && sessionExpired && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div role="dialog" aria-modal="true" className="w-full max-w-md space-y-6 rounded-lg bg-white p-6 shadow-xl">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('auth.sessionExpiredTitle')}</h2>
+              <p className="mt-1 text-sm text-gray-600">{t('auth.sessionExpiredBody')}</p>
+            </div>
+            <SignInForm defaultEmail={session.user.email} />
+            <button onClick={signOut} className="w-full text-center text-sm text-gray-600 hover:text-gray-900">
+              {t('auth.signOutInstead')}
+            </button>
+          </div>
+        </div>
+      )}
+    </AuthContext.Provider>
+  );
+}
+
+export default AuthProvider;
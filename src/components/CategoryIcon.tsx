@@ -0,0 +1,31 @@
+import { Tag } from 'lucide-react';
+import type { PartCategory } from '../types';
+
+type CategoryIconProps = {
+  category: Pick<PartCategory, 'category_name' | 'icon_url'> | null;
+  size?: number;
+};
+
+function CategoryIcon({ category, size = 20 }: CategoryIconProps) {
+  if (category?.icon_url) {
+    return (
+      <img
+        src={category.icon_url}
+        alt=""
+        style={{ width: size, height: size }}
+        className="shrink-0 rounded object-contain"
+      />
+    );
+  }
+
+  return (
+    <span
+      style={{ width: size, height: size }}
+      className="flex shrink-0 items-center justify-center rounded bg-gray-100 text-gray-400"
+    >
+      <Tag size={Math.round(size * 0.6)} />
+    </span>
+  );
+}
+
+export default CategoryIcon;
@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, ChevronDown, X } from 'lucide-react';
+import CategoryIcon from './CategoryIcon';
+import { flattenCategories, formatCategoryPath } from '../lib/categories';
+import { useI18n } from '../hooks/useI18n';
+import type { PartCategory } from '../types';
+
+type CategoryPickerProps = {
+  categories: PartCategory[];
+  value: string | null;
+  onChange: (categoryId: string | null) => void;
+  disabled?: boolean;
+};
+
+function CategoryPicker({ categories, value, onChange, disabled = false }: CategoryPickerProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const options = useMemo(() => flattenCategories(categories), [categories]);
+  const selected = options.find(option => option.category.id === value) ?? null;
+
+  // Filtering matches anywhere in the path, so "brakes" also lists its subcategories
+  const visibleOptions = filter.trim()
+    ? options.filter(option => formatCategoryPath(option.path).toLowerCase().includes(filter.trim().toLowerCase()))
+    : options;
+
+  // Close when clicking anywhere outside the picker
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const choose = (categoryId: string | null) => {
+    onChange(categoryId);
+    setOpen(false);
+    setFilter('');
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        disabled={disabled}
+        className="flex w-full items-center gap-2 rounded-md border bg-white p-2 text-left disabled:bg-gray-50"
+      >
+        {selected ? (
+          <>
+            <CategoryIcon category={selected.category} />
+            <span className="flex-1 truncate">{formatCategoryPath(selected.path)}</span>
+          </>
+        ) : (
+          <span className="flex-1 text-gray-500">{t('categories.select')}</span>
+        )}
+        <ChevronDown size={16} className="text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-lg">
+          <div className="border-b p-2">
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+              placeholder={t('categories.filter')}
+              className="w-full rounded-md border p-1.5 text-sm"
+              autoFocus
+            />
+          </div>
+          <ul className="max-h-64 overflow-y-auto py-1 text-sm">
+            {value && (
+              <li>
+                <button
+                  type="button"
+                  onClick={() => choose(null)}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-gray-500 hover:bg-gray-50"
+                >
+                  <X size={14} />
+                  {t('categories.none')}
+                </button>
+              </li>
+            )}
+            {visibleOptions.map(option => (
+              <li key={option.category.id}>
+                <button
+                  type="button"
+                  onClick={() => choose(option.category.id)}
+                  style={{ paddingLeft: `${0.75 + (filter.trim() ? 0 : option.depth * 1.25)}rem` }}
+                  className="flex w-full items-center gap-2 py-1.5 pr-3 text-left hover:bg-gray-50"
+                >
+                  <CategoryIcon category={option.category} size={18} />
+                  <span className="flex-1 truncate">
+                    {filter.trim() ? formatCategoryPath(option.path) : option.category.category_name}
+                  </span>
+                  {option.category.id === value && <Check size={14} className="text-blue-600" />}
+                </button>
+              </li>
+            ))}
+            {visibleOptions.length === 0 && (
+              <li className="px-3 py-1.5 text-gray-500">{t('categories.noMatches')}</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CategoryPicker;
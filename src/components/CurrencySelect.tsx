@@ -0,0 +1,28 @@
+import { usePricing } from '../hooks/usePricing';
+import { useI18n } from '../hooks/useI18n';
+
+// Display currency picker; hidden until admins add a second currency
+function CurrencySelect() {
+  const { displayCurrency, setDisplayCurrency, rates } = usePricing();
+  const { t } = useI18n();
+
+  if (rates.length < 2) return null;
+
+  return (
+    <select
+      value={displayCurrency}
+      onChange={(e) => setDisplayCurrency(e.target.value)}
+      className="rounded-md border p-1.5 text-sm"
+      aria-label={t('nav.displayCurrency')}
+    >
+      {!rates.some(rate => rate.currency === displayCurrency) && (
+        <option value={displayCurrency}>{displayCurrency}</option>
+      )}
+      {rates.map(rate => (
+        <option key={rate.currency} value={rate.currency}>{rate.currency}</option>
+      ))}
+    </select>
+  );
+}
+
+export default CurrencySelect;
@@ -0,0 +1,148 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { EMPTY_FITMENT, MAX_FITMENT_YEAR, MIN_FITMENT_YEAR, validateFitment } from '../lib/fitment';
+import { useI18n } from '../hooks/useI18n';
+import type { PartFitment } from '../types';
+
+type FitmentEditorProps = {
+  fitments: PartFitment[];
+  defaultMake: string;
+  onChange: (fitments: PartFitment[]) => void;
+};
+
+const parseYear = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function FitmentEditor({ fitments, defaultMake, onChange }: FitmentEditorProps) {
+  const { t } = useI18n();
+
+  const updateFitment = (index: number, changes: Partial<PartFitment>) => {
+    onChange(fitments.map((fitment, i) => (i === index ? { ...fitment, ...changes } : fitment)));
+  };
+
+  const removeFitment = (index: number) => {
+    onChange(fitments.filter((_, i) => i !== index));
+  };
+
+  // New rows start from the part's own make, which is usually the right answer
+  const addFitment = () => {
+    onChange([...fitments, { ...EMPTY_FITMENT, make: defaultMake }]);
+  };
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          {t('fitment.title')}
+        </label>
+        <button
+          type="button"
+          onClick={addFitment}
+          className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus size={14} />
+          {t('fitment.add')}
+        </button>
+      </div>
+
+      {fitments.length === 0 ? (
+        <p className="rounded-md border border-dashed p-4 text-center text-sm text-gray-500">
+          {t('fitment.empty')}
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-2 py-2 font-medium">{t('field.make')}*</th>
+                <th className="px-2 py-2 font-medium">{t('field.model')}*</th>
+                <th className="px-2 py-2 font-medium">{t('fitment.from')}</th>
+                <th className="px-2 py-2 font-medium">{t('fitment.to')}</th>
+                <th className="px-2 py-2 font-medium">{t('store.trim')}</th>
+                <th className="px-2 py-2 font-medium">{t('store.engine')}</th>
+                <th className="w-10 px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {fitments.map((fitment, index) => {
+                const error = validateFitment(fitment);
+                return (
+                  <tr key={fitment.id ?? `new-${index}`} className="align-top">
+                    <td className="p-2">
+                      <input
+                        type="text"
+                        value={fitment.make}
+                        onChange={(e) => updateFitment(index, { make: e.target.value })}
+                        className="w-full rounded-md border p-1.5"
+                        placeholder="Honda"
+                      />
+                      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="text"
+                        value={fitment.model}
+                        onChange={(e) => updateFitment(index, { model: e.target.value })}
+                        className="w-full rounded-md border p-1.5"
+                        placeholder="Civic"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        value={fitment.year_start ?? ''}
+                        onChange={(e) => updateFitment(index, { year_start: parseYear(e.target.value) })}
+                        className="w-24 rounded-md border p-1.5"
+                        min={MIN_FITMENT_YEAR}
+                        max={MAX_FITMENT_YEAR}
+                        placeholder={t('fitment.any')}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        value={fitment.year_end ?? ''}
+                        onChange={(e) => updateFitment(index, { year_end: parseYear(e.target.value) })}
+                        className="w-24 rounded-md border p-1.5"
+                        min={MIN_FITMENT_YEAR}
+                        max={MAX_FITMENT_YEAR}
+                        placeholder={t('fitment.any')}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="text"
+                        value={fitment.trim ?? ''}
+                        onChange={(e) => updateFitment(index, { trim: e.target.value || null })}
+                        className="w-full rounded-md border p-1.5"
+                        placeholder="EX-L"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="text"
+                        value={fitment.engine ?? ''}
+                        onChange={(e) => updateFitment(index, { engine: e.target.value || null })}
+                        className="w-full rounded-md border p-1.5"
+                        placeholder="2.0L I4"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <button
+                        type="button"
+                        onClick={() => removeFitment(index)}
+                        className="rounded-md p-1.5 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FitmentEditor;
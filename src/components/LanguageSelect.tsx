@@ -0,0 +1,24 @@
+import { useI18n } from '../hooks/useI18n';
+import { LOCALES, isLocale } from '../lib/i18n';
+
+// Interface language picker; the choice is remembered on this device
+function LanguageSelect() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) setLocale(e.target.value);
+      }}
+      className="rounded-md border p-1.5 text-sm"
+      aria-label={t('nav.language')}
+    >
+      {LOCALES.map(option => (
+        <option key={option.code} value={option.code}>{option.label}</option>
+      ))}
+    </select>
+  );
+}
+
+export default LanguageSelect;
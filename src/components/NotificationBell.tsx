@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bell, PackageCheck, TrendingDown, X } from 'lucide-react';
+import { useNotifications } from '../hooks/useNotifications';
+import { clearNotifications, markNotificationsRead, notificationMessage } from '../lib/notifications';
+import type { NotificationWithPart } from '../lib/notifications';
+
+type NotificationBellProps = {
+  userId: string;
+};
+
+function NotificationBell({ userId }: NotificationBellProps) {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const { notifications, unreadCount, error } = useNotifications(userId);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const markReadMutation = useMutation<void, Error, string[]>({
+    mutationFn: markNotificationsRead,
+    onSuccess: () => queryClient.invalidateQueries(['notifications', userId]),
+  });
+
+  const clearMutation = useMutation<void, Error, string[]>({
+    mutationFn: clearNotifications,
+    onSuccess: () => queryClient.invalidateQueries(['notifications', userId]),
+  });
+
+  const openNotification = (notification: NotificationWithPart) => {
+    if (!notification.read_at) markReadMutation.mutate([notification.id]);
+    setOpen(false);
+    navigate(`/parts/${notification.part_slug}`);
+  };
+
+  const unreadIds = notifications.filter(notification => !notification.read_at).map(notification => notification.id);
+  const mutationError = markReadMutation.error || clearMutation.error;
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="relative rounded-md p-2 text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+        title="Notifications"
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-medium text-white">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-80 rounded-lg bg-white shadow-xl ring-1 ring-black ring-opacity-5">
+          <div className="flex items-center justify-between border-b px-4 py-2">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unreadIds.length > 0 && (
+              <button
+                onClick={() => markReadMutation.mutate(unreadIds)}
+                className="text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {(error || mutationError) && (
+            <div className="m-3 rounded-md bg-red-100 p-3 text-sm text-red-700">
+              {(error || mutationError)?.message}
+            </div>
+          )}
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">
+              Save parts to hear when they get cheaper or come back in stock.
+            </p>
+          ) : (
+            <ul className="max-h-96 divide-y overflow-y-auto">
+              {notifications.map(notification => (
+                <li
+                  key={notification.id}
+                  className={`group flex items-start gap-3 px-4 py-3 text-sm ${notification.read_at ? '' : 'bg-blue-50'}`}
+                >
+                  {notification.kind === 'price_drop' ? (
+                    <TrendingDown size={16} className="mt-0.5 shrink-0 text-green-600" />
+                  ) : (
+                    <PackageCheck size={16} className="mt-0.5 shrink-0 text-blue-600" />
+                  )}
+                  <button onClick={() => openNotification(notification)} className="min-w-0 flex-1 text-left">
+                    <span className="block text-gray-900">{notificationMessage(notification)}</span>
+                    <span className="text-xs text-gray-500">{new Date(notification.created_at).toLocaleString()}</span>
+                  </button>
+                  <button
+                    onClick={() => clearMutation.mutate([notification.id])}
+                    className="shrink-0 text-gray-400 opacity-0 hover:text-gray-700 group-hover:opacity-100"
+                    title="Dismiss"
+                  >
+                    <X size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NotificationBell;
@@ -0,0 +1,98 @@
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { orderStatusInfo } from '../lib/orders';
+import { formatMoney } from '../lib/pricing';
+import type { OrderWithItems } from '../lib/orders';
+
+type OrderSummaryProps = {
+  order: OrderWithItems;
+  // Show who placed the order (the staff queue)
+  showCustomer?: boolean;
+  // Buttons for the next steps, shown under the lines
+  children?: ReactNode;
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : null);
+
+function OrderSummary({ order, showCustomer = false, children }: OrderSummaryProps) {
+  const status = orderStatusInfo(order.status);
+  const timeline = [
+    { label: 'Requested', at: order.status === 'quote' || !order.placed_at ? order.created_at : null },
+    { label: 'Placed', at: order.placed_at },
+    { label: 'Paid', at: order.paid_at },
+    { label: 'Shipped', at: order.shipped_at },
+    { label: 'Returned', at: order.returned_at },
+    { label: 'Cancelled', at: order.cancelled_at },
+  ].filter(entry => entry.at);
+
+  return (
+    <div className="rounded-lg bg-white p-6 shadow">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">
+            {order.status === 'quote' ? 'Quote' : 'Order'} {order.order_number}
+          </h2>
+          {showCustomer && <p className="text-sm text-gray-600">{order.customer_email || 'Deleted user'}</p>}
+          <p className="text-xs text-gray-500">
+            {timeline.map(entry => `${entry.label} ${formatDate(entry.at)}`).join(' · ')}
+          </p>
+        </div>
+        <span className={`rounded-full px-3 py-1 text-xs font-medium ${status.badge}`}>{status.label}</span>
+      </div>
+
+      <table className="w-full text-left text-sm">
+        <thead className="text-gray-600">
+          <tr>
+            <th className="pb-2 font-medium">Part</th>
+            <th className="pb-2 text-right font-medium">Unit price</th>
+            <th className="pb-2 text-right font-medium">Qty</th>
+            <th className="pb-2 text-right font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {order.items.map(item => (
+            <tr key={item.id}>
+              <td className="py-2">
+                {item.part_slug ? (
+                  <Link to={`/parts/${item.part_slug}`} className="text-blue-600 hover:underline">{item.itemname}</Link>
+                ) : (
+                  item.itemname
+                )}
+                {item.warranty_months > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">{item.warranty_months}-month warranty</span>
+                )}
+              </td>
+              <td className="py-2 text-right">{formatMoney(item.unit_price, order.currency)}</td>
+              <td className="py-2 text-right">{item.quantity}</td>
+              <td className="py-2 text-right">{formatMoney(item.unit_price * item.quantity, order.currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t">
+            <td className="pt-2" colSpan={3}>Subtotal</td>
+            <td className="pt-2 text-right">{formatMoney(order.subtotal, order.currency)}</td>
+          </tr>
+          <tr>
+            <td colSpan={3}>Tax</td>
+            <td className="text-right">{formatMoney(order.tax_total, order.currency)}</td>
+          </tr>
+          <tr className="font-semibold">
+            <td colSpan={3}>Total</td>
+            <td className="text-right">{formatMoney(Number(order.subtotal) + Number(order.tax_total), order.currency)}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {order.notes && <p className="mt-3 whitespace-pre-line rounded-md bg-gray-50 p-3 text-sm text-gray-700">{order.notes}</p>}
+      {order.payment_reference && (
+        <p className="mt-2 text-xs text-gray-500">
+          Payment {order.payment_reference} via {order.payment_provider}
+        </p>
+      )}
+      {children && <div className="mt-4 flex flex-wrap items-center gap-2 border-t pt-4">{children}</div>}
+    </div>
+  );
+}
+
+export default OrderSummary;
@@ -0,0 +1,393 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { GripVertical, ImagePlus, Loader2, RotateCcw, Star, Trash2, WifiOff, X } from 'lucide-react';
+import { VIEW_TYPES } from '../lib/parts';
+import { deletePartImage, fetchPartImages, partImageUrl, setPrimaryPartImage } from '../lib/partImages';
+import { cancelUpload, enqueueUploads, retryUpload } from '../lib/uploadQueue';
+import { supabase } from '../lib/supabase';
+import { usePartImageUploads } from '../hooks/usePartImageUploads';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import type { PartImage, UploadingImage } from '../types';
+
+type PartGalleryProps = {
+  partSlug: string;
+  partName: string;
+  canEdit: boolean;
+};
+
+type ImageChanges = Partial<Pick<PartImage, 'caption' | 'alt_text' | 'view_type'>>;
+
+const STATUS_LABELS: Record<UploadingImage['status'], MessageKey> = {
+  queued: 'gallery.queued',
+  processing: 'gallery.processing',
+  uploading: 'gallery.uploading',
+  waiting: 'gallery.waiting',
+  failed: 'gallery.failed',
+};
+
+// Move the dragged image to the position of the image it was dropped on
+const moveImage = (images: PartImage[], fromId: string, toId: string) => {
+  const next = [...images];
+  const from = next.findIndex(image => image.id === fromId);
+  const to = next.findIndex(image => image.id === toId);
+  if (from === -1 || to === -1) return images;
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+};
+
+function PartGallery({ partSlug, partName, canEdit }: PartGalleryProps) {
+  const queryClient = useQueryClient();
+  const { t, viewTypeLabel } = useI18n();
+  const queryKey = ['partImages', partSlug];
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [previewImage, setPreviewImage] = useState<PartImage | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, ImageChanges>>({});
+
+  // Fetch the part's gallery
+  const { data: images = [], isLoading, error } = useQuery<PartImage[], Error>({
+    queryKey,
+    queryFn: () => fetchPartImages(partSlug),
+  });
+
+  const refreshPart = () => {
+    queryClient.invalidateQueries(queryKey);
+    queryClient.invalidateQueries(['part', partSlug]);
+    queryClient.invalidateQueries(['parts']);
+  };
+
+  const uploads = usePartImageUploads(partSlug, refreshPart);
+
+  // Close the image preview with Escape
+  useEffect(() => {
+    if (!previewImage) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setPreviewImage(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [previewImage]);
+
+  // Uploads go through the persistent queue, which retries them and resumes
+  // them after a reload or once the connection returns.
+  const uploadFiles = (files: File[]) => {
+    const photos = files.filter(file => file.type.startsWith('image/'));
+    if (photos.length < files.length) alert(t('gallery.onlyImages'));
+    if (photos.length) enqueueUploads(partSlug, photos);
+  };
+
+  // Store a new gallery order, showing it immediately
+  const reorderMutation = useMutation<void, Error, PartImage[], { previous?: PartImage[] }>({
+    mutationFn: async (ordered) => {
+      const { error } = await supabase.rpc('reorder_part_images', {
+        p_part_slug: partSlug,
+        p_ids: ordered.map(image => image.id),
+      });
+
+      if (error) throw error;
+    },
+    onMutate: (ordered) => {
+      const previous = queryClient.getQueryData<PartImage[]>(queryKey);
+      queryClient.setQueryData(queryKey, ordered.map((image, index) => ({ ...image, sort_order: index + 1 })));
+      return { previous };
+    },
+    onError: (_error, _ordered, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries(queryKey);
+    }
+  });
+
+  // Make an image the one shown in listings
+  const primaryMutation = useMutation<void, Error, PartImage>({
+    mutationFn: setPrimaryPartImage,
+    onSuccess: refreshPart
+  });
+
+  // Update caption, alt text or view type
+  const updateMutation = useMutation<void, Error, { image: PartImage; changes: ImageChanges }>({
+    mutationFn: async ({ image, changes }) => {
+      const { error } = await supabase
+        .from('part_images')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', image.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { image }) => {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[image.id];
+        return next;
+      });
+      queryClient.invalidateQueries(queryKey);
+    }
+  });
+
+  // Delete image mutation
+  const deleteMutation = useMutation<void, Error, PartImage>({
+    mutationFn: (image) => deletePartImage(image, images),
+    onSuccess: refreshPart
+  });
+
+  const mutationError = reorderMutation.error ?? primaryMutation.error ?? updateMutation.error ?? deleteMutation.error;
+
+  const draftValue = <K extends keyof ImageChanges>(image: PartImage, field: K) =>
+    drafts[image.id]?.[field] ?? image[field];
+
+  const setDraft = (image: PartImage, changes: ImageChanges) => {
+    setDrafts(prev => ({ ...prev, [image.id]: { ...prev[image.id], ...changes } }));
+  };
+
+  const commitDraft = (image: PartImage) => {
+    const changes = drafts[image.id];
+    if (!changes) return;
+    const changed = (Object.keys(changes) as (keyof ImageChanges)[]).some(field => changes[field] !== image[field]);
+    if (changed) updateMutation.mutate({ image, changes });
+  };
+
+  // Dragging files from the desktop and dragging cards share the same events
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!canEdit) return;
+    event.preventDefault();
+    if (event.dataTransfer.types.includes('Files')) setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    if (canEdit && event.dataTransfer.files.length) {
+      uploadFiles(Array.from(event.dataTransfer.files));
+    }
+  };
+
+  const handleCardDrop = (event: React.DragEvent, target: PartImage) => {
+    if (!draggedId) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (draggedId !== target.id) {
+      reorderMutation.mutate(moveImage(images, draggedId, target.id));
+    }
+    setDraggedId(null);
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    uploadFiles(files);
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDraggingFiles(false)}
+      onDrop={handleDrop}
+    >
+      {(error || mutationError) && (
+        <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+          {error ? t('gallery.loadError', { message: error.message }) : mutationError?.message}
+        </div>
+      )}
+
+      {canEdit && (
+        <label
+          className={`mb-4 flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-sm ${
+            isDraggingFiles ? 'border-blue-400 bg-blue-50 text-blue-700' : 'text-gray-500 hover:border-blue-400 hover:text-gray-700'
+          }`}
+        >
+          <ImagePlus size={24} />
+          {t('gallery.dropHint')}
+          <input type="file" accept="image/*" multiple onChange={handleFileInput} className="hidden" />
+        </label>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="animate-spin text-blue-500" size={24} />
+        </div>
+      ) : images.length === 0 && uploads.length === 0 ? (
+        <p className="rounded-md bg-gray-50 p-6 text-center text-sm text-gray-500">
+          {t('gallery.empty')}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+          {images.map(image => (
+            <div
+              key={image.id}
+              draggable={canEdit}
+              onDragStart={() => setDraggedId(image.id)}
+              onDragEnd={() => setDraggedId(null)}
+              onDrop={(e) => handleCardDrop(e, image)}
+              className={`rounded-md border p-3 ${draggedId === image.id ? 'opacity-50' : ''} ${
+                image.is_primary ? 'border-blue-400 ring-1 ring-blue-400' : ''
+              }`}
+            >
+              <div className="relative mb-2 aspect-square w-full overflow-hidden rounded-md bg-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setPreviewImage(image)}
+                  className="absolute inset-0 h-full w-full cursor-zoom-in"
+                >
+                  <img
+                    src={partImageUrl(image.thumbnail_path ?? image.path)}
+                    alt={image.alt_text || t('gallery.imageAlt', { name: partName, view: viewTypeLabel(image.view_type) })}
+                    loading="lazy"
+                    className="h-full w-full object-cover"
+                  />
+                </button>
+                {image.is_primary && (
+                  <span className="absolute left-2 top-2 rounded-full bg-blue-600 px-2 py-0.5 text-xs font-medium text-white">
+                    {t('gallery.primary')}
+                  </span>
+                )}
+                {canEdit && (
+                  <div className="absolute right-2 top-2 flex gap-1">
+                    {!image.is_primary && (
+                      <button
+                        onClick={() => primaryMutation.mutate(image)}
+                        disabled={primaryMutation.isLoading}
+                        className="rounded-full bg-white p-1.5 text-gray-700 shadow hover:bg-gray-100"
+                        title={t('gallery.makePrimary')}
+                      >
+                        <Star size={14} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        if (confirm(t('gallery.confirmDelete'))) {
+                          deleteMutation.mutate(image);
+                        }
+                      }}
+                      disabled={deleteMutation.isLoading}
+                      className="rounded-full bg-red-600 p-1.5 text-white shadow hover:bg-red-700"
+                      title={t('gallery.delete')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {canEdit ? (
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <GripVertical size={16} className="shrink-0 cursor-grab text-gray-400" />
+                    <select
+                      value={draftValue(image, 'view_type')}
+                      onChange={(e) => updateMutation.mutate({ image, changes: { view_type: e.target.value } })}
+                      className="w-full rounded-md border p-1.5"
+                    >
+                      {VIEW_TYPES.map(viewType => (
+                        <option key={viewType} value={viewType}>
+                          {viewTypeLabel(viewType)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <input
+                    type="text"
+                    value={draftValue(image, 'caption')}
+                    onChange={(e) => setDraft(image, { caption: e.target.value })}
+                    onBlur={() => commitDraft(image)}
+                    placeholder={t('gallery.caption')}
+                    maxLength={200}
+                    className="w-full rounded-md border p-1.5"
+                  />
+                  <input
+                    type="text"
+                    value={draftValue(image, 'alt_text')}
+                    onChange={(e) => setDraft(image, { alt_text: e.target.value })}
+                    onBlur={() => commitDraft(image)}
+                    placeholder={t('gallery.altText')}
+                    maxLength={200}
+                    className="w-full rounded-md border p-1.5"
+                  />
+                </div>
+              ) : (
+                image.caption && <p className="text-sm text-gray-600">{image.caption}</p>
+              )}
+            </div>
+          ))}
+
+          {uploads.map(upload => (
+            <div key={upload.id} className="rounded-md border p-3">
+              <div className="relative flex aspect-square w-full flex-col items-center justify-center gap-2 rounded-md bg-gray-100 p-4 text-center text-sm">
+                {upload.status === 'failed' ? (
+                  <>
+                    <span className="font-medium text-red-700">{t(STATUS_LABELS.failed)}</span>
+                    <span className="text-xs text-red-600">{upload.error}</span>
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => retryUpload(upload.id)}
+                        className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        <RotateCcw size={12} />
+                        {t('gallery.retry')}
+                      </button>
+                      <button
+                        onClick={() => cancelUpload(upload.id)}
+                        className="text-xs font-medium text-gray-600 hover:text-gray-900"
+                      >
+                        {t('gallery.discard')}
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    {upload.status === 'waiting' ? (
+                      <WifiOff className="text-amber-500" size={20} />
+                    ) : (
+                      <Loader2 className="animate-spin text-blue-500" size={20} />
+                    )}
+                    <span className="text-gray-600">{t(STATUS_LABELS[upload.status])}</span>
+                    {upload.status === 'waiting' && (upload.offline || upload.error) && (
+                      <span className="text-xs text-gray-500">{upload.offline ? t('gallery.offline') : upload.error}</span>
+                    )}
+                    {upload.status === 'uploading' && (
+                      <div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-200">
+                        <div className="h-full bg-blue-500" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+                      </div>
+                    )}
+                    <button
+                      onClick={() => cancelUpload(upload.id)}
+                      className="absolute right-2 top-2 rounded-full bg-white p-1.5 text-gray-700 shadow hover:bg-gray-100"
+                      title={t('gallery.cancelUpload')}
+                    >
+                      <X size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+              <p className="mt-2 truncate text-xs text-gray-500">{upload.fileName}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Full-size images load only when opened */}
+      {previewImage && (
+        <div
+          onClick={() => setPreviewImage(null)}
+          className="fixed inset-0 z-50 flex cursor-zoom-out flex-col items-center justify-center gap-3 bg-black bg-opacity-80 p-6"
+        >
+          <img
+            src={partImageUrl(previewImage.path)}
+            alt={previewImage.alt_text || t('gallery.imageAlt', { name: partName, view: viewTypeLabel(previewImage.view_type) })}
+            className="max-h-[85vh] max-w-full rounded-md object-contain shadow-2xl"
+          />
+          {previewImage.caption && <p className="text-sm text-white">{previewImage.caption}</p>}
+          <button
+            onClick={() => setPreviewImage(null)}
+            className="absolute right-4 top-4 rounded-full bg-white p-2 text-gray-700 shadow hover:bg-gray-100"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PartGallery;
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, History, Loader2, RotateCcw } from 'lucide-react';
+import { flattenCategories, formatCategoryPath } from '../lib/categories';
+import { diffRevisions, fetchPartRevisions } from '../lib/partRevisions';
+import type { RevisionChange } from '../lib/partRevisions';
+import { useI18n } from '../hooks/useI18n';
+import type { PartCategory, PartRevision } from '../types';
+
+type PartHistoryProps = {
+  partSlug: string;
+  categories: PartCategory[];
+  onRestore: (revision: PartRevision) => void;
+};
+
+function PartHistory({ partSlug, categories, onRestore }: PartHistoryProps) {
+  const { t, formatDateTime } = useI18n();
+  // The newest revision starts open
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  // Fetch every revision, newest first
+  const { data: revisions = [], isLoading, error } = useQuery<PartRevision[], Error>({
+    queryKey: ['partRevisions', partSlug],
+    queryFn: () => fetchPartRevisions(partSlug),
+  });
+
+  const categoryPaths = useMemo(
+    () => new Map(flattenCategories(categories).map(({ category, path }) => [category.id, formatCategoryPath(path)])),
+    [categories]
+  );
+
+  const formatValue = (change: RevisionChange, value: unknown) => {
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) return '—';
+    if (change.field === 'category_id') return categoryPaths.get(String(value)) ?? t('history.deletedCategory');
+    if (typeof value === 'boolean') return value ? t('history.yes') : t('history.no');
+    if (Array.isArray(value)) return value.join(', ');
+    return String(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="animate-spin text-blue-500" size={24} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-red-100 p-3 text-red-700">
+        {t('history.loadError', { message: error.message })}
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">{t('history.empty')}</p>;
+  }
+
+  return (
+    <ol className="divide-y rounded-md border">
+      {revisions.map((revision, index) => {
+        // Revisions are newest first, so the one before is the next in the list
+        const changes = diffRevisions(revisions[index + 1]?.data ?? null, revision.data);
+        const isOpen = expanded[revision.id] ?? index === 0;
+
+        return (
+          <li key={revision.id} className="p-3 text-sm">
+            <div className="flex items-center justify-between gap-4">
+              <button
+                onClick={() => setExpanded(prev => ({ ...prev, [revision.id]: !isOpen }))}
+                className="flex min-w-0 items-center gap-2 text-left"
+              >
+                {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                <History size={14} className="shrink-0 text-gray-400" />
+                <span className="font-medium text-gray-900">{t('history.revision', { revision: revision.revision })}</span>
+                <span className="truncate text-gray-500">
+                  {formatDateTime(revision.created_at)}
+                  {revision.changed_by_email && ` ${t('history.by', { email: revision.changed_by_email })}`}
+                  {` · ${t(changes.length === 1 ? 'history.oneChange' : 'history.manyChanges', { count: changes.length })}`}
+                </span>
+              </button>
+              {index > 0 && (
+                <button
+                  onClick={() => onRestore(revision)}
+                  className="flex shrink-0 items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                >
+                  <RotateCcw size={12} />
+                  {t('history.restore')}
+                </button>
+              )}
+            </div>
+
+            {isOpen && (
+              changes.length === 0 ? (
+                <p className="mt-2 pl-6 text-gray-500">{t('history.noChanges')}</p>
+              ) : (
+                <table className="mt-2 w-full table-fixed text-left">
+                  <tbody className="align-top">
+                    {changes.map(change => (
+                      <tr key={change.field}>
+                        <td className="w-40 py-1 pl-6 pr-2 text-gray-500">{t(change.labelKey)}</td>
+                        <td className="break-words py-1 pr-2 text-red-700 line-through decoration-red-300">
+                          {formatValue(change, change.before)}
+                        </td>
+                        <td className="break-words py-1 text-green-700">
+                          {formatValue(change, change.after)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default PartHistory;
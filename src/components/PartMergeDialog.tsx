@@ -0,0 +1,153 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { flattenCategories, formatCategoryPath } from '../lib/categories';
+import { REVISION_FIELDS } from '../lib/partRevisions';
+import type { RevisionField } from '../lib/partRevisions';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import type { PartCategory, PartFormValues } from '../types';
+
+type PartMergeDialogProps = {
+  // The values the user started editing from, their edits, and the part as saved now
+  base: PartFormValues;
+  mine: PartFormValues;
+  theirs: PartFormValues;
+  categories: PartCategory[];
+  onResolve: (merged: PartFormValues) => void;
+  onCancel: () => void;
+};
+
+type Side = 'mine' | 'theirs';
+
+const FORM_FIELDS = REVISION_FIELDS.filter(
+  (entry): entry is { field: Exclude<RevisionField, 'is_published'>; labelKey: MessageKey } => entry.field !== 'is_published'
+);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function PartMergeDialog({ base, mine, theirs, categories, onResolve, onCancel }: PartMergeDialogProps) {
+  const { t } = useI18n();
+  const categoryPaths = useMemo(
+    () => new Map(flattenCategories(categories).map(({ category, path }) => [category.id, formatCategoryPath(path)])),
+    [categories]
+  );
+
+  // Only fields where the two versions disagree need a decision
+  const fields = FORM_FIELDS
+    .filter(({ field }) => !same(mine[field], theirs[field]))
+    .map(entry => ({
+      ...entry,
+      changedByMe: !same(mine[entry.field], base[entry.field]),
+      changedByThem: !same(theirs[entry.field], base[entry.field]),
+    }));
+
+  // Keep each side's own edits; where both edited a field, start from mine
+  const [choices, setChoices] = useState<Partial<Record<keyof PartFormValues, Side>>>(() =>
+    Object.fromEntries(fields.map(({ field, changedByMe }) => [field, changedByMe ? 'mine' : 'theirs']))
+  );
+
+  const formatValue = (field: keyof PartFormValues, value: PartFormValues[keyof PartFormValues]) => {
+    if (field === 'category_id') return value ? categoryPaths.get(String(value)) ?? t('history.deletedCategory') : '—';
+    if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+    return value === '' || value === null || value === undefined ? '—' : String(value);
+  };
+
+  const chooseAll = (side: Side) => {
+    setChoices(Object.fromEntries(fields.map(({ field }) => [field, side])));
+  };
+
+  const handleResolve = () => {
+    const merged = { ...theirs };
+    fields.forEach(({ field }) => {
+      if (choices[field] === 'mine') Object.assign(merged, { [field]: mine[field] });
+    });
+    onResolve(merged);
+  };
+
+  const renderOption = (field: keyof PartFormValues, side: Side, values: PartFormValues) => (
+    <label
+      className={`flex cursor-pointer items-start gap-2 rounded-md border p-2 ${
+        choices[field] === side ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+      }`}
+    >
+      <input
+        type="radio"
+        name={`merge-${field}`}
+        checked={choices[field] === side}
+        onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+        className="mt-1"
+      />
+      <span className="min-w-0 whitespace-pre-wrap break-words">{formatValue(field, values[field])}</span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-lg bg-white shadow-xl">
+        <div className="border-b p-6">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <AlertTriangle className="text-amber-500" size={20} />
+            {t('merge.title')}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            {t('merge.intro')}
+          </p>
+        </div>
+
+        <div className="overflow-y-auto p-6">
+          {fields.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              {t('merge.alreadyMatches')}
+            </p>
+          ) : (
+            <table className="w-full table-fixed text-left text-sm">
+              <thead className="text-gray-600">
+                <tr>
+                  <th className="w-40 pb-2 font-medium">{t('merge.field')}</th>
+                  <th className="pb-2 pr-2 font-medium">{t('merge.mine')}</th>
+                  <th className="pb-2 font-medium">{t('merge.theirs')}</th>
+                </tr>
+              </thead>
+              <tbody className="align-top">
+                {fields.map(({ field, labelKey, changedByMe, changedByThem }) => (
+                  <tr key={field} className={changedByMe && changedByThem ? 'bg-amber-50' : ''}>
+                    <td className="py-1.5 pr-2 text-gray-700">{t(labelKey)}</td>
+                    <td className="py-1.5 pr-2">{renderOption(field, 'mine', mine)}</td>
+                    <td className="py-1.5">{renderOption(field, 'theirs', theirs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t p-4">
+          <div className="flex gap-3 text-sm font-medium">
+            <button onClick={() => chooseAll('mine')} className="text-gray-600 hover:text-gray-900">
+              {t('merge.keepAllMine')}
+            </button>
+            <button onClick={() => chooseAll('theirs')} className="text-gray-600 hover:text-gray-900">
+              {t('merge.takeAllTheirs')}
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              {t('merge.cancel')}
+            </button>
+            <button
+              onClick={handleResolve}
+              className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              {t('merge.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PartMergeDialog;
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Languages, Loader2, Trash2 } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { TRANSLATION_LOCALES, localeLabel } from '../lib/i18n';
+import { PART_LIMITS } from '../lib/partSchema';
+import { EMPTY_TRANSLATION, deletePartTranslation, fetchPartTranslations, savePartTranslation } from '../lib/partTranslations';
+import type { TranslatableFields } from '../lib/partTranslations';
+import type { PartRow, PartTranslation } from '../types';
+
+type PartTranslationsProps = {
+  part: PartRow;
+};
+
+function PartTranslations({ part }: PartTranslationsProps) {
+  const queryClient = useQueryClient();
+  const { t, formatDate } = useI18n();
+  const partSlug = part.part_slug;
+  const [locale, setLocale] = useState<string>(TRANSLATION_LOCALES[0].code);
+  const [fields, setFields] = useState<TranslatableFields>(EMPTY_TRANSLATION);
+
+  // Fetch every translation of the part
+  const { data: translations = [], isLoading, error } = useQuery<PartTranslation[], Error>({
+    queryKey: ['partTranslations', partSlug],
+    queryFn: () => fetchPartTranslations(partSlug),
+  });
+
+  const current = translations.find(entry => entry.locale === locale);
+
+  useEffect(() => {
+    setFields(current ? { itemname: current.itemname, description: current.description, key_features: current.key_features } : EMPTY_TRANSLATION);
+  }, [current]);
+
+  const invalidateTranslations = () => {
+    queryClient.invalidateQueries(['partTranslations', partSlug]);
+    queryClient.invalidateQueries(['storefrontPart', partSlug]);
+  };
+
+  const validationError =
+    fields.itemname.length > PART_LIMITS.itemname
+      ? t('translations.tooLong', { field: t('field.itemname'), max: PART_LIMITS.itemname })
+      : fields.description.length > PART_LIMITS.description
+        ? t('translations.tooLong', { field: t('field.description'), max: PART_LIMITS.description })
+        : fields.key_features.length > PART_LIMITS.keyFeatures
+          ? t('translations.featuresTooMany', { max: PART_LIMITS.keyFeatures })
+          : fields.key_features.some(feature => feature.length > PART_LIMITS.keyFeatureLength)
+            ? t('translations.tooLong', { field: t('field.keyFeatures'), max: PART_LIMITS.keyFeatureLength })
+            : null;
+
+  const saveMutation = useMutation<void, Error>({
+    mutationFn: () => savePartTranslation(partSlug, locale, fields),
+    onSuccess: invalidateTranslations,
+  });
+
+  const deleteMutation = useMutation<void, Error>({
+    mutationFn: () => deletePartTranslation(partSlug, locale),
+    onSuccess: invalidateTranslations,
+  });
+
+  const mutationError = saveMutation.error ?? deleteMutation.error;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="animate-spin text-blue-500" size={24} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-red-100 p-3 text-red-700">
+        {t('translations.loadError', { message: error.message })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{t('translations.intro')}</p>
+
+      <div className="flex flex-wrap gap-2">
+        {TRANSLATION_LOCALES.map(entry => {
+          const translated = translations.some(translation => translation.locale === entry.code);
+          return (
+            <button
+              key={entry.code}
+              onClick={() => {
+                setLocale(entry.code);
+                saveMutation.reset();
+                deleteMutation.reset();
+              }}
+              className={`flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium ${
+                entry.code === locale ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <Languages size={14} />
+              {entry.label}
+              {!translated && <span className="text-xs font-normal text-gray-400">({t('translations.notTranslated')})</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate();
+        }}
+        className="space-y-4"
+        lang={locale}
+      >
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('field.itemname')}</label>
+          <input
+            type="text"
+            value={fields.itemname}
+            onChange={(e) => setFields(prev => ({ ...prev, itemname: e.target.value }))}
+            placeholder={part.itemname}
+            className="w-full rounded-md border p-2"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('field.description')}</label>
+          <textarea
+            value={fields.description}
+            onChange={(e) => setFields(prev => ({ ...prev, description: e.target.value }))}
+            placeholder={part.description}
+            className="w-full rounded-md border p-2 h-24"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('field.keyFeatures')}</label>
+          <textarea
+            value={fields.key_features.join('\n')}
+            onChange={(e) => setFields(prev => ({ ...prev, key_features: e.target.value.split('\n').filter(f => f.trim()) }))}
+            placeholder={part.key_features.join('\n')}
+            className="w-full rounded-md border p-2 h-24"
+          />
+        </div>
+
+        {(validationError || mutationError) && (
+          <div className="rounded-md bg-red-100 p-3 text-red-700">{validationError ?? mutationError?.message}</div>
+        )}
+        {saveMutation.isSuccess && (
+          <div className="rounded-md bg-green-100 p-3 text-green-700">{t('translations.saved')}</div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="submit"
+            disabled={saveMutation.isLoading || !!validationError}
+            className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+          >
+            {saveMutation.isLoading && <Loader2 className="animate-spin" size={16} />}
+            {t('translations.save')}
+          </button>
+          {current && (
+            <>
+              <button
+                type="button"
+                onClick={() => {
+                  if (confirm(t('translations.confirmRemove', { language: localeLabel(locale) }))) deleteMutation.mutate();
+                }}
+                disabled={deleteMutation.isLoading}
+                className="flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-40"
+              >
+                <Trash2 size={16} />
+                {t('translations.remove')}
+              </button>
+              <span className="text-xs text-gray-500">
+                {t('translations.updated', { date: formatDate(current.updated_at) })}
+              </span>
+            </>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default PartTranslations;
@@ -0,0 +1,47 @@
+import { Users } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import type { PartViewer } from '../types';
+
+type PresenceBarProps = {
+  viewers: PartViewer[];
+};
+
+const initials = (email: string) => email.slice(0, 2).toUpperCase();
+
+function PresenceBar({ viewers }: PresenceBarProps) {
+  const { t } = useI18n();
+
+  if (viewers.length === 0) return null;
+
+  const editors = viewers.filter(viewer => viewer.editing);
+
+  return (
+    <div className="mb-4 flex items-center gap-3 rounded-md bg-white px-4 py-2 text-sm text-gray-600 shadow">
+      <Users size={16} className="shrink-0 text-gray-400" />
+      <div className="flex -space-x-2">
+        {viewers.map(viewer => (
+          <span
+            key={viewer.userId}
+            title={t(viewer.editing ? 'presence.editing' : 'presence.viewing', { email: viewer.email })}
+            className={`flex h-7 w-7 items-center justify-center rounded-full border-2 border-white text-xs font-medium ${
+              viewer.editing ? 'bg-amber-100 text-amber-800' : 'bg-blue-100 text-blue-800'
+            }`}
+          >
+            {initials(viewer.email)}
+          </span>
+        ))}
+      </div>
+      <span className="truncate">
+        {editors.length > 0
+          ? t(editors.length === 1 ? 'presence.oneEditor' : 'presence.manyEditors', {
+            names: editors.map(viewer => viewer.email).join(', '),
+          })
+          : t(viewers.length === 1 ? 'presence.oneViewer' : 'presence.manyViewers', {
+            names: viewers.map(viewer => viewer.email).join(', '),
+          })}
+      </span>
+    </div>
+  );
+}
+
+export default PresenceBar;
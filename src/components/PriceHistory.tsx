@@ -0,0 +1,91 @@
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { fetchPriceHistory, fetchWasPrice, formatMoney } from '../lib/pricing';
+import { useI18n } from '../hooks/useI18n';
+import type { PartRow, PriceChange } from '../types';
+
+type PriceHistoryProps = {
+  part: PartRow;
+};
+
+function PriceHistory({ part }: PriceHistoryProps) {
+  const { t, formatDateTime } = useI18n();
+  const partSlug = part.part_slug;
+  // Refetch when a save changes the price
+  const priceKey = `${part.price}:${part.currency}`;
+
+  // Fetch every recorded price, newest first
+  const { data: changes = [], isLoading, error } = useQuery<PriceChange[], Error>({
+    queryKey: ['priceHistory', partSlug, priceKey],
+    queryFn: () => fetchPriceHistory(partSlug),
+  });
+
+  // Fetch the "was" price the storefront shows
+  const { data: wasPrice } = useQuery<number | null, Error>({
+    queryKey: ['wasPrice', partSlug, priceKey],
+    queryFn: () => fetchWasPrice(partSlug),
+  });
+
+  // The prices are styled, so they stand in for the message's placeholders as elements
+  const saleNote = (was: number) =>
+    t('prices.onSale').split(/(\{was\}|\{now\})/).map((piece, index) =>
+      piece === '{was}' ? (
+        <s key={index}>{formatMoney(was, part.currency)}</s>
+      ) : piece === '{now}' ? (
+        <span key={index} className="font-medium text-red-700">{formatMoney(part.price, part.currency)}</span>
+      ) : (
+        piece
+      )
+    );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        {wasPrice ? saleNote(wasPrice) : t('prices.notOnSale')}
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="animate-spin text-blue-500" size={24} />
+        </div>
+      ) : error ? (
+        <div className="rounded-md bg-red-100 p-3 text-red-700">
+          {t('prices.loadError', { message: error.message })}
+        </div>
+      ) : changes.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('prices.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-3 py-2 font-medium">{t('prices.when')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('prices.from')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('prices.to')}</th>
+                <th className="px-3 py-2 font-medium">{t('prices.by')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {changes.map(change => (
+                <tr key={change.id}>
+                  <td className="whitespace-nowrap px-3 py-2 text-gray-600">
+                    {formatDateTime(change.changed_at)}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-600">
+                    {change.old_price === null || !change.old_currency
+                      ? t('prices.opening')
+                      : formatMoney(change.old_price, change.old_currency)}
+                  </td>
+                  <td className="px-3 py-2 text-right font-medium">{formatMoney(change.new_price, change.new_currency)}</td>
+                  <td className="px-3 py-2 text-gray-600">{change.changed_by_email ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PriceHistory;
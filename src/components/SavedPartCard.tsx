@@ -0,0 +1,45 @@
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { ImageOff } from 'lucide-react';
+import { listImageUrl } from '../lib/partImages';
+import { availableStock } from '../lib/stock';
+import { usePricing } from '../hooks/usePricing';
+import type { SavedPartSummary } from '../lib/savedItems';
+
+type SavedPartCardProps = {
+  part: SavedPartSummary;
+  // Controls shown under the details, e.g. moving the part between lists
+  children?: ReactNode;
+};
+
+function SavedPartCard({ part, children }: SavedPartCardProps) {
+  const available = availableStock(part);
+  const { displayPrice } = usePricing();
+
+  return (
+    <div className="overflow-hidden rounded-lg bg-white shadow">
+      <Link to={`/parts/${part.part_slug}`} className="block transition-opacity hover:opacity-90">
+        <div className="flex aspect-video items-center justify-center bg-gray-100 text-gray-400">
+          {listImageUrl(part) ? (
+            <img src={listImageUrl(part)} alt={part.primary_image[0]?.alt_text || part.itemname} className="h-full w-full object-cover" />
+          ) : (
+            <ImageOff size={24} />
+          )}
+        </div>
+        <div className="space-y-1 p-4 pb-2">
+          <h3 className="font-semibold text-gray-900">{part.itemname || 'Untitled Part'}</h3>
+          <p className="text-sm text-gray-600">{[part.make, part.model].filter(Boolean).join(' ')}</p>
+          <div className="flex items-center justify-between pt-2">
+            <span className="text-lg font-bold text-gray-900">{displayPrice(part.price ?? 0, part.currency)}</span>
+            <span className={`text-sm font-medium ${available > 0 ? 'text-green-700' : 'text-red-600'}`}>
+              {available > 0 ? `${available} in stock` : 'Out of stock'}
+            </span>
+          </div>
+        </div>
+      </Link>
+      {children && <div className="px-4 pb-4">{children}</div>}
+    </div>
+  );
+}
+
+export default SavedPartCard;
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, Package, Truck } from 'lucide-react';
+import { estimateShipping, fetchShippingConfig, serviceLevelLabel, toShippableItem } from '../lib/shipping';
+import type { ShippableItem, ShippingConfig, ShippingEstimate as Estimate } from '../lib/shipping';
+import { formatMoney } from '../lib/pricing';
+import type { CartLine } from '../lib/orders';
+
+type ShippingEstimateProps = {
+  lines: CartLine[];
+};
+
+function ShippingEstimate({ lines }: ShippingEstimateProps) {
+  const [zoneCode, setZoneCode] = useState('');
+
+  // Fetch boxes, carriers, zones and rate tables
+  const { data: config, error: configError } = useQuery<ShippingConfig, Error>({
+    queryKey: ['shippingConfig'],
+    queryFn: fetchShippingConfig,
+  });
+
+  const zone = config?.zones.find(entry => entry.code === zoneCode) ?? config?.zones[0];
+
+  // One item per unit; parts without usable weight or dimensions are listed separately
+  const items: ShippableItem[] = [];
+  const unshippable: string[] = [];
+  for (const line of lines) {
+    const item = line.part && toShippableItem({ ...line.part, part_slug: line.part_slug });
+    if (item) items.push(...Array.from({ length: line.quantity }, () => item));
+    else unshippable.push(line.part?.itemname ?? line.part_slug);
+  }
+
+  // Fetch quotes whenever the cart or zone changes
+  const { data: estimate, isLoading, error } = useQuery<Estimate, Error>({
+    queryKey: ['shippingEstimate', zone?.code, items.map(item => item.partSlug)],
+    queryFn: () => estimateShipping(items, zone!, config!),
+    enabled: !!config && !!zone && items.length > 0,
+  });
+
+  const unpacked = [...new Set(estimate?.unpacked.map(item => item.itemname))];
+
+  return (
+    <div className="rounded-lg bg-white p-6 shadow">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="flex items-center gap-2 text-lg font-semibold">
+          <Truck size={20} />
+          Shipping Estimate
+        </h2>
+        {config && config.zones.length > 1 && (
+          <select
+            value={zone?.code ?? ''}
+            onChange={(e) => setZoneCode(e.target.value)}
+            className="rounded-md border p-2 text-sm"
+            aria-label="Shipping zone"
+          >
+            {config.zones.map(entry => (
+              <option key={entry.code} value={entry.code}>{entry.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {(configError || error) && (
+        <div className="mb-3 rounded-md bg-red-100 p-3 text-red-700">{(configError || error)?.message}</div>
+      )}
+
+      {[...unshippable, ...unpacked].length > 0 && (
+        <div className="mb-3 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+          Not included, ask us for a quote: {[...unshippable, ...unpacked].join(', ')}
+        </div>
+      )}
+
+      {items.length > 0 && isLoading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="animate-spin text-gray-400" size={24} />
+        </div>
+      ) : estimate && estimate.packages.length > 0 && (
+        <>
+          <p className="mb-3 flex items-center gap-2 text-sm text-gray-600">
+            <Package size={16} />
+            {estimate.packages.length} {estimate.packages.length === 1 ? 'box' : 'boxes'}:{' '}
+            {estimate.packages.map(pkg => `${pkg.box.name} (${pkg.weightKg.toFixed(1)} kg)`).join(', ')}
+          </p>
+          {estimate.quotes.length === 0 ? (
+            <p className="text-sm text-gray-600">No carrier ships this order to {zone?.name}.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {estimate.quotes.map(quote => (
+                <li key={`${quote.carrierCode}-${quote.serviceLevel}`} className="flex justify-between py-2">
+                  <span>
+                    {quote.carrierName} {serviceLevelLabel(quote.serviceLevel)}
+                    <span className="ml-2 text-gray-500">
+                      {quote.minDays === quote.maxDays ? quote.minDays : `${quote.minDays}–${quote.maxDays}`} days
+                    </span>
+                  </span>
+                  <span className="font-medium">{formatMoney(quote.price, quote.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {estimate.errors.map(message => (
+            <p key={message} className="mt-2 text-xs text-red-600">{message}</p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ShippingEstimate;
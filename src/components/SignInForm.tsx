@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import type { Provider } from '@supabase/supabase-js';
+import { KeyRound, Loader2, Mail } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import {
+  MIN_PASSWORD_LENGTH,
+  OAUTH_PROVIDERS,
+  SSO_ENABLED,
+  providerLabel,
+  sendMagicLink,
+  sendPasswordReset,
+  signInWithPassword,
+  signInWithProvider,
+  signInWithSso,
+  signUpWithPassword,
+} from '../lib/auth';
+
+type SignInMode = 'signIn' | 'signUp' | 'magicLink' | 'reset' | 'sso';
+
+type SignInFormProps = {
+  // Prefilled when signing in again after the session expired
+  defaultEmail?: string;
+};
+
+// Password, email link, OAuth and SSO sign-in. Used by the sign-in page and
+// the session-expired dialog.
+function SignInForm({ defaultEmail = '' }: SignInFormProps) {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<SignInMode>('signIn');
+  const [email, setEmail] = useState(defaultEmail);
+  const [password, setPassword] = useState('');
+
+  const needsPassword = mode === 'signIn' || mode === 'signUp';
+  const passwordError =
+    mode === 'signUp' && password && password.length < MIN_PASSWORD_LENGTH
+      ? t('auth.passwordTooShort', { min: MIN_PASSWORD_LENGTH })
+      : null;
+
+  // Resolves to a notice to show, e.g. "check your email"
+  const submitMutation = useMutation<string | null, Error>({
+    mutationFn: async () => {
+      switch (mode) {
+        case 'signIn':
+          await signInWithPassword(email, password);
+          return null;
+        case 'signUp':
+          return (await signUpWithPassword(email, password)) ? t('auth.confirmEmail', { email }) : null;
+        case 'magicLink':
+          await sendMagicLink(email);
+          return t('auth.magicLinkSent', { email });
+        case 'reset':
+          await sendPasswordReset(email);
+          return t('auth.resetSent', { email });
+        case 'sso':
+          await signInWithSso(email);
+          return null;
+      }
+    },
+    meta: { requiresSession: false },
+  });
+
+  const providerMutation = useMutation<void, Error, Provider>({
+    mutationFn: signInWithProvider,
+    meta: { requiresSession: false },
+  });
+
+  const switchMode = (next: SignInMode) => {
+    setMode(next);
+    setPassword('');
+    submitMutation.reset();
+  };
+
+  const error = submitMutation.error ?? providerMutation.error;
+
+  return (
+    <div className="space-y-6">
+      {OAUTH_PROVIDERS.length > 0 && (
+        <>
+          <div className="space-y-2">
+            {OAUTH_PROVIDERS.map(provider => (
+              <button
+                key={provider}
+                onClick={() => providerMutation.mutate(provider)}
+                disabled={providerMutation.isLoading}
+                className="flex w-full justify-center rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {t('auth.continueWith', { provider: providerLabel(provider) })}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-xs uppercase text-gray-400">
+            <div className="h-px flex-1 bg-gray-200" />
+            {t('auth.or')}
+            <div className="h-px flex-1 bg-gray-200" />
+          </div>
+        </>
+      )}
+
+      {(mode === 'signIn' || mode === 'magicLink') && (
+        <div className="flex gap-1 rounded-md bg-gray-100 p-1">
+          {(['signIn', 'magicLink'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => switchMode(option)}
+              className={`flex flex-1 items-center justify-center gap-2 rounded px-3 py-1.5 text-sm font-medium ${
+                mode === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option === 'signIn' ? <KeyRound size={14} /> : <Mail size={14} />}
+              {option === 'signIn' ? t('auth.passwordTab') : t('auth.magicLinkTab')}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitMutation.mutate();
+        }}
+        className="space-y-4"
+      >
+        {mode === 'sso' && <p className="text-sm text-gray-600">{t('auth.ssoHint')}</p>}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('auth.email')}</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+            className="w-full rounded-md border p-2"
+          />
+        </div>
+        {needsPassword && (
+          <div>
+            <div className="mb-1 flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700">{t('auth.password')}</label>
+              {mode === 'signIn' && (
+                <button type="button" onClick={() => switchMode('reset')} className="text-xs text-blue-600 hover:text-blue-700">
+                  {t('auth.forgotPassword')}
+                </button>
+              )}
+            </div>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+              required
+              className={`w-full rounded-md border p-2 ${passwordError ? 'border-red-500' : ''}`}
+            />
+            {passwordError && <p className="mt-1 text-sm text-red-600">{passwordError}</p>}
+          </div>
+        )}
+
+        {error && <div className="rounded-md bg-red-100 p-3 text-red-700">{error.message}</div>}
+        {submitMutation.data && (
+          <div className="rounded-md bg-green-100 p-3 text-green-700">{submitMutation.data}</div>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitMutation.isLoading || !!passwordError}
+          className="flex w-full items-center justify-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {submitMutation.isLoading && <Loader2 className="animate-spin" size={16} />}
+          {{
+            signIn: t('auth.signIn'),
+            signUp: t('auth.signUp'),
+            magicLink: t('auth.sendMagicLink'),
+            reset: t('auth.sendReset'),
+            sso: t('auth.sso'),
+          }[mode]}
+        </button>
+      </form>
+
+      <div className="flex flex-col items-center gap-2 text-sm">
+        {mode === 'signIn' || mode === 'magicLink' ? (
+          <button onClick={() => switchMode('signUp')} className="text-blue-600 hover:text-blue-700">
+            {t('auth.noAccount')}
+          </button>
+        ) : (
+          <button onClick={() => switchMode('signIn')} className="text-blue-600 hover:text-blue-700">
+            {mode === 'signUp' ? t('auth.haveAccount') : t('auth.backToSignIn')}
+          </button>
+        )}
+        {SSO_ENABLED && mode !== 'sso' && (
+          <button onClick={() => switchMode('sso')} className="text-gray-600 hover:text-gray-900">
+            {t('auth.sso')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SignInForm;
@@ -0,0 +1,307 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, PackagePlus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  DEFAULT_REORDER_THRESHOLD,
+  STOCK_MOVEMENT_KINDS,
+  availableStock,
+  fetchStockMovements,
+  movesReservedStock,
+  recordStockMovement,
+  stockMovementKey,
+} from '../lib/stock';
+import { useI18n } from '../hooks/useI18n';
+import type { PartRow, StockMovement, StockMovementKind } from '../types';
+
+type StockPanelProps = {
+  part: PartRow;
+};
+
+type MovementForm = {
+  kind: StockMovementKind;
+  quantity: string;
+  reason: string;
+  reference: string;
+};
+
+const EMPTY_MOVEMENT: MovementForm = { kind: 'receipt', quantity: '', reason: '', reference: '' };
+
+function StockPanel({ part }: StockPanelProps) {
+  const queryClient = useQueryClient();
+  const { t, formatDateTime } = useI18n();
+  const partSlug = part.part_slug;
+  const [movement, setMovement] = useState<MovementForm>(EMPTY_MOVEMENT);
+  const [threshold, setThreshold] = useState(part.reorder_threshold?.toString() ?? '');
+
+  // Fetch the ledger, newest first
+  const { data: movements = [], isLoading, error } = useQuery<StockMovement[], Error>({
+    queryKey: ['stockMovements', partSlug],
+    queryFn: () => fetchStockMovements(partSlug),
+  });
+
+  // Stock can change elsewhere (another editor, an order); the part arrives
+  // over Realtime, so refetch the ledger when its levels move
+  const stockLevel = `${part.stock_quantity}:${part.reserved_quantity}`;
+  const stockLevelRef = useRef(stockLevel);
+  useEffect(() => {
+    if (stockLevelRef.current === stockLevel) return;
+    stockLevelRef.current = stockLevel;
+    queryClient.invalidateQueries(['stockMovements', partSlug]);
+  }, [queryClient, partSlug, stockLevel]);
+
+  useEffect(() => {
+    setThreshold(part.reorder_threshold?.toString() ?? '');
+  }, [part.reorder_threshold]);
+
+  const kindLabel = (kind: StockMovementKind) => {
+    const key = stockMovementKey(kind);
+    return key ? t(key) : kind;
+  };
+
+  const kindInfo = STOCK_MOVEMENT_KINDS.find(entry => entry.kind === movement.kind)!;
+  const quantity = Number(movement.quantity);
+  const quantityError = movement.quantity === ''
+    ? null
+    : !Number.isInteger(quantity) || quantity === 0
+      ? t('stock.nonZero')
+      : kindInfo.direction !== 0 && quantity < 0
+        ? t('stock.positive')
+        : null;
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries(['part', partSlug]);
+    queryClient.invalidateQueries(['stockMovements', partSlug]);
+    queryClient.invalidateQueries(['lowStockParts']);
+    queryClient.invalidateQueries(['parts']);
+  };
+
+  // Record a movement
+  const recordMutation = useMutation<StockMovement, Error>({
+    mutationFn: () => {
+      if (movement.quantity === '' || quantityError) throw new Error(quantityError ?? t('stock.quantityRequired'));
+      if (movement.kind === 'adjustment' && !movement.reason.trim()) {
+        throw new Error(t('stock.reasonRequired'));
+      }
+      return recordStockMovement({
+        partSlug,
+        kind: movement.kind,
+        quantity,
+        reason: movement.reason,
+        reference: movement.reference,
+      });
+    },
+    onSuccess: () => {
+      setMovement(prev => ({ ...EMPTY_MOVEMENT, kind: prev.kind }));
+      invalidateStock();
+    },
+  });
+
+  // Save the reorder threshold; blank falls back to the dashboard default
+  const thresholdMutation = useMutation<PartRow, Error>({
+    mutationFn: async () => {
+      const value = threshold.trim() === '' ? null : Number(threshold);
+      if (value !== null && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(t('stock.thresholdInvalid'));
+      }
+
+      const { data, error } = await supabase
+        .from('vehicle_parts')
+        .update({ reorder_threshold: value })
+        .eq('part_slug', partSlug)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as PartRow;
+    },
+    onSuccess: (savedPart) => {
+      queryClient.setQueryData(['part', partSlug], savedPart);
+      queryClient.invalidateQueries(['lowStockParts']);
+    },
+  });
+
+  const available = availableStock(part);
+  const reorderAt = part.reorder_threshold ?? DEFAULT_REORDER_THRESHOLD;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="rounded-md bg-gray-50 p-3">
+          <div className="text-2xl font-semibold text-gray-900">{part.stock_quantity}</div>
+          <div className="text-xs text-gray-500">{t('stock.onHand')}</div>
+        </div>
+        <div className="rounded-md bg-gray-50 p-3">
+          <div className="text-2xl font-semibold text-gray-900">{part.reserved_quantity}</div>
+          <div className="text-xs text-gray-500">{t('stock.reserved')}</div>
+        </div>
+        <div className={`rounded-md p-3 ${available <= reorderAt ? 'bg-amber-50' : 'bg-gray-50'}`}>
+          <div className={`text-2xl font-semibold ${available <= reorderAt ? 'text-amber-700' : 'text-gray-900'}`}>
+            {available}
+          </div>
+          <div className="text-xs text-gray-500">{t('stock.available')}</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('stock.reorderThreshold')}
+          </label>
+          <input
+            type="number"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            placeholder={t('stock.defaultThreshold', { count: DEFAULT_REORDER_THRESHOLD })}
+            className="w-40 rounded-md border p-2"
+            min="0"
+          />
+        </div>
+        <button
+          onClick={() => thresholdMutation.mutate()}
+          disabled={thresholdMutation.isLoading || threshold === (part.reorder_threshold?.toString() ?? '')}
+          className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {t('stock.saveThreshold')}
+        </button>
+        <p className="w-full text-xs text-gray-500">
+          {t('stock.thresholdHint')}
+        </p>
+        {thresholdMutation.error && (
+          <div className="w-full rounded-md bg-red-100 p-3 text-red-700">
+            {thresholdMutation.error.message}
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          recordMutation.mutate();
+        }}
+        className="space-y-3 rounded-md border p-4"
+      >
+        <h3 className="font-medium text-gray-900">{t('stock.recordMovement')}</h3>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('stock.type')}</label>
+            <select
+              value={movement.kind}
+              onChange={(e) => setMovement(prev => ({ ...prev, kind: e.target.value as StockMovementKind }))}
+              className="w-full rounded-md border p-2"
+            >
+              {STOCK_MOVEMENT_KINDS.map(entry => (
+                <option key={entry.kind} value={entry.kind}>{t(entry.labelKey)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {kindInfo.direction === 0 ? t('stock.change') : t('stock.quantity')}
+            </label>
+            <input
+              type="number"
+              value={movement.quantity}
+              onChange={(e) => setMovement(prev => ({ ...prev, quantity: e.target.value }))}
+              className="w-full rounded-md border p-2"
+              min={kindInfo.direction === 0 ? undefined : 1}
+              step="1"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('stock.reason')}{movement.kind === 'adjustment' && '*'}
+            </label>
+            <input
+              type="text"
+              value={movement.reason}
+              onChange={(e) => setMovement(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder={t(kindInfo.descriptionKey)}
+              className="w-full rounded-md border p-2"
+              maxLength={500}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('stock.reference')}</label>
+            <input
+              type="text"
+              value={movement.reference}
+              onChange={(e) => setMovement(prev => ({ ...prev, reference: e.target.value }))}
+              placeholder={t('stock.referencePlaceholder')}
+              className="w-full rounded-md border p-2"
+              maxLength={100}
+            />
+          </div>
+        </div>
+        {quantityError && <p className="text-xs text-red-600">{quantityError}</p>}
+        {recordMutation.error && (
+          <div className="rounded-md bg-red-100 p-3 text-red-700">
+            {recordMutation.error.message}
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={recordMutation.isLoading}
+          className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {recordMutation.isLoading ? <Loader2 className="animate-spin" size={16} /> : <PackagePlus size={16} />}
+          {t('stock.recordKind', { kind: kindLabel(movement.kind).toLowerCase() })}
+        </button>
+      </form>
+
+      <div>
+        <h3 className="mb-2 font-medium text-gray-900">{t('stock.movements')}</h3>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="animate-spin text-blue-500" size={24} />
+          </div>
+        ) : error ? (
+          <div className="rounded-md bg-red-100 p-3 text-red-700">
+            {t('stock.loadError', { message: error.message })}
+          </div>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('stock.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 font-medium">{t('stock.when')}</th>
+                  <th className="px-3 py-2 font-medium">{t('stock.type')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('stock.changeColumn')}</th>
+                  <th className="px-3 py-2 font-medium">{t('stock.reason')}</th>
+                  <th className="px-3 py-2 font-medium">{t('stock.reference')}</th>
+                  <th className="px-3 py-2 font-medium">{t('stock.by')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {movements.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="whitespace-nowrap px-3 py-2 text-gray-600">
+                      {formatDateTime(entry.created_at)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {kindLabel(entry.kind)}
+                      {movesReservedStock(entry.kind) && (
+                        <span className="ml-1 text-xs text-gray-500">{t('stock.reservedTag')}</span>
+                      )}
+                    </td>
+                    <td className={`px-3 py-2 text-right font-medium ${entry.quantity > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                      {entry.quantity > 0 ? `+${entry.quantity}` : entry.quantity}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{entry.reason || '—'}</td>
+                    <td className="px-3 py-2 text-gray-700">{entry.reference || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">{entry.created_by_email || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default StockPanel;
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, ScanLine, XCircle } from 'lucide-react';
+import { decodeVin, validateVin } from '../lib/vin';
+import { useI18n } from '../hooks/useI18n';
+import type { DecodedVin } from '../lib/vin';
+
+type VinDecoderProps = {
+  applyLabel: string;
+  onApply: (decoded: DecodedVin) => void;
+};
+
+function VinDecoder({ applyLabel, onApply }: VinDecoderProps) {
+  const { t, formatRegion } = useI18n();
+  const [vinInput, setVinInput] = useState('');
+  const validation = vinInput.trim() ? validateVin(vinInput) : null;
+  const decoded = validation?.valid ? decodeVin(validation.vin) : null;
+
+  return (
+    <div className="rounded-md border border-dashed p-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {t('vin.label')}
+      </label>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+          <input
+            type="text"
+            value={vinInput}
+            onChange={(e) => setVinInput(e.target.value.toUpperCase())}
+            placeholder={t('vin.placeholder')}
+            maxLength={21}
+            spellCheck={false}
+            className="w-full rounded-md border p-2 pl-10 font-mono tracking-wider"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => decoded && onApply(decoded)}
+          disabled={!decoded}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {applyLabel}
+        </button>
+      </div>
+
+      {validation && !validation.valid && (
+        <p className="mt-2 flex items-center gap-1.5 text-sm text-red-600">
+          <XCircle size={14} />
+          {validation.error}
+        </p>
+      )}
+
+      {validation?.valid && validation.warning && (
+        <p className="mt-2 flex items-center gap-1.5 text-sm text-amber-700">
+          <AlertTriangle size={14} />
+          {validation.warning}
+        </p>
+      )}
+
+      {decoded && (
+        <p className="mt-2 flex flex-wrap items-center gap-1.5 text-sm text-green-700">
+          <CheckCircle2 size={14} />
+          {decoded.make ?? t('vin.unknownMake', { wmi: decoded.wmi })}
+          {decoded.modelYear && ` · ${decoded.modelYear}`}
+          {decoded.modelYearCandidates.length > 1 && (
+            <span className="text-gray-500">
+              {t('vin.otherYears', { years: decoded.modelYearCandidates.filter(year => year !== decoded.modelYear).join(', ') })}
+            </span>
+          )}
+          {decoded.regions.length > 0 && (
+            <span className="text-gray-500">· {t('vin.builtIn', { region: decoded.regions.map(formatRegion).join(' / ') })}</span>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default VinDecoder;
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import type { AppRole, Profile } from '../types';
+
+export type AuthState = {
+  // Null when signed out. Kept while the session is expired so the page and
+  // its unsaved changes survive signing in again.
+  session: Session | null;
+  user: User | null;
+  role: AppRole;
+  profile: Profile | null;
+  // The initial session check has not finished
+  loading: boolean;
+  // The user arrived through a password reset link
+  passwordRecovery: boolean;
+  endPasswordRecovery: () => void;
+  signOut: () => Promise<void>;
+};
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+// The signed-in user, their role and profile; see AuthProvider
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error('useAuth must be used inside AuthProvider');
+  return auth;
+}
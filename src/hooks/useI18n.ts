@@ -0,0 +1,44 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  conditionKey,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatRegion,
+  formatTime,
+  getLocale,
+  setLocale,
+  subscribeLocale,
+  translate,
+  viewTypeKey,
+} from '../lib/i18n';
+import type { MessageKey, MessageParams } from '../lib/i18n';
+
+// The active locale and its message catalog. Components using it re-render
+// when the visitor switches language.
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  const conditionLabel = useCallback(
+    (condition: string) => {
+      const key = conditionKey(condition);
+      return key ? translate(locale, key) : condition;
+    },
+    [locale]
+  );
+
+  const viewTypeLabel = useCallback(
+    (viewType: string) => {
+      const key = viewTypeKey(viewType);
+      return key ? translate(locale, key) : viewType;
+    },
+    [locale]
+  );
+
+  return { locale, setLocale, t, conditionLabel, viewTypeLabel, formatNumber, formatDate, formatDateTime, formatTime, formatRegion };
+}
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { fetchNotifications } from '../lib/notifications';
+import type { NotificationWithPart } from '../lib/notifications';
+
+// The user's latest notifications, refetched as new ones are written
+export function useNotifications(userId: string) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery<NotificationWithPart[], Error>({
+    queryKey: ['notifications', userId],
+    queryFn: () => fetchNotifications(userId),
+  });
+
+  // Inserts arrive without the part's name, so refetch rather than patch
+  useEffect(() => {
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => queryClient.invalidateQueries(['notifications', userId])
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  const notifications = query.data ?? [];
+  return {
+    ...query,
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.read_at).length,
+  };
+}
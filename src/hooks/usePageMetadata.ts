@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+
+type PageMetadata = {
+  title: string;
+  description?: string;
+  url?: string;
+  image?: string;
+  // Open Graph type, e.g. 'product'
+  type?: string;
+  // Serialized into a <script type="application/ld+json">
+  jsonLd?: object;
+};
+
+// Set the document title, description, Open Graph tags and JSON-LD for the
+// current page. Everything added is removed again on unmount, and the title
+// is restored. Tags the storefront-page function served with the HTML are
+// replaced, so they are not duplicated or left behind on other pages.
+export function usePageMetadata(metadata: PageMetadata | null) {
+  const serialized = metadata ? JSON.stringify(metadata) : null;
+
+  useEffect(() => {
+    if (!serialized) return;
+    const { title, description, url, image, type, jsonLd } = JSON.parse(serialized) as PageMetadata;
+
+    document.head.querySelectorAll('[data-prerendered]').forEach(element => element.remove());
+
+    const previousTitle = document.title;
+    document.title = title;
+
+    const added: Element[] = [];
+    const addMeta = (attribute: 'name' | 'property', key: string, content?: string) => {
+      if (!content) return;
+      const meta = document.createElement('meta');
+      meta.setAttribute(attribute, key);
+      meta.setAttribute('content', content);
+      document.head.appendChild(meta);
+      added.push(meta);
+    };
+
+    addMeta('name', 'description', description);
+    addMeta('property', 'og:title', title);
+    addMeta('property', 'og:description', description);
+    addMeta('property', 'og:type', type);
+    addMeta('property', 'og:url', url);
+    addMeta('property', 'og:image', image);
+    addMeta('name', 'twitter:card', image ? 'summary_large_image' : 'summary');
+
+    if (url) {
+      const canonical = document.createElement('link');
+      canonical.setAttribute('rel', 'canonical');
+      canonical.setAttribute('href', url);
+      document.head.appendChild(canonical);
+      added.push(canonical);
+    }
+
+    if (jsonLd) {
+      const script = document.createElement('script');
+      script.type = 'application/ld+json';
+      script.textContent = JSON.stringify(jsonLd);
+      document.head.appendChild(script);
+      added.push(script);
+    }
+
+    return () => {
+      document.title = previousTitle;
+      added.forEach(element => element.remove());
+    };
+  }, [serialized]);
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import type { PartCategory } from '../types';
+
+// Fetch part categories
+export function usePartCategories() {
+  return useQuery<PartCategory[], Error>({
+    queryKey: ['partCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('part_categories')
+        .select('id, category_name, icon_url, parent_id, sort_order')
+        .order('sort_order', { ascending: true })
+        .order('category_name', { ascending: true });
+      
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
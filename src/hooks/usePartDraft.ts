@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clearDraft, loadDraft, saveLocalDraft, saveServerDraft, serializeDraft } from '../lib/partDrafts';
+import type { PartDraftContent } from '../lib/partDrafts';
+import type { PartDraft } from '../types';
+
+const LOCAL_SAVE_DELAY_MS = 1000;
+const SERVER_SAVE_DELAY_MS = 5000;
+
+type UsePartDraftOptions = {
+  userId: string;
+  draftKey: string;
+  current: PartDraftContent;
+  // The stored part; null while it is still loading
+  saved: PartDraftContent | null;
+  enabled: boolean;
+};
+
+// Autosave the editor while it differs from the stored part, and offer a
+// draft left over from an earlier session before overwriting it.
+export function usePartDraft({ userId, draftKey, current, saved, enabled }: UsePartDraftOptions) {
+  const [pendingDraft, setPendingDraft] = useState<PartDraft | null>(null);
+  const [checked, setChecked] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [serverError, setServerError] = useState<Error | null>(null);
+  const hasDraft = useRef(false);
+
+  const serializedCurrent = serializeDraft(current);
+  const serializedSaved = saved ? serializeDraft(saved) : null;
+  const isDirty = serializedSaved !== null && serializedCurrent !== serializedSaved;
+  const savedLoaded = serializedSaved !== null;
+
+  // Read inside effects that should not rerun on every keystroke
+  const latest = useRef({ current, serializedSaved });
+  latest.current = { current, serializedSaved };
+
+  // Look for an earlier draft once the stored part has loaded
+  useEffect(() => {
+    setPendingDraft(null);
+    setChecked(false);
+    setLastSavedAt(null);
+    if (!enabled || !savedLoaded) return;
+
+    let cancelled = false;
+    loadDraft(userId, draftKey)
+      .then(draft => {
+        if (cancelled) return;
+        if (draft && serializeDraft(draft) !== latest.current.serializedSaved) {
+          hasDraft.current = true;
+          setPendingDraft(draft);
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) setChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, draftKey, enabled, savedLoaded]);
+
+  // Hold off while an earlier draft is waiting for a decision, so it is not
+  // overwritten by the freshly loaded part.
+  useEffect(() => {
+    if (!enabled || !checked || pendingDraft) return;
+
+    if (!isDirty) {
+      if (hasDraft.current) {
+        hasDraft.current = false;
+        clearDraft(userId, draftKey).catch(() => undefined);
+      }
+      return;
+    }
+
+    const draft: PartDraft = { ...latest.current.current, updatedAt: new Date().toISOString() };
+    const localTimer = setTimeout(() => {
+      saveLocalDraft(userId, draftKey, draft);
+      hasDraft.current = true;
+      setLastSavedAt(draft.updatedAt);
+    }, LOCAL_SAVE_DELAY_MS);
+    const serverTimer = setTimeout(() => {
+      saveServerDraft(userId, draftKey, draft)
+        .then(() => setServerError(null))
+        .catch(setServerError);
+    }, SERVER_SAVE_DELAY_MS);
+
+    return () => {
+      clearTimeout(localTimer);
+      clearTimeout(serverTimer);
+    };
+  }, [userId, draftKey, enabled, checked, pendingDraft, isDirty, serializedCurrent]);
+
+  // Forget the draft, e.g. after the part was saved
+  const discardDraft = useCallback(async () => {
+    setPendingDraft(null);
+    setLastSavedAt(null);
+    hasDraft.current = false;
+    await clearDraft(userId, draftKey).catch(() => undefined);
+  }, [userId, draftKey]);
+
+  // The caller has loaded the pending draft into the form; autosave takes over
+  const acceptDraft = useCallback(() => setPendingDraft(null), []);
+
+  return { isDirty, pendingDraft, lastSavedAt, serverError, acceptDraft, discardDraft };
+}
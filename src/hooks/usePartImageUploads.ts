@@ -0,0 +1,24 @@
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { getUploads, resumeUploads, subscribeUploaded, subscribeUploads } from '../lib/uploadQueue';
+import type { PartImage } from '../types';
+
+// Queued uploads for one part, and a callback for each one that lands
+export function usePartImageUploads(partSlug: string, onUploaded: (image: PartImage) => void) {
+  const allUploads = useSyncExternalStore(subscribeUploads, getUploads);
+  const uploads = useMemo(
+    () => allUploads.filter(upload => upload.partSlug === partSlug),
+    [allUploads, partSlug]
+  );
+
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  useEffect(() => {
+    resumeUploads();
+    return subscribeUploaded(image => {
+      if (image.part_slug === partSlug) onUploadedRef.current(image);
+    });
+  }, [partSlug]);
+
+  return uploads;
+}
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { PartImage, PartRow, PartViewer } from '../types';
+
+type UsePartRealtimeOptions = {
+  partSlug: string | undefined;
+  userId: string;
+  email: string;
+  // Shared with the others through presence
+  editing: boolean;
+  field: string | null;
+  // Called before the cached part is replaced by a change from elsewhere
+  onPartUpdate?: (previous: PartRow, next: PartRow) => void;
+};
+
+const byGalleryOrder = (a: PartImage, b: PartImage) =>
+  a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at);
+
+// Keep the editor's caches in step with changes made by anyone else, and
+// share who has the part open. Realtime applies RLS, so only rows the user
+// can read arrive. Deletes only carry the primary key.
+export function usePartRealtime({ partSlug, userId, email, editing, field, onPartUpdate }: UsePartRealtimeOptions) {
+  const queryClient = useQueryClient();
+  const [viewers, setViewers] = useState<PartViewer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const presence = { userId, email, editing, field };
+  const presenceRef = useRef(presence);
+  presenceRef.current = presence;
+  const onPartUpdateRef = useRef(onPartUpdate);
+  onPartUpdateRef.current = onPartUpdate;
+
+  useEffect(() => {
+    if (!partSlug) return;
+
+    const partKey = ['part', partSlug];
+    const imagesKey = ['partImages', partSlug];
+    const savedKey = ['savedParts', userId];
+
+    const channel = supabase
+      .channel(`part-editor:${partSlug}`, { config: { presence: { key: userId } } })
+      .on<PartRow>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'vehicle_parts', filter: `part_slug=eq.${partSlug}` },
+        ({ new: next }) => {
+          const previous = queryClient.getQueryData<PartRow | null>(partKey);
+          // Our own save already put this row in the cache
+          if (previous && previous.updated_at === next.updated_at && previous.version === next.version) return;
+          if (previous) onPartUpdateRef.current?.(previous, next);
+          queryClient.setQueryData(partKey, next);
+        }
+      )
+      .on<PartImage>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'part_images', filter: `part_slug=eq.${partSlug}` },
+        ({ new: image }) => {
+          queryClient.setQueryData<PartImage[]>(imagesKey, images =>
+            images && !images.some(other => other.id === image.id)
+              ? [...images, image].sort(byGalleryOrder)
+              : images
+          );
+        }
+      )
+      .on<PartImage>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'part_images', filter: `part_slug=eq.${partSlug}` },
+        ({ new: image }) => {
+          queryClient.setQueryData<PartImage[]>(imagesKey, images =>
+            images?.map(other => (other.id === image.id ? image : other)).sort(byGalleryOrder)
+          );
+        }
+      )
+      // Delete events cannot be filtered; ids not in this gallery are ignored
+      .on<PartImage>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'part_images' },
+        ({ old }) => {
+          queryClient.setQueryData<PartImage[]>(imagesKey, images =>
+            images?.filter(image => image.id !== old.id)
+          );
+        }
+      )
+      .on<{ part_id: string; list_id: string | null }>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'saved_items', filter: `user_id=eq.${userId}` },
+        ({ new: item }) => {
+          // Only unsorted rows count as bookmarked in the editor
+          if (item.list_id !== null) return;
+          queryClient.setQueryData<string[]>(savedKey, saved =>
+            saved && !saved.includes(item.part_id) ? [...saved, item.part_id] : saved
+          );
+        }
+      )
+      // Moving a part into or out of a list changes whether it is unsorted
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'saved_items', filter: `user_id=eq.${userId}` },
+        () => queryClient.invalidateQueries(savedKey)
+      )
+      // The deleted row's part_id is not sent, so refetch the short list
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'saved_items' },
+        () => queryClient.invalidateQueries(savedKey)
+      )
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PartViewer>();
+        setViewers(
+          Object.entries(state)
+            .filter(([key]) => key !== userId)
+            .map(([, metas]) => metas[metas.length - 1])
+            .filter(Boolean)
+        );
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') channel.track(presenceRef.current);
+      });
+
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      setViewers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [partSlug, userId, queryClient]);
+
+  // Share editing state and the focused field as they change
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (channel?.state === 'joined') channel.track(presenceRef.current);
+  }, [editing, field]);
+
+  return viewers;
+}
@@ -0,0 +1,43 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  convertAmount,
+  fetchExchangeRates,
+  formatMoney,
+  getDisplayCurrency,
+  setDisplayCurrency,
+  subscribeDisplayCurrency,
+} from '../lib/pricing';
+import { getLocale, subscribeLocale } from '../lib/i18n';
+import type { ExchangeRate } from '../types';
+
+// Exchange rates and the visitor's display currency. displayPrice converts
+// a part's price for display, or shows it in the part's own currency when
+// there is no rate to convert with.
+export function usePricing() {
+  const displayCurrency = useSyncExternalStore(subscribeDisplayCurrency, getDisplayCurrency);
+  // formatMoney reads the active locale; subscribe so prices re-render with it
+  useSyncExternalStore(subscribeLocale, getLocale);
+
+  // Fetch exchange rates; admins change them rarely
+  const { data: rates = [] } = useQuery<ExchangeRate[], Error>({
+    queryKey: ['exchangeRates'],
+    queryFn: fetchExchangeRates,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const toDisplay = useCallback(
+    (amount: number, currency: string) => convertAmount(amount, currency, displayCurrency, rates),
+    [displayCurrency, rates]
+  );
+
+  const displayPrice = useCallback(
+    (amount: number, currency: string) => {
+      const converted = toDisplay(amount, currency);
+      return converted === null ? formatMoney(amount, currency) : formatMoney(converted, displayCurrency);
+    },
+    [displayCurrency, toDisplay]
+  );
+
+  return { displayCurrency, setDisplayCurrency, rates, toDisplay, displayPrice };
+}
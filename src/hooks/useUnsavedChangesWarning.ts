@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { getLocale, translate } from '../lib/i18n';
+
+const message = () => translate(getLocale(), 'editor.leaveUnsaved');
+
+// Warn before a reload, a closed tab or a click on an in-app link. The app
+// uses BrowserRouter, which has no navigation blocker, so link clicks are
+// caught before the router sees them.
+export function useUnsavedChangesWarning(when: boolean) {
+  useEffect(() => {
+    if (!when) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = message();
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey) return;
+      const link = (event.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null;
+      if (!link || link.target === '_blank' || link.origin !== window.location.origin) return;
+      if (link.pathname === window.location.pathname) return;
+
+      if (!window.confirm(message())) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    document.addEventListener('click', handleClick, true);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      document.removeEventListener('click', handleClick, true);
+    };
+  }, [when]);
+}
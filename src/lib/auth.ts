@@ -0,0 +1,182 @@
+import type { Provider } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { getLocale, translate } from './i18n';
+import type { Profile } from '../types';
+
+// OAuth providers offered on the sign-in page, e.g. "google,github,azure".
+// Each one must also be enabled for the project (see supabase/config.toml).
+export const OAUTH_PROVIDERS = (import.meta.env.VITE_AUTH_PROVIDERS || 'google')
+  .split(',')
+  .map((provider: string) => provider.trim())
+  .filter(Boolean) as Provider[];
+
+// SAML single sign-on, matched by the email domain; needs an identity
+// provider registered with `supabase sso add`
+export const SSO_ENABLED = import.meta.env.VITE_AUTH_SSO === 'true';
+
+// Keep in sync with minimum_password_length in supabase/config.toml
+export const MIN_PASSWORD_LENGTH = 8;
+
+const PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  apple: 'Apple',
+  azure: 'Microsoft',
+  bitbucket: 'Bitbucket',
+  facebook: 'Facebook',
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  google: 'Google',
+  keycloak: 'Keycloak',
+  linkedin_oidc: 'LinkedIn',
+  slack_oidc: 'Slack',
+  workos: 'WorkOS',
+};
+
+export const providerLabel = (provider: Provider) =>
+  PROVIDER_LABELS[provider] ?? provider.charAt(0).toUpperCase() + provider.slice(1);
+
+// OAuth and magic links bring the user back to the page they signed in from
+export const signInWithProvider = async (provider: Provider) => {
+  const { error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: window.location.href },
+  });
+
+  if (error) throw error;
+};
+
+export const signInWithSso = async (email: string) => {
+  const domain = email.trim().split('@')[1]?.toLowerCase();
+  if (!domain) throw new Error(translate(getLocale(), 'auth.ssoEmailRequired'));
+
+  const { data, error } = await supabase.auth.signInWithSSO({
+    domain,
+    options: { redirectTo: window.location.href },
+  });
+
+  if (error) throw error;
+  window.location.assign(data.url);
+};
+
+export const sendMagicLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: { emailRedirectTo: window.location.href },
+  });
+
+  if (error) throw error;
+};
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) throw error;
+};
+
+// Resolves to true when the address must be confirmed before signing in
+export const signUpWithPassword = async (email: string, password: string) => {
+  const { data, error } = await supabase.auth.signUp({
+    email: email.trim(),
+    password,
+    options: { emailRedirectTo: window.location.origin },
+  });
+
+  if (error) throw error;
+  return !data.session;
+};
+
+// The emailed link signs the user in on the profile page, where they choose
+// a new password
+export const sendPasswordReset = async (email: string) => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+    redirectTo: `${window.location.origin}/profile`,
+  });
+
+  if (error) throw error;
+};
+
+export const updatePassword = async (password: string) => {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+};
+
+export type ProfileFields = Pick<Profile, 'full_name' | 'shop_name' | 'phone'>;
+
+// Mirrors the profiles constraints in 20261019280000_profile_details
+export const PROFILE_LIMITS = { fullName: 100, shopName: 200 };
+export const PHONE_PATTERN = /^\+?[0-9 ().-]{4,30}$/;
+
+export const fetchProfile = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return data as Profile;
+};
+
+// .single() turns an update that RLS filtered out into an error instead of
+// a silent no-op
+export const updateProfile = async (userId: string, fields: ProfileFields) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({
+      full_name: fields.full_name?.trim() || null,
+      shop_name: fields.shop_name?.trim() || null,
+      phone: fields.phone?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Profile;
+};
+
+// Thrown before a mutation runs when the session has lapsed, so the write is
+// not sent with the anonymous key and quietly filtered out by RLS
+export class SessionExpiredError extends Error {
+  constructor() {
+    super(translate(getLocale(), 'auth.sessionExpired'));
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// PostgREST rejects expired or invalid JWTs with PGRST301/PGRST303; Storage
+// and Edge Functions answer 401 with a "jwt expired" message
+export const isAuthError = (error: unknown) => {
+  if (error instanceof SessionExpiredError) return true;
+  if (!error || typeof error !== 'object') return false;
+  const { code, status, message } = error as { code?: unknown; status?: unknown; message?: unknown };
+  return code === 'PGRST301' || code === 'PGRST303' || status === 401 ||
+    (typeof message === 'string' && /jwt expired/i.test(message));
+};
+
+// getSession refreshes an expired access token; no session means the refresh
+// token has lapsed too
+export const requireSession = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new SessionExpiredError();
+  return session;
+};
+
+// Set when a request finds the session gone while the app still shows a
+// signed-in user; AuthProvider then asks them to sign in again
+let sessionExpired = false;
+const sessionExpiredListeners = new Set<() => void>();
+
+export const getSessionExpired = () => sessionExpired;
+
+export const setSessionExpired = (expired: boolean) => {
+  if (sessionExpired === expired) return;
+  sessionExpired = expired;
+  sessionExpiredListeners.forEach(listener => listener());
+};
+
+export const subscribeSessionExpired = (listener: () => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
@@ -0,0 +1,98 @@
+import { CONDITION_OPTIONS } from './parts';
+import type { MessageKey } from './i18n';
+
+export type StockFilter = 'any' | 'in' | 'out';
+
+// minPrice and maxPrice are in the visitor's display currency
+export type CatalogFilters = {
+  query: string;
+  makes: string[];
+  models: string[];
+  year: string;
+  categories: string[];
+  conditions: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  stock: StockFilter;
+};
+
+// A row of catalog_facet_counts: the number of parts with `value` that pass
+// every active filter except the facet's own
+export type FacetCountRow = {
+  facet: 'makes' | 'models' | 'categories' | 'conditions' | 'price' | 'stock';
+  value: string;
+  count: number;
+};
+
+export type FacetCounts = Record<FacetCountRow['facet'], Map<string, number>>;
+
+// Labels take the bounds as {min} and {max}
+export const PRICE_BUCKETS: { labelKey: MessageKey; min: number | null; max: number | null }[] = [
+  { labelKey: 'search.priceUnder', min: null, max: 50 },
+  { labelKey: 'search.priceBetween', min: 50, max: 100 },
+  { labelKey: 'search.priceBetween', min: 100, max: 250 },
+  { labelKey: 'search.priceBetween', min: 250, max: 500 },
+  { labelKey: 'search.priceFrom', min: 500, max: null },
+];
+
+export const STOCK_OPTIONS: { value: StockFilter; labelKey: MessageKey }[] = [
+  { value: 'any', labelKey: 'search.anyAvailability' },
+  { value: 'in', labelKey: 'search.inStock' },
+  { value: 'out', labelKey: 'search.outOfStock' },
+];
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parseCatalogFilters = (params: URLSearchParams): CatalogFilters => {
+  const stock = params.get('stock');
+  return {
+    query: params.get('q') ?? '',
+    makes: params.getAll('make'),
+    models: params.getAll('model'),
+    year: /^\d{4}$/.test(params.get('year') ?? '') ? params.get('year')! : '',
+    categories: params.getAll('category'),
+    conditions: params.getAll('condition').filter(condition =>
+      (CONDITION_OPTIONS as readonly string[]).includes(condition)
+    ),
+    minPrice: parseNumber(params.get('min')),
+    maxPrice: parseNumber(params.get('max')),
+    stock: stock === 'in' || stock === 'out' ? stock : 'any',
+  };
+};
+
+// Serialize filters back into search params, omitting defaults so shared URLs stay short
+export const toSearchParams = (filters: CatalogFilters) => {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  filters.makes.forEach(make => params.append('make', make));
+  filters.models.forEach(model => params.append('model', model));
+  if (filters.year.trim()) params.set('year', filters.year.trim());
+  filters.categories.forEach(category => params.append('category', category));
+  filters.conditions.forEach(condition => params.append('condition', condition));
+  if (filters.minPrice !== null) params.set('min', String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set('max', String(filters.maxPrice));
+  if (filters.stock !== 'any') params.set('stock', filters.stock);
+  return params;
+};
+
+// PostgREST `or` filters are comma separated and wildcard aware, so strip
+// the characters that would break out of the ilike pattern.
+export const toIlikePattern = (query: string) =>
+  `%${query.trim().replace(/[%_,()\\*]/g, ' ').replace(/\s+/g, ' ')}%`;
+
+export const groupFacetCounts = (rows: FacetCountRow[]): FacetCounts => {
+  const counts: FacetCounts = {
+    makes: new Map(),
+    models: new Map(),
+    categories: new Map(),
+    conditions: new Map(),
+    price: new Map(),
+    stock: new Map(),
+  };
+  rows.forEach(row => counts[row.facet]?.set(row.value, Number(row.count)));
+  return counts;
+};
@@ -0,0 +1,67 @@
+import type { PartCategory } from '../types';
+
+export type CategoryNode = {
+  category: PartCategory;
+  depth: number;
+  children: CategoryNode[];
+};
+
+export type FlatCategory = {
+  category: PartCategory;
+  depth: number;
+  // Names from the root down, e.g. ['Brakes', 'Pads']
+  path: string[];
+};
+
+const bySortOrder = (a: PartCategory, b: PartCategory) =>
+  a.sort_order - b.sort_order || a.category_name.localeCompare(b.category_name);
+
+// Nest categories under their parents. A category whose parent is missing
+// (e.g. hidden by a filter) is shown at the top level rather than dropped.
+export const buildCategoryTree = (categories: PartCategory[]): CategoryNode[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const childrenOf = new Map<string | null, PartCategory[]>();
+
+  categories.forEach(category => {
+    const parentId = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), category]);
+  });
+
+  const build = (parentId: string | null, depth: number): CategoryNode[] =>
+    [...(childrenOf.get(parentId) ?? [])]
+      .sort(bySortOrder)
+      .map(category => ({ category, depth, children: build(category.id, depth + 1) }));
+
+  return build(null, 0);
+};
+
+// Depth-first list for pickers and indented tables
+export const flattenCategoryTree = (nodes: CategoryNode[], path: string[] = []): FlatCategory[] =>
+  nodes.flatMap(node => {
+    const nodePath = [...path, node.category.category_name];
+    return [
+      { category: node.category, depth: node.depth, path: nodePath },
+      ...flattenCategoryTree(node.children, nodePath),
+    ];
+  });
+
+export const flattenCategories = (categories: PartCategory[]) =>
+  flattenCategoryTree(buildCategoryTree(categories));
+
+// The category itself and everything nested below it
+export const descendantIds = (categories: PartCategory[], id: string) => {
+  const result = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach(category => {
+      if (category.parent_id && result.has(category.parent_id) && !result.has(category.id)) {
+        result.add(category.id);
+        added = true;
+      }
+    });
+  }
+  return result;
+};
+
+export const formatCategoryPath = (path: string[]) => path.join(' › ');
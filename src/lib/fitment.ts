@@ -0,0 +1,102 @@
+import { getLocale, translate } from './i18n';
+import type { PartFitment } from '../types';
+
+export const MIN_FITMENT_YEAR = 1886;
+export const MAX_FITMENT_YEAR = new Date().getFullYear() + 2;
+
+export const EMPTY_FITMENT: PartFitment = {
+  make: '',
+  model: '',
+  year_start: null,
+  year_end: null,
+  trim: null,
+  engine: null,
+};
+
+// Parse "2018" or "2015-2019" (en dash tolerated) into an ordered range
+export const parseYearRange = (value: string): { year_start: number; year_end: number } | null => {
+  const match = value.trim().match(/^(\d{4})(?:\s*[-–]\s*(\d{4}))?$/);
+  if (!match) return null;
+
+  const first = Number(match[1]);
+  const second = Number(match[2] ?? match[1]);
+  return { year_start: Math.min(first, second), year_end: Math.max(first, second) };
+};
+
+export const formatYearRange = ({ year_start, year_end }: Pick<PartFitment, 'year_start' | 'year_end'>) => {
+  // Years go in as strings so they are not grouped like other numbers
+  if (year_start === null && year_end === null) return translate(getLocale(), 'fitment.allYears');
+  if (year_start === null) return translate(getLocale(), 'fitment.upTo', { year: String(year_end) });
+  if (year_end === null) return `${year_start}+`;
+  return year_start === year_end ? String(year_start) : `${year_start}–${year_end}`;
+};
+
+export const formatFitment = (fitment: PartFitment) =>
+  [fitment.make, fitment.model, formatYearRange(fitment), fitment.trim, fitment.engine]
+    .filter(Boolean)
+    .join(' ');
+
+export const fitsYear = (fitment: Pick<PartFitment, 'year_start' | 'year_end'>, year: number) =>
+  (fitment.year_start === null || fitment.year_start <= year) &&
+  (fitment.year_end === null || fitment.year_end >= year);
+
+// Returns a message for the first problem with a fitment row, or null when valid
+export const validateFitment = (fitment: PartFitment) => {
+  if (!fitment.make.trim()) return translate(getLocale(), 'fitment.makeRequired');
+  if (!fitment.model.trim()) return translate(getLocale(), 'fitment.modelRequired');
+  for (const year of [fitment.year_start, fitment.year_end]) {
+    if (year !== null && (!Number.isInteger(year) || year < MIN_FITMENT_YEAR || year > MAX_FITMENT_YEAR)) {
+      return translate(getLocale(), 'fitment.yearRange', { min: String(MIN_FITMENT_YEAR), max: String(MAX_FITMENT_YEAR) });
+    }
+  }
+  if (fitment.year_start !== null && fitment.year_end !== null && fitment.year_end < fitment.year_start) {
+    return translate(getLocale(), 'fitment.endBeforeStart');
+  }
+  return null;
+};
+
+// Expand comma-separated model/year lists into fitment rows, the same way the
+// part_fitments migration converted the old compatible_models/years arrays.
+export const fitmentsFromLegacy = (make: string, fallbackModel: string, models: string[], years: string[]): PartFitment[] => {
+  if (!make.trim() || (models.length === 0 && years.length === 0)) return [];
+
+  const modelList = (models.length ? models : [fallbackModel]).map(model => model.trim()).filter(Boolean);
+  const ranges = years.map(parseYearRange).filter(range => range !== null);
+  const yearList = ranges.length ? ranges : [{ year_start: null, year_end: null }];
+
+  return modelList.flatMap(model =>
+    yearList.map(range => ({ ...EMPTY_FITMENT, make: make.trim(), model, ...range }))
+  );
+};
+
+// Spreadsheet form of a fitment: "Make|Model|Years|Trim|Engine", years as in parseYearRange
+export const serializeFitment = (fitment: PartFitment) => {
+  const years = fitment.year_start === null && fitment.year_end === null
+    ? ''
+    : fitment.year_start === fitment.year_end
+      ? String(fitment.year_start)
+      : `${fitment.year_start ?? ''}-${fitment.year_end ?? ''}`;
+  return [fitment.make, fitment.model, years, fitment.trim ?? '', fitment.engine ?? '']
+    .join('|')
+    .replace(/\|+$/, '');
+};
+
+export const parseSerializedFitment = (value: string): PartFitment | null => {
+  const [make = '', model = '', years = '', trim = '', engine = ''] = value.split('|').map(part => part.trim());
+  if (!make || !model) return null;
+
+  let range: Pick<PartFitment, 'year_start' | 'year_end'> = { year_start: null, year_end: null };
+  if (years) {
+    const open = years.match(/^(\d{4})?\s*-\s*(\d{4})?$/);
+    const parsed = parseYearRange(years);
+    if (parsed) {
+      range = parsed;
+    } else if (open && (open[1] || open[2])) {
+      range = { year_start: open[1] ? Number(open[1]) : null, year_end: open[2] ? Number(open[2]) : null };
+    } else {
+      return null;
+    }
+  }
+
+  return { make, model, ...range, trim: trim || null, engine: engine || null };
+};
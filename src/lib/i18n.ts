@@ -0,0 +1,100 @@
+import en from './locales/en';
+import es from './locales/es';
+import fr from './locales/fr';
+
+export const LOCALES = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+] as const;
+
+export type Locale = typeof LOCALES[number]['code'];
+
+// Parts are written in the default locale; part_translations holds the others
+export const DEFAULT_LOCALE: Locale = 'en';
+export const TRANSLATION_LOCALES = LOCALES.filter(locale => locale.code !== DEFAULT_LOCALE);
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Messages> = { en, es, fr };
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some(locale => locale.code === value);
+
+export const localeLabel = (code: string) => LOCALES.find(locale => locale.code === code)?.label ?? code;
+
+// The saved choice, else the browser's first language we have a catalog for
+const LOCALE_KEY = 'locale';
+const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage blocked; fall through to the browser languages
+  }
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return languages.map(language => language.slice(0, 2).toLowerCase()).find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+let currentLocale = detectLocale();
+const localeListeners = new Set<() => void>();
+
+export const getLocale = () => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // Private browsing: the choice lasts until the page is closed
+  }
+  localeListeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  localeListeners.add(listener);
+  return () => {
+    localeListeners.delete(listener);
+  };
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(currentLocale, options).format(value);
+
+export const formatDate = (value: string | number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+  new Intl.DateTimeFormat(currentLocale, options).format(new Date(value));
+
+export const formatDateTime = (value: string | number | Date) =>
+  formatDate(value, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const formatTime = (value: string | number | Date) =>
+  formatDate(value, { timeStyle: 'short' });
+
+// A country code ("DE") or UN M49 area code ("150") in the current language
+export const formatRegion = (code: string) =>
+  new Intl.DisplayNames(currentLocale, { type: 'region' }).of(code) ?? code;
+
+// Fills {name} placeholders; a key missing from a catalog falls back to English
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const message = CATALOGS[locale][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  });
+};
+
+// Conditions are stored in English (see CONDITION_OPTIONS); unknown values show as stored
+export const conditionKey = (condition: string): MessageKey | null => {
+  const key = `condition.${condition}`;
+  return key in en ? key as MessageKey : null;
+};
+
+// View types are stored in English (see VIEW_TYPES); unknown values show as stored
+export const viewTypeKey = (viewType: string): MessageKey | null => {
+  const key = `view.${viewType}`;
+  return key in en ? key as MessageKey : null;
+};
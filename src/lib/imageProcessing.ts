@@ -0,0 +1,103 @@
+// Re-encode photos in the browser before they reach storage. Drawing onto a
+// canvas applies the EXIF orientation and drops every metadata block (GPS,
+// camera serials), so the uploaded bytes only carry pixels.
+
+export type ImageFormat = {
+  mimeType: 'image/webp' | 'image/jpeg';
+  extension: 'webp' | 'jpg';
+};
+
+export type ProcessedImage = {
+  full: Blob;
+  thumbnail: Blob;
+  format: ImageFormat;
+  width: number;
+  height: number;
+};
+
+export type ImageProcessingOptions = {
+  maxDimension?: number;
+  thumbnailDimension?: number;
+  quality?: number;
+  thumbnailQuality?: number;
+};
+
+export const IMAGE_DEFAULTS = {
+  maxDimension: 2048,
+  thumbnailDimension: 400,
+  quality: 0.82,
+  thumbnailQuality: 0.7,
+} as const;
+
+const WEBP: ImageFormat = { mimeType: 'image/webp', extension: 'webp' };
+const JPEG: ImageFormat = { mimeType: 'image/jpeg', extension: 'jpg' };
+
+let webpSupport: Promise<boolean> | null = null;
+
+// Browsers without a WebP encoder silently return PNG from toBlob
+const supportsWebp = () => {
+  webpSupport ??= new Promise(resolve => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    canvas.toBlob(blob => resolve(blob?.type === 'image/webp'), 'image/webp');
+  });
+  return webpSupport;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ImageFormat, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+      format.mimeType,
+      quality
+    );
+  });
+
+// Scale so the longest side is at most maxDimension; never upscale
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const render = (bitmap: ImageBitmap, maxDimension: number, format: ImageFormat) => {
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available in this browser');
+
+  // JPEG has no alpha channel; paint transparent PNGs onto white instead of black
+  if (format.mimeType === 'image/jpeg') {
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+export const processImage = async (file: Blob, options: ImageProcessingOptions = {}): Promise<ProcessedImage> => {
+  const { maxDimension, thumbnailDimension, quality, thumbnailQuality } = { ...IMAGE_DEFAULTS, ...options };
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This image format cannot be read by the browser; try a JPEG, PNG or WebP file');
+  }
+
+  try {
+    const format = (await supportsWebp()) ? WEBP : JPEG;
+    const fullCanvas = render(bitmap, maxDimension, format);
+    const [full, thumbnail] = await Promise.all([
+      canvasToBlob(fullCanvas, format, quality),
+      canvasToBlob(render(bitmap, thumbnailDimension, format), format, thumbnailQuality),
+    ]);
+
+    return { full, thumbnail, format, width: fullCanvas.width, height: fullCanvas.height };
+  } finally {
+    bitmap.close();
+  }
+};
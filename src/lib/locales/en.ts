@@ -0,0 +1,419 @@
+// English is the source catalog: every key is defined here, and the other
+// catalogs are type-checked against it. {name} placeholders are filled by
+// translate(); numbers are formatted for the active locale.
+const en = {
+  'app.name': 'Parts Manager',
+
+  'nav.parts': 'Parts',
+  'nav.catalog': 'Catalog',
+  'nav.fitment': 'Fitment Lookup',
+  'nav.saved': 'Saved',
+  'nav.cart': 'Cart',
+  'nav.orders': 'Orders',
+  'nav.lowStock': 'Low Stock',
+  'nav.orderQueue': 'Order Queue',
+  'nav.categories': 'Categories',
+  'nav.shipping': 'Shipping',
+  'nav.pricing': 'Pricing',
+  'nav.users': 'Users',
+  'nav.signOut': 'Sign Out',
+  'nav.language': 'Language',
+  'nav.displayCurrency': 'Display currency',
+  'nav.profile': 'Profile',
+
+  'role.admin': 'Admin',
+  'role.editor': 'Inventory Editor',
+  'role.buyer': 'Buyer',
+  'role.adminDescription': 'Manages users, categories and every part',
+  'role.editorDescription': 'Creates parts and edits the parts they own',
+  'role.buyerDescription': 'Browses the catalog and saves parts',
+
+  'condition.New': 'New',
+  'condition.Refurbished': 'Refurbished',
+  'condition.Used': 'Used',
+
+  'view.main': 'Main',
+  'view.front': 'Front',
+  'view.back': 'Back',
+  'view.left': 'Left',
+  'view.right': 'Right',
+  'view.top': 'Top',
+  'view.detail': 'Detail',
+
+  'field.itemname': 'Part Name',
+  'field.category': 'Category',
+  'field.make': 'Make',
+  'field.model': 'Model',
+  'field.condition': 'Condition',
+  'field.description': 'Description',
+  'field.price': 'Price',
+  'field.openingStock': 'Opening Stock',
+  'field.stock': 'Stock',
+  'field.currency': 'Currency',
+  'field.taxClass': 'Tax Class',
+  'field.color': 'Color',
+  'field.keyFeatures': 'Key Features (one per line)',
+  'field.weight': 'Weight (kg)',
+  'field.dimensions': 'Dimensions (L x W x H)',
+  'field.material': 'Material',
+  'field.warranty': 'Warranty (months)',
+
+  'placeholder.itemname': 'Enter part name',
+  'placeholder.make': 'Enter manufacturer',
+  'placeholder.model': 'Enter model',
+  'placeholder.description': 'Detailed description of the part',
+  'placeholder.stock': 'Enter quantity',
+  'placeholder.color': 'Enter color',
+  'placeholder.keyFeatures': 'Feature 1\nFeature 2\nFeature 3',
+  'placeholder.weight': 'Enter weight',
+  'placeholder.dimensions': 'e.g., 10 x 5 x 2 cm',
+  'placeholder.material': 'Enter material',
+  'placeholder.warranty': 'Enter warranty',
+
+  'editor.newPart': 'New Part',
+  'editor.untitledPart': 'Untitled Part',
+  'editor.part': 'Part',
+  'editor.loadError': 'Error loading part: {message}',
+  'editor.notFound': 'This part does not exist.',
+  'editor.backToParts': 'Back to parts',
+  'editor.viewInStore': 'View in store',
+  'editor.publish': 'Publish',
+  'editor.unpublish': 'Unpublish',
+  'editor.addToCart': 'Add to Cart',
+  'editor.addedToCart': 'Added to Cart',
+  'editor.bookmark': 'Save Part',
+  'editor.bookmarked': 'Saved',
+  'editor.partInformation': 'Part Information',
+  'editor.categoriesError': 'Error loading categories: {message}',
+  'editor.readOnly': 'You have read-only access to this part.',
+  'editor.draftFound': 'You have unsaved changes from {date}.',
+  'editor.restoreDraft': 'Restore draft',
+  'editor.discardDraft': 'Discard',
+  'editor.merged': 'Your changes are merged with the latest saved version. Review them and save the part.',
+  'editor.revisionLoaded': 'Revision {revision} is loaded into the form. Save the part to keep it.',
+  'editor.saveSuccess': 'Part information saved successfully!',
+  'editor.prefillFromVin': 'Prefill from VIN',
+  'editor.stockOnHand': '{onHand} on hand',
+  'editor.stockOnHandReserved': '{onHand} on hand, {reserved} reserved',
+  'editor.stockHint': 'Record receipts, sales and adjustments under Stock below.',
+  'editor.notShippable': 'Not shippable: {reason}',
+  'editor.create': 'Create Part',
+  'editor.save': 'Save Part',
+  'editor.saving': 'Saving...',
+  'editor.unsavedChanges': 'Unsaved changes.',
+  'editor.draftSavedAt': 'Draft saved at {time}.',
+  'editor.draftSavedLocally': 'Draft saved at {time} on this device only.',
+  'editor.images': '{name} Images',
+  'editor.createBeforeImages': 'Create the part to start uploading images.',
+  'editor.stock': 'Stock',
+  'editor.priceHistory': 'Price History',
+  'editor.history': 'History',
+  'editor.translations': 'Translations',
+  'editor.fixFields': 'Please fix the highlighted fields',
+  'editor.fixFitments': 'Please fix the vehicle fitment rows',
+  'editor.notEditable': 'This part no longer exists or you can no longer edit it.',
+  'editor.confirmRestoreRevision': 'Replace your unsaved changes with this revision?',
+  'editor.changedElsewhere': 'Just changed by someone else',
+  'editor.oneEditing': '{names} is editing this field',
+  'editor.manyEditing': '{names} are editing this field',
+  'editor.leaveUnsaved': 'You have unsaved changes. Leave this page anyway?',
+
+  'translations.intro': "Shoppers browsing in another language see this text instead of the part's own. Blank fields show the original.",
+  'translations.notTranslated': 'Not translated',
+  'translations.updated': 'Updated {date}',
+  'translations.save': 'Save Translation',
+  'translations.saved': 'Translation saved.',
+  'translations.remove': 'Remove',
+  'translations.confirmRemove': 'Remove the {language} translation?',
+  'translations.loadError': 'Error loading translations: {message}',
+  'translations.featuresTooMany': 'At most {max} key features',
+  'translations.tooLong': '{field} must be at most {max} characters',
+
+  'store.loadError': 'Error loading part: {message}',
+  'store.notFound': 'Part not found',
+  'store.notAvailable': 'This part is not available or is no longer listed.',
+  'store.was': 'Was',
+  'store.inStock': '{count} in stock',
+  'store.outOfStock': 'Out of stock',
+  'store.warranty': '{months}-month warranty',
+  'store.specifications': 'Specifications',
+  'store.weight': 'Weight',
+  'store.weightValue': '{weight} kg',
+  'store.dimensions': 'Dimensions',
+  'store.warrantyLabel': 'Warranty',
+  'store.warrantyMonths': '{months} months',
+  'store.partNumber': 'Part number',
+  'store.fitment': 'Vehicle Fitment',
+  'store.noFitment': 'No fitment information listed. Check the description or contact us.',
+  'store.years': 'Years',
+  'store.trim': 'Trim',
+  'store.engine': 'Engine',
+  'store.description': 'Description',
+
+  'auth.title': 'Automotive Parts Management',
+  'auth.subtitle': 'Sign in to manage your parts inventory',
+  'auth.passwordTab': 'Password',
+  'auth.magicLinkTab': 'Email link',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.signIn': 'Sign In',
+  'auth.signUp': 'Create Account',
+  'auth.haveAccount': 'Already have an account? Sign in',
+  'auth.noAccount': 'New here? Create an account',
+  'auth.forgotPassword': 'Forgot password?',
+  'auth.sendReset': 'Email Me a Reset Link',
+  'auth.resetSent': 'Check {email} for a link to choose a new password.',
+  'auth.backToSignIn': 'Back to sign in',
+  'auth.sendMagicLink': 'Email Me a Sign-In Link',
+  'auth.magicLinkSent': 'Check {email} for a sign-in link.',
+  'auth.confirmEmail': 'Check {email} to confirm your address, then sign in.',
+  'auth.continueWith': 'Continue with {provider}',
+  'auth.or': 'or',
+  'auth.sso': 'Sign In with SSO',
+  'auth.ssoHint': 'Enter your work email to continue to your company sign-in.',
+  'auth.ssoEmailRequired': 'Enter your work email address',
+  'auth.passwordTooShort': 'Use at least {min} characters',
+  'auth.sessionExpired': 'Your session has expired. Sign in again to continue.',
+  'auth.sessionExpiredTitle': 'Session expired',
+  'auth.sessionExpiredBody': 'Sign in again to keep working. Unsaved changes stay on this page.',
+  'auth.signOutInstead': 'Sign out instead',
+
+  'profile.title': 'Your Profile',
+  'profile.details': 'Profile Details',
+  'profile.email': 'Email',
+  'profile.role': 'Role',
+  'profile.signInMethods': 'Sign-in methods: {methods}',
+  'profile.displayName': 'Display name',
+  'profile.shopName': 'Shop',
+  'profile.phone': 'Phone',
+  'profile.save': 'Save Profile',
+  'profile.saved': 'Profile saved',
+  'profile.loadError': 'Error loading profile: {message}',
+  'profile.tooLong': '{field} must be at most {max} characters',
+  'profile.phoneInvalid': 'Enter digits, with an optional leading + and spaces, dots, dashes or parentheses',
+  'profile.password': 'Password',
+  'profile.passwordIntro': 'Set a password to also sign in with your email address and password.',
+  'profile.recovery': 'Choose a new password to finish resetting it.',
+  'profile.newPassword': 'New password',
+  'profile.confirmPassword': 'Confirm new password',
+  'profile.passwordMismatch': 'The passwords do not match',
+  'profile.savePassword': 'Update Password',
+  'profile.passwordSaved': 'Password updated',
+
+  'gallery.loadError': 'Error loading images: {message}',
+  'gallery.onlyImages': 'Only image files can be added to the gallery',
+  'gallery.dropHint': 'Drop photos here or click to choose. Drag images to reorder.',
+  'gallery.empty': 'No images yet.',
+  'gallery.imageAlt': '{name} {view} view',
+  'gallery.primary': 'Primary',
+  'gallery.makePrimary': 'Use as primary image',
+  'gallery.delete': 'Delete image',
+  'gallery.confirmDelete': 'Are you sure you want to delete this image?',
+  'gallery.caption': 'Caption',
+  'gallery.altText': 'Alt text for screen readers',
+  'gallery.queued': 'Waiting...',
+  'gallery.processing': 'Optimizing...',
+  'gallery.uploading': 'Uploading...',
+  'gallery.waiting': 'Retrying soon...',
+  'gallery.failed': 'Failed',
+  'gallery.retry': 'Retry',
+  'gallery.discard': 'Discard',
+  'gallery.cancelUpload': 'Cancel upload',
+  'gallery.offline': 'Offline, will resume when the connection returns',
+
+  'validation.required': '{label} is required',
+  'validation.tooLong': '{label} must be at most {max} characters',
+  'validation.number': '{label} must be a number',
+  'validation.integer': '{label} must be a whole number',
+  'validation.min': '{label} must be at least {min}',
+  'validation.max': '{label} must be at most {max}',
+  'validation.decimals': '{label} can have at most {decimals} decimal places',
+  'validation.amount': '{label} must be an amount',
+  'validation.condition': 'Condition must be one of {options}',
+  'validation.currency': 'Currency must be a three-letter code, e.g. EUR',
+  'validation.taxClass': 'Choose a tax class from the list',
+  'validation.category': 'Choose a category from the list',
+  'validation.keyFeatureCount': 'List at most {max} key features',
+  'validation.keyFeatureLength': 'Each key feature must be at most {max} characters',
+  'validation.dimensions': 'Use L x W x H with one unit, e.g. 10 x 5 x 2 cm',
+  'validation.imageUrlProtocol': 'Image URL must be http(s)',
+  'validation.imageUrlInvalid': 'Image URL is not a valid URL',
+
+  'parts.title': 'Parts Inventory',
+  'parts.import': 'Import',
+  'parts.loadError': 'Error loading parts: {message}',
+  'parts.updated': 'Updated',
+  'parts.empty': 'No parts yet. Create your first part to get started.',
+  'parts.draft': 'Draft',
+  'parts.noResults': 'No results',
+  'parts.showing': 'Showing {from}–{to} of {total}',
+  'parts.page': 'Page {page} of {pageCount}',
+
+  'fitment.title': 'Vehicle Fitment',
+  'fitment.add': 'Add vehicle',
+  'fitment.empty': 'No fitments yet. Add the vehicles this part fits.',
+  'fitment.from': 'From',
+  'fitment.to': 'To',
+  'fitment.any': 'Any',
+  'fitment.makeRequired': 'Make is required',
+  'fitment.modelRequired': 'Model is required',
+  'fitment.yearRange': 'Years must be between {min} and {max}',
+  'fitment.endBeforeStart': 'End year must not be before start year',
+  'fitment.allYears': 'All years',
+  'fitment.upTo': 'Up to {year}',
+
+  'vin.label': 'VIN',
+  'vin.placeholder': '17-character VIN',
+  'vin.wrongLength': 'A VIN has {length} characters (got {actual})',
+  'vin.invalidCharacters': 'A VIN only uses digits and letters other than I, O and Q',
+  'vin.checkDigit': 'Check digit does not match; the VIN was probably mistyped',
+  'vin.checkDigitWarning': 'Check digit does not match. It is optional outside North America, but double-check the VIN.',
+  'vin.unknownMake': 'Unknown manufacturer ({wmi})',
+  'vin.otherYears': '(or {years})',
+  'vin.builtIn': 'built in {region}',
+
+  'stock.kind.receipt': 'Receipt',
+  'stock.kind.sale': 'Sale',
+  'stock.kind.return': 'Return',
+  'stock.kind.adjustment': 'Adjustment',
+  'stock.kind.reservation': 'Reservation',
+  'stock.kind.release': 'Release',
+  'stock.hint.receipt': 'Stock received from a supplier',
+  'stock.hint.sale': 'Stock sold and shipped',
+  'stock.hint.return': 'Stock returned by a customer',
+  'stock.hint.adjustment': 'Count corrections, damage or loss',
+  'stock.hint.reservation': 'Hold stock for an order',
+  'stock.hint.release': 'Give back held stock',
+  'stock.nonZero': 'Enter a whole number other than zero',
+  'stock.positive': 'Enter a positive number',
+  'stock.quantityRequired': 'Enter a quantity',
+  'stock.reasonRequired': 'Adjustments need a reason',
+  'stock.thresholdInvalid': 'Enter a whole number of zero or more',
+  'stock.onHand': 'On hand',
+  'stock.reserved': 'Reserved',
+  'stock.available': 'Available',
+  'stock.reorderThreshold': 'Reorder threshold',
+  'stock.defaultThreshold': 'Default ({count})',
+  'stock.saveThreshold': 'Save threshold',
+  'stock.thresholdHint': 'The part shows on the inventory dashboard when available stock drops to this level.',
+  'stock.recordMovement': 'Record a movement',
+  'stock.type': 'Type',
+  'stock.change': 'Change (+/-)',
+  'stock.quantity': 'Quantity',
+  'stock.reason': 'Reason',
+  'stock.reference': 'Reference',
+  'stock.referencePlaceholder': 'Order or invoice number',
+  'stock.recordKind': 'Record {kind}',
+  'stock.movements': 'Movements',
+  'stock.loadError': 'Error loading movements: {message}',
+  'stock.empty': 'No stock movements yet.',
+  'stock.when': 'When',
+  'stock.changeColumn': 'Change',
+  'stock.by': 'By',
+  'stock.reservedTag': '(reserved)',
+
+  'history.loadError': 'Error loading history: {message}',
+  'history.empty': 'No revisions yet.',
+  'history.revision': 'Revision {revision}',
+  'history.by': 'by {email}',
+  'history.oneChange': '{count} change',
+  'history.manyChanges': '{count} changes',
+  'history.restore': 'Restore',
+  'history.noChanges': 'No field changes.',
+  'history.deletedCategory': 'Deleted category',
+  'history.yes': 'Yes',
+  'history.no': 'No',
+  'history.keyFeatures': 'Key features',
+  'history.published': 'Published',
+
+  'merge.title': 'This part was changed while you were editing',
+  'merge.intro': 'Pick which value to keep for each field. Fields changed on both sides are highlighted.',
+  'merge.alreadyMatches': 'The saved part already matches your changes.',
+  'merge.field': 'Field',
+  'merge.mine': 'Your changes',
+  'merge.theirs': 'Saved by someone else',
+  'merge.keepAllMine': 'Keep all mine',
+  'merge.takeAllTheirs': 'Take all theirs',
+  'merge.cancel': 'Cancel',
+  'merge.apply': 'Use merged values',
+
+  'prices.onSale': 'On sale: the storefront shows {was} {now}, the lowest price in the 30 days before the last reduction.',
+  'prices.notOnSale': 'Not on sale. A reduction shows as a was/now price on the storefront for 30 days.',
+  'prices.loadError': 'Error loading price history: {message}',
+  'prices.empty': 'No price changes yet.',
+  'prices.when': 'When',
+  'prices.from': 'From',
+  'prices.to': 'To',
+  'prices.by': 'By',
+  'prices.opening': 'Opening price',
+
+  'presence.editing': '{email} is editing',
+  'presence.viewing': '{email} is viewing',
+  'presence.oneEditor': '{names} has unsaved changes to this part',
+  'presence.manyEditors': '{names} have unsaved changes to this part',
+  'presence.oneViewer': '{names} is also viewing this part',
+  'presence.manyViewers': '{names} are also viewing this part',
+
+  'categories.select': 'Select a category',
+  'categories.filter': 'Filter categories',
+  'categories.none': 'No category',
+  'categories.noMatches': 'No matching categories',
+  'categories.confirmDelete': 'Delete the {name} category?',
+
+  'saved.confirmDeleteList': 'Delete "{name}"? Its parts stay saved.',
+
+  'shipping.issue.missingDimensions': 'Dimensions are missing',
+  'shipping.issue.invalidDimensions': 'Dimensions are not in L x W x H form',
+  'shipping.issue.missingWeight': 'Weight is missing',
+  'shipping.issue.tooLarge': 'Too large or heavy for every shipping box',
+  'shipping.confirmDeleteBox': 'Delete the {name} box?',
+  'shipping.confirmDeleteCarrier': 'Delete {name} and its rates?',
+  'shipping.confirmDeleteZone': 'Delete the {name} zone and its rates?',
+
+  'pricing.confirmDeleteCurrency': 'Delete {currency}?',
+  'pricing.confirmDeleteTaxClass': 'Delete the {name} tax class?',
+
+  'search.title': 'Catalog Search',
+  'search.export': 'Export CSV',
+  'search.exportError': 'Export failed: {message}',
+  'search.share': 'Share search',
+  'search.linkCopied': 'Link copied',
+  'search.placeholder': 'Search part names and descriptions',
+  'search.submit': 'Search',
+  'search.clearFilters': 'Clear all filters',
+  'search.year': 'Year',
+  'search.yearPlaceholder': 'e.g., 2018',
+  'search.go': 'Go',
+  'search.uncategorized': 'Uncategorized',
+  'search.price': 'Price ({currency})',
+  'search.priceUnder': 'Under {max}',
+  'search.priceBetween': '{min} – {max}',
+  'search.priceFrom': '{min} and up',
+  'search.min': 'Min',
+  'search.max': 'Max',
+  'search.availability': 'Availability',
+  'search.anyAvailability': 'Any availability',
+  'search.inStock': 'In stock',
+  'search.outOfStock': 'Out of stock',
+  'search.oneResult': '{count} part found',
+  'search.manyResults': '{count} parts found',
+  'search.sortRecent': 'Recently updated',
+  'search.sortPriceAsc': 'Price: low to high',
+  'search.sortPriceDesc': 'Price: high to low',
+  'search.sortName': 'Name',
+  'search.loadError': 'Error searching parts: {message}',
+  'search.empty': 'No parts match these filters.',
+
+  'users.title': 'Users',
+  'users.invite': 'Invite a user',
+  'users.email': 'Email',
+  'users.role': 'Role',
+  'users.invited': 'Invitation sent.',
+  'users.sendInvite': 'Send Invite',
+  'users.loadError': 'Error loading users: {message}',
+  'users.roleError': 'Error updating role: {message}',
+  'users.user': 'User',
+  'users.joined': 'Joined',
+};
+
+export default en;
@@ -0,0 +1,418 @@
+import type { Messages } from '../i18n';
+
+const es: Messages = {
+  'app.name': 'Gestor de Piezas',
+
+  'nav.parts': 'Piezas',
+  'nav.catalog': 'Catálogo',
+  'nav.fitment': 'Compatibilidad',
+  'nav.saved': 'Guardadas',
+  'nav.cart': 'Carrito',
+  'nav.orders': 'Pedidos',
+  'nav.lowStock': 'Stock bajo',
+  'nav.orderQueue': 'Cola de pedidos',
+  'nav.categories': 'Categorías',
+  'nav.shipping': 'Envíos',
+  'nav.pricing': 'Precios',
+  'nav.users': 'Usuarios',
+  'nav.signOut': 'Cerrar sesión',
+  'nav.language': 'Idioma',
+  'nav.displayCurrency': 'Moneda de visualización',
+  'nav.profile': 'Perfil',
+
+  'role.admin': 'Administrador',
+  'role.editor': 'Editor de inventario',
+  'role.buyer': 'Comprador',
+  'role.adminDescription': 'Gestiona usuarios, categorías y todas las piezas',
+  'role.editorDescription': 'Crea piezas y edita las suyas',
+  'role.buyerDescription': 'Consulta el catálogo y guarda piezas',
+
+  'condition.New': 'Nuevo',
+  'condition.Refurbished': 'Reacondicionado',
+  'condition.Used': 'Usado',
+
+  'view.main': 'Principal',
+  'view.front': 'Frontal',
+  'view.back': 'Trasera',
+  'view.left': 'Izquierda',
+  'view.right': 'Derecha',
+  'view.top': 'Superior',
+  'view.detail': 'Detalle',
+
+  'field.itemname': 'Nombre de la pieza',
+  'field.category': 'Categoría',
+  'field.make': 'Marca',
+  'field.model': 'Modelo',
+  'field.condition': 'Estado',
+  'field.description': 'Descripción',
+  'field.price': 'Precio',
+  'field.openingStock': 'Stock inicial',
+  'field.stock': 'Stock',
+  'field.currency': 'Moneda',
+  'field.taxClass': 'Tipo impositivo',
+  'field.color': 'Color',
+  'field.keyFeatures': 'Características principales (una por línea)',
+  'field.weight': 'Peso (kg)',
+  'field.dimensions': 'Dimensiones (L x An x Al)',
+  'field.material': 'Material',
+  'field.warranty': 'Garantía (meses)',
+
+  'placeholder.itemname': 'Introduce el nombre de la pieza',
+  'placeholder.make': 'Introduce el fabricante',
+  'placeholder.model': 'Introduce el modelo',
+  'placeholder.description': 'Descripción detallada de la pieza',
+  'placeholder.stock': 'Introduce la cantidad',
+  'placeholder.color': 'Introduce el color',
+  'placeholder.keyFeatures': 'Característica 1\nCaracterística 2\nCaracterística 3',
+  'placeholder.weight': 'Introduce el peso',
+  'placeholder.dimensions': 'p. ej., 10 x 5 x 2 cm',
+  'placeholder.material': 'Introduce el material',
+  'placeholder.warranty': 'Introduce la garantía',
+
+  'editor.newPart': 'Nueva pieza',
+  'editor.untitledPart': 'Pieza sin nombre',
+  'editor.part': 'Pieza',
+  'editor.loadError': 'Error al cargar la pieza: {message}',
+  'editor.notFound': 'Esta pieza no existe.',
+  'editor.backToParts': 'Volver a piezas',
+  'editor.viewInStore': 'Ver en la tienda',
+  'editor.publish': 'Publicar',
+  'editor.unpublish': 'Retirar',
+  'editor.addToCart': 'Añadir al carrito',
+  'editor.addedToCart': 'Añadida al carrito',
+  'editor.bookmark': 'Guardar pieza',
+  'editor.bookmarked': 'Guardada',
+  'editor.partInformation': 'Información de la pieza',
+  'editor.categoriesError': 'Error al cargar las categorías: {message}',
+  'editor.readOnly': 'Solo tienes acceso de lectura a esta pieza.',
+  'editor.draftFound': 'Tienes cambios sin guardar del {date}.',
+  'editor.restoreDraft': 'Restaurar borrador',
+  'editor.discardDraft': 'Descartar',
+  'editor.merged': 'Tus cambios se han combinado con la última versión guardada. Revísalos y guarda la pieza.',
+  'editor.revisionLoaded': 'La revisión {revision} está cargada en el formulario. Guarda la pieza para conservarla.',
+  'editor.saveSuccess': '¡Información de la pieza guardada!',
+  'editor.prefillFromVin': 'Rellenar desde el VIN',
+  'editor.stockOnHand': '{onHand} en existencia',
+  'editor.stockOnHandReserved': '{onHand} en existencia, {reserved} reservadas',
+  'editor.stockHint': 'Registra entradas, ventas y ajustes en Stock, más abajo.',
+  'editor.notShippable': 'No se puede enviar: {reason}',
+  'editor.create': 'Crear pieza',
+  'editor.save': 'Guardar pieza',
+  'editor.saving': 'Guardando...',
+  'editor.unsavedChanges': 'Cambios sin guardar.',
+  'editor.draftSavedAt': 'Borrador guardado a las {time}.',
+  'editor.draftSavedLocally': 'Borrador guardado a las {time} solo en este dispositivo.',
+  'editor.images': 'Imágenes de {name}',
+  'editor.createBeforeImages': 'Crea la pieza para empezar a subir imágenes.',
+  'editor.stock': 'Stock',
+  'editor.priceHistory': 'Historial de precios',
+  'editor.history': 'Historial',
+  'editor.translations': 'Traducciones',
+  'editor.fixFields': 'Corrige los campos marcados',
+  'editor.fixFitments': 'Corrige las filas de compatibilidad de vehículos',
+  'editor.notEditable': 'Esta pieza ya no existe o ya no puedes editarla.',
+  'editor.confirmRestoreRevision': '¿Sustituir tus cambios sin guardar por esta revisión?',
+  'editor.changedElsewhere': 'Otra persona acaba de cambiarlo',
+  'editor.oneEditing': '{names} está editando este campo',
+  'editor.manyEditing': '{names} están editando este campo',
+  'editor.leaveUnsaved': 'Tienes cambios sin guardar. ¿Salir de esta página de todos modos?',
+
+  'translations.intro': 'Quien navega en otro idioma ve este texto en lugar del original de la pieza. Los campos vacíos muestran el original.',
+  'translations.notTranslated': 'Sin traducir',
+  'translations.updated': 'Actualizada el {date}',
+  'translations.save': 'Guardar traducción',
+  'translations.saved': 'Traducción guardada.',
+  'translations.remove': 'Eliminar',
+  'translations.confirmRemove': '¿Eliminar la traducción ({language})?',
+  'translations.loadError': 'Error al cargar las traducciones: {message}',
+  'translations.featuresTooMany': 'Como máximo {max} características',
+  'translations.tooLong': '{field} admite como máximo {max} caracteres',
+
+  'store.loadError': 'Error al cargar la pieza: {message}',
+  'store.notFound': 'Pieza no encontrada',
+  'store.notAvailable': 'Esta pieza no está disponible o ya no está a la venta.',
+  'store.was': 'Antes',
+  'store.inStock': '{count} en stock',
+  'store.outOfStock': 'Agotado',
+  'store.warranty': 'Garantía de {months} meses',
+  'store.specifications': 'Especificaciones',
+  'store.weight': 'Peso',
+  'store.weightValue': '{weight} kg',
+  'store.dimensions': 'Dimensiones',
+  'store.warrantyLabel': 'Garantía',
+  'store.warrantyMonths': '{months} meses',
+  'store.partNumber': 'Referencia',
+  'store.fitment': 'Vehículos compatibles',
+  'store.noFitment': 'No hay información de compatibilidad. Consulta la descripción o contáctanos.',
+  'store.years': 'Años',
+  'store.trim': 'Acabado',
+  'store.engine': 'Motor',
+  'store.description': 'Descripción',
+
+  'auth.title': 'Gestión de Piezas de Automoción',
+  'auth.subtitle': 'Inicia sesión para gestionar tu inventario de piezas',
+  'auth.passwordTab': 'Contraseña',
+  'auth.magicLinkTab': 'Enlace por correo',
+  'auth.email': 'Correo electrónico',
+  'auth.password': 'Contraseña',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.signUp': 'Crear cuenta',
+  'auth.haveAccount': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.noAccount': '¿Eres nuevo? Crea una cuenta',
+  'auth.forgotPassword': '¿Olvidaste la contraseña?',
+  'auth.sendReset': 'Enviarme un enlace para restablecerla',
+  'auth.resetSent': 'Revisa {email}: te enviamos un enlace para elegir una contraseña nueva.',
+  'auth.backToSignIn': 'Volver a iniciar sesión',
+  'auth.sendMagicLink': 'Enviarme un enlace de acceso',
+  'auth.magicLinkSent': 'Revisa {email}: te enviamos un enlace de acceso.',
+  'auth.confirmEmail': 'Revisa {email} para confirmar tu dirección y después inicia sesión.',
+  'auth.continueWith': 'Continuar con {provider}',
+  'auth.or': 'o',
+  'auth.sso': 'Iniciar sesión con SSO',
+  'auth.ssoHint': 'Introduce tu correo de trabajo para continuar al acceso de tu empresa.',
+  'auth.ssoEmailRequired': 'Introduce tu correo de trabajo',
+  'auth.passwordTooShort': 'Usa al menos {min} caracteres',
+  'auth.sessionExpired': 'Tu sesión ha caducado. Vuelve a iniciar sesión para continuar.',
+  'auth.sessionExpiredTitle': 'Sesión caducada',
+  'auth.sessionExpiredBody': 'Vuelve a iniciar sesión para seguir trabajando. Los cambios sin guardar siguen en esta página.',
+  'auth.signOutInstead': 'Cerrar sesión',
+
+  'profile.title': 'Tu perfil',
+  'profile.details': 'Datos del perfil',
+  'profile.email': 'Correo electrónico',
+  'profile.role': 'Rol',
+  'profile.signInMethods': 'Métodos de acceso: {methods}',
+  'profile.displayName': 'Nombre visible',
+  'profile.shopName': 'Taller',
+  'profile.phone': 'Teléfono',
+  'profile.save': 'Guardar perfil',
+  'profile.saved': 'Perfil guardado',
+  'profile.loadError': 'Error al cargar el perfil: {message}',
+  'profile.tooLong': '{field} admite como máximo {max} caracteres',
+  'profile.phoneInvalid': 'Introduce dígitos, con un + inicial opcional y espacios, puntos, guiones o paréntesis',
+  'profile.password': 'Contraseña',
+  'profile.passwordIntro': 'Define una contraseña para poder entrar también con tu correo y contraseña.',
+  'profile.recovery': 'Elige una contraseña nueva para terminar de restablecerla.',
+  'profile.newPassword': 'Contraseña nueva',
+  'profile.confirmPassword': 'Confirma la contraseña nueva',
+  'profile.passwordMismatch': 'Las contraseñas no coinciden',
+  'profile.savePassword': 'Actualizar contraseña',
+  'profile.passwordSaved': 'Contraseña actualizada',
+
+  'gallery.loadError': 'Error al cargar las imágenes: {message}',
+  'gallery.onlyImages': 'Solo se pueden añadir archivos de imagen a la galería',
+  'gallery.dropHint': 'Suelta fotos aquí o haz clic para elegirlas. Arrastra las imágenes para reordenarlas.',
+  'gallery.empty': 'Aún no hay imágenes.',
+  'gallery.imageAlt': '{name}, vista {view}',
+  'gallery.primary': 'Principal',
+  'gallery.makePrimary': 'Usar como imagen principal',
+  'gallery.delete': 'Eliminar imagen',
+  'gallery.confirmDelete': '¿Seguro que quieres eliminar esta imagen?',
+  'gallery.caption': 'Pie de foto',
+  'gallery.altText': 'Texto alternativo para lectores de pantalla',
+  'gallery.queued': 'En espera...',
+  'gallery.processing': 'Optimizando...',
+  'gallery.uploading': 'Subiendo...',
+  'gallery.waiting': 'Se reintentará en breve...',
+  'gallery.failed': 'Error',
+  'gallery.retry': 'Reintentar',
+  'gallery.discard': 'Descartar',
+  'gallery.cancelUpload': 'Cancelar subida',
+  'gallery.offline': 'Sin conexión; se reanudará cuando vuelva la conexión',
+
+  'validation.required': '{label}: campo obligatorio',
+  'validation.tooLong': '{label}: máximo {max} caracteres',
+  'validation.number': '{label}: debe ser un número',
+  'validation.integer': '{label}: debe ser un número entero',
+  'validation.min': '{label}: mínimo {min}',
+  'validation.max': '{label}: máximo {max}',
+  'validation.decimals': '{label}: como máximo {decimals} decimales',
+  'validation.amount': '{label}: debe ser un importe',
+  'validation.condition': 'El estado debe ser uno de estos: {options}',
+  'validation.currency': 'La moneda debe ser un código de tres letras, p. ej. EUR',
+  'validation.taxClass': 'Elige un tipo impositivo de la lista',
+  'validation.category': 'Elige una categoría de la lista',
+  'validation.keyFeatureCount': 'Indica como máximo {max} características',
+  'validation.keyFeatureLength': 'Cada característica admite como máximo {max} caracteres',
+  'validation.dimensions': 'Usa L x An x Al con una sola unidad, p. ej. 10 x 5 x 2 cm',
+  'validation.imageUrlProtocol': 'La URL de la imagen debe ser http(s)',
+  'validation.imageUrlInvalid': 'La URL de la imagen no es válida',
+
+  'parts.title': 'Inventario de piezas',
+  'parts.import': 'Importar',
+  'parts.loadError': 'Error al cargar las piezas: {message}',
+  'parts.updated': 'Actualizado',
+  'parts.empty': 'Aún no hay piezas. Crea la primera para empezar.',
+  'parts.draft': 'Borrador',
+  'parts.noResults': 'Sin resultados',
+  'parts.showing': 'Mostrando {from}–{to} de {total}',
+  'parts.page': 'Página {page} de {pageCount}',
+
+  'fitment.title': 'Vehículos compatibles',
+  'fitment.add': 'Añadir vehículo',
+  'fitment.empty': 'Aún no hay compatibilidades. Añade los vehículos en los que encaja esta pieza.',
+  'fitment.from': 'Desde',
+  'fitment.to': 'Hasta',
+  'fitment.any': 'Cualquiera',
+  'fitment.makeRequired': 'La marca es obligatoria',
+  'fitment.modelRequired': 'El modelo es obligatorio',
+  'fitment.yearRange': 'Los años deben estar entre {min} y {max}',
+  'fitment.endBeforeStart': 'El año final no puede ser anterior al inicial',
+  'fitment.allYears': 'Todos los años',
+  'fitment.upTo': 'Hasta {year}',
+
+  'vin.label': 'VIN',
+  'vin.placeholder': 'VIN de 17 caracteres',
+  'vin.wrongLength': 'Un VIN tiene {length} caracteres (se han introducido {actual})',
+  'vin.invalidCharacters': 'Un VIN solo usa dígitos y letras, salvo I, O y Q',
+  'vin.checkDigit': 'El dígito de control no coincide; probablemente el VIN está mal escrito',
+  'vin.checkDigitWarning': 'El dígito de control no coincide. Fuera de Norteamérica es opcional, pero revisa el VIN.',
+  'vin.unknownMake': 'Fabricante desconocido ({wmi})',
+  'vin.otherYears': '(o {years})',
+  'vin.builtIn': 'fabricado en {region}',
+
+  'stock.kind.receipt': 'Entrada',
+  'stock.kind.sale': 'Venta',
+  'stock.kind.return': 'Devolución',
+  'stock.kind.adjustment': 'Ajuste',
+  'stock.kind.reservation': 'Reserva',
+  'stock.kind.release': 'Liberación',
+  'stock.hint.receipt': 'Existencias recibidas de un proveedor',
+  'stock.hint.sale': 'Existencias vendidas y enviadas',
+  'stock.hint.return': 'Existencias devueltas por un cliente',
+  'stock.hint.adjustment': 'Correcciones de recuento, daños o pérdidas',
+  'stock.hint.reservation': 'Reservar existencias para un pedido',
+  'stock.hint.release': 'Liberar existencias reservadas',
+  'stock.nonZero': 'Introduce un número entero distinto de cero',
+  'stock.positive': 'Introduce un número positivo',
+  'stock.quantityRequired': 'Introduce una cantidad',
+  'stock.reasonRequired': 'Los ajustes necesitan un motivo',
+  'stock.thresholdInvalid': 'Introduce un número entero igual o mayor que cero',
+  'stock.onHand': 'En almacén',
+  'stock.reserved': 'Reservado',
+  'stock.available': 'Disponible',
+  'stock.reorderThreshold': 'Umbral de reposición',
+  'stock.defaultThreshold': 'Predeterminado ({count})',
+  'stock.saveThreshold': 'Guardar umbral',
+  'stock.thresholdHint': 'La pieza aparece en el panel de inventario cuando las existencias disponibles bajan a este nivel.',
+  'stock.recordMovement': 'Registrar un movimiento',
+  'stock.type': 'Tipo',
+  'stock.change': 'Cambio (+/-)',
+  'stock.quantity': 'Cantidad',
+  'stock.reason': 'Motivo',
+  'stock.reference': 'Referencia',
+  'stock.referencePlaceholder': 'Número de pedido o factura',
+  'stock.recordKind': 'Registrar {kind}',
+  'stock.movements': 'Movimientos',
+  'stock.loadError': 'Error al cargar los movimientos: {message}',
+  'stock.empty': 'Aún no hay movimientos de existencias.',
+  'stock.when': 'Fecha',
+  'stock.changeColumn': 'Cambio',
+  'stock.by': 'Por',
+  'stock.reservedTag': '(reservado)',
+
+  'history.loadError': 'Error al cargar el historial: {message}',
+  'history.empty': 'Aún no hay revisiones.',
+  'history.revision': 'Revisión {revision}',
+  'history.by': 'por {email}',
+  'history.oneChange': '{count} cambio',
+  'history.manyChanges': '{count} cambios',
+  'history.restore': 'Restaurar',
+  'history.noChanges': 'Ningún campo ha cambiado.',
+  'history.deletedCategory': 'Categoría eliminada',
+  'history.yes': 'Sí',
+  'history.no': 'No',
+  'history.keyFeatures': 'Características principales',
+  'history.published': 'Publicada',
+
+  'merge.title': 'Esta pieza ha cambiado mientras la editabas',
+  'merge.intro': 'Elige qué valor conservar en cada campo. Los campos cambiados en ambos lados aparecen resaltados.',
+  'merge.alreadyMatches': 'La pieza guardada ya coincide con tus cambios.',
+  'merge.field': 'Campo',
+  'merge.mine': 'Tus cambios',
+  'merge.theirs': 'Guardado por otra persona',
+  'merge.keepAllMine': 'Conservar todos los míos',
+  'merge.takeAllTheirs': 'Aceptar todos los suyos',
+  'merge.cancel': 'Cancelar',
+  'merge.apply': 'Usar los valores combinados',
+
+  'prices.onSale': 'En oferta: la tienda muestra {was} {now}, el precio más bajo de los 30 días anteriores a la última rebaja.',
+  'prices.notOnSale': 'Sin oferta. Una rebaja se muestra en la tienda como precio anterior/actual durante 30 días.',
+  'prices.loadError': 'Error al cargar el historial de precios: {message}',
+  'prices.empty': 'Aún no hay cambios de precio.',
+  'prices.when': 'Fecha',
+  'prices.from': 'De',
+  'prices.to': 'A',
+  'prices.by': 'Por',
+  'prices.opening': 'Precio inicial',
+
+  'presence.editing': '{email} está editando',
+  'presence.viewing': '{email} está viendo',
+  'presence.oneEditor': '{names} tiene cambios sin guardar en esta pieza',
+  'presence.manyEditors': '{names} tienen cambios sin guardar en esta pieza',
+  'presence.oneViewer': '{names} también está viendo esta pieza',
+  'presence.manyViewers': '{names} también están viendo esta pieza',
+
+  'categories.select': 'Selecciona una categoría',
+  'categories.filter': 'Filtrar categorías',
+  'categories.none': 'Sin categoría',
+  'categories.noMatches': 'Ninguna categoría coincide',
+  'categories.confirmDelete': '¿Eliminar la categoría {name}?',
+
+  'saved.confirmDeleteList': '¿Eliminar «{name}»? Sus piezas siguen guardadas.',
+
+  'shipping.issue.missingDimensions': 'Faltan las dimensiones',
+  'shipping.issue.invalidDimensions': 'Las dimensiones no tienen el formato L x An x Al',
+  'shipping.issue.missingWeight': 'Falta el peso',
+  'shipping.issue.tooLarge': 'Demasiado grande o pesada para todas las cajas de envío',
+  'shipping.confirmDeleteBox': '¿Eliminar la caja {name}?',
+  'shipping.confirmDeleteCarrier': '¿Eliminar {name} y sus tarifas?',
+  'shipping.confirmDeleteZone': '¿Eliminar la zona {name} y sus tarifas?',
+
+  'pricing.confirmDeleteCurrency': '¿Eliminar {currency}?',
+  'pricing.confirmDeleteTaxClass': '¿Eliminar el tipo impositivo {name}?',
+
+  'search.title': 'Búsqueda en el catálogo',
+  'search.export': 'Exportar CSV',
+  'search.exportError': 'Error al exportar: {message}',
+  'search.share': 'Compartir búsqueda',
+  'search.linkCopied': 'Enlace copiado',
+  'search.placeholder': 'Buscar en nombres y descripciones de piezas',
+  'search.submit': 'Buscar',
+  'search.clearFilters': 'Quitar todos los filtros',
+  'search.year': 'Año',
+  'search.yearPlaceholder': 'p. ej., 2018',
+  'search.go': 'Ir',
+  'search.uncategorized': 'Sin categoría',
+  'search.price': 'Precio ({currency})',
+  'search.priceUnder': 'Menos de {max}',
+  'search.priceBetween': '{min} – {max}',
+  'search.priceFrom': '{min} o más',
+  'search.min': 'Mín.',
+  'search.max': 'Máx.',
+  'search.availability': 'Disponibilidad',
+  'search.anyAvailability': 'Cualquier disponibilidad',
+  'search.inStock': 'En stock',
+  'search.outOfStock': 'Agotado',
+  'search.oneResult': '{count} pieza encontrada',
+  'search.manyResults': '{count} piezas encontradas',
+  'search.sortRecent': 'Actualizadas recientemente',
+  'search.sortPriceAsc': 'Precio: de menor a mayor',
+  'search.sortPriceDesc': 'Precio: de mayor a menor',
+  'search.sortName': 'Nombre',
+  'search.loadError': 'Error al buscar piezas: {message}',
+  'search.empty': 'Ninguna pieza coincide con estos filtros.',
+
+  'users.title': 'Usuarios',
+  'users.invite': 'Invitar a un usuario',
+  'users.email': 'Correo electrónico',
+  'users.role': 'Rol',
+  'users.invited': 'Invitación enviada.',
+  'users.sendInvite': 'Enviar invitación',
+  'users.loadError': 'Error al cargar los usuarios: {message}',
+  'users.roleError': 'Error al actualizar el rol: {message}',
+  'users.user': 'Usuario',
+  'users.joined': 'Alta',
+};
+
+export default es;
@@ -0,0 +1,418 @@
+import type { Messages } from '../i18n';
+
+const fr: Messages = {
+  'app.name': 'Gestionnaire de pièces',
+
+  'nav.parts': 'Pièces',
+  'nav.catalog': 'Catalogue',
+  'nav.fitment': 'Compatibilité',
+  'nav.saved': 'Enregistrées',
+  'nav.cart': 'Panier',
+  'nav.orders': 'Commandes',
+  'nav.lowStock': 'Stock faible',
+  'nav.orderQueue': 'File des commandes',
+  'nav.categories': 'Catégories',
+  'nav.shipping': 'Expédition',
+  'nav.pricing': 'Tarifs',
+  'nav.users': 'Utilisateurs',
+  'nav.signOut': 'Se déconnecter',
+  'nav.language': 'Langue',
+  'nav.displayCurrency': "Devise d'affichage",
+  'nav.profile': 'Profil',
+
+  'role.admin': 'Administrateur',
+  'role.editor': "Éditeur d'inventaire",
+  'role.buyer': 'Acheteur',
+  'role.adminDescription': 'Gère les utilisateurs, les catégories et toutes les pièces',
+  'role.editorDescription': 'Crée des pièces et modifie les siennes',
+  'role.buyerDescription': 'Parcourt le catalogue et enregistre des pièces',
+
+  'condition.New': 'Neuf',
+  'condition.Refurbished': 'Reconditionné',
+  'condition.Used': 'Occasion',
+
+  'view.main': 'Principale',
+  'view.front': 'Avant',
+  'view.back': 'Arrière',
+  'view.left': 'Gauche',
+  'view.right': 'Droite',
+  'view.top': 'Dessus',
+  'view.detail': 'Détail',
+
+  'field.itemname': 'Nom de la pièce',
+  'field.category': 'Catégorie',
+  'field.make': 'Marque',
+  'field.model': 'Modèle',
+  'field.condition': 'État',
+  'field.description': 'Description',
+  'field.price': 'Prix',
+  'field.openingStock': 'Stock initial',
+  'field.stock': 'Stock',
+  'field.currency': 'Devise',
+  'field.taxClass': 'Catégorie de taxe',
+  'field.color': 'Couleur',
+  'field.keyFeatures': 'Caractéristiques principales (une par ligne)',
+  'field.weight': 'Poids (kg)',
+  'field.dimensions': 'Dimensions (L x l x H)',
+  'field.material': 'Matériau',
+  'field.warranty': 'Garantie (mois)',
+
+  'placeholder.itemname': 'Saisissez le nom de la pièce',
+  'placeholder.make': 'Saisissez le fabricant',
+  'placeholder.model': 'Saisissez le modèle',
+  'placeholder.description': 'Description détaillée de la pièce',
+  'placeholder.stock': 'Saisissez la quantité',
+  'placeholder.color': 'Saisissez la couleur',
+  'placeholder.keyFeatures': 'Caractéristique 1\nCaractéristique 2\nCaractéristique 3',
+  'placeholder.weight': 'Saisissez le poids',
+  'placeholder.dimensions': 'p. ex. 10 x 5 x 2 cm',
+  'placeholder.material': 'Saisissez le matériau',
+  'placeholder.warranty': 'Saisissez la garantie',
+
+  'editor.newPart': 'Nouvelle pièce',
+  'editor.untitledPart': 'Pièce sans nom',
+  'editor.part': 'Pièce',
+  'editor.loadError': 'Erreur de chargement de la pièce : {message}',
+  'editor.notFound': "Cette pièce n'existe pas.",
+  'editor.backToParts': 'Retour aux pièces',
+  'editor.viewInStore': 'Voir dans la boutique',
+  'editor.publish': 'Publier',
+  'editor.unpublish': 'Dépublier',
+  'editor.addToCart': 'Ajouter au panier',
+  'editor.addedToCart': 'Ajoutée au panier',
+  'editor.bookmark': 'Enregistrer',
+  'editor.bookmarked': 'Enregistrée',
+  'editor.partInformation': 'Informations sur la pièce',
+  'editor.categoriesError': 'Erreur de chargement des catégories : {message}',
+  'editor.readOnly': 'Vous avez un accès en lecture seule à cette pièce.',
+  'editor.draftFound': 'Vous avez des modifications non enregistrées du {date}.',
+  'editor.restoreDraft': 'Restaurer le brouillon',
+  'editor.discardDraft': 'Ignorer',
+  'editor.merged': 'Vos modifications ont été fusionnées avec la dernière version enregistrée. Vérifiez-les puis enregistrez la pièce.',
+  'editor.revisionLoaded': 'La révision {revision} est chargée dans le formulaire. Enregistrez la pièce pour la conserver.',
+  'editor.saveSuccess': 'Informations de la pièce enregistrées !',
+  'editor.prefillFromVin': 'Préremplir depuis le VIN',
+  'editor.stockOnHand': '{onHand} en stock',
+  'editor.stockOnHandReserved': '{onHand} en stock, {reserved} réservées',
+  'editor.stockHint': 'Enregistrez réceptions, ventes et ajustements dans Stock, plus bas.',
+  'editor.notShippable': 'Non expédiable : {reason}',
+  'editor.create': 'Créer la pièce',
+  'editor.save': 'Enregistrer la pièce',
+  'editor.saving': 'Enregistrement...',
+  'editor.unsavedChanges': 'Modifications non enregistrées.',
+  'editor.draftSavedAt': 'Brouillon enregistré à {time}.',
+  'editor.draftSavedLocally': 'Brouillon enregistré à {time} sur cet appareil uniquement.',
+  'editor.images': 'Images : {name}',
+  'editor.createBeforeImages': 'Créez la pièce pour commencer à téléverser des images.',
+  'editor.stock': 'Stock',
+  'editor.priceHistory': 'Historique des prix',
+  'editor.history': 'Historique',
+  'editor.translations': 'Traductions',
+  'editor.fixFields': 'Corrigez les champs signalés',
+  'editor.fixFitments': 'Corrigez les lignes de compatibilité véhicule',
+  'editor.notEditable': "Cette pièce n'existe plus ou vous ne pouvez plus la modifier.",
+  'editor.confirmRestoreRevision': 'Remplacer vos modifications non enregistrées par cette révision ?',
+  'editor.changedElsewhere': "Quelqu'un d'autre vient de le modifier",
+  'editor.oneEditing': '{names} modifie ce champ',
+  'editor.manyEditing': '{names} modifient ce champ',
+  'editor.leaveUnsaved': 'Vous avez des modifications non enregistrées. Quitter cette page quand même ?',
+
+  'translations.intro': "Les visiteurs qui naviguent dans une autre langue voient ce texte à la place de celui de la pièce. Les champs vides affichent l'original.",
+  'translations.notTranslated': 'Non traduite',
+  'translations.updated': 'Mise à jour le {date}',
+  'translations.save': 'Enregistrer la traduction',
+  'translations.saved': 'Traduction enregistrée.',
+  'translations.remove': 'Supprimer',
+  'translations.confirmRemove': 'Supprimer la traduction ({language}) ?',
+  'translations.loadError': 'Erreur de chargement des traductions : {message}',
+  'translations.featuresTooMany': 'Au plus {max} caractéristiques',
+  'translations.tooLong': '{field} : {max} caractères au maximum',
+
+  'store.loadError': 'Erreur de chargement de la pièce : {message}',
+  'store.notFound': 'Pièce introuvable',
+  'store.notAvailable': "Cette pièce n'est pas disponible ou n'est plus en vente.",
+  'store.was': 'Avant',
+  'store.inStock': '{count} en stock',
+  'store.outOfStock': 'Rupture de stock',
+  'store.warranty': 'Garantie {months} mois',
+  'store.specifications': 'Caractéristiques techniques',
+  'store.weight': 'Poids',
+  'store.weightValue': '{weight} kg',
+  'store.dimensions': 'Dimensions',
+  'store.warrantyLabel': 'Garantie',
+  'store.warrantyMonths': '{months} mois',
+  'store.partNumber': 'Référence',
+  'store.fitment': 'Véhicules compatibles',
+  'store.noFitment': "Aucune information de compatibilité. Consultez la description ou contactez-nous.",
+  'store.years': 'Années',
+  'store.trim': 'Finition',
+  'store.engine': 'Moteur',
+  'store.description': 'Description',
+
+  'auth.title': 'Gestion des Pièces Automobiles',
+  'auth.subtitle': 'Connectez-vous pour gérer votre stock de pièces',
+  'auth.passwordTab': 'Mot de passe',
+  'auth.magicLinkTab': 'Lien par e-mail',
+  'auth.email': 'E-mail',
+  'auth.password': 'Mot de passe',
+  'auth.signIn': 'Se connecter',
+  'auth.signUp': 'Créer un compte',
+  'auth.haveAccount': 'Déjà un compte ? Connectez-vous',
+  'auth.noAccount': 'Nouveau ? Créez un compte',
+  'auth.forgotPassword': 'Mot de passe oublié ?',
+  'auth.sendReset': 'M’envoyer un lien de réinitialisation',
+  'auth.resetSent': 'Consultez {email} : un lien vous permet de choisir un nouveau mot de passe.',
+  'auth.backToSignIn': 'Retour à la connexion',
+  'auth.sendMagicLink': 'M’envoyer un lien de connexion',
+  'auth.magicLinkSent': 'Consultez {email} : un lien de connexion vous attend.',
+  'auth.confirmEmail': 'Consultez {email} pour confirmer votre adresse, puis connectez-vous.',
+  'auth.continueWith': 'Continuer avec {provider}',
+  'auth.or': 'ou',
+  'auth.sso': 'Connexion SSO',
+  'auth.ssoHint': 'Saisissez votre e-mail professionnel pour accéder à la connexion de votre entreprise.',
+  'auth.ssoEmailRequired': 'Saisissez votre e-mail professionnel',
+  'auth.passwordTooShort': 'Utilisez au moins {min} caractères',
+  'auth.sessionExpired': 'Votre session a expiré. Reconnectez-vous pour continuer.',
+  'auth.sessionExpiredTitle': 'Session expirée',
+  'auth.sessionExpiredBody': 'Reconnectez-vous pour continuer. Les modifications non enregistrées restent sur cette page.',
+  'auth.signOutInstead': 'Se déconnecter',
+
+  'profile.title': 'Votre profil',
+  'profile.details': 'Informations du profil',
+  'profile.email': 'E-mail',
+  'profile.role': 'Rôle',
+  'profile.signInMethods': 'Méthodes de connexion : {methods}',
+  'profile.displayName': 'Nom affiché',
+  'profile.shopName': 'Atelier',
+  'profile.phone': 'Téléphone',
+  'profile.save': 'Enregistrer le profil',
+  'profile.saved': 'Profil enregistré',
+  'profile.loadError': 'Erreur de chargement du profil : {message}',
+  'profile.tooLong': '{field} : {max} caractères au maximum',
+  'profile.phoneInvalid': 'Saisissez des chiffres, avec un + initial facultatif et des espaces, points, tirets ou parenthèses',
+  'profile.password': 'Mot de passe',
+  'profile.passwordIntro': 'Définissez un mot de passe pour vous connecter aussi avec votre e-mail.',
+  'profile.recovery': 'Choisissez un nouveau mot de passe pour terminer la réinitialisation.',
+  'profile.newPassword': 'Nouveau mot de passe',
+  'profile.confirmPassword': 'Confirmez le nouveau mot de passe',
+  'profile.passwordMismatch': 'Les mots de passe ne correspondent pas',
+  'profile.savePassword': 'Mettre à jour le mot de passe',
+  'profile.passwordSaved': 'Mot de passe mis à jour',
+
+  'gallery.loadError': 'Erreur de chargement des images : {message}',
+  'gallery.onlyImages': 'Seuls des fichiers image peuvent être ajoutés à la galerie',
+  'gallery.dropHint': 'Déposez des photos ici ou cliquez pour les choisir. Faites glisser les images pour les réordonner.',
+  'gallery.empty': "Pas encore d'images.",
+  'gallery.imageAlt': '{name}, vue {view}',
+  'gallery.primary': 'Principale',
+  'gallery.makePrimary': 'Utiliser comme image principale',
+  'gallery.delete': "Supprimer l'image",
+  'gallery.confirmDelete': 'Voulez-vous vraiment supprimer cette image ?',
+  'gallery.caption': 'Légende',
+  'gallery.altText': "Texte alternatif pour les lecteurs d'écran",
+  'gallery.queued': 'En attente...',
+  'gallery.processing': 'Optimisation...',
+  'gallery.uploading': 'Envoi...',
+  'gallery.waiting': 'Nouvel essai bientôt...',
+  'gallery.failed': 'Échec',
+  'gallery.retry': 'Réessayer',
+  'gallery.discard': 'Abandonner',
+  'gallery.cancelUpload': "Annuler l'envoi",
+  'gallery.offline': 'Hors ligne ; reprendra au retour de la connexion',
+
+  'validation.required': '{label} : champ obligatoire',
+  'validation.tooLong': '{label} : {max} caractères maximum',
+  'validation.number': '{label} : doit être un nombre',
+  'validation.integer': '{label} : doit être un nombre entier',
+  'validation.min': '{label} : minimum {min}',
+  'validation.max': '{label} : maximum {max}',
+  'validation.decimals': '{label} : {decimals} décimales maximum',
+  'validation.amount': '{label} : doit être un montant',
+  'validation.condition': "L'état doit être l'un des suivants : {options}",
+  'validation.currency': 'La devise doit être un code de trois lettres, par ex. EUR',
+  'validation.taxClass': 'Choisissez une catégorie de taxe dans la liste',
+  'validation.category': 'Choisissez une catégorie dans la liste',
+  'validation.keyFeatureCount': 'Indiquez {max} caractéristiques au maximum',
+  'validation.keyFeatureLength': 'Chaque caractéristique doit faire {max} caractères au maximum',
+  'validation.dimensions': 'Utilisez L x l x H avec une seule unité, par ex. 10 x 5 x 2 cm',
+  'validation.imageUrlProtocol': "L'URL de l'image doit être en http(s)",
+  'validation.imageUrlInvalid': "L'URL de l'image n'est pas valide",
+
+  'parts.title': 'Inventaire des pièces',
+  'parts.import': 'Importer',
+  'parts.loadError': 'Erreur de chargement des pièces : {message}',
+  'parts.updated': 'Mise à jour',
+  'parts.empty': 'Aucune pièce pour le moment. Créez votre première pièce pour commencer.',
+  'parts.draft': 'Brouillon',
+  'parts.noResults': 'Aucun résultat',
+  'parts.showing': '{from}–{to} sur {total}',
+  'parts.page': 'Page {page} sur {pageCount}',
+
+  'fitment.title': 'Véhicules compatibles',
+  'fitment.add': 'Ajouter un véhicule',
+  'fitment.empty': 'Aucune compatibilité pour le moment. Ajoutez les véhicules sur lesquels cette pièce se monte.',
+  'fitment.from': 'De',
+  'fitment.to': 'À',
+  'fitment.any': 'Tous',
+  'fitment.makeRequired': 'La marque est obligatoire',
+  'fitment.modelRequired': 'Le modèle est obligatoire',
+  'fitment.yearRange': 'Les années doivent être comprises entre {min} et {max}',
+  'fitment.endBeforeStart': "L'année de fin ne peut pas précéder l'année de début",
+  'fitment.allYears': 'Toutes années',
+  'fitment.upTo': "Jusqu'à {year}",
+
+  'vin.label': 'VIN',
+  'vin.placeholder': 'VIN à 17 caractères',
+  'vin.wrongLength': 'Un VIN comporte {length} caractères ({actual} saisis)',
+  'vin.invalidCharacters': 'Un VIN ne contient que des chiffres et des lettres, sauf I, O et Q',
+  'vin.checkDigit': 'Le chiffre de contrôle ne correspond pas ; le VIN a sans doute été mal saisi',
+  'vin.checkDigitWarning': "Le chiffre de contrôle ne correspond pas. Il est facultatif hors d'Amérique du Nord, mais vérifiez le VIN.",
+  'vin.unknownMake': 'Constructeur inconnu ({wmi})',
+  'vin.otherYears': '(ou {years})',
+  'vin.builtIn': 'fabriqué en {region}',
+
+  'stock.kind.receipt': 'Réception',
+  'stock.kind.sale': 'Vente',
+  'stock.kind.return': 'Retour',
+  'stock.kind.adjustment': 'Ajustement',
+  'stock.kind.reservation': 'Réservation',
+  'stock.kind.release': 'Libération',
+  'stock.hint.receipt': "Stock reçu d'un fournisseur",
+  'stock.hint.sale': 'Stock vendu et expédié',
+  'stock.hint.return': 'Stock retourné par un client',
+  'stock.hint.adjustment': "Corrections d'inventaire, casse ou perte",
+  'stock.hint.reservation': 'Réserver du stock pour une commande',
+  'stock.hint.release': 'Rendre du stock réservé',
+  'stock.nonZero': 'Saisissez un nombre entier différent de zéro',
+  'stock.positive': 'Saisissez un nombre positif',
+  'stock.quantityRequired': 'Saisissez une quantité',
+  'stock.reasonRequired': 'Les ajustements nécessitent un motif',
+  'stock.thresholdInvalid': 'Saisissez un nombre entier supérieur ou égal à zéro',
+  'stock.onHand': 'En stock',
+  'stock.reserved': 'Réservé',
+  'stock.available': 'Disponible',
+  'stock.reorderThreshold': 'Seuil de réapprovisionnement',
+  'stock.defaultThreshold': 'Par défaut ({count})',
+  'stock.saveThreshold': 'Enregistrer le seuil',
+  'stock.thresholdHint': "La pièce apparaît sur le tableau de bord de l'inventaire lorsque le stock disponible descend à ce niveau.",
+  'stock.recordMovement': 'Enregistrer un mouvement',
+  'stock.type': 'Type',
+  'stock.change': 'Variation (+/-)',
+  'stock.quantity': 'Quantité',
+  'stock.reason': 'Motif',
+  'stock.reference': 'Référence',
+  'stock.referencePlaceholder': 'Numéro de commande ou de facture',
+  'stock.recordKind': 'Enregistrer : {kind}',
+  'stock.movements': 'Mouvements',
+  'stock.loadError': 'Erreur de chargement des mouvements : {message}',
+  'stock.empty': 'Aucun mouvement de stock pour le moment.',
+  'stock.when': 'Date',
+  'stock.changeColumn': 'Variation',
+  'stock.by': 'Par',
+  'stock.reservedTag': '(réservé)',
+
+  'history.loadError': "Erreur de chargement de l'historique : {message}",
+  'history.empty': 'Aucune révision pour le moment.',
+  'history.revision': 'Révision {revision}',
+  'history.by': 'par {email}',
+  'history.oneChange': '{count} modification',
+  'history.manyChanges': '{count} modifications',
+  'history.restore': 'Restaurer',
+  'history.noChanges': 'Aucun champ modifié.',
+  'history.deletedCategory': 'Catégorie supprimée',
+  'history.yes': 'Oui',
+  'history.no': 'Non',
+  'history.keyFeatures': 'Caractéristiques principales',
+  'history.published': 'Publiée',
+
+  'merge.title': 'Cette pièce a été modifiée pendant que vous la modifiiez',
+  'merge.intro': 'Choisissez la valeur à conserver pour chaque champ. Les champs modifiés des deux côtés sont mis en évidence.',
+  'merge.alreadyMatches': 'La pièce enregistrée correspond déjà à vos modifications.',
+  'merge.field': 'Champ',
+  'merge.mine': 'Vos modifications',
+  'merge.theirs': "Enregistré par quelqu'un d'autre",
+  'merge.keepAllMine': 'Garder toutes les miennes',
+  'merge.takeAllTheirs': 'Prendre toutes les leurs',
+  'merge.cancel': 'Annuler',
+  'merge.apply': 'Utiliser les valeurs fusionnées',
+
+  'prices.onSale': 'En promotion : la boutique affiche {was} {now}, le prix le plus bas des 30 jours précédant la dernière baisse.',
+  'prices.notOnSale': "Pas en promotion. Une baisse s'affiche dans la boutique en ancien/nouveau prix pendant 30 jours.",
+  'prices.loadError': "Erreur de chargement de l'historique des prix : {message}",
+  'prices.empty': 'Aucun changement de prix pour le moment.',
+  'prices.when': 'Date',
+  'prices.from': 'De',
+  'prices.to': 'À',
+  'prices.by': 'Par',
+  'prices.opening': 'Prix initial',
+
+  'presence.editing': '{email} modifie la pièce',
+  'presence.viewing': '{email} consulte la pièce',
+  'presence.oneEditor': '{names} a des modifications non enregistrées sur cette pièce',
+  'presence.manyEditors': '{names} ont des modifications non enregistrées sur cette pièce',
+  'presence.oneViewer': '{names} consulte aussi cette pièce',
+  'presence.manyViewers': '{names} consultent aussi cette pièce',
+
+  'categories.select': 'Sélectionnez une catégorie',
+  'categories.filter': 'Filtrer les catégories',
+  'categories.none': 'Aucune catégorie',
+  'categories.noMatches': 'Aucune catégorie correspondante',
+  'categories.confirmDelete': 'Supprimer la catégorie {name} ?',
+
+  'saved.confirmDeleteList': 'Supprimer « {name} » ? Ses pièces restent enregistrées.',
+
+  'shipping.issue.missingDimensions': 'Les dimensions sont manquantes',
+  'shipping.issue.invalidDimensions': 'Les dimensions ne sont pas au format L x l x H',
+  'shipping.issue.missingWeight': 'Le poids est manquant',
+  'shipping.issue.tooLarge': "Trop grande ou trop lourde pour tous les cartons d'expédition",
+  'shipping.confirmDeleteBox': 'Supprimer le carton {name} ?',
+  'shipping.confirmDeleteCarrier': 'Supprimer {name} et ses tarifs ?',
+  'shipping.confirmDeleteZone': 'Supprimer la zone {name} et ses tarifs ?',
+
+  'pricing.confirmDeleteCurrency': 'Supprimer {currency} ?',
+  'pricing.confirmDeleteTaxClass': 'Supprimer la catégorie de taxe {name} ?',
+
+  'search.title': 'Recherche dans le catalogue',
+  'search.export': 'Exporter en CSV',
+  'search.exportError': "Échec de l'export : {message}",
+  'search.share': 'Partager la recherche',
+  'search.linkCopied': 'Lien copié',
+  'search.placeholder': 'Rechercher dans les noms et descriptions des pièces',
+  'search.submit': 'Rechercher',
+  'search.clearFilters': 'Effacer tous les filtres',
+  'search.year': 'Année',
+  'search.yearPlaceholder': 'par ex. 2018',
+  'search.go': 'OK',
+  'search.uncategorized': 'Sans catégorie',
+  'search.price': 'Prix ({currency})',
+  'search.priceUnder': 'Moins de {max}',
+  'search.priceBetween': '{min} – {max}',
+  'search.priceFrom': '{min} et plus',
+  'search.min': 'Min',
+  'search.max': 'Max',
+  'search.availability': 'Disponibilité',
+  'search.anyAvailability': 'Toute disponibilité',
+  'search.inStock': 'En stock',
+  'search.outOfStock': 'En rupture de stock',
+  'search.oneResult': '{count} pièce trouvée',
+  'search.manyResults': '{count} pièces trouvées',
+  'search.sortRecent': 'Mises à jour récemment',
+  'search.sortPriceAsc': 'Prix : croissant',
+  'search.sortPriceDesc': 'Prix : décroissant',
+  'search.sortName': 'Nom',
+  'search.loadError': 'Erreur lors de la recherche de pièces : {message}',
+  'search.empty': 'Aucune pièce ne correspond à ces filtres.',
+
+  'users.title': 'Utilisateurs',
+  'users.invite': 'Inviter un utilisateur',
+  'users.email': 'E-mail',
+  'users.role': 'Rôle',
+  'users.invited': 'Invitation envoyée.',
+  'users.sendInvite': "Envoyer l'invitation",
+  'users.loadError': 'Erreur de chargement des utilisateurs : {message}',
+  'users.roleError': 'Erreur de mise à jour du rôle : {message}',
+  'users.user': 'Utilisateur',
+  'users.joined': 'Inscription',
+};
+
+export default fr;
@@ -0,0 +1,46 @@
+import { supabase } from './supabase';
+import { formatMoney } from './pricing';
+import type { AppNotification, PartRow } from '../types';
+
+export type NotificationWithPart = AppNotification & { part: Pick<PartRow, 'itemname'> | null };
+
+// Older notifications stay in the table but the bell only loads the latest
+const NOTIFICATION_LIMIT = 50;
+
+export const fetchNotifications = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*, part:vehicle_parts(itemname)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) throw error;
+  return (data || []) as NotificationWithPart[];
+};
+
+export const markNotificationsRead = async (ids: string[]) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+export const clearNotifications = async (ids: string[]) => {
+  const { error } = await supabase.from('notifications').delete().in('id', ids);
+  if (error) throw error;
+};
+
+// Notifications from before multi-currency pricing carry no currency
+const formatPrice = (value?: number, currency?: string) =>
+  currency ? formatMoney(value ?? 0, currency) : Number(value ?? 0).toFixed(2);
+
+export const notificationMessage = (notification: NotificationWithPart) => {
+  const name = notification.part?.itemname || 'A saved part';
+  if (notification.kind === 'price_drop') {
+    return `${name} dropped from ${formatPrice(notification.data.old_price, notification.data.currency)} to ${formatPrice(notification.data.new_price, notification.data.currency)}`;
+  }
+  return `${name} is back in stock (${notification.data.available ?? 0} available)`;
+};
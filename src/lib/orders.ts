@@ -0,0 +1,153 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { PRIMARY_IMAGE_SELECT } from './partImages';
+import type { CartItem, ListImage, Order, OrderItem, OrderStatus, PartRow } from '../types';
+
+// Matches PAYMENT_PROVIDER in the order-payments function
+export const PAYMENT_PROVIDER = import.meta.env.VITE_PAYMENT_PROVIDER || 'fake';
+
+// Test tokens the fake provider understands; see supabase/functions/order-payments/providers.ts
+export const FAKE_PAYMENT_METHODS = [
+  { value: 'fake_approved', label: 'Test card: approved' },
+  { value: 'fake_declined', label: 'Test card: declined' },
+];
+
+export const ORDER_STATUSES: { value: OrderStatus; label: string; badge: string }[] = [
+  { value: 'quote', label: 'Quote', badge: 'bg-purple-100 text-purple-800' },
+  { value: 'pending', label: 'Awaiting payment', badge: 'bg-amber-100 text-amber-800' },
+  { value: 'paid', label: 'Paid', badge: 'bg-blue-100 text-blue-800' },
+  { value: 'shipped', label: 'Shipped', badge: 'bg-green-100 text-green-800' },
+  { value: 'returned', label: 'Returned', badge: 'bg-gray-200 text-gray-700' },
+  { value: 'cancelled', label: 'Cancelled', badge: 'bg-gray-100 text-gray-500' },
+];
+
+export const orderStatusInfo = (status: OrderStatus) =>
+  ORDER_STATUSES.find(entry => entry.value === status) ?? ORDER_STATUSES[0];
+
+// What staff can move an order to from each status; mirrors transition_order
+export const STAFF_TRANSITIONS: Record<OrderStatus, { status: OrderStatus; label: string }[]> = {
+  quote: [{ status: 'cancelled', label: 'Cancel quote' }],
+  pending: [
+    { status: 'paid', label: 'Mark paid' },
+    { status: 'cancelled', label: 'Cancel' },
+  ],
+  paid: [
+    { status: 'shipped', label: 'Mark shipped' },
+    { status: 'returned', label: 'Refund and restock' },
+  ],
+  shipped: [{ status: 'returned', label: 'Mark returned' }],
+  returned: [],
+  cancelled: [],
+};
+
+export type CartLine = CartItem & {
+  part: (Pick<
+    PartRow,
+    'itemname' | 'itemurl' | 'price' | 'currency' | 'stock_quantity' | 'reserved_quantity' | 'is_published' | 'weight_kg' | 'dimensions'
+  > & {
+    primary_image: ListImage[];
+  }) | null;
+};
+
+export type OrderWithItems = Order & { items: OrderItem[] };
+
+export const fetchCart = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('cart_items')
+    .select(`*, part:vehicle_parts(itemname, itemurl, price, currency, stock_quantity, reserved_quantity, is_published, weight_kg, dimensions, ${PRIMARY_IMAGE_SELECT})`)
+    .eq('user_id', userId)
+    .eq('part.primary_image.is_primary', true)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as CartLine[];
+};
+
+// Adds to the quantity already in the cart
+export const addToCart = async (userId: string, partSlug: string, quantity = 1) => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('cart_items')
+    .select('quantity')
+    .eq('user_id', userId)
+    .eq('part_slug', partSlug)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  const { error } = await supabase
+    .from('cart_items')
+    .upsert({ user_id: userId, part_slug: partSlug, quantity: (existing?.quantity ?? 0) + quantity });
+
+  if (error) throw error;
+};
+
+export const setCartQuantity = async (userId: string, partSlug: string, quantity: number) => {
+  const { error } = await supabase
+    .from('cart_items')
+    .update({ quantity })
+    .eq('user_id', userId)
+    .eq('part_slug', partSlug);
+
+  if (error) throw error;
+};
+
+export const removeFromCart = async (userId: string, partSlug: string) => {
+  const { error } = await supabase
+    .from('cart_items')
+    .delete()
+    .eq('user_id', userId)
+    .eq('part_slug', partSlug);
+
+  if (error) throw error;
+};
+
+// Prices are snapshotted and, for orders, stock is reserved in one transaction
+// The order is priced in `currency`, converted at today's exchange rates;
+// without one it is priced in the reference currency
+export const checkoutCart = async (asQuote: boolean, notes: string, currency?: string) => {
+  const { data, error } = await supabase.rpc('checkout_cart', {
+    p_as_quote: asQuote,
+    p_notes: notes.trim(),
+    p_currency: currency ?? null,
+  });
+  if (error) throw error;
+  return data as Order;
+};
+
+export const fetchOrders = async ({ customerId, statuses }: { customerId?: string; statuses?: OrderStatus[] }) => {
+  let request = supabase
+    .from('orders')
+    .select('*, items:order_items(*)')
+    .order('created_at', { ascending: false });
+
+  if (customerId) request = request.eq('customer_id', customerId);
+  if (statuses?.length) request = request.in('status', statuses);
+
+  const { data, error } = await request;
+  if (error) throw error;
+  return (data || []) as OrderWithItems[];
+};
+
+export const transitionOrder = async (orderId: string, status: OrderStatus) => {
+  const { data, error } = await supabase.rpc('transition_order', { p_order_id: orderId, p_status: status });
+  if (error) throw error;
+  return data as Order;
+};
+
+// Charged through the order-payments edge function; only it can mark an
+// order paid on the customer's behalf
+export const payOrder = async (orderId: string, paymentMethod: string) => {
+  const { data, error } = await supabase.functions.invoke('order-payments', {
+    body: { orderId, paymentMethod },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  if (error) throw error;
+
+  // Providers that need the customer to confirm elsewhere settle by webhook
+  if (data?.redirectUrl) window.location.assign(data.redirectUrl);
+  return data as { status: string; order?: Order };
+};
@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+import type { PartDraft } from '../types';
+
+// Drafts are written to localStorage first, so a closed tab loses at most a
+// second of typing, and to part_drafts a little later, so they follow the
+// user to another device. Loading takes whichever copy is newer.
+
+export type PartDraftContent = Omit<PartDraft, 'updatedAt'>;
+
+export const NEW_PART_DRAFT_KEY = 'new';
+
+const localKey = (userId: string, draftKey: string) => `part-draft:${userId}:${draftKey}`;
+
+// Stable string for comparing drafts with the stored part
+export const serializeDraft = ({ values, fitments }: PartDraftContent) =>
+  JSON.stringify({ values, fitments });
+
+export const saveLocalDraft = (userId: string, draftKey: string, draft: PartDraft) => {
+  try {
+    localStorage.setItem(localKey(userId, draftKey), JSON.stringify(draft));
+  } catch {
+    // Storage full or disabled; the server copy still follows
+  }
+};
+
+export const saveServerDraft = async (userId: string, draftKey: string, draft: PartDraft) => {
+  const { error } = await supabase
+    .from('part_drafts')
+    .upsert({
+      user_id: userId,
+      draft_key: draftKey,
+      part_slug: draftKey === NEW_PART_DRAFT_KEY ? null : draftKey,
+      data: { values: draft.values, fitments: draft.fitments },
+      updated_at: draft.updatedAt,
+    });
+
+  if (error) throw error;
+};
+
+export const loadDraft = async (userId: string, draftKey: string): Promise<PartDraft | null> => {
+  let local: PartDraft | null = null;
+  try {
+    const stored = localStorage.getItem(localKey(userId, draftKey));
+    local = stored ? JSON.parse(stored) : null;
+  } catch {
+    local = null;
+  }
+
+  const { data, error } = await supabase
+    .from('part_drafts')
+    .select('data, updated_at')
+    .eq('user_id', userId)
+    .eq('draft_key', draftKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  const server: PartDraft | null = data ? { ...data.data, updatedAt: data.updated_at } : null;
+
+  if (!local || !server) return local ?? server;
+  return new Date(local.updatedAt) >= new Date(server.updatedAt) ? local : server;
+};
+
+export const clearDraft = async (userId: string, draftKey: string) => {
+  try {
+    localStorage.removeItem(localKey(userId, draftKey));
+  } catch {
+    // Nothing to clear
+  }
+
+  const { error } = await supabase
+    .from('part_drafts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('draft_key', draftKey);
+
+  if (error) throw error;
+};
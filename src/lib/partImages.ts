@@ -0,0 +1,233 @@
+import { Upload } from 'tus-js-client';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import { processImage } from './imageProcessing';
+import type { ListImage, PartImage, PartRow } from '../types';
+
+export const PART_IMAGES_BUCKET = 'part-images';
+
+// Embed for list queries. Pair it with .eq('primary_image.is_primary', true)
+// so each part carries at most its primary image, in the same round trip.
+export const PRIMARY_IMAGE_SELECT = 'primary_image:part_images(path, thumbnail_path, alt_text)';
+
+export const partImageUrl = (path: string) =>
+  supabase.storage.from(PART_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+
+// Thumbnail for list views. Parts without an indexed image fall back to
+// itemurl, which may point at an external host.
+export const listImageUrl = (part: Pick<PartRow, 'itemurl'> & { primary_image?: ListImage[] | null }) => {
+  const image = part.primary_image?.[0];
+  if (image) return partImageUrl(image.thumbnail_path ?? image.path);
+  return part.itemurl || undefined;
+};
+
+const sha256Hex = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Gallery uploads get unique names so a part can hold any number of photos.
+// Images migrated from the per-view folders keep their original paths.
+const newImagePaths = (partSlug: string, extension: string) => {
+  const id = uuidv4();
+  return {
+    path: `${partSlug}/gallery/${id}.${extension}`,
+    thumbnailPath: `${partSlug}/gallery/${id}_thumb.${extension}`,
+  };
+};
+
+export const fetchPartImages = async (partSlug: string) => {
+  const { data, error } = await supabase
+    .from('part_images')
+    .select('*')
+    .eq('part_slug', partSlug)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as PartImage[];
+};
+
+// The primary image drives vehicle_parts.itemurl; the version parameter makes
+// listings pick up a replaced file despite CDN caching.
+export const setPrimaryPartImage = async (image: PartImage) => {
+  const { error } = await supabase.rpc('set_primary_part_image', {
+    p_image_id: image.id,
+    p_itemurl: `${partImageUrl(image.path)}?v=${Date.now()}`,
+  });
+
+  if (error) throw error;
+};
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// A processed photo with its final storage paths. The upload queue keeps these
+// in IndexedDB, so a retry after a reload sends the same bytes to the same
+// paths and the resumable upload can continue where it stopped.
+export type PreparedImage = {
+  partSlug: string;
+  path: string;
+  thumbnailPath: string;
+  full: Blob;
+  thumbnail: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  contentHash: string;
+};
+
+export const prepareImage = async (partSlug: string, file: Blob): Promise<PreparedImage> => {
+  const processed = await processImage(file);
+  const { path, thumbnailPath } = newImagePaths(partSlug, processed.format.extension);
+
+  return {
+    partSlug,
+    path,
+    thumbnailPath,
+    full: processed.full,
+    thumbnail: processed.thumbnail,
+    mimeType: processed.format.mimeType,
+    width: processed.width,
+    height: processed.height,
+    contentHash: await sha256Hex(processed.full),
+  };
+};
+
+// Upload through the tus endpoint. The fingerprint is the object path, so the
+// offset tus keeps in localStorage survives reloads.
+const uploadResumable = (
+  path: string,
+  blob: Blob,
+  mimeType: string,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (fraction: number) => void }
+) =>
+  new Promise<void>((resolve, reject) => {
+    const upload = new Upload(blob, {
+      endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+      chunkSize: RESUMABLE_CHUNK_SIZE,
+      retryDelays: [0, 1000, 3000, 5000],
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      fingerprint: async () => `${PART_IMAGES_BUCKET}/${path}`,
+      headers: { 'x-upsert': 'true' },
+      metadata: {
+        bucketName: PART_IMAGES_BUCKET,
+        objectName: path,
+        contentType: mimeType,
+        cacheControl: '31536000',
+      },
+      // Long uploads can outlive an access token, so sign every request afresh
+      onBeforeRequest: async (request) => {
+        const { data: { session } } = await supabase.auth.getSession();
+        request.setHeader('authorization', `Bearer ${session?.access_token}`);
+      },
+      onProgress: (sent, total) => onProgress?.(total ? sent / total : 0),
+      onError: reject,
+      onSuccess: () => resolve(),
+    });
+
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener('abort', () => {
+      upload.abort(true).catch(() => undefined);
+      reject(signal.reason);
+    });
+
+    upload.findPreviousUploads().then(previous => {
+      if (previous.length) upload.resumeFromPreviousUpload(previous[0]);
+      upload.start();
+    }, reject);
+  });
+
+// Files stored before their part_images row exists are registered as pending,
+// so the reconcile sweep does not take them for orphans while a queued upload
+// waits to go online again.
+const clearPendingUpload = async (path: string) => {
+  const { error } = await supabase.from('part_image_uploads').delete().eq('path', path);
+  if (error) throw error;
+};
+
+// Upload a prepared photo and its thumbnail and record it at the end of the
+// gallery; the first image becomes primary (see register_part_image). Safe to
+// call again after a failure at any step.
+export const uploadPreparedImage = async (
+  prepared: PreparedImage,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (fraction: number) => void } = {}
+) => {
+  const { partSlug, path, thumbnailPath, mimeType } = prepared;
+
+  const { error: pendingError } = await supabase
+    .from('part_image_uploads')
+    .upsert({ path, thumbnail_path: thumbnailPath, part_slug: partSlug }, { onConflict: 'path', ignoreDuplicates: true });
+  if (pendingError) throw pendingError;
+
+  const { error: thumbnailError } = await supabase.storage
+    .from(PART_IMAGES_BUCKET)
+    .upload(thumbnailPath, prepared.thumbnail, { cacheControl: '31536000', contentType: mimeType, upsert: true });
+  if (thumbnailError) throw thumbnailError;
+
+  await uploadResumable(path, prepared.full, mimeType, { signal, onProgress });
+
+  const gallery = await fetchPartImages(partSlug);
+  const existing = gallery.find(image => image.path === path);
+  if (existing) {
+    await clearPendingUpload(path);
+    return existing;
+  }
+
+  // The database decides which image is first, so parallel uploads cannot
+  // both become primary
+  const { data, error } = await supabase.rpc('register_part_image', {
+    p_part_slug: partSlug,
+    p_path: path,
+    p_thumbnail_path: thumbnailPath,
+    p_width: prepared.width,
+    p_height: prepared.height,
+    p_size_bytes: prepared.full.size,
+    p_content_hash: prepared.contentHash,
+  });
+
+  if (error) throw error;
+  await clearPendingUpload(path);
+  // Point itemurl at it; the bucket's public URL is only known here
+  if ((data as PartImage).is_primary) await setPrimaryPartImage(data as PartImage);
+  return data as PartImage;
+};
+
+// Remove whatever a cancelled upload already stored
+export const discardPreparedImage = async ({ path, thumbnailPath }: PreparedImage) => {
+  await supabase.storage.from(PART_IMAGES_BUCKET).remove([path, thumbnailPath]);
+  await clearPendingUpload(path);
+};
+
+// Delete an image and its files. Removing the primary image promotes the next
+// one in the gallery, or clears itemurl when none is left.
+export const deletePartImage = async (image: PartImage, gallery: PartImage[]) => {
+  const { error } = await supabase
+    .from('part_images')
+    .delete()
+    .eq('id', image.id);
+
+  if (error) throw error;
+
+  await supabase.storage
+    .from(PART_IMAGES_BUCKET)
+    .remove(image.thumbnail_path ? [image.path, image.thumbnail_path] : [image.path]);
+
+  if (!image.is_primary) return;
+
+  const next = gallery.find(other => other.id !== image.id);
+  if (next) {
+    await setPrimaryPartImage(next);
+  } else {
+    const { error: partError } = await supabase
+      .from('vehicle_parts')
+      .update({ itemurl: null, updated_at: new Date().toISOString() })
+      .eq('part_slug', image.part_slug);
+
+    if (partError) throw partError;
+  }
+};
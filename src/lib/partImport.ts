@@ -0,0 +1,246 @@
+import { supabase } from './supabase';
+import { generatePartSlug } from './parts';
+import { REQUIRED_PART_FIELDS, validatePartFields } from './partSchema';
+import { fitmentsFromLegacy, parseSerializedFitment, serializeFitment, validateFitment } from './fitment';
+import type { PartField, PartInput } from './partSchema';
+import type { PartCategory, PartData, PartFitment, PartRow } from '../types';
+
+export type ImportField =
+  | 'part_slug'
+  | 'itemname'
+  | 'make'
+  | 'model'
+  | 'condition'
+  | 'description'
+  | 'price'
+  | 'currency'
+  | 'tax_class'
+  | 'stock_quantity'
+  | 'category'
+  | 'color'
+  | 'key_features'
+  | 'weight_kg'
+  | 'dimensions'
+  | 'material'
+  | 'warranty_months'
+  | 'itemurl'
+  | 'fitments'
+  | 'compatible_models'
+  | 'compatible_years';
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportOptions = {
+  arrayDelimiter: string;
+  categories: PartCategory[];
+};
+
+export type ImportRecord = Partial<PartData> & { part_slug: string };
+
+export type ImportRow = {
+  rowNumber: number;
+  record: ImportRecord;
+  // null when no fitment column is mapped, so existing fitments stay untouched
+  fitments: PartFitment[] | null;
+  errors: string[];
+};
+
+export type PartExportRow = PartRow & {
+  part_fitments: PartFitment[];
+};
+
+// Header names are the column keys, so an export re-imports without remapping
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'part_slug', label: 'Slug', aliases: ['slug', 'sku', 'id'] },
+  { field: 'itemname', label: 'Part Name', aliases: ['name', 'part name', 'title', 'item name'] },
+  { field: 'make', label: 'Make', aliases: ['manufacturer', 'brand'] },
+  { field: 'model', label: 'Model', aliases: [] },
+  { field: 'condition', label: 'Condition', aliases: [] },
+  { field: 'description', label: 'Description', aliases: ['desc', 'details'] },
+  { field: 'price', label: 'Price', aliases: ['unit price', 'cost'] },
+  { field: 'currency', label: 'Currency', aliases: ['currency code'] },
+  { field: 'tax_class', label: 'Tax Class', aliases: ['tax', 'tax code'] },
+  { field: 'stock_quantity', label: 'Stock Quantity', aliases: ['stock', 'quantity', 'qty', 'on hand'] },
+  { field: 'category', label: 'Category', aliases: ['category name', 'category_name'] },
+  { field: 'color', label: 'Color', aliases: ['colour'] },
+  { field: 'key_features', label: 'Key Features', aliases: ['features'] },
+  { field: 'weight_kg', label: 'Weight (kg)', aliases: ['weight'] },
+  { field: 'dimensions', label: 'Dimensions', aliases: ['size'] },
+  { field: 'material', label: 'Material', aliases: [] },
+  { field: 'warranty_months', label: 'Warranty (months)', aliases: ['warranty'] },
+  { field: 'itemurl', label: 'Main Image URL', aliases: ['image', 'image url', 'item url'] },
+  { field: 'fitments', label: 'Fitments (Make|Model|Years|Trim|Engine)', aliases: ['fitment'] },
+  { field: 'compatible_models', label: 'Compatible Models', aliases: ['models'] },
+  { field: 'compatible_years', label: 'Compatible Years', aliases: ['years'] },
+];
+
+// Import columns that map one-to-one onto a schema field
+const SCHEMA_FIELDS = [
+  'itemname', 'make', 'model', 'condition', 'description', 'price', 'currency', 'tax_class', 'stock_quantity', 'color',
+  'key_features', 'weight_kg', 'dimensions', 'material', 'warranty_months', 'itemurl',
+] as const satisfies readonly (ImportField & PartField)[];
+const FITMENT_FIELDS: readonly ImportField[] = ['fitments', 'compatible_models', 'compatible_years'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(({ field, label, aliases }) => {
+    const candidates = [field, label, ...aliases].map(normalizeHeader);
+    const index = normalized.findIndex(header => candidates.includes(header));
+    if (index !== -1) mapping[field] = index;
+  });
+
+  return mapping;
+};
+
+// Mapping problems that block the whole import rather than single rows
+export const mappingErrors = (mapping: ColumnMapping) =>
+  REQUIRED_PART_FIELDS
+    .filter(field => mapping[field] === undefined)
+    .map(field => `Map a column to ${IMPORT_FIELDS.find(f => f.field === field)?.label}`);
+
+const splitList = (value: string, delimiter: string) =>
+  value.split(delimiter).map(item => item.trim()).filter(Boolean);
+
+export const buildImportRows = (rows: string[][], mapping: ColumnMapping, options: ImportOptions): ImportRow[] => {
+  const categoriesByName = new Map(
+    options.categories.map(category => [category.category_name.trim().toLowerCase(), category.id])
+  );
+  const seenSlugs = new Set<string>();
+  const hasFitmentColumns = FITMENT_FIELDS.some(field => mapping[field] !== undefined);
+
+  return rows.map((cells, index) => {
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? undefined : (cells[column] ?? '').trim();
+    };
+
+    // Collect raw cells for the schema. Blank optional cells are left out so
+    // the column keeps its database default.
+    const input: PartInput = {};
+    const fields: PartField[] = [];
+    SCHEMA_FIELDS.forEach(field => {
+      const value = cell(field);
+      if (value === undefined || (value === '' && !(REQUIRED_PART_FIELDS as readonly string[]).includes(field))) return;
+      input[field] = field === 'key_features' ? splitList(value, options.arrayDelimiter) : value;
+      fields.push(field);
+    });
+
+    const category = cell('category');
+    if (category !== undefined) {
+      const categoryId = categoriesByName.get(category.toLowerCase());
+      if (category && !categoryId) {
+        errors.push(`Unknown category "${category}"`);
+      } else {
+        input.category_id = categoryId ?? null;
+        fields.push('category_id');
+      }
+    }
+
+    const { values: record, errors: fieldErrors } = validatePartFields(input, fields);
+    errors.push(...Object.values(fieldErrors));
+
+    let fitments: PartFitment[] | null = null;
+    if (hasFitmentColumns) {
+      const serialized = splitList(cell('fitments') ?? '', options.arrayDelimiter);
+      const parsed = serialized.map(parseSerializedFitment);
+      parsed.forEach((fitment, i) => {
+        if (!fitment) errors.push(`Cannot read fitment "${serialized[i]}"`);
+      });
+
+      fitments = [
+        ...parsed.filter(fitment => fitment !== null),
+        ...fitmentsFromLegacy(
+          record.make ?? '',
+          record.model ?? '',
+          splitList(cell('compatible_models') ?? '', options.arrayDelimiter),
+          splitList(cell('compatible_years') ?? '', options.arrayDelimiter)
+        ),
+      ];
+      fitments.forEach(fitment => {
+        const error = validateFitment(fitment);
+        if (error) errors.push(`Fitment ${serializeFitment(fitment)}: ${error}`);
+      });
+    }
+
+    const slug = cell('part_slug') || generatePartSlug({
+      make: record.make ?? '',
+      model: record.model ?? '',
+      itemname: record.itemname ?? '',
+    });
+    if (seenSlugs.has(slug)) errors.push(`Slug "${slug}" appears more than once in this file`);
+    seenSlugs.add(slug);
+
+    return {
+      rowNumber: index + 2,
+      record: { ...record, part_slug: slug },
+      fitments,
+      errors,
+    };
+  });
+};
+
+// Upsert valid rows in batches; fitments are replaced only for rows that carry them.
+// New parts are drafts unless `publish` is set; existing parts keep their state.
+export const upsertImportRows = async (
+  rows: ImportRow[],
+  { batchSize = 200, publish = false, onProgress }: {
+    batchSize?: number;
+    publish?: boolean;
+    onProgress?: (done: number) => void;
+  } = {}
+) => {
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const batch = rows.slice(start, start + batchSize);
+    const updatedAt = new Date().toISOString();
+
+    // Blank cells leave a key out of its record; defaultToNull: false makes those
+    // columns take their database default instead of null.
+    const { error } = await supabase
+      .from('vehicle_parts')
+      .upsert(
+        batch.map(row => ({ ...row.record, ...(publish && { is_published: true }), updated_at: updatedAt })),
+        { defaultToNull: false }
+      );
+
+    if (error) throw new Error(`Rows ${batch[0].rowNumber}–${batch[batch.length - 1].rowNumber}: ${error.message}`);
+
+    // One call per part: replace_part_fitments deletes and inserts in a single
+    // transaction, so a failed insert keeps the part's existing fitments
+    for (const row of batch.filter(row => row.fitments !== null)) {
+      const { error: fitmentError } = await supabase.rpc('replace_part_fitments', {
+        p_part_slug: row.record.part_slug,
+        p_fitments: row.fitments,
+      });
+
+      if (fitmentError) throw new Error(`Row ${row.rowNumber}: ${fitmentError.message}`);
+    }
+
+    onProgress?.(Math.min(start + batchSize, rows.length));
+  }
+};
+
+export const partsToCsvRows = (parts: PartExportRow[], categories: PartCategory[], arrayDelimiter: string) => {
+  const categoryNames = new Map(categories.map(category => [category.id, category.category_name]));
+  const fields = IMPORT_FIELDS.filter(({ field }) => field !== 'compatible_models' && field !== 'compatible_years');
+
+  return [
+    fields.map(({ field }) => field),
+    ...parts.map(part => fields.map(({ field }) => {
+      switch (field) {
+        case 'category':
+          return part.category_id ? categoryNames.get(part.category_id) ?? '' : '';
+        case 'key_features':
+          return (part.key_features ?? []).join(arrayDelimiter);
+        case 'fitments':
+          return (part.part_fitments ?? []).map(serializeFitment).join(arrayDelimiter);
+        default:
+          return part[field as keyof PartRow] as string | number | null | undefined;
+      }
+    })),
+  ];
+};
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import type { MessageKey } from './i18n';
+import type { PartRevision, PartRow } from '../types';
+
+// Stock has its own ledger (src/lib/stock.ts) and is not part of a revision
+export type RevisionField = keyof Omit<
+  PartRow,
+  'part_slug' | 'itemurl' | 'owner_id' | 'version' | 'updated_at' | 'stock_quantity' | 'reserved_quantity' | 'available_quantity' | 'reorder_threshold'
+>;
+
+export type RevisionChange = {
+  field: RevisionField;
+  labelKey: MessageKey;
+  before: unknown;
+  after: unknown;
+};
+
+// Fields shown in the history panel, in form order
+export const REVISION_FIELDS: { field: RevisionField; labelKey: MessageKey }[] = [
+  { field: 'itemname', labelKey: 'field.itemname' },
+  { field: 'category_id', labelKey: 'field.category' },
+  { field: 'make', labelKey: 'field.make' },
+  { field: 'model', labelKey: 'field.model' },
+  { field: 'condition', labelKey: 'field.condition' },
+  { field: 'description', labelKey: 'field.description' },
+  { field: 'price', labelKey: 'field.price' },
+  { field: 'currency', labelKey: 'field.currency' },
+  { field: 'tax_class', labelKey: 'field.taxClass' },
+  { field: 'color', labelKey: 'field.color' },
+  { field: 'key_features', labelKey: 'history.keyFeatures' },
+  { field: 'weight_kg', labelKey: 'field.weight' },
+  { field: 'dimensions', labelKey: 'store.dimensions' },
+  { field: 'material', labelKey: 'field.material' },
+  { field: 'warranty_months', labelKey: 'field.warranty' },
+  { field: 'is_published', labelKey: 'history.published' },
+];
+
+export const fetchPartRevisions = async (partSlug: string) => {
+  const { data, error } = await supabase
+    .from('part_revisions')
+    .select('*')
+    .eq('part_slug', partSlug)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as PartRevision[];
+};
+
+// Field-level changes from one snapshot to the next. The first revision is
+// compared with nothing, so every filled-in field shows as added.
+export const diffRevisions = (before: Partial<PartRow> | null, after: Partial<PartRow>): RevisionChange[] =>
+  REVISION_FIELDS
+    .filter(({ field }) => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(({ field, labelKey }) => ({ field, labelKey, before: before?.[field] ?? null, after: after[field] ?? null }));
@@ -0,0 +1,228 @@
+import { getLocale, translate } from './i18n';
+import type { MessageKey, MessageParams } from './i18n';
+import { CONDITION_OPTIONS, DEFAULT_TAX_CLASS } from './parts';
+import { STORE_CURRENCY, currencyDecimals, parseAmount } from './pricing';
+import type { PartFormData } from '../types';
+
+// One place for every PartData rule. The form, the importer and the
+// 20261019120000_part_constraints migration all mirror these limits, so
+// change them together.
+
+export type PartField = keyof PartFormData;
+
+export type PartFieldErrors = Partial<Record<PartField, string>>;
+
+// Loose input: form state and spreadsheet cells arrive as strings
+export type PartInput = Partial<Record<PartField, unknown>>;
+
+export type PartParseResult =
+  | { success: true; data: PartFormData }
+  | { success: false; errors: PartFieldErrors };
+
+export const DIMENSION_UNITS = ['mm', 'cm', 'm', 'in'] as const;
+export type DimensionUnit = typeof DIMENSION_UNITS[number];
+
+export type ParsedDimensions = {
+  length: number;
+  width: number;
+  height: number;
+  unit: DimensionUnit;
+};
+
+export const PART_LIMITS = {
+  itemname: 200,
+  make: 100,
+  model: 100,
+  description: 5000,
+  color: 50,
+  material: 100,
+  keyFeatures: 20,
+  keyFeatureLength: 200,
+  maxPrice: 1_000_000,
+  maxStock: 1_000_000,
+  maxWeightKg: 10_000,
+  maxWarrantyMonths: 240,
+} as const;
+
+export const REQUIRED_PART_FIELDS = ['itemname', 'make', 'model', 'description'] as const;
+
+const UNIT_TO_CM: Record<DimensionUnit, number> = { mm: 0.1, cm: 1, m: 100, in: 2.54 };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const TAX_CLASS_PATTERN = /^[a-z0-9_]+$/;
+
+// Accepts "10x5x2", "10 x 5 x 2 cm", "10cm x 5cm x 2cm", "10×5×2in" and
+// decimal commas. Dimensions without a unit are taken to be centimetres.
+export const parseDimensions = (value: string): ParsedDimensions | null => {
+  const number = '(\\d+(?:[.,]\\d+)?)';
+  const unit = '\\s*(mm|cm|m|in|")?';
+  const separator = '\\s*[x×*]\\s*';
+  const pattern = new RegExp(`^${number}${unit}${separator}${number}${unit}${separator}${number}${unit}$`, 'i');
+  const match = value.trim().match(pattern);
+  if (!match) return null;
+
+  const units = [match[2], match[4], match[6]]
+    .filter(Boolean)
+    .map(u => (u === '"' ? 'in' : u.toLowerCase()) as DimensionUnit);
+  if (new Set(units).size > 1) return null;
+
+  const [length, width, height] = [match[1], match[3], match[5]].map(n => Number(n.replace(',', '.')));
+  if ([length, width, height].some(n => n <= 0)) return null;
+
+  return { length, width, height, unit: units[0] ?? 'cm' };
+};
+
+// Canonical form stored in vehicle_parts.dimensions
+export const formatDimensions = ({ length, width, height, unit }: ParsedDimensions) =>
+  `${length} x ${width} x ${height} ${unit}`;
+
+export const dimensionsInCm = (dimensions: ParsedDimensions) => {
+  const factor = UNIT_TO_CM[dimensions.unit];
+  return {
+    length: dimensions.length * factor,
+    width: dimensions.width * factor,
+    height: dimensions.height * factor,
+  };
+};
+
+type FieldResult<T> = { value: T } | { error: string };
+// Rules see the whole input for fields that depend on another, like price on currency
+type FieldRule<T> = (raw: unknown, input: PartInput) => FieldResult<T>;
+
+// Errors are shown as returned, so they are built in the current locale
+const message = (key: MessageKey, params?: MessageParams) => translate(getLocale(), key, params);
+
+const text = (max: number, { required = false, label }: { required?: boolean; label: MessageKey }): FieldRule<string> => raw => {
+  const value = raw === null || raw === undefined ? '' : String(raw).trim();
+  if (required && !value) return { error: message('validation.required', { label: message(label) }) };
+  if (value.length > max) return { error: message('validation.tooLong', { label: message(label), max }) };
+  return { value };
+};
+
+const number = ({ label, min = 0, max, integer = false, decimals }: {
+  label: MessageKey;
+  min?: number;
+  max: number;
+  integer?: boolean;
+  decimals?: number;
+}): FieldRule<number> => raw => {
+  const typed = typeof raw === 'string' ? raw.trim() : raw;
+  if (typed === '' || typed === null || typed === undefined) {
+    return { error: message('validation.required', { label: message(label) }) };
+  }
+
+  // Typed numbers follow the same separator rules as prices, so "2,5" is 2.5
+  // in a locale that writes it that way and "1,234" is still a thousand
+  const value = typeof typed === 'string'
+    ? (/^[\d\s.,-]+$/.test(typed) ? parseAmount(typed) : null)
+    : Number(typed);
+  if (value === null || !Number.isFinite(value)) return { error: message('validation.number', { label: message(label) }) };
+  if (integer && !Number.isInteger(value)) return { error: message('validation.integer', { label: message(label) }) };
+  if (value < min) return { error: message('validation.min', { label: message(label), min }) };
+  if (value > max) return { error: message('validation.max', { label: message(label), max }) };
+  if (decimals !== undefined && Math.abs(Math.round(value * 10 ** decimals) - value * 10 ** decimals) > 1e-6) {
+    return { error: message('validation.decimals', { label: message(label), decimals }) };
+  }
+  return { value };
+};
+
+// Prices are typed in the part's currency, with its grouping and decimals
+const money = ({ label, max }: { label: MessageKey; max: number }): FieldRule<number> => (raw, input) => {
+  const currency = currencyCode(input.currency);
+  const value = typeof raw === 'number' ? raw : parseAmount(String(raw ?? ''));
+  if (value === null) {
+    return { error: message(String(raw ?? '').trim() ? 'validation.amount' : 'validation.required', { label: message(label) }) };
+  }
+
+  const decimals = Math.min(currencyDecimals(currency), 2);
+  return number({ label, max, decimals, integer: decimals === 0 })(value, input);
+};
+
+const currencyCode = (raw: unknown) => String(raw ?? '').trim().toUpperCase() || STORE_CURRENCY;
+
+const PART_SCHEMA: { [K in PartField]-?: FieldRule<PartFormData[K]> } = {
+  itemname: text(PART_LIMITS.itemname, { required: true, label: 'field.itemname' }),
+  make: text(PART_LIMITS.make, { required: true, label: 'field.make' }),
+  model: text(PART_LIMITS.model, { required: true, label: 'field.model' }),
+  description: text(PART_LIMITS.description, { required: true, label: 'field.description' }),
+  color: text(PART_LIMITS.color, { label: 'field.color' }),
+  material: text(PART_LIMITS.material, { label: 'field.material' }),
+  condition: raw => {
+    const value = String(raw ?? '').trim();
+    const match = CONDITION_OPTIONS.find(option => option.toLowerCase() === value.toLowerCase());
+    return match ? { value: match } : { error: message('validation.condition', { options: CONDITION_OPTIONS.join(', ') }) };
+  },
+  price: money({ label: 'field.price', max: PART_LIMITS.maxPrice }),
+  currency: raw => {
+    const value = currencyCode(raw);
+    return CURRENCY_PATTERN.test(value) ? { value } : { error: message('validation.currency') };
+  },
+  tax_class: raw => {
+    const value = String(raw ?? '').trim().toLowerCase() || DEFAULT_TAX_CLASS;
+    return TAX_CLASS_PATTERN.test(value) ? { value } : { error: message('validation.taxClass') };
+  },
+  stock_quantity: number({ label: 'field.stock', max: PART_LIMITS.maxStock, integer: true }),
+  weight_kg: number({ label: 'field.weight', max: PART_LIMITS.maxWeightKg, decimals: 3 }),
+  warranty_months: number({ label: 'field.warranty', max: PART_LIMITS.maxWarrantyMonths, integer: true }),
+  category_id: raw => {
+    const value = raw === null || raw === undefined ? '' : String(raw).trim();
+    if (!value) return { value: null };
+    return UUID_PATTERN.test(value) ? { value } : { error: message('validation.category') };
+  },
+  key_features: raw => {
+    const items = (Array.isArray(raw) ? raw : String(raw ?? '').split('\n'))
+      .map(item => String(item).trim())
+      .filter(Boolean);
+    if (items.length > PART_LIMITS.keyFeatures) {
+      return { error: message('validation.keyFeatureCount', { max: PART_LIMITS.keyFeatures }) };
+    }
+    if (items.some(item => item.length > PART_LIMITS.keyFeatureLength)) {
+      return { error: message('validation.keyFeatureLength', { max: PART_LIMITS.keyFeatureLength }) };
+    }
+    return { value: items };
+  },
+  dimensions: raw => {
+    const value = String(raw ?? '').trim();
+    if (!value) return { value: '' };
+    const parsed = parseDimensions(value);
+    return parsed
+      ? { value: formatDimensions(parsed) }
+      : { error: message('validation.dimensions') };
+  },
+  itemurl: raw => {
+    const value = raw === null || raw === undefined ? '' : String(raw).trim();
+    if (!value) return { value: undefined };
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:' ? { value } : { error: message('validation.imageUrlProtocol') };
+    } catch {
+      return { error: message('validation.imageUrlInvalid') };
+    }
+  },
+};
+
+// Coerce and validate a subset of fields; used by the importer, where only
+// mapped columns are present.
+export const validatePartFields = (input: PartInput, fields: readonly PartField[]) => {
+  const values: Partial<PartFormData> = {};
+  const errors: PartFieldErrors = {};
+
+  fields.forEach(<K extends PartField>(field: K) => {
+    const result = (PART_SCHEMA[field] as FieldRule<PartFormData[K]>)(input[field], input);
+    if ('error' in result) {
+      errors[field] = result.error;
+    } else {
+      values[field] = result.value;
+    }
+  });
+
+  return { values, errors };
+};
+
+export const parsePart = (input: PartInput): PartParseResult => {
+  const { values, errors } = validatePartFields(input, Object.keys(PART_SCHEMA) as PartField[]);
+  return Object.keys(errors).length > 0
+    ? { success: false, errors }
+    : { success: true, data: values as PartFormData };
+};
@@ -0,0 +1,58 @@
+import { supabase } from './supabase';
+import type { PartTranslation } from '../types';
+
+export type TranslatableFields = Pick<PartTranslation, 'itemname' | 'description' | 'key_features'>;
+
+export const EMPTY_TRANSLATION: TranslatableFields = { itemname: '', description: '', key_features: [] };
+
+export const fetchPartTranslations = async (partSlug: string) => {
+  const { data, error } = await supabase
+    .from('part_translations')
+    .select('part_slug, locale, itemname, description, key_features, updated_at')
+    .eq('part_slug', partSlug)
+    .order('locale');
+
+  if (error) throw error;
+  return (data || []) as PartTranslation[];
+};
+
+export const savePartTranslation = async (partSlug: string, locale: string, fields: TranslatableFields) => {
+  const { error } = await supabase
+    .from('part_translations')
+    .upsert({
+      part_slug: partSlug,
+      locale,
+      itemname: fields.itemname.trim(),
+      description: fields.description.trim(),
+      key_features: fields.key_features.map(feature => feature.trim()).filter(Boolean),
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
+
+export const deletePartTranslation = async (partSlug: string, locale: string) => {
+  const { error } = await supabase
+    .from('part_translations')
+    .delete()
+    .eq('part_slug', partSlug)
+    .eq('locale', locale);
+
+  if (error) throw error;
+};
+
+// The part's text in `locale`, field by field; blank translations keep the original
+export const localizePart = <T extends TranslatableFields>(
+  part: T,
+  translations: Pick<PartTranslation, 'locale' | 'itemname' | 'description' | 'key_features'>[],
+  locale: string
+): T => {
+  const translation = translations.find(entry => entry.locale === locale);
+  if (!translation) return part;
+  return {
+    ...part,
+    itemname: translation.itemname.trim() || part.itemname,
+    description: translation.description.trim() || part.description,
+    key_features: translation.key_features.length ? translation.key_features : part.key_features,
+  };
+};
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from 'uuid';
+import { STORE_CURRENCY, formatAmount } from './pricing';
+import type { PartFormData, PartFormValues, PartRow } from '../types';
+
+export const CONDITION_OPTIONS = ['New', 'Refurbished', 'Used'] as const;
+// What a gallery image shows; 'detail' covers part numbers, damage and connectors
+export const VIEW_TYPES = ['main', 'front', 'back', 'left', 'right', 'top', 'detail'] as const;
+
+// Seeded by 20261019260000_pricing
+export const DEFAULT_TAX_CLASS = 'standard';
+
+export const EMPTY_PART: PartFormData = {
+  itemname: '',
+  make: '',
+  model: '',
+  condition: 'New',
+  description: '',
+  price: 0,
+  currency: STORE_CURRENCY,
+  tax_class: DEFAULT_TAX_CLASS,
+  stock_quantity: 0,
+  category_id: null,
+  color: 'Black',
+  key_features: [],
+  weight_kg: 0,
+  dimensions: '',
+  material: '',
+  warranty_months: 12,
+};
+
+// Lowercase, strip accents and collapse anything non-alphanumeric into single dashes
+export const slugify = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Build a readable slug from make/model/name with a short random suffix so
+// two parts with identical names never share a row or storage folder.
+export const generatePartSlug = ({ make, model, itemname }: Pick<PartFormData, 'make' | 'model' | 'itemname'>) => {
+  const base = slugify([make, model, itemname].join(' ')).slice(0, 60).replace(/-+$/, '');
+  const suffix = uuidv4().split('-')[0];
+  return base ? `${base}-${suffix}` : suffix;
+};
+
+// Map a vehicle_parts row onto the editor form, falling back to the blank
+// defaults for columns that are null in the database.
+export const toPartFormData = (row: Partial<PartRow>): PartFormData => ({
+  itemname: row.itemname ?? EMPTY_PART.itemname,
+  make: row.make ?? EMPTY_PART.make,
+  model: row.model ?? EMPTY_PART.model,
+  condition: row.condition ?? EMPTY_PART.condition,
+  description: row.description ?? EMPTY_PART.description,
+  price: row.price ?? EMPTY_PART.price,
+  currency: row.currency ?? EMPTY_PART.currency,
+  tax_class: row.tax_class ?? EMPTY_PART.tax_class,
+  stock_quantity: row.stock_quantity ?? EMPTY_PART.stock_quantity,
+  category_id: row.category_id ?? EMPTY_PART.category_id,
+  color: row.color ?? EMPTY_PART.color,
+  key_features: row.key_features ?? EMPTY_PART.key_features,
+  weight_kg: row.weight_kg ?? EMPTY_PART.weight_kg,
+  dimensions: row.dimensions ?? EMPTY_PART.dimensions,
+  material: row.material ?? EMPTY_PART.material,
+  warranty_months: row.warranty_months ?? EMPTY_PART.warranty_months,
+  itemurl: row.itemurl,
+});
+
+export const toPartFormValues = (part: PartFormData): PartFormValues => ({
+  ...part,
+  price: formatAmount(part.price, part.currency),
+  stock_quantity: String(part.stock_quantity),
+  weight_kg: String(part.weight_kg),
+  warranty_months: String(part.warranty_months),
+});
+
+// A save named an older version than the stored part. `latest` is the part
+// as it is now, or null when it has been deleted.
+export class PartConflictError extends Error {
+  latest: PartRow | null;
+
+  constructor(latest: PartRow | null) {
+    super(latest ? 'Someone else changed this part while you were editing it' : 'This part has been deleted');
+    this.name = 'PartConflictError';
+    this.latest = latest;
+  }
+}
@@ -0,0 +1,150 @@
+import { supabase } from './supabase';
+import { getLocale } from './i18n';
+import type { ExchangeRate, PriceChange, TaxClass } from '../types';
+
+// ISO 4217 code for new parts, and what visitors see until they pick another
+export const STORE_CURRENCY = import.meta.env.VITE_STORE_CURRENCY || 'USD';
+
+// Amounts are written the active locale's way: 1.234,50 € in Spanish
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(getLocale(), { style: 'currency', currency }).format(Number(amount));
+
+// Minor unit digits: 2 for EUR, 0 for JPY, 3 for KWD
+export const currencyDecimals = (currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+export const currencySymbol = (currency: string) => {
+  try {
+    return new Intl.NumberFormat(getLocale(), { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+      .formatToParts(0)
+      .find(part => part.type === 'currency')?.value ?? currency;
+  } catch {
+    return currency;
+  }
+};
+
+// The amount as the Price input shows it: grouped, with the currency's decimals
+export const formatAmount = (amount: number, currency: string) => {
+  const decimals = currencyDecimals(currency);
+  return new Intl.NumberFormat(getLocale(), { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(amount);
+};
+
+const localeDecimalSeparator = () =>
+  new Intl.NumberFormat(getLocale()).formatToParts(1.1).find(part => part.type === 'decimal')?.value ?? '.';
+
+// Reads amounts typed as "1,234.50", "1.234,50", "1 234,50" or "€ 12". With
+// a single separator, it is the decimal point if it is the locale's or is
+// not followed by exactly three digits; otherwise it groups thousands.
+export const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+  let decimal: string | null = null;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const single = cleaned.split(separator).length === 2;
+    const digitsAfter = cleaned.length - cleaned.lastIndexOf(separator) - 1;
+    if (single && (separator === localeDecimalSeparator() || digitsAfter !== 3)) decimal = separator;
+  }
+
+  const [whole, fraction = ''] = decimal ? [
+    cleaned.slice(0, cleaned.lastIndexOf(decimal)),
+    cleaned.slice(cleaned.lastIndexOf(decimal) + 1),
+  ] : [cleaned];
+  const normalized = `${whole.replace(/[.,]/g, '')}${fraction ? `.${fraction}` : ''}`;
+  const amount = Number(normalized);
+  return normalized && Number.isFinite(amount) ? amount : null;
+};
+
+// Null when either currency has no rate
+export const convertAmount = (amount: number, from: string, to: string, rates: ExchangeRate[]) => {
+  if (from === to) return Number(amount);
+  const fromRate = rates.find(rate => rate.currency === from);
+  const toRate = rates.find(rate => rate.currency === to);
+  if (!fromRate || !toRate) return null;
+  return Number(amount) / Number(fromRate.rate) * Number(toRate.rate);
+};
+
+// The reference currency has a rate of 1; the catalog sorts and filters on
+// prices converted into it (vehicle_parts.price_reference)
+export const toReferenceAmount = (amount: number, currency: string, rates: ExchangeRate[]) => {
+  const rate = rates.find(entry => entry.currency === currency);
+  return rate ? Number(amount) / Number(rate.rate) : null;
+};
+
+// The visitor's display currency, remembered across visits
+const DISPLAY_CURRENCY_KEY = 'displayCurrency';
+const displayCurrencyListeners = new Set<() => void>();
+
+export const getDisplayCurrency = () => {
+  try {
+    return localStorage.getItem(DISPLAY_CURRENCY_KEY) || STORE_CURRENCY;
+  } catch {
+    return STORE_CURRENCY;
+  }
+};
+
+export const setDisplayCurrency = (currency: string) => {
+  try {
+    localStorage.setItem(DISPLAY_CURRENCY_KEY, currency);
+  } catch {
+    // Private browsing: the choice lasts until the page is closed
+  }
+  displayCurrencyListeners.forEach(listener => listener());
+};
+
+export const subscribeDisplayCurrency = (listener: () => void) => {
+  displayCurrencyListeners.add(listener);
+  return () => {
+    displayCurrencyListeners.delete(listener);
+  };
+};
+
+export const fetchExchangeRates = async () => {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('currency, rate, updated_at')
+    .order('currency');
+
+  if (error) throw error;
+  return (data || []) as ExchangeRate[];
+};
+
+export const fetchTaxClasses = async () => {
+  const { data, error } = await supabase
+    .from('tax_classes')
+    .select('*')
+    .order('sort_order');
+
+  if (error) throw error;
+  return (data || []) as TaxClass[];
+};
+
+export const fetchPriceHistory = async (partSlug: string) => {
+  const { data, error } = await supabase
+    .from('price_history')
+    .select('*')
+    .eq('part_slug', partSlug)
+    .order('changed_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as PriceChange[];
+};
+
+// The "was" price in the part's own currency, or null when the part is not
+// on sale; see part_was_price for the 30-day rule
+export const fetchWasPrice = async (partSlug: string) => {
+  const { data, error } = await supabase.rpc('part_was_price', { p_part_slug: partSlug });
+  if (error) throw error;
+  return data === null ? null : Number(data);
+};
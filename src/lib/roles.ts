@@ -0,0 +1,40 @@
+import type { Session } from '@supabase/supabase-js';
+import type { MessageKey } from './i18n';
+import type { AppRole } from '../types';
+
+export const ROLE_OPTIONS: { value: AppRole; labelKey: MessageKey; descriptionKey: MessageKey }[] = [
+  { value: 'admin', labelKey: 'role.admin', descriptionKey: 'role.adminDescription' },
+  { value: 'editor', labelKey: 'role.editor', descriptionKey: 'role.editorDescription' },
+  { value: 'buyer', labelKey: 'role.buyer', descriptionKey: 'role.buyerDescription' },
+];
+
+const isAppRole = (value: unknown): value is AppRole =>
+  ROLE_OPTIONS.some(option => option.value === value);
+
+// The custom access token hook adds `user_role` to the JWT. It is only a hint
+// for the UI; RLS reads the role from the profiles table.
+export const getSessionRole = (session: Session): AppRole => {
+  try {
+    const payload = session.access_token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload));
+    return isAppRole(claims.user_role) ? claims.user_role : 'buyer';
+  } catch {
+    return 'buyer';
+  }
+};
+
+export const canManageParts = (role: AppRole) => role === 'admin' || role === 'editor';
+
+// Staff work the order queue: ship, return and take manual payments
+export const canManageOrders = (role: AppRole) => role === 'admin' || role === 'editor';
+
+export const canManageCategories = (role: AppRole) => role === 'admin';
+
+export const canManageShipping = (role: AppRole) => role === 'admin';
+
+export const canManagePricing = (role: AppRole) => role === 'admin';
+
+export const canManageUsers = (role: AppRole) => role === 'admin';
+
+export const canEditPart = (role: AppRole, userId: string, part: { owner_id: string | null }) =>
+  role === 'admin' || (role === 'editor' && part.owner_id === userId);
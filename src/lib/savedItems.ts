@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import { PRIMARY_IMAGE_SELECT } from './partImages';
+import type { ListImage, PartRow, SavedItem, SavedList } from '../types';
+
+// Columns shown on saved-part cards
+export const SAVED_PART_COLUMNS = `part_slug, itemname, make, model, itemurl, price, currency, stock_quantity, reserved_quantity, ${PRIMARY_IMAGE_SELECT}`;
+
+export type SavedPartSummary = Pick<
+  PartRow,
+  'part_slug' | 'itemname' | 'make' | 'model' | 'itemurl' | 'price' | 'currency' | 'stock_quantity' | 'reserved_quantity'
+> & { primary_image: ListImage[] };
+
+// part is null once the part is unpublished or deleted by its editors
+export type SavedPart = SavedItem & { part: SavedPartSummary | null };
+
+export const fetchSavedItems = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('saved_items')
+    .select(`*, part:vehicle_parts(${SAVED_PART_COLUMNS})`)
+    .eq('user_id', userId)
+    .eq('part.primary_image.is_primary', true)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as SavedPart[];
+};
+
+export const fetchSavedLists = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('saved_lists')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as SavedList[];
+};
+
+export const createSavedList = async (name: string) => {
+  const { data, error } = await supabase
+    .from('saved_lists')
+    .insert({ name: name.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SavedList;
+};
+
+export const updateSavedList = async (listId: string, changes: Partial<Pick<SavedList, 'name' | 'share_token'>>) => {
+  const { data, error } = await supabase
+    .from('saved_lists')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', listId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SavedList;
+};
+
+// A fresh token each time sharing is turned on, so old links stop working
+// once a list is unshared
+export const setSavedListShared = (listId: string, shared: boolean) =>
+  updateSavedList(listId, { share_token: shared ? uuidv4() : null });
+
+// Parts in a deleted list stay saved, unsorted
+export const deleteSavedList = async (listId: string) => {
+  const { error } = await supabase.from('saved_lists').delete().eq('id', listId);
+  if (error) throw error;
+};
+
+// A part can be in several lists, but in each list (and unsorted) only once
+const savedItemError = (error: { code?: string; message: string }) =>
+  error.code === '23505' ? new Error('This part is already in that list') : error;
+
+export const moveSavedItem = async (itemId: string, listId: string | null) => {
+  const { error } = await supabase.from('saved_items').update({ list_id: listId }).eq('id', itemId);
+  if (error) throw savedItemError(error);
+};
+
+export const addSavedItemToList = async (userId: string, partId: string, listId: string) => {
+  const { error } = await supabase.from('saved_items').insert({ user_id: userId, part_id: partId, list_id: listId });
+  if (error) throw savedItemError(error);
+};
+
+// Takes the part out of one list; it stays saved in any others
+export const removeSavedItem = async (itemId: string) => {
+  const { error } = await supabase.from('saved_items').delete().eq('id', itemId);
+  if (error) throw error;
+};
+
+// Takes the part out of every list
+export const unsavePart = async (userId: string, partId: string) => {
+  const { error } = await supabase.from('saved_items').delete().eq('user_id', userId).eq('part_id', partId);
+  if (error) throw error;
+};
+
+export const sharedListUrl = (shareToken: string) => `${window.location.origin}/saved/shared/${shareToken}`;
+
+// The list's name and parts for anyone signed in with the link. Parts are
+// read through vehicle_parts, so unpublished ones are left out.
+export const fetchSharedList = async (shareToken: string) => {
+  const { data: rows, error } = await supabase.rpc('shared_saved_list', { p_share_token: shareToken });
+  if (error) throw error;
+  if (!rows?.length) return null;
+
+  const slugs = (rows as { list_name: string; part_slug: string | null }[])
+    .map(row => row.part_slug)
+    .filter((slug): slug is string => !!slug);
+
+  let parts: SavedPartSummary[] = [];
+  if (slugs.length) {
+    const { data, error: partsError } = await supabase
+      .from('vehicle_parts')
+      .select(SAVED_PART_COLUMNS)
+      .in('part_slug', slugs)
+      .eq('primary_image.is_primary', true)
+      .order('itemname');
+
+    if (partsError) throw partsError;
+    parts = (data || []) as SavedPartSummary[];
+  }
+
+  return { name: rows[0].list_name as string, parts };
+};
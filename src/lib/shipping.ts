@@ -0,0 +1,261 @@
+import { supabase } from './supabase';
+import { dimensionsInCm, parseDimensions } from './partSchema';
+import type { PartRow, ServiceLevel, ShippingBox, ShippingCarrier, ShippingRate, ShippingZone } from '../types';
+
+export const SERVICE_LEVELS: { value: ServiceLevel; label: string }[] = [
+  { value: 'economy', label: 'Economy' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'express', label: 'Express' },
+];
+
+export const serviceLevelLabel = (level: ServiceLevel) =>
+  SERVICE_LEVELS.find(entry => entry.value === level)?.label ?? level;
+
+// One unit of a part, measured in cm and kg
+export type ShippableItem = {
+  partSlug: string;
+  itemname: string;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+  weightKg: number;
+};
+
+export type ShippingPackage = {
+  box: ShippingBox;
+  items: ShippableItem[];
+  // Contents plus the empty box
+  weightKg: number;
+};
+
+export type PackingResult = {
+  packages: ShippingPackage[];
+  // Units too large or heavy for every box
+  unpacked: ShippableItem[];
+};
+
+export type RateRequest = {
+  zone: ShippingZone;
+  packages: ShippingPackage[];
+};
+
+export type RateQuote = {
+  carrierCode: string;
+  carrierName: string;
+  serviceLevel: ServiceLevel;
+  price: number;
+  currency: string;
+  minDays: number;
+  maxDays: number;
+};
+
+// Quotes every service level a carrier offers for the packages. Carrier APIs
+// implement this and register under their `provider` name below.
+export interface CarrierRateProvider {
+  carrier: ShippingCarrier;
+  quote(request: RateRequest): Promise<RateQuote[]>;
+}
+
+type ShippingFields = { weight_kg: number | string; dimensions: string | null };
+
+const volume = ({ lengthCm, widthCm, heightCm }: Pick<ShippableItem, 'lengthCm' | 'widthCm' | 'heightCm'>) =>
+  lengthCm * widthCm * heightCm;
+
+const boxSize = (box: ShippingBox) => ({
+  lengthCm: Number(box.length_cm),
+  widthCm: Number(box.width_cm),
+  heightCm: Number(box.height_cm),
+});
+
+// Longest side first, so items and boxes compare in any orientation
+const sides = (size: Pick<ShippableItem, 'lengthCm' | 'widthCm' | 'heightCm'>) =>
+  [size.lengthCm, size.widthCm, size.heightCm].sort((a, b) => b - a);
+
+export const fitsInBox = (item: ShippableItem, box: ShippingBox) => {
+  const boxSides = sides(boxSize(box));
+  return sides(item).every((side, i) => side <= boxSides[i]) && item.weightKg <= Number(box.max_weight_kg);
+};
+
+// Reason codes, shown through the shipping.issue.* messages
+export type ShippingIssue = 'missingDimensions' | 'invalidDimensions' | 'missingWeight' | 'tooLarge';
+
+// Why a part cannot be shipped, or null when it can. Pass the boxes to also
+// check that it fits in one of them.
+export const shippingIssue = (part: ShippingFields, boxes?: ShippingBox[]): ShippingIssue | null => {
+  if (!part.dimensions?.trim()) return 'missingDimensions';
+  const dimensions = parseDimensions(part.dimensions);
+  if (!dimensions) return 'invalidDimensions';
+  const weightKg = Number(part.weight_kg);
+  if (!(weightKg > 0)) return 'missingWeight';
+
+  if (boxes?.length) {
+    const { length, width, height } = dimensionsInCm(dimensions);
+    const item = { partSlug: '', itemname: '', lengthCm: length, widthCm: width, heightCm: height, weightKg };
+    if (!boxes.some(box => fitsInBox(item, box))) return 'tooLarge';
+  }
+  return null;
+};
+
+export const toShippableItem = (
+  part: Pick<PartRow, 'part_slug' | 'itemname' | 'weight_kg' | 'dimensions'>
+): ShippableItem | null => {
+  const dimensions = part.dimensions ? parseDimensions(part.dimensions) : null;
+  if (!dimensions || !(Number(part.weight_kg) > 0)) return null;
+
+  const { length, width, height } = dimensionsInCm(dimensions);
+  return {
+    partSlug: part.part_slug,
+    itemname: part.itemname,
+    lengthCm: length,
+    widthCm: width,
+    heightCm: height,
+    weightKg: Number(part.weight_kg),
+  };
+};
+
+export const dimensionalWeight = (size: Pick<ShippableItem, 'lengthCm' | 'widthCm' | 'heightCm'>, divisor: number) =>
+  volume(size) / divisor;
+
+// Carriers charge for whichever is greater
+export const billableWeight = (pkg: ShippingPackage, carrier: ShippingCarrier) =>
+  Math.max(pkg.weightKg, dimensionalWeight(boxSize(pkg.box), carrier.dim_divisor));
+
+// First-fit decreasing: the largest units go first, each into the first open
+// box with volume and weight to spare, otherwise into the smallest box it
+// fits. Volume is a stand-in for real 3D packing, so estimates can come out
+// a box short for awkwardly shaped parts.
+export const packItems = (items: ShippableItem[], boxes: ShippingBox[]): PackingResult => {
+  const bySize = [...boxes].sort((a, b) => volume(boxSize(a)) - volume(boxSize(b)));
+  const open: { pkg: ShippingPackage; freeVolume: number }[] = [];
+  const unpacked: ShippableItem[] = [];
+
+  for (const item of [...items].sort((a, b) => volume(b) - volume(a))) {
+    const target = open.find(({ pkg, freeVolume }) =>
+      fitsInBox(item, pkg.box)
+      && freeVolume >= volume(item)
+      && pkg.weightKg - Number(pkg.box.tare_weight_kg) + item.weightKg <= Number(pkg.box.max_weight_kg)
+    );
+
+    if (target) {
+      target.pkg.items.push(item);
+      target.pkg.weightKg += item.weightKg;
+      target.freeVolume -= volume(item);
+      continue;
+    }
+
+    const box = bySize.find(candidate => fitsInBox(item, candidate));
+    if (!box) {
+      unpacked.push(item);
+      continue;
+    }
+    open.push({
+      pkg: { box, items: [item], weightKg: Number(box.tare_weight_kg) + item.weightKg },
+      freeVolume: volume(boxSize(box)) - volume(item),
+    });
+  }
+
+  return { packages: open.map(({ pkg }) => pkg), unpacked };
+};
+
+// Prices each package from the carrier's rate table, without calling out.
+// A service level is offered only if every package falls in one of its
+// weight brackets.
+export const tableRateProvider = (carrier: ShippingCarrier, rates: ShippingRate[]): CarrierRateProvider => ({
+  carrier,
+  quote: async ({ zone, packages }) =>
+    SERVICE_LEVELS.flatMap(({ value: serviceLevel }) => {
+      const brackets = rates
+        .filter(rate => rate.carrier_code === carrier.code && rate.zone_code === zone.code && rate.service_level === serviceLevel)
+        .sort((a, b) => a.max_weight_kg - b.max_weight_kg);
+      if (!brackets.length) return [];
+
+      const used = packages.map(pkg => brackets.find(rate => Number(rate.max_weight_kg) >= billableWeight(pkg, carrier)));
+      if (used.some(rate => !rate)) return [];
+
+      const charged = used as ShippingRate[];
+      return [{
+        carrierCode: carrier.code,
+        carrierName: carrier.name,
+        serviceLevel,
+        price: Math.round(charged.reduce((sum, rate) => sum + Number(rate.price), 0) * 100) / 100,
+        currency: brackets[0].currency,
+        minDays: Math.max(...charged.map(rate => rate.min_days)),
+        maxDays: Math.max(...charged.map(rate => rate.max_days)),
+      }];
+    }),
+});
+
+const CARRIER_PROVIDERS: Record<string, (carrier: ShippingCarrier, rates: ShippingRate[]) => CarrierRateProvider> = {
+  table: tableRateProvider,
+};
+
+export const getCarrierProvider = (carrier: ShippingCarrier, rates: ShippingRate[]) => {
+  const createProvider = CARRIER_PROVIDERS[carrier.provider];
+  if (!createProvider) throw new Error(`Unknown shipping provider "${carrier.provider}" for ${carrier.name}`);
+  return createProvider(carrier, rates);
+};
+
+export type ShippingConfig = {
+  boxes: ShippingBox[];
+  carriers: ShippingCarrier[];
+  zones: ShippingZone[];
+  rates: ShippingRate[];
+};
+
+export const fetchShippingBoxes = async () => {
+  const { data, error } = await supabase
+    .from('shipping_boxes')
+    .select('*')
+    .order('length_cm')
+    .order('width_cm');
+
+  if (error) throw error;
+  return (data || []) as ShippingBox[];
+};
+
+export const fetchShippingConfig = async (): Promise<ShippingConfig> => {
+  const [boxes, carriers, zones, rates] = await Promise.all([
+    fetchShippingBoxes(),
+    supabase.from('shipping_carriers').select('*').order('name'),
+    supabase.from('shipping_zones').select('*').order('name'),
+    supabase.from('shipping_rates').select('*').order('max_weight_kg'),
+  ]);
+
+  for (const result of [carriers, zones, rates]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    boxes,
+    carriers: (carriers.data || []) as ShippingCarrier[],
+    zones: (zones.data || []) as ShippingZone[],
+    rates: (rates.data || []) as ShippingRate[],
+  };
+};
+
+export type ShippingEstimate = PackingResult & {
+  quotes: RateQuote[];
+  // Carriers that could not quote, with the reason
+  errors: string[];
+};
+
+// Packs the items into the active boxes and asks every active carrier for
+// rates, cheapest first
+export const estimateShipping = async (items: ShippableItem[], zone: ShippingZone, config: ShippingConfig) => {
+  const { packages, unpacked } = packItems(items, config.boxes.filter(box => box.is_active));
+  const estimate: ShippingEstimate = { packages, unpacked, quotes: [], errors: [] };
+  if (!packages.length) return estimate;
+
+  const results = await Promise.allSettled(
+    config.carriers
+      .filter(carrier => carrier.is_active)
+      .map(async carrier => getCarrierProvider(carrier, config.rates).quote({ zone, packages }))
+  );
+
+  for (const result of results) {
+    if (result.status === 'fulfilled') estimate.quotes.push(...result.value);
+    else estimate.errors.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+  }
+  estimate.quotes.sort((a, b) => a.price - b.price);
+  return estimate;
+};
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import type { MessageKey } from './i18n';
+import type { PartRow, StockMovement, StockMovementKind } from '../types';
+
+// Used for parts without their own reorder threshold
+export const DEFAULT_REORDER_THRESHOLD = 5;
+
+// direction: how a positive quantity entered in the form moves stock.
+// Adjustments take a signed quantity as entered.
+export const STOCK_MOVEMENT_KINDS: {
+  kind: StockMovementKind;
+  labelKey: MessageKey;
+  direction: 1 | -1 | 0;
+  descriptionKey: MessageKey;
+}[] = [
+  { kind: 'receipt', labelKey: 'stock.kind.receipt', direction: 1, descriptionKey: 'stock.hint.receipt' },
+  { kind: 'sale', labelKey: 'stock.kind.sale', direction: -1, descriptionKey: 'stock.hint.sale' },
+  { kind: 'return', labelKey: 'stock.kind.return', direction: 1, descriptionKey: 'stock.hint.return' },
+  { kind: 'adjustment', labelKey: 'stock.kind.adjustment', direction: 0, descriptionKey: 'stock.hint.adjustment' },
+  { kind: 'reservation', labelKey: 'stock.kind.reservation', direction: 1, descriptionKey: 'stock.hint.reservation' },
+  { kind: 'release', labelKey: 'stock.kind.release', direction: -1, descriptionKey: 'stock.hint.release' },
+];
+
+export const stockMovementKey = (kind: StockMovementKind) =>
+  STOCK_MOVEMENT_KINDS.find(entry => entry.kind === kind)?.labelKey ?? null;
+
+// Reservations and releases move held stock; everything else moves stock on hand
+export const movesReservedStock = (kind: StockMovementKind) => kind === 'reservation' || kind === 'release';
+
+export const availableStock = (part: Pick<PartRow, 'stock_quantity' | 'reserved_quantity'>) =>
+  part.stock_quantity - (part.reserved_quantity ?? 0);
+
+export const fetchStockMovements = async (partSlug: string) => {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*')
+    .eq('part_slug', partSlug)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as StockMovement[];
+};
+
+// The database locks the part, applies the movement and rejects anything
+// that would leave less stock than is reserved
+export const recordStockMovement = async ({
+  partSlug,
+  kind,
+  quantity,
+  reason,
+  reference,
+}: {
+  partSlug: string;
+  kind: StockMovementKind;
+  quantity: number;
+  reason: string;
+  reference?: string;
+}) => {
+  const { data, error } = await supabase.rpc('record_stock_movement', {
+    p_part_slug: partSlug,
+    p_kind: kind,
+    p_quantity: quantity,
+    p_reason: reason.trim(),
+    p_reference: reference?.trim() || null,
+  });
+
+  if (error) throw error;
+  return data as StockMovement;
+};
+
+export const fetchLowStockParts = async (defaultThreshold: number) => {
+  const { data, error } = await supabase.rpc('low_stock_parts', { p_default_threshold: defaultThreshold });
+
+  if (error) throw error;
+  return (data || []) as PartRow[];
+};
@@ -0,0 +1,112 @@
+import { supabase } from './supabase';
+import { partImageUrl } from './partImages';
+import { VIEW_TYPES } from './parts';
+import { formatFitment } from './fitment';
+import { currencyDecimals } from './pricing';
+import type { PartFitment, PartImage, PartRow, PartTranslation } from '../types';
+
+// Anonymous visitors may only read these columns; see 20261019230000_storefront
+const STOREFRONT_PART_COLUMNS = [
+  'part_slug', 'itemname', 'make', 'model', 'condition', 'description', 'price', 'currency',
+  'tax_class', 'available_quantity', 'color', 'key_features', 'weight_kg', 'dimensions', 'material', 'warranty_months',
+  'itemurl', 'updated_at',
+].join(', ');
+const STOREFRONT_IMAGE_COLUMNS = 'id, path, thumbnail_path, view_type, sort_order, caption, alt_text, is_primary, width, height';
+const STOREFRONT_FITMENT_COLUMNS = 'make, model, year_start, year_end, trim, engine';
+const STOREFRONT_TRANSLATION_COLUMNS = 'locale, itemname, description, key_features';
+
+export type StorefrontImage = Pick<
+  PartImage,
+  'id' | 'path' | 'thumbnail_path' | 'view_type' | 'sort_order' | 'caption' | 'alt_text' | 'is_primary' | 'width' | 'height'
+>;
+
+export type StorefrontPart = Pick<
+  PartRow,
+  | 'part_slug' | 'itemname' | 'make' | 'model' | 'condition' | 'description' | 'price' | 'currency'
+  | 'tax_class' | 'available_quantity' | 'color' | 'key_features' | 'weight_kg' | 'dimensions' | 'material' | 'warranty_months'
+  | 'itemurl' | 'updated_at'
+> & {
+  category: { category_name: string } | null;
+  images: StorefrontImage[];
+  fitments: PartFitment[];
+  translations: Pick<PartTranslation, 'locale' | 'itemname' | 'description' | 'key_features'>[];
+};
+
+export const storefrontPath = (partSlug: string) => `/p/${partSlug}`;
+
+export const storefrontUrl = (partSlug: string) => `${window.location.origin}${storefrontPath(partSlug)}`;
+
+// Null when the part does not exist or is not published. Editors signed in
+// can read their drafts, so the published filter is applied here too.
+export const fetchStorefrontPart = async (partSlug: string) => {
+  const { data, error } = await supabase
+    .from('vehicle_parts')
+    .select(`${STOREFRONT_PART_COLUMNS},
+      category:part_categories(category_name),
+      images:part_images(${STOREFRONT_IMAGE_COLUMNS}),
+      fitments:part_fitments(${STOREFRONT_FITMENT_COLUMNS}),
+      translations:part_translations(${STOREFRONT_TRANSLATION_COLUMNS})`)
+    .eq('part_slug', partSlug)
+    .eq('is_published', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const part = data as unknown as StorefrontPart;
+  return { ...part, images: sortStorefrontImages(part.images ?? []), translations: part.translations ?? [] };
+};
+
+// The primary image first, then by view (main, front, back, ...) and gallery order
+export const sortStorefrontImages = (images: StorefrontImage[]) =>
+  [...images].sort((a, b) =>
+    Number(b.is_primary) - Number(a.is_primary) ||
+    VIEW_TYPES.indexOf(a.view_type as typeof VIEW_TYPES[number]) - VIEW_TYPES.indexOf(b.view_type as typeof VIEW_TYPES[number]) ||
+    a.sort_order - b.sort_order
+  );
+
+export const storefrontImageUrls = (part: StorefrontPart) =>
+  part.images.length ? part.images.map(image => partImageUrl(image.path)) : part.itemurl ? [part.itemurl] : [];
+
+// Plain-text summary for search results and link previews
+export const storefrontSummary = (part: StorefrontPart, maxLength = 160) => {
+  const text = (part.description || part.key_features.join('. ') || part.itemname).replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const ITEM_CONDITIONS: Record<string, string> = {
+  New: 'https://schema.org/NewCondition',
+  Refurbished: 'https://schema.org/RefurbishedCondition',
+  Used: 'https://schema.org/UsedCondition',
+};
+
+// schema.org Product with a single Offer, for search engine rich results
+export const productJsonLd = (part: StorefrontPart, url: string) => ({
+  '@context': 'https://schema.org',
+  '@type': 'Product',
+  name: part.itemname,
+  description: storefrontSummary(part, 5000),
+  sku: part.part_slug,
+  url,
+  image: storefrontImageUrls(part),
+  ...(part.category && { category: part.category.category_name }),
+  ...(part.color && { color: part.color }),
+  ...(part.material && { material: part.material }),
+  ...(part.weight_kg > 0 && {
+    weight: { '@type': 'QuantitativeValue', value: part.weight_kg, unitCode: 'KGM' },
+  }),
+  ...(part.fitments.length > 0 && {
+    isAccessoryOrSparePartFor: part.fitments.map(fitment => ({ '@type': 'Vehicle', name: formatFitment(fitment) })),
+  }),
+  offers: {
+    '@type': 'Offer',
+    url,
+    price: Number(part.price).toFixed(currencyDecimals(part.currency)),
+    priceCurrency: part.currency,
+    itemCondition: ITEM_CONDITIONS[part.condition] ?? ITEM_CONDITIONS.New,
+    availability: part.available_quantity > 0 ? 'https://schema.org/InStock' : 'https://schema.org/OutOfStock',
+    ...(part.warranty_months > 0 && {
+      warranty: { '@type': 'WarrantyPromise', durationOfWarranty: { '@type': 'QuantitativeValue', value: part.warranty_months, unitCode: 'MON' } },
+    }),
+  },
+});
@@ -0,0 +1,265 @@
+import { v4 as uuidv4 } from 'uuid';
+import { discardPreparedImage, prepareImage, uploadPreparedImage } from './partImages';
+import type { PreparedImage } from './partImages';
+import type { PartImage, UploadingImage } from '../types';
+
+// Gallery uploads outlive the page that started them. Every queued photo is
+// kept in IndexedDB until it is recorded in part_images, so a reload or a
+// dropped connection only pauses it.
+
+export const UPLOAD_LIMITS = {
+  concurrency: 2,
+  maxAttempts: 5,
+  baseRetryDelayMs: 2000,
+  maxRetryDelayMs: 60_000,
+} as const;
+
+type StoredUpload = {
+  id: string;
+  partSlug: string;
+  fileName: string;
+  attempts: number;
+  error?: string;
+  // The original photo until it has been processed, then the processed files
+  file?: Blob;
+  prepared?: PreparedImage;
+  createdAt: string;
+};
+
+const DB_NAME = 'part-image-uploads';
+const STORE_NAME = 'uploads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const runStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Without IndexedDB (private browsing in some browsers) the queue still
+// works, it just does not survive a reload.
+const saveRecord = (record: StoredUpload) =>
+  runStore('readwrite', store => store.put(record)).catch(() => undefined);
+
+const deleteRecord = (id: string) =>
+  runStore('readwrite', store => store.delete(id)).catch(() => undefined);
+
+const loadRecords = () =>
+  runStore<StoredUpload[]>('readonly', store => store.getAll()).catch(() => [] as StoredUpload[]);
+
+let uploads: UploadingImage[] = [];
+const records = new Map<string, StoredUpload>();
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<() => void>();
+const uploadedListeners = new Set<(image: PartImage) => void>();
+let restored: Promise<void> | null = null;
+
+// Decoding several large photos at once can exhaust memory on phones, so
+// processing runs one photo at a time even when uploads run in parallel.
+let processingChain: Promise<unknown> = Promise.resolve();
+
+const emit = () => listeners.forEach(listener => listener());
+
+const setUpload = (id: string, changes: Partial<UploadingImage>) => {
+  uploads = uploads.map(upload => (upload.id === id ? { ...upload, ...changes } : upload));
+  emit();
+};
+
+const removeUpload = (id: string) => {
+  uploads = uploads.filter(upload => upload.id !== id);
+  records.delete(id);
+  controllers.delete(id);
+  clearTimeout(retryTimers.get(id));
+  retryTimers.delete(id);
+  emit();
+  return deleteRecord(id);
+};
+
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(UPLOAD_LIMITS.baseRetryDelayMs * 2 ** (attempts - 1), UPLOAD_LIMITS.maxRetryDelayMs);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const runUpload = async (id: string) => {
+  const record = records.get(id);
+  if (!record) return;
+
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    if (!record.prepared) {
+      setUpload(id, { status: 'processing', error: undefined });
+      const prepare = processingChain.then(() => prepareImage(record.partSlug, record.file!));
+      processingChain = prepare.catch(() => undefined);
+      record.prepared = await prepare;
+      record.file = undefined;
+      if (controller.signal.aborted) return;
+      await saveRecord(record);
+    }
+
+    setUpload(id, { status: 'uploading', error: undefined });
+    const image = await uploadPreparedImage(record.prepared, {
+      signal: controller.signal,
+      onProgress: progress => setUpload(id, { progress }),
+    });
+
+    await removeUpload(id);
+    uploadedListeners.forEach(listener => listener(image));
+  } catch (error) {
+    if (controller.signal.aborted || !records.has(id)) return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    // A lost connection is not the upload's fault; it resumes on reconnect
+    if (!isOnline()) {
+      setUpload(id, { status: 'waiting', offline: true, error: undefined });
+      return;
+    }
+
+    record.attempts += 1;
+    record.error = message;
+    await saveRecord(record);
+
+    if (record.attempts >= UPLOAD_LIMITS.maxAttempts) {
+      setUpload(id, { status: 'failed', attempts: record.attempts, error: message });
+    } else {
+      setUpload(id, { status: 'waiting', attempts: record.attempts, error: message });
+      retryTimers.set(id, setTimeout(() => {
+        retryTimers.delete(id);
+        setUpload(id, { status: 'queued' });
+        pump();
+      }, retryDelay(record.attempts)));
+    }
+  } finally {
+    controllers.delete(id);
+    pump();
+  }
+};
+
+// Start queued uploads up to the concurrency limit
+const pump = () => {
+  if (!isOnline()) return;
+
+  const active = uploads.filter(upload => upload.status === 'processing' || upload.status === 'uploading').length;
+  uploads
+    .filter(upload => upload.status === 'queued')
+    .slice(0, Math.max(0, UPLOAD_LIMITS.concurrency - active))
+    .forEach(upload => {
+      setUpload(upload.id, { status: 'processing' });
+      runUpload(upload.id);
+    });
+};
+
+const handleOnline = () => {
+  uploads
+    .filter(upload => upload.status === 'waiting' && !retryTimers.has(upload.id))
+    .forEach(upload => setUpload(upload.id, { status: 'queued', offline: false, error: undefined }));
+  pump();
+};
+
+const toUploadingImage = (record: StoredUpload): UploadingImage => ({
+  id: record.id,
+  partSlug: record.partSlug,
+  fileName: record.fileName,
+  status: record.attempts >= UPLOAD_LIMITS.maxAttempts ? 'failed' : 'queued',
+  progress: 0,
+  attempts: record.attempts,
+  error: record.error,
+});
+
+// Load uploads left over from an earlier visit and start the queue. Safe to
+// call more than once; only the first call does anything.
+export const resumeUploads = () => {
+  restored ??= (async () => {
+    window.addEventListener('online', handleOnline);
+
+    const stored = await loadRecords();
+    stored
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .filter(record => !records.has(record.id))
+      .forEach(record => {
+        records.set(record.id, record);
+        uploads = [...uploads, toUploadingImage(record)];
+      });
+    emit();
+    pump();
+  })();
+  return restored;
+};
+
+export const enqueueUploads = async (partSlug: string, files: File[]) => {
+  await resumeUploads();
+
+  const createdAt = new Date().toISOString();
+  const added = files.map(file => ({
+    id: uuidv4(),
+    partSlug,
+    fileName: file.name,
+    attempts: 0,
+    file,
+    createdAt,
+  }));
+
+  added.forEach(record => records.set(record.id, record));
+  uploads = [...uploads, ...added.map(toUploadingImage)];
+  emit();
+
+  await Promise.all(added.map(saveRecord));
+  pump();
+};
+
+// Stop an upload and forget it. Files it already stored are removed.
+export const cancelUpload = async (id: string) => {
+  const record = records.get(id);
+  controllers.get(id)?.abort(new DOMException('Upload cancelled', 'AbortError'));
+  await removeUpload(id);
+  if (record?.prepared) await discardPreparedImage(record.prepared).catch(() => undefined);
+  pump();
+};
+
+// Try a failed upload again with a fresh set of attempts
+export const retryUpload = async (id: string) => {
+  const record = records.get(id);
+  if (!record) return;
+
+  record.attempts = 0;
+  record.error = undefined;
+  await saveRecord(record);
+  setUpload(id, { status: 'queued', attempts: 0, progress: 0, error: undefined });
+  pump();
+};
+
+export const getUploads = () => uploads;
+
+export const subscribeUploads = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const subscribeUploaded = (listener: (image: PartImage) => void) => {
+  uploadedListeners.add(listener);
+  return () => {
+    uploadedListeners.delete(listener);
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { computeCheckDigit, decodeMake, decodeModelYear, decodeVin, normalizeVin, validateVin } from './vin';
+
+describe('computeCheckDigit', () => {
+  it('weights transliterated letters and digits', () => {
+    expect(computeCheckDigit('1HGCM82633A004352')).toBe('3');
+  });
+
+  it('writes a remainder of 10 as X', () => {
+    expect(computeCheckDigit('1M8GDM9AXKP042788')).toBe('X');
+  });
+});
+
+describe('validateVin', () => {
+  it('accepts a VIN with a matching check digit', () => {
+    expect(validateVin('1HGCM82633A004352')).toEqual({ valid: true, vin: '1HGCM82633A004352' });
+  });
+
+  it('normalizes spacing, dashes and case first', () => {
+    expect(normalizeVin(' 1hgcm-8263 3a004352 ')).toBe('1HGCM82633A004352');
+    expect(validateVin('1hgcm-82633a004352').valid).toBe(true);
+  });
+
+  it('rejects the wrong length and I, O or Q', () => {
+    expect(validateVin('1HGCM82633A00435').valid).toBe(false);
+    expect(validateVin('1HGCM82633A00435O').valid).toBe(false);
+  });
+
+  it('rejects a North American VIN whose check digit does not match', () => {
+    const result = validateVin('1HGCM82643A004352');
+    expect(result.valid).toBe(false);
+  });
+
+  it('only warns about the check digit outside North America', () => {
+    const result = validateVin('WVWZZZ1JZ3W386752');
+    expect(result.valid).toBe(true);
+    expect(result.valid && result.warning).toBeTruthy();
+  });
+});
+
+describe('decodeModelYear', () => {
+  it('reads the 1980-2009 cycle when position 7 is a digit', () => {
+    expect(decodeModelYear('1HGCM82633A004352', 2026)).toEqual({ modelYear: 2003, modelYearCandidates: [2003] });
+  });
+
+  it('prefers the 2010+ cycle when position 7 is a letter', () => {
+    expect(decodeModelYear('1HGCM8A63BA004352', 2026)).toEqual({ modelYear: 2011, modelYearCandidates: [2011, 1981] });
+  });
+
+  it('falls back to the older cycle when the newer year is in the future', () => {
+    expect(decodeModelYear('1HGCM8A63YA004352', 2026)).toEqual({ modelYear: 2000, modelYearCandidates: [2000] });
+  });
+
+  it('returns no year for a character outside the cycle', () => {
+    expect(decodeModelYear('1HGCM82630A004352', 2026)).toEqual({ modelYear: null, modelYearCandidates: [] });
+  });
+});
+
+describe('decodeMake', () => {
+  it('looks up the full WMI, then its two-character prefix', () => {
+    expect(decodeMake('1HGCM82633A004352')).toBe('Honda');
+    expect(decodeMake('JTDKB20U993523422')).toBe('Toyota');
+  });
+
+  it('returns null for an unknown manufacturer', () => {
+    expect(decodeMake('9ZZCM82633A004352')).toBeNull();
+  });
+});
+
+describe('decodeVin', () => {
+  it('decodes the region from the first character', () => {
+    expect(decodeVin('1HGCM82633A004352', 2026)).toMatchObject({ wmi: '1HG', make: 'Honda', regions: ['US'] });
+  });
+});
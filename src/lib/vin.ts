@@ -0,0 +1,95 @@
+import { getLocale, translate } from './i18n';
+import { VIN_REGIONS, VIN_WMI, VIN_WMI_PREFIXES } from './vinWmi';
+
+export type DecodedVin = {
+  vin: string;
+  wmi: string;
+  make: string | null;
+  // Region codes for formatRegion, empty when the first character is unassigned
+  regions: string[];
+  modelYear: number | null;
+  // Every plausible year for the position-10 character, newest first
+  modelYearCandidates: number[];
+};
+
+// warning is set when a check digit that is optional for the VIN's region
+// does not match
+export type VinValidation =
+  | { valid: true; vin: string; warning?: string }
+  | { valid: false; vin: string; error: string };
+
+const VIN_LENGTH = 17;
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles through these 30 characters, starting at 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_BASE = 1980;
+const MODEL_YEAR_CYCLE = MODEL_YEAR_CODES.length;
+
+// North American WMIs (first character 1-5) must carry a valid check digit;
+// elsewhere position 9 is often just part of the vehicle descriptor
+const CHECK_DIGIT_REQUIRED = /^[1-5]/;
+
+export const normalizeVin = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+const charValue = (char: string) => (/\d/.test(char) ? Number(char) : TRANSLITERATION[char]);
+
+// The expected check digit (position 9) for a VIN, '0'-'9' or 'X'
+export const computeCheckDigit = (vin: string) => {
+  const sum = [...vin].reduce((total, char, index) => total + charValue(char) * WEIGHTS[index], 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+export const validateVin = (value: string): VinValidation => {
+  const vin = normalizeVin(value);
+
+  if (vin.length !== VIN_LENGTH) {
+    return { valid: false, vin, error: translate(getLocale(), 'vin.wrongLength', { length: VIN_LENGTH, actual: vin.length }) };
+  }
+  if (!VIN_PATTERN.test(vin)) {
+    return { valid: false, vin, error: translate(getLocale(), 'vin.invalidCharacters') };
+  }
+  if (computeCheckDigit(vin) !== vin[8]) {
+    if (CHECK_DIGIT_REQUIRED.test(vin)) {
+      return { valid: false, vin, error: translate(getLocale(), 'vin.checkDigit') };
+    }
+    return { valid: true, vin, warning: translate(getLocale(), 'vin.checkDigitWarning') };
+  }
+  return { valid: true, vin };
+};
+
+export const decodeMake = (vin: string) =>
+  VIN_WMI[vin.slice(0, 3)] ?? VIN_WMI_PREFIXES[vin.slice(0, 2)] ?? null;
+
+// The year code repeats every 30 years. For light vehicles a letter in
+// position 7 marks the 2010+ cycle and a digit the 1980-2009 one; when that
+// signal points into the future we fall back to the older cycle.
+export const decodeModelYear = (vin: string, currentYear = new Date().getFullYear()) => {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return { modelYear: null, modelYearCandidates: [] };
+
+  const older = MODEL_YEAR_BASE + index;
+  const newer = older + MODEL_YEAR_CYCLE;
+  const modelYearCandidates = newer <= currentYear + 1 ? [newer, older] : [older];
+  const prefersNewer = /[A-Z]/.test(vin[6]) && newer <= currentYear + 1;
+
+  return { modelYear: prefersNewer ? newer : older, modelYearCandidates };
+};
+
+// Decode a VIN that already passed validateVin
+export const decodeVin = (vin: string, currentYear?: number): DecodedVin => ({
+  vin,
+  wmi: vin.slice(0, 3),
+  make: decodeMake(vin),
+  regions: VIN_REGIONS[vin[0]] ?? [],
+  ...decodeModelYear(vin, currentYear),
+});
@@ -0,0 +1,186 @@
+// Offline World Manufacturer Identifier table. Keys are the first three VIN
+// characters; `VIN_WMI_PREFIXES` catches manufacturers that own a whole
+// two-character block. Extend as new makes show up at the counter.
+export const VIN_WMI: Record<string, string> = {
+  // United States
+  '1C3': 'Chrysler',
+  '1C4': 'Chrysler',
+  '1C6': 'Ram',
+  '1FA': 'Ford',
+  '1FB': 'Ford',
+  '1FC': 'Ford',
+  '1FD': 'Ford',
+  '1FM': 'Ford',
+  '1FT': 'Ford',
+  '1FU': 'Freightliner',
+  '1G1': 'Chevrolet',
+  '1G2': 'Pontiac',
+  '1G3': 'Oldsmobile',
+  '1G4': 'Buick',
+  '1G6': 'Cadillac',
+  '1GC': 'Chevrolet',
+  '1GK': 'GMC',
+  '1GM': 'Pontiac',
+  '1GN': 'Chevrolet',
+  '1GT': 'GMC',
+  '1GY': 'Cadillac',
+  '1HD': 'Harley-Davidson',
+  '1HG': 'Honda',
+  '1J4': 'Jeep',
+  '1J8': 'Jeep',
+  '1LN': 'Lincoln',
+  '1ME': 'Mercury',
+  '1N4': 'Nissan',
+  '1N6': 'Nissan',
+  '1VW': 'Volkswagen',
+  '1YV': 'Mazda',
+  '1ZV': 'Ford',
+  '2C3': 'Chrysler',
+  '4S3': 'Subaru',
+  '4S4': 'Subaru',
+  '4T1': 'Toyota',
+  '4T3': 'Toyota',
+  '4T4': 'Toyota',
+  '4US': 'BMW',
+  '5FN': 'Honda',
+  '5J6': 'Honda',
+  '5J8': 'Acura',
+  '5LM': 'Lincoln',
+  '5N1': 'Nissan',
+  '5NP': 'Hyundai',
+  '5TD': 'Toyota',
+  '5TF': 'Toyota',
+  '5UX': 'BMW',
+  '5XX': 'Kia',
+  '5YJ': 'Tesla',
+  '7SA': 'Tesla',
+  // Canada
+  '2FA': 'Ford',
+  '2FM': 'Ford',
+  '2FT': 'Ford',
+  '2G1': 'Chevrolet',
+  '2G2': 'Pontiac',
+  '2GT': 'GMC',
+  '2HG': 'Honda',
+  '2HK': 'Honda',
+  '2HM': 'Hyundai',
+  '2T1': 'Toyota',
+  '2T2': 'Lexus',
+  '2T3': 'Toyota',
+  // Mexico
+  '3FA': 'Ford',
+  '3G1': 'Chevrolet',
+  '3GN': 'Chevrolet',
+  '3HG': 'Honda',
+  '3KP': 'Kia',
+  '3N1': 'Nissan',
+  '3VW': 'Volkswagen',
+  // Japan
+  'JA3': 'Mitsubishi',
+  'JA4': 'Mitsubishi',
+  'JF1': 'Subaru',
+  'JF2': 'Subaru',
+  'JH4': 'Acura',
+  'JHL': 'Honda',
+  'JHM': 'Honda',
+  'JM1': 'Mazda',
+  'JM3': 'Mazda',
+  'JN1': 'Nissan',
+  'JN8': 'Nissan',
+  'JS1': 'Suzuki',
+  'JT2': 'Toyota',
+  'JT3': 'Toyota',
+  'JTD': 'Toyota',
+  'JTE': 'Toyota',
+  'JTH': 'Lexus',
+  'JTJ': 'Lexus',
+  'JTK': 'Toyota',
+  'JTM': 'Toyota',
+  'JTN': 'Toyota',
+  // Korea
+  'KL1': 'Chevrolet',
+  'KM8': 'Hyundai',
+  'KMH': 'Hyundai',
+  'KNA': 'Kia',
+  'KND': 'Kia',
+  // Europe
+  'SAJ': 'Jaguar',
+  'SAL': 'Land Rover',
+  'SCC': 'Lotus',
+  'SCF': 'Aston Martin',
+  'TMB': 'Skoda',
+  'VF1': 'Renault',
+  'VF3': 'Peugeot',
+  'VF7': 'Citroen',
+  'VSS': 'SEAT',
+  'WAU': 'Audi',
+  'WA1': 'Audi',
+  'WBA': 'BMW',
+  'WBS': 'BMW',
+  'WBX': 'BMW',
+  'WDB': 'Mercedes-Benz',
+  'WDC': 'Mercedes-Benz',
+  'WDD': 'Mercedes-Benz',
+  'WMW': 'MINI',
+  'WP0': 'Porsche',
+  'WP1': 'Porsche',
+  'W0L': 'Opel',
+  'WVW': 'Volkswagen',
+  'WVG': 'Volkswagen',
+  'WV1': 'Volkswagen',
+  'WV2': 'Volkswagen',
+  'YS3': 'Saab',
+  'YV1': 'Volvo',
+  'YV4': 'Volvo',
+  'ZAR': 'Alfa Romeo',
+  'ZFA': 'Fiat',
+  'ZFF': 'Ferrari',
+  'ZHW': 'Lamborghini',
+};
+
+export const VIN_WMI_PREFIXES: Record<string, string> = {
+  '1F': 'Ford',
+  '1G': 'General Motors',
+  '1H': 'Honda',
+  '1N': 'Nissan',
+  '2F': 'Ford',
+  '2G': 'General Motors',
+  '2T': 'Toyota',
+  '3F': 'Ford',
+  '3N': 'Nissan',
+  '4T': 'Toyota',
+  '5T': 'Toyota',
+  'JH': 'Honda',
+  'JN': 'Nissan',
+  'JT': 'Toyota',
+  'KM': 'Hyundai',
+  'KN': 'Kia',
+  'WB': 'BMW',
+  'WD': 'Mercedes-Benz',
+  'WV': 'Volkswagen',
+};
+
+// Countries or areas from the first VIN character, as ISO 3166 or UN M49
+// codes for formatRegion
+export const VIN_REGIONS: Record<string, string[]> = {
+  '1': ['US'],
+  '2': ['CA'],
+  '3': ['MX'],
+  '4': ['US'],
+  '5': ['US'],
+  '6': ['AU'],
+  '7': ['US'],
+  '8': ['005'],
+  '9': ['BR'],
+  J: ['JP'],
+  K: ['KR'],
+  L: ['CN'],
+  M: ['IN'],
+  S: ['GB'],
+  T: ['150'],
+  V: ['FR', 'ES'],
+  W: ['DE'],
+  X: ['RU'],
+  Y: ['SE', 'FI'],
+  Z: ['IT'],
+};
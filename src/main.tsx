@@ -1,10 +1,39 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { BrowserRouter } from 'react-router-dom';
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { isAuthError, requireSession, setSessionExpired } from './lib/auth';
+import AuthProvider from './components/AuthProvider';
 import App from './App.tsx';
 import './index.css';
 
+// A lapsed session would otherwise send writes with the anonymous key, where
+// RLS drops them without an error. Check first, and ask the user to sign in
+// again whenever a request is rejected for an expired token.
+const queryClient = new QueryClient({
+  mutationCache: new MutationCache({
+    onMutate: async (_variables, mutation) => {
+      if (mutation.meta?.requiresSession !== false) await requireSession();
+    },
+    onError: (error, _variables, _context, mutation) => {
+      if (mutation.meta?.requiresSession !== false && isAuthError(error)) setSessionExpired(true);
+    },
+  }),
+  queryCache: new QueryCache({
+    onError: error => {
+      if (isAuthError(error)) setSessionExpired(true);
+    },
+  }),
+});
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <QueryClientProvider client={queryClient}>
+      <BrowserRouter>
+        <AuthProvider>
+          <App />
+        </AuthProvider>
+      </BrowserRouter>
+    </QueryClientProvider>
   </StrictMode>
 );
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+import { Loader2, Mail } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { ROLE_OPTIONS } from '../lib/roles';
+import { useI18n } from '../hooks/useI18n';
+import type { AppRole, Profile } from '../types';
+
+type AdminUsersPageProps = {
+  session: Session;
+};
+
+function AdminUsersPage({ session }: AdminUsersPageProps) {
+  const queryClient = useQueryClient();
+  const { t, formatDate } = useI18n();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('editor');
+
+  // Fetch every profile; RLS only returns them all to admins
+  const { data: profiles = [], isLoading, error } = useQuery<Profile[], Error>({
+    queryKey: ['profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Change a user's role
+  const updateRoleMutation = useMutation<void, Error, { id: string; role: AppRole }>({
+    mutationFn: async ({ id, role }) => {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ role, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries(['profiles']);
+    }
+  });
+
+  // Invite a user through the invite-user edge function
+  const inviteMutation = useMutation<void, Error>({
+    mutationFn: async () => {
+      const { error } = await supabase.functions.invoke('invite-user', {
+        body: { email: inviteEmail, role: inviteRole, redirectTo: window.location.origin },
+      });
+
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        throw new Error(body?.error ?? error.message);
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setInviteEmail('');
+      queryClient.invalidateQueries(['profiles']);
+    }
+  });
+
+  const handleInvite = (event: React.FormEvent) => {
+    event.preventDefault();
+    inviteMutation.mutate();
+  };
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">{t('users.title')}</h1>
+      </div>
+
+      {/* Invite form */}
+      <form onSubmit={handleInvite} className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold">{t('users.invite')}</h2>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('users.email')}
+            </label>
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="name@example.com"
+              className="w-full rounded-md border p-2"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('users.role')}
+            </label>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as AppRole)}
+              className="w-full rounded-md border p-2"
+            >
+              {ROLE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {t(option.labelKey)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          {t(ROLE_OPTIONS.find(option => option.value === inviteRole)!.descriptionKey)}
+        </p>
+
+        {inviteMutation.isError && (
+          <div className="mt-4 rounded-md bg-red-100 p-3 text-red-700">
+            {inviteMutation.error.message}
+          </div>
+        )}
+
+        {inviteMutation.isSuccess && (
+          <div className="mt-4 rounded-md bg-green-100 p-3 text-green-700">
+            {t('users.invited')}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={inviteMutation.isLoading}
+          className="mt-4 flex items-center justify-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {inviteMutation.isLoading ? <Loader2 className="animate-spin" size={16} /> : <Mail size={16} />}
+          {t('users.sendInvite')}
+        </button>
+      </form>
+
+      {/* User list */}
+      <div className="overflow-hidden rounded-lg bg-white shadow">
+        {error && (
+          <div className="m-4 rounded-md bg-red-100 p-3 text-red-700">
+            {t('users.loadError', { message: error.message })}
+          </div>
+        )}
+
+        {updateRoleMutation.isError && (
+          <div className="m-4 rounded-md bg-red-100 p-3 text-red-700">
+            {t('users.roleError', { message: updateRoleMutation.error.message })}
+          </div>
+        )}
+
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-medium">{t('users.user')}</th>
+              <th className="px-4 py-3 font-medium">{t('users.joined')}</th>
+              <th className="px-4 py-3 font-medium">{t('users.role')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {isLoading ? (
+              <tr>
+                <td colSpan={3} className="py-12">
+                  <Loader2 className="mx-auto animate-spin text-blue-500" size={24} />
+                </td>
+              </tr>
+            ) : (
+              profiles.map(profile => (
+                <tr key={profile.id}>
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-gray-900">{profile.full_name || profile.email}</div>
+                    {profile.full_name && <div className="text-gray-500">{profile.email}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">
+                    {formatDate(profile.created_at)}
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={profile.role}
+                      onChange={(e) => updateRoleMutation.mutate({ id: profile.id, role: e.target.value as AppRole })}
+                      // Demoting yourself would lock you out of this page
+                      disabled={profile.id === session.user.id || updateRoleMutation.isLoading}
+                      className="rounded-md border p-1.5 disabled:bg-gray-50"
+                    >
+                      {ROLE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {t(option.labelKey)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+export default AdminUsersPage;
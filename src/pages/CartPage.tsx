@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Session } from '@supabase/supabase-js';
+import { FileText, Loader2, ShoppingCart, Trash2 } from 'lucide-react';
+import { checkoutCart, fetchCart, removeFromCart, setCartQuantity } from '../lib/orders';
+import type { CartLine } from '../lib/orders';
+import { listImageUrl } from '../lib/partImages';
+import { availableStock } from '../lib/stock';
+import { formatMoney } from '../lib/pricing';
+import { usePricing } from '../hooks/usePricing';
+import ShippingEstimate from '../components/ShippingEstimate';
+import type { Order } from '../types';
+
+type CartPageProps = {
+  session: Session;
+};
+
+function CartPage({ session }: CartPageProps) {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const userId = session.user.id;
+  const [notes, setNotes] = useState('');
+  const { displayCurrency, rates, toDisplay, displayPrice } = usePricing();
+  // Orders are priced in the display currency when there is a rate for it
+  const orderCurrency = rates.some(rate => rate.currency === displayCurrency) ? displayCurrency : undefined;
+
+  // Fetch cart lines with current part prices and stock
+  const { data: lines = [], isLoading, error } = useQuery<CartLine[], Error>({
+    queryKey: ['cart', userId],
+    queryFn: () => fetchCart(userId),
+  });
+
+  const invalidateCart = () => queryClient.invalidateQueries(['cart', userId]);
+
+  const quantityMutation = useMutation<void, Error, { partSlug: string; quantity: number }>({
+    mutationFn: ({ partSlug, quantity }) => setCartQuantity(userId, partSlug, quantity),
+    onSuccess: invalidateCart,
+  });
+
+  const removeMutation = useMutation<void, Error, string>({
+    mutationFn: partSlug => removeFromCart(userId, partSlug),
+    onSuccess: invalidateCart,
+  });
+
+  const checkoutMutation = useMutation<Order, Error, boolean>({
+    mutationFn: asQuote => checkoutCart(asQuote, notes, orderCurrency),
+    onSuccess: (order) => {
+      invalidateCart();
+      queryClient.invalidateQueries(['orders']);
+      navigate(`/orders?placed=${order.order_number}`);
+    },
+  });
+
+  // Null until every line can be converted into the display currency
+  const subtotal = lines.reduce<number | null>((sum, line) => {
+    const price = line.part ? toDisplay(line.part.price, line.part.currency) : 0;
+    return sum === null || price === null ? null : sum + price * line.quantity;
+  }, 0);
+  const unavailable = lines.filter(line => !line.part?.is_published);
+  const shortLines = lines.filter(line => line.part && line.quantity > availableStock(line.part));
+  const mutationError = quantityMutation.error || removeMutation.error || checkoutMutation.error;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="animate-spin text-gray-400" size={32} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <h1 className="text-2xl font-bold">Cart</h1>
+
+      {(error || mutationError) && (
+        <div className="rounded-md bg-red-100 p-3 text-red-700">{(error || mutationError)?.message}</div>
+      )}
+
+      {lines.length === 0 ? (
+        <div className="rounded-lg bg-white p-12 text-center shadow">
+          <ShoppingCart className="mx-auto mb-3 text-gray-300" size={40} />
+          <p className="text-gray-600">Your cart is empty.</p>
+          <Link to="/catalog" className="mt-2 inline-block text-blue-600 hover:underline">Browse the catalog</Link>
+        </div>
+      ) : (
+        <>
+          <div className="divide-y rounded-lg bg-white shadow">
+            {lines.map(line => {
+              const available = line.part ? availableStock(line.part) : 0;
+              return (
+                <div key={line.part_slug} className="flex items-center gap-4 p-4">
+                  <div className="h-16 w-16 flex-shrink-0 overflow-hidden rounded bg-gray-100">
+                    {line.part && listImageUrl(line.part) && (
+                      <img src={listImageUrl(line.part)} alt={line.part.primary_image[0]?.alt_text || line.part.itemname} className="h-full w-full object-cover" />
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <Link to={`/parts/${line.part_slug}`} className="font-medium text-blue-600 hover:underline">
+                      {line.part?.itemname ?? line.part_slug}
+                    </Link>
+                    <p className="text-sm text-gray-600">{line.part ? displayPrice(line.part.price, line.part.currency) : '—'} each</p>
+                    {!line.part?.is_published ? (
+                      <p className="text-sm text-red-600">No longer available</p>
+                    ) : line.quantity > available && (
+                      <p className="text-sm text-amber-700">
+                        Only {Math.max(available, 0)} in stock; order as a quote or lower the quantity
+                      </p>
+                    )}
+                  </div>
+                  <input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    defaultValue={line.quantity}
+                    onBlur={(e) => {
+                      const quantity = parseInt(e.target.value, 10);
+                      if (quantity > 0 && quantity !== line.quantity) {
+                        quantityMutation.mutate({ partSlug: line.part_slug, quantity });
+                      }
+                    }}
+                    className="w-20 rounded-md border p-2"
+                    aria-label="Quantity"
+                  />
+                  <div className="w-24 text-right font-medium">
+                    {line.part ? displayPrice(line.part.price * line.quantity, line.part.currency) : '—'}
+                  </div>
+                  <button
+                    onClick={() => removeMutation.mutate(line.part_slug)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <ShippingEstimate lines={lines} />
+
+          <div className="rounded-lg bg-white p-6 shadow">
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="order-notes">Notes</label>
+            <textarea
+              id="order-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="Delivery details, VIN, anything the seller should know"
+              className="w-full rounded-md border p-2"
+            />
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <div className="text-lg font-semibold">
+                  Subtotal {subtotal === null ? '—' : formatMoney(subtotal, displayCurrency)}
+                </div>
+                <p className="text-xs text-gray-500">Tax is added at checkout</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => checkoutMutation.mutate(true)}
+                  disabled={checkoutMutation.isLoading || unavailable.length > 0}
+                  className="flex items-center gap-2 rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FileText size={16} />
+                  Request Quote
+                </button>
+                <button
+                  onClick={() => checkoutMutation.mutate(false)}
+                  disabled={checkoutMutation.isLoading || unavailable.length > 0 || shortLines.length > 0}
+                  className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {checkoutMutation.isLoading ? <Loader2 className="animate-spin" size={16} /> : <ShoppingCart size={16} />}
+                  Place Order
+                </button>
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              A quote holds today's prices and exchange rates without reserving stock. Placing an order reserves the parts until it is paid.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CartPage;
@@ -0,0 +1,539 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ChevronLeft, ChevronRight, Download, ImageOff, Link2, Loader2, Search, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { usePartCategories } from '../hooks/usePartCategories';
+import { usePricing } from '../hooks/usePricing';
+import { useI18n } from '../hooks/useI18n';
+import { flattenCategories } from '../lib/categories';
+import { CONDITION_OPTIONS } from '../lib/parts';
+import { toReferenceAmount } from '../lib/pricing';
+import { availableStock } from '../lib/stock';
+import {
+  PRICE_BUCKETS,
+  STOCK_OPTIONS,
+  groupFacetCounts,
+  parseCatalogFilters,
+  toIlikePattern,
+  toSearchParams,
+} from '../lib/catalogFilters';
+import { downloadCsv, toCsv } from '../lib/csv';
+import { partsToCsvRows } from '../lib/partImport';
+import { listImageUrl, PRIMARY_IMAGE_SELECT } from '../lib/partImages';
+import type { CatalogFilters, FacetCountRow, FacetCounts } from '../lib/catalogFilters';
+import type { PartExportRow } from '../lib/partImport';
+import type { ListImage, PartRow } from '../types';
+
+type SearchResults = {
+  parts: (PartRow & { primary_image: ListImage[] })[];
+  total: number;
+};
+
+const PAGE_SIZE = 24;
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_LIST_DELIMITER = ';';
+
+const SORT_OPTIONS = [
+  { value: 'relevance', labelKey: 'search.sortRecent', column: 'updated_at', ascending: false },
+  { value: 'price_asc', labelKey: 'search.sortPriceAsc', column: 'price_reference', ascending: true },
+  { value: 'price_desc', labelKey: 'search.sortPriceDesc', column: 'price_reference', ascending: false },
+  { value: 'name', labelKey: 'search.sortName', column: 'itemname', ascending: true },
+] as const;
+
+function FacetOption({ label, count, checked, onChange, type = 'checkbox', depth = 0 }: {
+  label: string;
+  count: number;
+  checked: boolean;
+  onChange: () => void;
+  type?: 'checkbox' | 'radio';
+  depth?: number;
+}) {
+  return (
+    <label
+      style={depth ? { marginLeft: `${depth}rem` } : undefined}
+      className={`flex cursor-pointer items-center justify-between gap-2 rounded px-1 py-1 text-sm hover:bg-gray-50 ${count === 0 && !checked ? 'text-gray-400' : 'text-gray-700'}`}
+    >
+      <span className="flex items-center gap-2">
+        <input type={type} checked={checked} onChange={onChange} className="rounded border-gray-300" />
+        {label}
+      </span>
+      <span className="rounded-full bg-gray-100 px-2 text-xs text-gray-500">{count}</span>
+    </label>
+  );
+}
+
+// Blank values are skipped; selected values stay listed even when their count drops to zero
+const sortedValues = (counts: Map<string, number>, selected: string[]) => {
+  const values = new Map(counts);
+  selected.forEach(value => values.set(value, values.get(value) ?? 0));
+  return [...values.entries()]
+    .filter(([value]) => value.trim() !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+};
+
+function CatalogSearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams]);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const sort = SORT_OPTIONS.find(option => option.value === searchParams.get('sort')) ?? SORT_OPTIONS[0];
+  const [queryInput, setQueryInput] = useState(filters.query);
+  const [copied, setCopied] = useState(false);
+  const { displayCurrency, rates, displayPrice } = usePricing();
+  const { t, conditionLabel } = useI18n();
+
+  // Price filters are typed in the display currency; queries compare reference prices
+  const toReference = useCallback(
+    (amount: number | null) => amount === null ? null : toReferenceAmount(amount, displayCurrency, rates) ?? amount,
+    [displayCurrency, rates]
+  );
+  const referenceFilters = useMemo(() => ({
+    ...filters,
+    minPrice: toReference(filters.minPrice),
+    maxPrice: toReference(filters.maxPrice),
+  }), [filters, toReference]);
+
+  useEffect(() => {
+    setQueryInput(filters.query);
+  }, [filters.query]);
+
+  const { data: partCategories = [] } = usePartCategories();
+  const categoryOptions = useMemo(() => flattenCategories(partCategories), [partCategories]);
+
+  // Any filter change resets pagination but keeps the chosen sort
+  const updateFilters = (updates: Partial<CatalogFilters>) => {
+    const next = toSearchParams({ ...filters, ...updates });
+    if (sort.value !== 'relevance') next.set('sort', sort.value);
+    setSearchParams(next);
+  };
+
+  const updateParam = (key: string, value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set(key, value);
+      return next;
+    });
+  };
+
+  const toggleValue = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  // Price buckets are shown in the display currency and counted in the reference one
+  const referenceBuckets = useMemo(
+    () => PRICE_BUCKETS.map(bucket => ({ min: toReference(bucket.min), max: toReference(bucket.max) })),
+    [toReference]
+  );
+
+  // Count each facet value server-side against the other active filters
+  const { data: facetCounts = groupFacetCounts([]) } = useQuery<FacetCounts, Error>({
+    queryKey: ['catalogFacets', referenceFilters, referenceBuckets],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('catalog_facet_counts', {
+        p_pattern: filters.query.trim() ? toIlikePattern(filters.query) : null,
+        p_makes: filters.makes,
+        p_models: filters.models,
+        p_year: filters.year ? Number(filters.year) : null,
+        p_categories: filters.categories,
+        p_conditions: filters.conditions,
+        p_min_price: referenceFilters.minPrice,
+        p_max_price: referenceFilters.maxPrice,
+        p_stock: filters.stock,
+        p_price_buckets: referenceBuckets,
+      });
+      if (error) throw error;
+      return groupFacetCounts((data || []) as FacetCountRow[]);
+    },
+    keepPreviousData: true,
+  });
+
+  // Build a vehicle_parts request narrowed by every active filter. Restricting by
+  // year needs an inner join so only parts with a matching fitment remain; it is
+  // aliased so callers can still embed the part's full fitment list.
+  const buildSearchRequest = (columns: string, count?: 'exact') => {
+    const select = filters.year ? `${columns}, year_match:part_fitments!inner(year_start, year_end)` : columns;
+    let request = supabase
+      .from('vehicle_parts')
+      .select(select, { count })
+      .eq('is_published', true);
+
+    if (filters.query.trim()) {
+      const pattern = toIlikePattern(filters.query);
+      request = request.or(`itemname.ilike.${pattern},description.ilike.${pattern}`);
+    }
+    if (filters.makes.length) request = request.in('make', filters.makes);
+    if (filters.models.length) request = request.in('model', filters.models);
+    if (filters.year) {
+      request = request
+        .or(`year_start.is.null,year_start.lte.${filters.year}`, { referencedTable: 'year_match' })
+        .or(`year_end.is.null,year_end.gte.${filters.year}`, { referencedTable: 'year_match' });
+    }
+    if (filters.categories.length) request = request.in('category_id', filters.categories);
+    if (filters.conditions.length) request = request.in('condition', filters.conditions);
+    if (referenceFilters.minPrice !== null) request = request.gte('price_reference', referenceFilters.minPrice);
+    if (referenceFilters.maxPrice !== null) request = request.lt('price_reference', referenceFilters.maxPrice);
+    if (filters.stock === 'in') request = request.gt('available_quantity', 0);
+    if (filters.stock === 'out') request = request.lte('available_quantity', 0);
+
+    return request;
+  };
+
+  // Fetch the current page of matching parts
+  const { data: results, isLoading, isFetching, error } = useQuery<SearchResults, Error>({
+    queryKey: ['catalogSearch', referenceFilters, page, sort.value],
+    queryFn: async () => {
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, error, count } = await buildSearchRequest(`*, ${PRIMARY_IMAGE_SELECT}`, 'exact')
+        .eq('primary_image.is_primary', true)
+        .order(sort.column, { ascending: sort.ascending })
+        .order('part_slug', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { parts: (data || []) as unknown as SearchResults['parts'], total: count ?? 0 };
+    },
+    keepPreviousData: true,
+  });
+
+  // Export every matching part, fetched in pages, as a CSV the importer reads back
+  const exportMutation = useMutation<void, Error>({
+    mutationFn: async () => {
+      const parts: PartExportRow[] = [];
+      for (let from = 0; ; from += EXPORT_BATCH_SIZE) {
+        const { data, error } = await buildSearchRequest('*, part_fitments(make, model, year_start, year_end, trim, engine)')
+          .order('part_slug', { ascending: true })
+          .range(from, from + EXPORT_BATCH_SIZE - 1);
+
+        if (error) throw error;
+        parts.push(...(data as unknown as PartExportRow[]));
+        if (!data || data.length < EXPORT_BATCH_SIZE) break;
+      }
+
+      const csv = toCsv(partsToCsvRows(parts, partCategories, EXPORT_LIST_DELIMITER));
+      downloadCsv(`parts-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+    },
+  });
+
+  const total = results?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = toSearchParams(filters).toString() !== '';
+  const categoryName = (id: string | null) =>
+    partCategories.find(category => category.id === id)?.category_name ?? t('search.uncategorized');
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">{t('search.title')}</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isLoading}
+            className="flex items-center gap-2 rounded-md border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {exportMutation.isLoading ? <Loader2 className="animate-spin" size={16} /> : <Download size={16} />}
+            {t('search.export')}
+          </button>
+          <button
+            onClick={copyLink}
+            className="flex items-center gap-2 rounded-md border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <Link2 size={16} />
+            {copied ? t('search.linkCopied') : t('search.share')}
+          </button>
+        </div>
+      </div>
+
+      {exportMutation.isError && (
+        <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+          {t('search.exportError', { message: exportMutation.error.message })}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          updateFilters({ query: queryInput });
+        }}
+        className="mb-6 flex gap-2"
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+          <input
+            type="search"
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder={t('search.placeholder')}
+            className="w-full rounded-md border p-2 pl-10"
+          />
+        </div>
+        <button
+          type="submit"
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          {t('search.submit')}
+        </button>
+      </form>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+        {/* Facets */}
+        <aside className="space-y-6 rounded-lg bg-white p-4 shadow lg:col-span-1">
+          {hasFilters && (
+            <button
+              onClick={() => setSearchParams(new URLSearchParams())}
+              className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              <X size={14} />
+              {t('search.clearFilters')}
+            </button>
+          )}
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">{t('field.make')}</h3>
+            {sortedValues(facetCounts.makes, filters.makes).map(([make, count]) => (
+              <FacetOption
+                key={make}
+                label={make}
+                count={count}
+                checked={filters.makes.includes(make)}
+                onChange={() => updateFilters({ makes: toggleValue(filters.makes, make), models: [] })}
+              />
+            ))}
+          </div>
+
+          {(filters.makes.length > 0 || filters.models.length > 0) && (
+            <div>
+              <h3 className="mb-2 text-sm font-semibold text-gray-900">{t('field.model')}</h3>
+              {sortedValues(facetCounts.models, filters.models).map(([model, count]) => (
+                <FacetOption
+                  key={model}
+                  label={model}
+                  count={count}
+                  checked={filters.models.includes(model)}
+                  onChange={() => updateFilters({ models: toggleValue(filters.models, model) })}
+                />
+              ))}
+            </div>
+          )}
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">{t('search.year')}</h3>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateFilters({ year: String(new FormData(e.currentTarget).get('year') ?? '') });
+              }}
+              key={filters.year}
+              className="flex items-center gap-2"
+            >
+              <input
+                type="text"
+                name="year"
+                inputMode="numeric"
+                placeholder={t('search.yearPlaceholder')}
+                defaultValue={filters.year}
+                className="w-full rounded-md border p-1.5 text-sm"
+              />
+              <button type="submit" className="rounded-md border px-2 py-1.5 text-sm hover:bg-gray-50">
+                {t('search.go')}
+              </button>
+            </form>
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">{t('field.category')}</h3>
+            {categoryOptions.map(({ category, depth }) => (
+              <FacetOption
+                key={category.id}
+                label={category.category_name}
+                depth={depth}
+                count={facetCounts.categories.get(category.id) ?? 0}
+                checked={filters.categories.includes(category.id)}
+                onChange={() => updateFilters({ categories: toggleValue(filters.categories, category.id) })}
+              />
+            ))}
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">{t('field.condition')}</h3>
+            {CONDITION_OPTIONS.map(condition => (
+              <FacetOption
+                key={condition}
+                label={conditionLabel(condition)}
+                count={facetCounts.conditions.get(condition) ?? 0}
+                checked={filters.conditions.includes(condition)}
+                onChange={() => updateFilters({ conditions: toggleValue(filters.conditions, condition) })}
+              />
+            ))}
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">{t('search.price', { currency: displayCurrency })}</h3>
+            {PRICE_BUCKETS.map((bucket, index) => {
+              const checked = filters.minPrice === bucket.min && filters.maxPrice === bucket.max;
+              return (
+                <FacetOption
+                  key={index}
+                  type="radio"
+                  label={t(bucket.labelKey, { min: bucket.min ?? 0, max: bucket.max ?? 0 })}
+                  count={facetCounts.price.get(String(index)) ?? 0}
+                  checked={checked}
+                  onChange={() => updateFilters(checked
+                    ? { minPrice: null, maxPrice: null }
+                    : { minPrice: bucket.min, maxPrice: bucket.max })}
+                />
+              );
+            })}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                const form = new FormData(e.currentTarget);
+                const min = String(form.get('min') ?? '');
+                const max = String(form.get('max') ?? '');
+                updateFilters({
+                  minPrice: min === '' ? null : Number(min),
+                  maxPrice: max === '' ? null : Number(max),
+                });
+              }}
+              key={`${filters.minPrice}-${filters.maxPrice}`}
+              className="mt-2 flex items-center gap-2"
+            >
+              <input
+                type="number"
+                name="min"
+                min="0"
+                step="0.01"
+                placeholder={t('search.min')}
+                defaultValue={filters.minPrice ?? ''}
+                className="w-full rounded-md border p-1.5 text-sm"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="number"
+                name="max"
+                min="0"
+                step="0.01"
+                placeholder={t('search.max')}
+                defaultValue={filters.maxPrice ?? ''}
+                className="w-full rounded-md border p-1.5 text-sm"
+              />
+              <button type="submit" className="rounded-md border px-2 py-1.5 text-sm hover:bg-gray-50">
+                {t('search.go')}
+              </button>
+            </form>
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">{t('search.availability')}</h3>
+            {STOCK_OPTIONS.map(option => (
+              <FacetOption
+                key={option.value}
+                type="radio"
+                label={t(option.labelKey)}
+                count={facetCounts.stock.get(option.value) ?? 0}
+                checked={filters.stock === option.value}
+                onChange={() => updateFilters({ stock: option.value })}
+              />
+            ))}
+          </div>
+        </aside>
+
+        {/* Results */}
+        <section className="lg:col-span-3">
+          <div className="mb-4 flex items-center justify-between text-sm text-gray-600">
+            <span className="flex items-center gap-2">
+              {t(total === 1 ? 'search.oneResult' : 'search.manyResults', { count: total })}
+              {isFetching && !isLoading && <Loader2 className="animate-spin text-blue-500" size={14} />}
+            </span>
+            <select
+              value={sort.value}
+              onChange={(e) => updateParam('sort', e.target.value)}
+              className="rounded-md border bg-white p-1.5"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {t(option.labelKey)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+              {t('search.loadError', { message: error.message })}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-24">
+              <Loader2 className="animate-spin text-blue-500" size={32} />
+            </div>
+          ) : results?.parts.length === 0 ? (
+            <div className="rounded-lg bg-white p-10 text-center text-gray-500 shadow">
+              {t('search.empty')}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
+              {results?.parts.map(part => (
+                <Link
+                  key={part.part_slug}
+                  to={`/parts/${part.part_slug}`}
+                  className="overflow-hidden rounded-lg bg-white shadow transition-shadow hover:shadow-md"
+                >
+                  <div className="flex aspect-video items-center justify-center bg-gray-100 text-gray-400">
+                    {listImageUrl(part) ? (
+                      <img src={listImageUrl(part)} alt={part.primary_image[0]?.alt_text || part.itemname} className="h-full w-full object-cover" />
+                    ) : (
+                      <ImageOff size={24} />
+                    )}
+                  </div>
+                  <div className="space-y-1 p-4">
+                    <div className="text-xs uppercase tracking-wide text-gray-500">
+                      {categoryName(part.category_id)}
+                    </div>
+                    <h3 className="font-semibold text-gray-900">{part.itemname || t('editor.untitledPart')}</h3>
+                    <p className="text-sm text-gray-600">
+                      {[part.make, part.model].filter(Boolean).join(' ')} · {conditionLabel(part.condition)}
+                    </p>
+                    <div className="flex items-center justify-between pt-2">
+                      <span className="text-lg font-bold text-gray-900">{displayPrice(part.price ?? 0, part.currency)}</span>
+                      <span className={`text-sm font-medium ${availableStock(part) > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        {availableStock(part) > 0 ? t('store.inStock', { count: availableStock(part) }) : t('store.outOfStock')}
+                      </span>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <div className="mt-6 flex items-center justify-center gap-2 text-sm text-gray-600">
+              <button
+                onClick={() => updateParam('page', String(page - 1))}
+                disabled={page <= 1}
+                className="rounded-md border bg-white p-1.5 hover:bg-gray-50 disabled:opacity-40"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span>{t('parts.page', { page, pageCount })}</span>
+              <button
+                onClick={() => updateParam('page', String(page + 1))}
+                disabled={page >= pageCount}
+                className="rounded-md border bg-white p-1.5 hover:bg-gray-50 disabled:opacity-40"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          )}
+        </section>
+      </div>
+    </>
+  );
+}
+
+export default CatalogSearchPage;
@@ -0,0 +1,367 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, ImagePlus, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { usePartCategories } from '../hooks/usePartCategories';
+import { useI18n } from '../hooks/useI18n';
+import { descendantIds, flattenCategories } from '../lib/categories';
+import CategoryIcon from '../components/CategoryIcon';
+import type { PartCategory } from '../types';
+
+const ICON_BUCKET = 'category-icons';
+
+// Icons live at a fixed path per category; the version parameter busts the CDN cache
+const iconPath = (categoryId: string) => `${categoryId}/icon`;
+
+function CategoriesPage() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+  const { data: categories = [], isLoading, error } = usePartCategories();
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const rows = useMemo(() => flattenCategories(categories), [categories]);
+
+  const siblingsOf = (parentId: string | null) =>
+    rows.map(row => row.category).filter(category => category.parent_id === parentId);
+
+  const invalidateCategories = () => {
+    queryClient.invalidateQueries(['partCategories']);
+  };
+
+  // Create category mutation
+  const createMutation = useMutation<void, Error>({
+    mutationFn: async () => {
+      const parentId = newParentId || null;
+      const siblings = siblingsOf(parentId);
+      const { error } = await supabase
+        .from('part_categories')
+        .insert({
+          category_name: newName.trim(),
+          parent_id: parentId,
+          sort_order: Math.max(0, ...siblings.map(category => category.sort_order)) + 1,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setNewName('');
+      invalidateCategories();
+    }
+  });
+
+  // Rename or move a category
+  const updateMutation = useMutation<void, Error, { id: string; changes: Partial<PartCategory> }>({
+    mutationFn: async ({ id, changes }) => {
+      const { error } = await supabase
+        .from('part_categories')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidateCategories
+  });
+
+  // Swap a category with its neighbour and store the new sibling order
+  const reorderMutation = useMutation<void, Error, { category: PartCategory; offset: -1 | 1 }>({
+    mutationFn: async ({ category, offset }) => {
+      const ids = siblingsOf(category.parent_id).map(sibling => sibling.id);
+      const index = ids.indexOf(category.id);
+      const target = index + offset;
+      if (target < 0 || target >= ids.length) return;
+
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      const { error } = await supabase.rpc('reorder_categories', { p_ids: ids });
+      if (error) throw error;
+    },
+    onSuccess: invalidateCategories
+  });
+
+  // Upload or remove a category icon
+  const iconMutation = useMutation<void, Error, { category: PartCategory; file: File | null }>({
+    mutationFn: async ({ category, file }) => {
+      let iconUrl: string | null = null;
+
+      if (file) {
+        const { error: uploadError } = await supabase.storage
+          .from(ICON_BUCKET)
+          .upload(iconPath(category.id), file, { upsert: true, contentType: file.type });
+
+        if (uploadError) throw uploadError;
+
+        const { data: { publicUrl } } = supabase.storage.from(ICON_BUCKET).getPublicUrl(iconPath(category.id));
+        iconUrl = `${publicUrl}?v=${Date.now()}`;
+      } else {
+        const { error: removeError } = await supabase.storage.from(ICON_BUCKET).remove([iconPath(category.id)]);
+        if (removeError) throw removeError;
+      }
+
+      const { error } = await supabase
+        .from('part_categories')
+        .update({ icon_url: iconUrl, updated_at: new Date().toISOString() })
+        .eq('id', category.id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidateCategories
+  });
+
+  // Delete a category once nothing depends on it. The database enforces the
+  // same rules; checking first gives a clearer message.
+  const deleteMutation = useMutation<void, Error, PartCategory>({
+    mutationFn: async (category) => {
+      if (categories.some(child => child.parent_id === category.id)) {
+        throw new Error(`Move or delete the subcategories of ${category.category_name} first`);
+      }
+
+      const { count, error: countError } = await supabase
+        .from('vehicle_parts')
+        .select('part_slug', { count: 'exact', head: true })
+        .eq('category_id', category.id);
+
+      if (countError) throw countError;
+      if (count) {
+        throw new Error(`${count} part${count === 1 ? '' : 's'} still use ${category.category_name}; recategorize them first`);
+      }
+
+      const { error } = await supabase
+        .from('part_categories')
+        .delete()
+        .eq('id', category.id);
+
+      if (error) throw error;
+
+      if (category.icon_url) {
+        await supabase.storage.from(ICON_BUCKET).remove([iconPath(category.id)]);
+      }
+    },
+    onSuccess: invalidateCategories
+  });
+
+  const mutationError =
+    createMutation.error ?? updateMutation.error ?? reorderMutation.error ?? iconMutation.error ?? deleteMutation.error;
+
+  const commitRename = (category: PartCategory) => {
+    const name = names[category.id]?.trim();
+    if (name && name !== category.category_name) {
+      updateMutation.mutate({ id: category.id, changes: { category_name: name } });
+    }
+    setNames(prev => {
+      const next = { ...prev };
+      delete next[category.id];
+      return next;
+    });
+  };
+
+  const moveTo = (category: PartCategory, parentId: string | null) => {
+    const siblings = siblingsOf(parentId);
+    updateMutation.mutate({
+      id: category.id,
+      changes: {
+        parent_id: parentId,
+        sort_order: Math.max(0, ...siblings.map(sibling => sibling.sort_order)) + 1,
+      },
+    });
+  };
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (newName.trim()) createMutation.mutate();
+  };
+
+  const handleIconChange = (event: React.ChangeEvent<HTMLInputElement>, category: PartCategory) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) iconMutation.mutate({ category, file });
+  };
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Categories</h1>
+      </div>
+
+      {/* New category */}
+      <form onSubmit={handleCreate} className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold">Add a category</h2>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g., Rotors"
+              className="w-full rounded-md border p-2"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Parent
+            </label>
+            <select
+              value={newParentId}
+              onChange={(e) => setNewParentId(e.target.value)}
+              className="w-full rounded-md border p-2"
+            >
+              <option value="">None (top level)</option>
+              {rows.map(({ category, depth }) => (
+                <option key={category.id} value={category.id}>
+                  {'\u00A0\u00A0'.repeat(depth)}{category.category_name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={createMutation.isLoading}
+              className="flex items-center justify-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+            >
+              {createMutation.isLoading ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+              Add Category
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Category tree */}
+      <div className="overflow-hidden rounded-lg bg-white shadow">
+        {(error || mutationError) && (
+          <div className="m-4 rounded-md bg-red-100 p-3 text-red-700">
+            {error ? `Error loading categories: ${error.message}` : mutationError?.message}
+          </div>
+        )}
+
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="w-20 px-4 py-3 font-medium">Icon</th>
+              <th className="px-4 py-3 font-medium">Name</th>
+              <th className="px-4 py-3 font-medium">Parent</th>
+              <th className="w-32 px-4 py-3 font-medium">Order</th>
+              <th className="w-16 px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="py-12">
+                  <Loader2 className="mx-auto animate-spin text-blue-500" size={24} />
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="py-12 text-center text-gray-500">
+                  No categories yet.
+                </td>
+              </tr>
+            ) : (
+              rows.map(({ category, depth }) => {
+                const siblings = siblingsOf(category.parent_id);
+                const position = siblings.findIndex(sibling => sibling.id === category.id);
+                // A category cannot move under itself or its own subcategories
+                const blockedParents = descendantIds(categories, category.id);
+
+                return (
+                  <tr key={category.id}>
+                    <td className="px-4 py-2">
+                      <div className="flex items-center gap-1">
+                        <label className="cursor-pointer rounded-md p-1 hover:bg-gray-100" title="Upload icon">
+                          {category.icon_url ? <CategoryIcon category={category} size={28} /> : <ImagePlus size={20} className="text-gray-400" />}
+                          <input
+                            type="file"
+                            accept="image/png,image/svg+xml,image/webp,image/jpeg"
+                            onChange={(e) => handleIconChange(e, category)}
+                            className="hidden"
+                          />
+                        </label>
+                        {category.icon_url && (
+                          <button
+                            onClick={() => iconMutation.mutate({ category, file: null })}
+                            className="rounded-md p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                            title="Remove icon"
+                          >
+                            <X size={14} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="text"
+                        value={names[category.id] ?? category.category_name}
+                        onChange={(e) => setNames(prev => ({ ...prev, [category.id]: e.target.value }))}
+                        onBlur={() => commitRename(category)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        style={{ marginLeft: `${depth * 1.5}rem` }}
+                        className="w-64 rounded-md border border-transparent p-1.5 hover:border-gray-300 focus:border-gray-300"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={category.parent_id ?? ''}
+                        onChange={(e) => moveTo(category, e.target.value || null)}
+                        className="rounded-md border p-1.5"
+                      >
+                        <option value="">None (top level)</option>
+                        {rows
+                          .filter(row => !blockedParents.has(row.category.id))
+                          .map(row => (
+                            <option key={row.category.id} value={row.category.id}>
+                              {'\u00A0\u00A0'.repeat(row.depth)}{row.category.category_name}
+                            </option>
+                          ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => reorderMutation.mutate({ category, offset: -1 })}
+                          disabled={position <= 0 || reorderMutation.isLoading}
+                          className="rounded-md border p-1.5 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                          title="Move up"
+                        >
+                          <ArrowUp size={14} />
+                        </button>
+                        <button
+                          onClick={() => reorderMutation.mutate({ category, offset: 1 })}
+                          disabled={position === siblings.length - 1 || reorderMutation.isLoading}
+                          className="rounded-md border p-1.5 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                          title="Move down"
+                        >
+                          <ArrowDown size={14} />
+                        </button>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => {
+                          if (confirm(t('categories.confirmDelete', { name: category.category_name }))) {
+                            deleteMutation.mutate(category);
+                          }
+                        }}
+                        disabled={deleteMutation.isLoading}
+                        className="rounded-md p-1.5 text-red-600 hover:bg-red-50 disabled:opacity-40"
+                        title="Delete category"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+export default CategoriesPage;
@@ -0,0 +1,237 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Car, CheckCircle2, ImageOff, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatFitment } from '../lib/fitment';
+import { usePricing } from '../hooks/usePricing';
+import { listImageUrl, PRIMARY_IMAGE_SELECT } from '../lib/partImages';
+import VinDecoder from '../components/VinDecoder';
+import type { DecodedVin } from '../lib/vin';
+import type { ListImage, PartFitment, PartRow } from '../types';
+
+type FitmentMatch = PartFitment & {
+  vehicle_parts: Pick<PartRow, 'part_slug' | 'itemname' | 'itemurl' | 'price' | 'currency' | 'stock_quantity' | 'condition'> & {
+    primary_image: ListImage[];
+  };
+};
+
+type MatchedPart = FitmentMatch['vehicle_parts'] & {
+  fitments: PartFitment[];
+};
+
+// ilike without wildcards gives a case-insensitive exact match
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, '\\$&');
+
+function FitmentLookupPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const make = searchParams.get('make') ?? '';
+  const model = searchParams.get('model') ?? '';
+  const yearParam = searchParams.get('year') ?? '';
+  const { displayPrice } = usePricing();
+  const year = /^\d{4}$/.test(yearParam) ? Number(yearParam) : null;
+
+  const updateParams = (updates: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+      return next;
+    });
+  };
+
+  // Fetch every make/model combination that has at least one fitment
+  const { data: vehicles = [] } = useQuery<Pick<PartFitment, 'make' | 'model'>[], Error>({
+    queryKey: ['fitmentVehicles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('part_fitments')
+        .select('make, model');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const makes = useMemo(
+    () => [...new Set(vehicles.map(vehicle => vehicle.make))].sort((a, b) => a.localeCompare(b)),
+    [vehicles]
+  );
+  const models = useMemo(
+    () => [...new Set(
+      vehicles
+        .filter(vehicle => vehicle.make.toLowerCase() === make.toLowerCase())
+        .map(vehicle => vehicle.model)
+    )].sort((a, b) => a.localeCompare(b)),
+    [vehicles, make]
+  );
+
+  // Use the catalog's spelling of the decoded make so the select shows it
+  const searchByVin = (decoded: DecodedVin) => {
+    const decodedMake = decoded.make ?? '';
+    const knownMake = makes.find(option => option.toLowerCase() === decodedMake.toLowerCase());
+    updateParams({
+      make: knownMake ?? decodedMake,
+      model: '',
+      year: decoded.modelYear ? String(decoded.modelYear) : '',
+    });
+  };
+
+  // Fetch parts with a fitment covering the chosen vehicle
+  const { data: matches = [], isFetching, error } = useQuery<MatchedPart[], Error>({
+    queryKey: ['fitmentLookup', make, model, year],
+    queryFn: async () => {
+      let request = supabase
+        .from('part_fitments')
+        .select(`make, model, year_start, year_end, trim, engine, vehicle_parts!inner(part_slug, itemname, itemurl, price, currency, stock_quantity, condition, ${PRIMARY_IMAGE_SELECT})`)
+        .eq('vehicle_parts.is_published', true)
+        .eq('vehicle_parts.primary_image.is_primary', true)
+        .ilike('make', escapeLike(make));
+
+      if (model) request = request.ilike('model', escapeLike(model));
+      if (year !== null) {
+        request = request
+          .or(`year_start.is.null,year_start.lte.${year}`)
+          .or(`year_end.is.null,year_end.gte.${year}`);
+      }
+
+      const { data, error } = await request;
+      if (error) throw error;
+
+      // A part can fit the same vehicle through several trims; list it once
+      const parts = new Map<string, MatchedPart>();
+      (data as unknown as FitmentMatch[]).forEach(({ vehicle_parts: part, ...fitment }) => {
+        const existing = parts.get(part.part_slug);
+        if (existing) {
+          existing.fitments.push(fitment);
+        } else {
+          parts.set(part.part_slug, { ...part, fitments: [fitment] });
+        }
+      });
+      return [...parts.values()];
+    },
+    enabled: !!make,
+  });
+
+  return (
+    <>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold">Does it fit my car?</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Choose your vehicle to see every part that fits it.
+        </p>
+      </div>
+
+      <div className="mb-6 grid grid-cols-1 gap-4 rounded-lg bg-white p-6 shadow md:grid-cols-3">
+        <div className="md:col-span-3">
+          <VinDecoder applyLabel="Find parts" onApply={searchByVin} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Make
+          </label>
+          <select
+            value={make}
+            onChange={(e) => updateParams({ make: e.target.value, model: '' })}
+            className="w-full rounded-md border p-2"
+          >
+            <option value="">Select a make</option>
+            {make && !makes.includes(make) && <option value={make}>{make}</option>}
+            {makes.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Model
+          </label>
+          <select
+            value={model}
+            onChange={(e) => updateParams({ model: e.target.value })}
+            disabled={!make}
+            className="w-full rounded-md border p-2 disabled:bg-gray-50"
+          >
+            <option value="">All models</option>
+            {models.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Year
+          </label>
+          <input
+            type="number"
+            value={yearParam}
+            onChange={(e) => updateParams({ year: e.target.value })}
+            placeholder="e.g., 2018"
+            className="w-full rounded-md border p-2"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+          Error looking up parts: {error.message}
+        </div>
+      )}
+
+      {!make ? (
+        <div className="flex flex-col items-center gap-3 rounded-lg bg-white p-10 text-center text-gray-500 shadow">
+          <Car size={32} className="text-gray-400" />
+          Pick a make to get started.
+        </div>
+      ) : isFetching ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="animate-spin text-blue-500" size={32} />
+        </div>
+      ) : matches.length === 0 ? (
+        <div className="rounded-lg bg-white p-10 text-center text-gray-500 shadow">
+          No parts are listed for this vehicle yet.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {matches.map(part => (
+            <Link
+              key={part.part_slug}
+              to={`/parts/${part.part_slug}`}
+              className="flex items-center gap-4 rounded-lg bg-white p-4 shadow transition-shadow hover:shadow-md"
+            >
+              <div className="flex h-16 w-16 shrink-0 items-center justify-center overflow-hidden rounded-md bg-gray-100 text-gray-400">
+                {listImageUrl(part) ? (
+                  <img src={listImageUrl(part)} alt={part.primary_image[0]?.alt_text || part.itemname} className="h-full w-full object-cover" />
+                ) : (
+                  <ImageOff size={20} />
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <h3 className="font-semibold text-gray-900">{part.itemname || 'Untitled Part'}</h3>
+                <ul className="mt-1 space-y-0.5 text-sm text-gray-600">
+                  {part.fitments.map((fitment, index) => (
+                    <li key={index} className="flex items-center gap-1.5">
+                      <CheckCircle2 size={14} className="text-green-600" />
+                      Fits {formatFitment(fitment)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="text-right">
+                <div className="text-lg font-bold text-gray-900">{displayPrice(part.price ?? 0, part.currency)}</div>
+                <div className={`text-sm ${part.stock_quantity > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                  {part.stock_quantity > 0 ? `${part.stock_quantity} in stock` : 'Out of stock'}
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default FitmentLookupPage;
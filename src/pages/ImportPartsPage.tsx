@@ -0,0 +1,294 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import readXlsxFile from 'read-excel-file';
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { usePartCategories } from '../hooks/usePartCategories';
+import { parseCsv } from '../lib/csv';
+import { IMPORT_FIELDS, autoMapColumns, buildImportRows, mappingErrors, upsertImportRows } from '../lib/partImport';
+import type { ColumnMapping, ImportField } from '../lib/partImport';
+
+type Sheet = {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+};
+
+const PREVIEW_LIMIT = 200;
+
+// Spreadsheets come back as typed cells; the importer works on trimmed strings
+const readSheet = async (file: File, csvDelimiter: string): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readXlsxFile(file);
+    return rows.map(row => row.map(cell =>
+      cell === null ? '' : cell instanceof Date ? cell.toISOString().slice(0, 10) : String(cell)
+    ));
+  }
+  return parseCsv(await file.text(), csvDelimiter);
+};
+
+function ImportPartsPage() {
+  const queryClient = useQueryClient();
+  const { data: partCategories = [] } = usePartCategories();
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [csvDelimiter, setCsvDelimiter] = useState(',');
+  const [arrayDelimiter, setArrayDelimiter] = useState(';');
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [publish, setPublish] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const importRows = useMemo(
+    () => (sheet ? buildImportRows(sheet.rows, mapping, { arrayDelimiter, categories: partCategories }) : []),
+    [sheet, mapping, arrayDelimiter, partCategories]
+  );
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const invalidCount = importRows.length - validRows.length;
+  const blockingErrors = sheet ? mappingErrors(mapping) : [];
+  const visibleRows = (showErrorsOnly ? importRows.filter(row => row.errors.length > 0) : importRows).slice(0, PREVIEW_LIMIT);
+
+  // Import mutation
+  const importMutation = useMutation<number, Error>({
+    mutationFn: async () => {
+      setProgress(0);
+      await upsertImportRows(validRows, { publish, onProgress: setProgress });
+      return validRows.length;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries(['parts']);
+      queryClient.invalidateQueries(['catalogSearch']);
+      queryClient.invalidateQueries(['catalogFacets']);
+      queryClient.invalidateQueries(['fitmentVehicles']);
+    }
+  });
+
+  // Handle file selection
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setReadError(null);
+      importMutation.reset();
+      const [headers = [], ...rows] = await readSheet(file, csvDelimiter);
+      setSheet({ fileName: file.name, headers, rows });
+      setMapping(autoMapColumns(headers));
+    } catch (error) {
+      console.error('Import read error:', error);
+      setReadError(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <>
+      <div className="mb-8 flex items-center gap-3">
+        <Link to="/parts" className="rounded-md p-1.5 text-gray-500 hover:bg-gray-200 hover:text-gray-700">
+          <ArrowLeft size={20} />
+        </Link>
+        <h1 className="text-2xl font-bold">Import Parts</h1>
+      </div>
+
+      {/* File selection */}
+      <div className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold">1. Choose a spreadsheet</h2>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-gray-500 hover:border-blue-400 hover:text-gray-700 md:col-span-1">
+            <Upload size={24} />
+            <span className="text-sm">{sheet ? sheet.fileName : 'Select a .csv or .xlsx file'}</span>
+            <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFileChange} className="hidden" />
+          </label>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              CSV column delimiter
+            </label>
+            <select
+              value={csvDelimiter}
+              onChange={(e) => setCsvDelimiter(e.target.value)}
+              className="w-full rounded-md border p-2"
+            >
+              <option value=",">Comma (,)</option>
+              <option value=";">Semicolon (;)</option>
+              <option value={'\t'}>Tab</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">Applies to CSV files; pick before choosing the file.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              List delimiter
+            </label>
+            <input
+              type="text"
+              value={arrayDelimiter}
+              onChange={(e) => setArrayDelimiter(e.target.value || ';')}
+              maxLength={3}
+              className="w-full rounded-md border p-2 font-mono"
+            />
+            <p className="mt-1 text-xs text-gray-500">Splits key features, fitments and compatible models/years within a cell.</p>
+          </div>
+        </div>
+        {readError && (
+          <div className="mt-4 rounded-md bg-red-100 p-3 text-red-700">
+            {readError}
+          </div>
+        )}
+      </div>
+
+      {sheet && (
+        <>
+          {/* Column mapping */}
+          <div className="mb-6 rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-4 text-lg font-semibold">2. Map columns</h2>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {label}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className="w-full rounded-md border p-2"
+                  >
+                    <option value="">Not imported</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {blockingErrors.length > 0 && (
+              <div className="mt-4 rounded-md bg-red-100 p-3 text-red-700">
+                {blockingErrors.join('. ')}
+              </div>
+            )}
+          </div>
+
+          {/* Dry-run preview */}
+          <div className="rounded-lg bg-white p-6 shadow">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+              <h2 className="text-lg font-semibold">3. Review and import</h2>
+              <div className="flex items-center gap-4 text-sm">
+                <span className="flex items-center gap-1 text-green-700">
+                  <CheckCircle2 size={16} />
+                  {validRows.length} ready
+                </span>
+                <span className="flex items-center gap-1 text-red-600">
+                  <AlertTriangle size={16} />
+                  {invalidCount} with errors
+                </span>
+                <label className="flex items-center gap-2 text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showErrorsOnly}
+                    onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                  />
+                  Errors only
+                </label>
+              </div>
+            </div>
+
+            <div className="mb-4 max-h-[32rem] overflow-auto rounded-md border">
+              <table className="min-w-full text-sm">
+                <thead className="sticky top-0 bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">Slug</th>
+                    <th className="px-3 py-2 font-medium">Part</th>
+                    <th className="px-3 py-2 font-medium">Make / Model</th>
+                    <th className="px-3 py-2 text-right font-medium">Price</th>
+                    <th className="px-3 py-2 text-right font-medium">Stock</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visibleRows.map(row => (
+                    <tr key={row.rowNumber} className={row.errors.length ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-600">{row.record.part_slug}</td>
+                      <td className="px-3 py-2 text-gray-900">{row.record.itemname}</td>
+                      <td className="px-3 py-2 text-gray-600">{[row.record.make, row.record.model].filter(Boolean).join(' ')}</td>
+                      <td className="px-3 py-2 text-right">{row.record.price ?? ''}</td>
+                      <td className="px-3 py-2 text-right">{row.record.stock_quantity ?? ''}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length ? (
+                          <ul className="list-disc pl-4 text-red-700">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        ) : (
+                          <span className="text-green-700">
+                            OK{row.fitments ? ` · ${row.fitments.length} fitment${row.fitments.length === 1 ? '' : 's'}` : ''}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {importRows.length > PREVIEW_LIMIT && (
+              <p className="mb-4 text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} rows.</p>
+            )}
+
+            {importMutation.isError && (
+              <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+                Import stopped: {importMutation.error.message}. Rows before the failing batch were saved.
+              </div>
+            )}
+
+            {importMutation.isSuccess && (
+              <div className="mb-4 rounded-md bg-green-100 p-3 text-green-700">
+                Imported {importMutation.data} parts.
+              </div>
+            )}
+
+            <label className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={publish}
+                onChange={(e) => setPublish(e.target.checked)}
+              />
+              Publish imported parts in the catalog
+            </label>
+
+            <button
+              onClick={() => importMutation.mutate()}
+              disabled={importMutation.isLoading || blockingErrors.length > 0 || validRows.length === 0}
+              className="flex items-center justify-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+            >
+              {importMutation.isLoading ? (
+                <>
+                  <Loader2 className="animate-spin" size={16} />
+                  Importing {progress} / {validRows.length}...
+                </>
+              ) : (
+                <>
+                  <FileSpreadsheet size={16} />
+                  Import {validRows.length} valid rows
+                </>
+              )}
+            </button>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+export default ImportPartsPage;
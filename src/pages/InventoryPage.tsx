@@ -0,0 +1,132 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { DEFAULT_REORDER_THRESHOLD, availableStock, fetchLowStockParts } from '../lib/stock';
+import type { PartRow } from '../types';
+
+function InventoryPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The default threshold lives in the URL so the view can be linked
+  const thresholdParam = Number(searchParams.get('threshold'));
+  const defaultThreshold = searchParams.has('threshold') && Number.isInteger(thresholdParam) && thresholdParam >= 0
+    ? thresholdParam
+    : DEFAULT_REORDER_THRESHOLD;
+
+  // Fetch parts at or below their reorder threshold, scarcest first
+  const { data: parts = [], isLoading, isFetching, error } = useQuery<PartRow[], Error>({
+    queryKey: ['lowStockParts', defaultThreshold],
+    queryFn: () => fetchLowStockParts(defaultThreshold),
+    keepPreviousData: true,
+  });
+
+  const handleThresholdChange = (value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value === '') next.delete('threshold');
+      else next.set('threshold', value);
+      return next;
+    }, { replace: true });
+  };
+
+  return (
+    <>
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Low Stock</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Parts whose available stock (on hand minus reserved) is at or below their reorder threshold.
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Default threshold
+          </label>
+          <input
+            type="number"
+            value={searchParams.get('threshold') ?? String(DEFAULT_REORDER_THRESHOLD)}
+            onChange={(e) => handleThresholdChange(e.target.value)}
+            className="w-32 rounded-md border bg-white p-2"
+            min="0"
+          />
+          <p className="mt-1 text-xs text-gray-500">For parts without their own</p>
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-lg bg-white shadow">
+        {error && (
+          <div className="m-4 rounded-md bg-red-100 p-3 text-red-700">
+            Error loading stock levels: {error.message}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-600">Part</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-600">Make</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-600">Model</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">On hand</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">Reserved</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">Available</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">Reorder at</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="py-12">
+                    <Loader2 className="mx-auto animate-spin text-blue-500" size={24} />
+                  </td>
+                </tr>
+              ) : parts.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">
+                    Every part is above its reorder threshold.
+                  </td>
+                </tr>
+              ) : (
+                parts.map(part => {
+                  const available = availableStock(part);
+                  return (
+                    <tr
+                      key={part.part_slug}
+                      onClick={() => navigate(`/parts/${part.part_slug}`)}
+                      className="cursor-pointer hover:bg-gray-50"
+                    >
+                      <td className="px-4 py-2 font-medium text-gray-900">
+                        {part.itemname || 'Untitled Part'}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{part.make}</td>
+                      <td className="px-4 py-2 text-gray-600">{part.model}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{part.stock_quantity}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{part.reserved_quantity}</td>
+                      <td className={`px-4 py-2 text-right font-medium ${available <= 0 ? 'text-red-600' : 'text-amber-700'}`}>
+                        <span className="inline-flex items-center gap-1">
+                          {available <= 0 && <AlertTriangle size={14} />}
+                          {available}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-600">
+                        {part.reorder_threshold ?? <span className="text-gray-400">{defaultThreshold}</span>}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center gap-2 border-t px-4 py-3 text-sm text-gray-600">
+          {parts.length} {parts.length === 1 ? 'part' : 'parts'} to reorder
+          {isFetching && !isLoading && <Loader2 className="animate-spin text-blue-500" size={14} />}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default InventoryPage;
@@ -0,0 +1,89 @@
+import { useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Inbox, Loader2 } from 'lucide-react';
+import { ORDER_STATUSES, STAFF_TRANSITIONS, fetchOrders, transitionOrder } from '../lib/orders';
+import type { OrderWithItems } from '../lib/orders';
+import OrderSummary from '../components/OrderSummary';
+import type { Order, OrderStatus } from '../types';
+
+// Orders that still need someone to act on them
+const OPEN_STATUSES: OrderStatus[] = ['quote', 'pending', 'paid'];
+
+function OrderQueuePage() {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const statusParam = searchParams.get('status');
+  const selected = ORDER_STATUSES.find(entry => entry.value === statusParam)?.value ?? null;
+  const statuses = selected ? [selected] : OPEN_STATUSES;
+
+  // Fetch every customer's orders in the selected statuses, oldest first
+  const { data: orders = [], isLoading, error } = useQuery<OrderWithItems[], Error>({
+    queryKey: ['orders', 'queue', statuses],
+    queryFn: async () => (await fetchOrders({ statuses })).reverse(),
+  });
+
+  const transitionMutation = useMutation<Order, Error, { orderId: string; status: OrderStatus }>({
+    mutationFn: ({ orderId, status }) => transitionOrder(orderId, status),
+    onSuccess: () => queryClient.invalidateQueries(['orders']),
+  });
+
+  const filterButton = (value: OrderStatus | null, label: string) => (
+    <button
+      key={value ?? 'open'}
+      onClick={() => setSearchParams(value ? { status: value } : {})}
+      className={`rounded-md px-3 py-2 text-sm ${
+        selected === value ? 'bg-blue-50 font-medium text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold">Order Queue</h1>
+        <div className="flex flex-wrap gap-1 rounded-lg bg-white p-1 shadow">
+          {filterButton(null, 'Open')}
+          {ORDER_STATUSES.map(entry => filterButton(entry.value, entry.label))}
+        </div>
+      </div>
+
+      {(error || transitionMutation.error) && (
+        <div className="rounded-md bg-red-100 p-3 text-red-700">{(error || transitionMutation.error)?.message}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-12">
+          <Loader2 className="animate-spin text-gray-400" size={32} />
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="rounded-lg bg-white p-12 text-center shadow">
+          <Inbox className="mx-auto mb-3 text-gray-300" size={40} />
+          <p className="text-gray-600">No orders here.</p>
+        </div>
+      ) : (
+        orders.map(order => (
+          <OrderSummary key={order.id} order={order} showCustomer>
+            {STAFF_TRANSITIONS[order.status].map(transition => (
+              <button
+                key={transition.status}
+                onClick={() => transitionMutation.mutate({ orderId: order.id, status: transition.status })}
+                disabled={transitionMutation.isLoading}
+                className={`rounded-md px-4 py-2 text-sm font-medium disabled:opacity-50 ${
+                  transition.status === 'cancelled' || transition.status === 'returned'
+                    ? 'border text-gray-700 hover:bg-gray-50'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                {transition.label}
+              </button>
+            ))}
+          </OrderSummary>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default OrderQueuePage;
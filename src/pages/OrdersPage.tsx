@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Session } from '@supabase/supabase-js';
+import { CreditCard, Loader2, Receipt } from 'lucide-react';
+import { FAKE_PAYMENT_METHODS, PAYMENT_PROVIDER, fetchOrders, payOrder, transitionOrder } from '../lib/orders';
+import type { OrderWithItems } from '../lib/orders';
+import OrderSummary from '../components/OrderSummary';
+import type { Order, OrderStatus } from '../types';
+
+type OrdersPageProps = {
+  session: Session;
+};
+
+function OrdersPage({ session }: OrdersPageProps) {
+  const queryClient = useQueryClient();
+  const userId = session.user.id;
+  const [searchParams] = useSearchParams();
+  const placed = searchParams.get('placed');
+  const [paymentMethod, setPaymentMethod] = useState(FAKE_PAYMENT_METHODS[0].value);
+  const [paidOrder, setPaidOrder] = useState<string | null>(null);
+
+  // Fetch the user's orders and quotes, newest first
+  const { data: orders = [], isLoading, error } = useQuery<OrderWithItems[], Error>({
+    queryKey: ['orders', userId],
+    queryFn: () => fetchOrders({ customerId: userId }),
+  });
+
+  const invalidateOrders = () => queryClient.invalidateQueries(['orders']);
+
+  const transitionMutation = useMutation<Order, Error, { orderId: string; status: OrderStatus }>({
+    mutationFn: ({ orderId, status }) => transitionOrder(orderId, status),
+    onSuccess: invalidateOrders,
+  });
+
+  const payMutation = useMutation<Awaited<ReturnType<typeof payOrder>>, Error, string>({
+    // Other providers take the customer to a hosted payment page
+    mutationFn: orderId => payOrder(orderId, PAYMENT_PROVIDER === 'fake' ? paymentMethod : 'checkout'),
+    onSuccess: (result, orderId) => {
+      if (result.order) setPaidOrder(orderId);
+      invalidateOrders();
+    },
+  });
+
+  const mutationError = transitionMutation.error || payMutation.error;
+  const busy = transitionMutation.isLoading || payMutation.isLoading;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="animate-spin text-gray-400" size={32} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <h1 className="text-2xl font-bold">Orders</h1>
+
+      {placed && (
+        <div className="rounded-md bg-green-100 p-3 text-green-800">
+          {placed} has been created. You can review it below.
+        </div>
+      )}
+
+      {(error || mutationError) && (
+        <div className="rounded-md bg-red-100 p-3 text-red-700">{(error || mutationError)?.message}</div>
+      )}
+
+      {orders.length === 0 ? (
+        <div className="rounded-lg bg-white p-12 text-center shadow">
+          <Receipt className="mx-auto mb-3 text-gray-300" size={40} />
+          <p className="text-gray-600">You have no orders yet.</p>
+          <Link to="/cart" className="mt-2 inline-block text-blue-600 hover:underline">Go to your cart</Link>
+        </div>
+      ) : (
+        orders.map(order => (
+          <OrderSummary key={order.id} order={order}>
+            {order.status === 'quote' && (
+              <>
+                <button
+                  onClick={() => transitionMutation.mutate({ orderId: order.id, status: 'pending' })}
+                  disabled={busy}
+                  className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Accept Quote
+                </button>
+                <button
+                  onClick={() => transitionMutation.mutate({ orderId: order.id, status: 'cancelled' })}
+                  disabled={busy}
+                  className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Decline
+                </button>
+              </>
+            )}
+            {order.status === 'pending' && (
+              <>
+                {PAYMENT_PROVIDER === 'fake' && (
+                  <select
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value)}
+                    className="rounded-md border p-2 text-sm"
+                    aria-label="Payment method"
+                  >
+                    {FAKE_PAYMENT_METHODS.map(method => (
+                      <option key={method.value} value={method.value}>{method.label}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => payMutation.mutate(order.id)}
+                  disabled={busy}
+                  className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {payMutation.isLoading && payMutation.variables === order.id
+                    ? <Loader2 className="animate-spin" size={16} />
+                    : <CreditCard size={16} />}
+                  Pay Now
+                </button>
+                <button
+                  onClick={() => transitionMutation.mutate({ orderId: order.id, status: 'cancelled' })}
+                  disabled={busy}
+                  className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Cancel Order
+                </button>
+              </>
+            )}
+            {order.status === 'paid' && paidOrder === order.id && (
+              <span className="text-sm text-green-700">Payment received. Thank you!</span>
+            )}
+          </OrderSummary>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default OrdersPage;
@@ -0,0 +1,1048 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Session } from '@supabase/supabase-js';
+import { Bookmark, BookmarkCheck, Loader2, ArrowLeft, ExternalLink, Eye, EyeOff, FileClock, Lock, ShoppingCart, Truck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { canEditPart, canManageParts, getSessionRole } from '../lib/roles';
+import { usePartCategories } from '../hooks/usePartCategories';
+import { usePartDraft } from '../hooks/usePartDraft';
+import { usePartRealtime } from '../hooks/usePartRealtime';
+import { useUnsavedChangesWarning } from '../hooks/useUnsavedChangesWarning';
+import { CONDITION_OPTIONS, EMPTY_PART, PartConflictError, generatePartSlug, toPartFormData, toPartFormValues } from '../lib/parts';
+import { parseDimensions, parsePart } from '../lib/partSchema';
+import { currencySymbol, fetchTaxClasses, formatAmount, parseAmount } from '../lib/pricing';
+import { usePricing } from '../hooks/usePricing';
+import { useI18n } from '../hooks/useI18n';
+import { EMPTY_FITMENT, validateFitment } from '../lib/fitment';
+import { NEW_PART_DRAFT_KEY, clearDraft } from '../lib/partDrafts';
+import { addToCart } from '../lib/orders';
+import { fetchShippingBoxes, shippingIssue } from '../lib/shipping';
+import { storefrontPath } from '../lib/storefront';
+import CategoryPicker from '../components/CategoryPicker';
+import FitmentEditor from '../components/FitmentEditor';
+import PartGallery from '../components/PartGallery';
+import PartHistory from '../components/PartHistory';
+import PartMergeDialog from '../components/PartMergeDialog';
+import PresenceBar from '../components/PresenceBar';
+import PartTranslations from '../components/PartTranslations';
+import PriceHistory from '../components/PriceHistory';
+import StockPanel from '../components/StockPanel';
+import VinDecoder from '../components/VinDecoder';
+import type { DecodedVin } from '../lib/vin';
+import type { PartFitment, PartFormValues, PartRevision, PartRow, ShippingBox, TaxClass } from '../types';
+
+type PartEditorPageProps = {
+  session: Session;
+};
+
+const EMPTY_FORM = toPartFormValues(EMPTY_PART);
+
+// How long a field changed by someone else stays highlighted
+const REMOTE_CHANGE_HIGHLIGHT_MS = 8000;
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="mt-1 text-xs text-red-600">{message}</p> : null;
+}
+
+function FieldActivity({ changed, editors }: { changed: boolean; editors: string[] }) {
+  const { t } = useI18n();
+  if (!changed && editors.length === 0) return null;
+  return (
+    <p className="mt-1 rounded bg-amber-50 px-1.5 py-0.5 text-xs text-amber-800">
+      {changed
+        ? t('editor.changedElsewhere')
+        : t(editors.length === 1 ? 'editor.oneEditing' : 'editor.manyEditing', { names: editors.join(', ') })}
+    </p>
+  );
+}
+
+function PartEditorPage({ session }: PartEditorPageProps) {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { slug: currentPartSlug } = useParams<{ slug: string }>();
+  const isNewPart = !currentPartSlug;
+  const { t, conditionLabel, formatDateTime, formatTime } = useI18n();
+
+  // Form state
+  const [formData, setFormData] = useState<PartFormValues>(EMPTY_FORM);
+  const [showFieldErrors, setShowFieldErrors] = useState(false);
+  const [fitments, setFitments] = useState<PartFitment[]>([]);
+  const [restoredRevision, setRestoredRevision] = useState<number | null>(null);
+  // The stored row the form's edits started from; saves are checked against its version
+  const [base, setBase] = useState<PartRow | null>(null);
+  const [conflict, setConflict] = useState<PartRow | null>(null);
+  const [mergedConflict, setMergedConflict] = useState(false);
+  const baseRef = useRef(base);
+  baseRef.current = base;
+  const isDirtyRef = useRef(false);
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
+  const [focusedField, setFocusedField] = useState<string | null>(null);
+  const [remoteChanges, setRemoteChanges] = useState<Partial<Record<keyof PartFormValues, number>>>({});
+
+  // Fetch the part being edited
+  const { data: part, isLoading: partLoading, error: partError } = useQuery<PartRow | null, Error>({
+    queryKey: ['part', currentPartSlug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vehicle_parts')
+        .select('*')
+        .eq('part_slug', currentPartSlug)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !isNewPart,
+  });
+
+  // Admins edit every part, editors their own; RLS and storage policies enforce the same rule
+  const role = getSessionRole(session);
+  const canEdit = isNewPart ? canManageParts(role) : !!part && canEditPart(role, session.user.id, part);
+
+  // Fetch the vehicles the part fits
+  const { data: savedFitments } = useQuery<PartFitment[], Error>({
+    queryKey: ['partFitments', currentPartSlug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('part_fitments')
+        .select('id, make, model, year_start, year_end, trim, engine')
+        .eq('part_slug', currentPartSlug)
+        .order('make')
+        .order('model')
+        .order('year_start');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !isNewPart,
+  });
+
+  // Load the form from the stored row, or reset it when starting a new part.
+  // A refetch of the part being edited (e.g. after a gallery change) leaves
+  // unsaved edits alone; saving them then goes through the version check.
+  useEffect(() => {
+    if (isNewPart) {
+      setBase(null);
+      setFormData(EMPTY_FORM);
+    } else if (part && !(isDirtyRef.current && baseRef.current?.part_slug === part.part_slug)) {
+      setBase(part);
+      setFormData(toPartFormValues(toPartFormData(part)));
+    } else {
+      return;
+    }
+    setShowFieldErrors(false);
+    setRestoredRevision(null);
+    setMergedConflict(false);
+  }, [isNewPart, part]);
+
+  useEffect(() => {
+    setFitments(isNewPart ? [] : savedFitments ?? []);
+  }, [isNewPart, savedFitments]);
+
+  const { data: partCategories, isLoading: categoriesLoading, error: categoriesError } = usePartCategories();
+
+  // The stored part in editor form, for spotting unsaved changes
+  const savedContent = useMemo(() => {
+    if (isNewPart) return { values: EMPTY_FORM, fitments: [] };
+    if (!base || !savedFitments) return null;
+    return { values: toPartFormValues(toPartFormData(base)), fitments: savedFitments };
+  }, [isNewPart, base, savedFitments]);
+
+  const draft = usePartDraft({
+    userId: session.user.id,
+    draftKey: currentPartSlug ?? NEW_PART_DRAFT_KEY,
+    current: { values: formData, fitments },
+    saved: savedContent,
+    enabled: canEdit,
+  });
+  isDirtyRef.current = draft.isDirty;
+
+  // Highlight fields another user just saved, unless the form already holds
+  // the same value (e.g. our own save arriving over Realtime first)
+  const viewers = usePartRealtime({
+    partSlug: currentPartSlug,
+    userId: session.user.id,
+    email: session.user.email ?? '',
+    editing: draft.isDirty,
+    field: focusedField,
+    onPartUpdate: (previous, next) => {
+      const before = toPartFormValues(toPartFormData(previous));
+      const after = toPartFormValues(toPartFormData(next));
+      const changed = (Object.keys(after) as (keyof PartFormValues)[]).filter(field =>
+        field !== 'itemurl' &&
+        field !== 'stock_quantity' &&
+        JSON.stringify(before[field]) !== JSON.stringify(after[field]) &&
+        JSON.stringify(formDataRef.current[field]) !== JSON.stringify(after[field])
+      );
+      if (changed.length) {
+        const now = Date.now();
+        setRemoteChanges(prev => ({ ...prev, ...Object.fromEntries(changed.map(field => [field, now])) }));
+      }
+    },
+  });
+
+  useEffect(() => {
+    const times = Object.values(remoteChanges);
+    if (times.length === 0) return;
+    const timer = setTimeout(() => {
+      const cutoff = Date.now() - REMOTE_CHANGE_HIGHLIGHT_MS;
+      setRemoteChanges(prev => Object.fromEntries(Object.entries(prev).filter(([, time]) => time > cutoff)));
+    }, Math.min(...times) + REMOTE_CHANGE_HIGHLIGHT_MS - Date.now());
+    return () => clearTimeout(timer);
+  }, [remoteChanges]);
+
+  const fieldActivity = (field: keyof PartFormValues) => (
+    <FieldActivity
+      changed={!!remoteChanges[field]}
+      editors={viewers.filter(viewer => viewer.field === field).map(viewer => viewer.email)}
+    />
+  );
+
+  // Fetch saved parts. The bookmark button files parts under the user's
+  // unsorted parts; copies in named lists are managed on the Saved page.
+  const { data: savedParts = [], refetch: refetchSavedParts } = useQuery<string[]>({
+    queryKey: ['savedParts', session.user.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('saved_items')
+        .select('part_id')
+        .eq('user_id', session.user.id)
+        .is('list_id', null);
+
+      if (error) throw error;
+      return data?.map(item => item.part_id) || [];
+    },
+  });
+
+  // Errors are computed on every edit but only shown after the first save attempt
+  const validation = useMemo(() => parsePart(formData), [formData]);
+  const fieldErrors = showFieldErrors && !validation.success ? validation.errors : {};
+  const parsedDimensions = parseDimensions(formData.dimensions);
+
+  // Fetch shipping boxes to check the part fits in one
+  const { data: shippingBoxes = [] } = useQuery<ShippingBox[], Error>({
+    queryKey: ['shippingBoxes'],
+    queryFn: fetchShippingBoxes,
+  });
+
+  const shippingProblem = shippingIssue(formData, shippingBoxes.filter(box => box.is_active));
+
+  const { rates } = usePricing();
+
+  // Fetch tax classes for the tax class picker
+  const { data: taxClasses = [] } = useQuery<TaxClass[], Error>({
+    queryKey: ['taxClasses'],
+    queryFn: fetchTaxClasses,
+  });
+
+  // Show the typed price the way the part's currency writes it, e.g. 1,234.50
+  const reformatPrice = () => {
+    const amount = parseAmount(formData.price);
+    if (amount !== null) setFormData(prev => ({ ...prev, price: formatAmount(amount, prev.currency) }));
+  };
+
+  // Save part mutation
+  const savePartMutation = useMutation<PartRow, Error>({
+    mutationFn: async () => {
+      setShowFieldErrors(true);
+      if (!validation.success) {
+        throw new Error(t('editor.fixFields'));
+      }
+      if (fitments.some(fitment => validateFitment(fitment))) {
+        throw new Error(t('editor.fixFitments'));
+      }
+
+      // New parts get a generated slug and are inserted so a collision fails
+      // loudly instead of overwriting another part's row. Existing parts are
+      // updated against the version the form was loaded from. itemurl is left
+      // out: it follows the gallery's primary image, not the form. Stock is
+      // only set here as the opening stock; after that it moves through the
+      // stock ledger.
+      const partSlug = currentPartSlug ?? generatePartSlug(validation.data);
+      const record = {
+        ...validation.data,
+        itemurl: undefined,
+        stock_quantity: isNewPart ? validation.data.stock_quantity : undefined,
+        updated_at: new Date().toISOString()
+      };
+
+      // save_part writes the part and replaces its fitments in one
+      // transaction, so a stale version rejects both. Row ids in the fitments
+      // are ignored; every save rewrites the full list.
+      const { data, error } = await supabase.rpc('save_part', {
+        p_part_slug: partSlug,
+        p_values: record,
+        p_version: isNewPart ? null : base?.version,
+        p_fitments: fitments,
+      });
+
+      // 40001 comes from the vehicle_parts_check_version trigger
+      if (error?.code === '40001') {
+        const { data: latest } = await supabase
+          .from('vehicle_parts')
+          .select('*')
+          .eq('part_slug', partSlug)
+          .maybeSingle();
+        throw new PartConflictError(latest);
+      }
+      // 42501: the row is gone or RLS no longer lets this user update it
+      if (error?.code === '42501') throw new Error(t('editor.notEditable'));
+      if (error) throw error;
+
+      queryClient.invalidateQueries(['partFitments', partSlug]);
+      return data as PartRow;
+    },
+    onSuccess: (savedPart) => {
+      setBase(savedPart);
+      setFormData(toPartFormValues(toPartFormData(savedPart)));
+      queryClient.setQueryData(['part', savedPart.part_slug], savedPart);
+      queryClient.invalidateQueries(['parts']);
+      queryClient.invalidateQueries(['fitmentLookup']);
+      queryClient.invalidateQueries(['partRevisions', savedPart.part_slug]);
+      setRestoredRevision(null);
+      setMergedConflict(false);
+
+      if (isNewPart) {
+        clearDraft(session.user.id, NEW_PART_DRAFT_KEY).catch(() => undefined);
+        navigate(`/parts/${savedPart.part_slug}`, { replace: true });
+      }
+    },
+    onError: (error) => {
+      if (error instanceof PartConflictError && error.latest) setConflict(error.latest);
+    }
+  });
+
+  // Publish or unpublish the part in the catalog
+  const togglePublishMutation = useMutation<PartRow, Error>({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from('vehicle_parts')
+        .update({
+          is_published: !part?.is_published,
+          updated_at: new Date().toISOString()
+        })
+        .eq('part_slug', currentPartSlug)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as PartRow;
+    },
+    onSuccess: (savedPart) => {
+      queryClient.setQueryData(['part', savedPart.part_slug], savedPart);
+      queryClient.invalidateQueries(['parts']);
+      queryClient.invalidateQueries(['catalogSearch']);
+      queryClient.invalidateQueries(['catalogFacets']);
+      queryClient.invalidateQueries(['fitmentLookup']);
+    }
+  });
+
+  // Toggle save part mutation
+  const toggleSaveMutation = useMutation({
+    mutationFn: async (partId: string) => {
+      const isSaved = savedParts.includes(partId);
+      
+      if (isSaved) {
+        const { error } = await supabase
+          .from('saved_items')
+          .delete()
+          .eq('user_id', session.user.id)
+          .eq('part_id', partId)
+          .is('list_id', null);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('saved_items')
+          .insert({
+            user_id: session.user.id,
+            part_id: partId
+          });
+
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      refetchSavedParts();
+      queryClient.invalidateQueries(['savedItems', session.user.id]);
+    }
+  });
+
+  // Add one unit to the user's cart
+  const addToCartMutation = useMutation<void, Error, string>({
+    mutationFn: (partSlug) => addToCart(session.user.id, partSlug),
+    onSuccess: () => queryClient.invalidateQueries(['cart', session.user.id])
+  });
+
+  useUnsavedChangesWarning(canEdit && draft.isDirty && !savePartMutation.isLoading);
+
+  const restoreDraft = () => {
+    if (!draft.pendingDraft) return;
+    setFormData(draft.pendingDraft.values);
+    setFitments(draft.pendingDraft.fitments);
+    draft.acceptDraft();
+  };
+
+  // Take the chosen values and rebase the form on the part as it is now
+  const resolveConflict = (merged: PartFormValues) => {
+    if (!conflict) return;
+    setBase(conflict);
+    setFormData(merged);
+    queryClient.setQueryData(['part', conflict.part_slug], conflict);
+    setConflict(null);
+    setMergedConflict(true);
+    savePartMutation.reset();
+  };
+
+  // Load a revision into the form; it takes effect once saved
+  const restoreRevision = (revision: PartRevision) => {
+    if (draft.isDirty && !confirm(t('editor.confirmRestoreRevision'))) return;
+    // Older revisions still hold a stock level; stock now comes from the ledger
+    setFormData(toPartFormValues(toPartFormData({ ...part, ...revision.data, stock_quantity: part?.stock_quantity })));
+    setRestoredRevision(revision.revision);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Handle form input changes
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  // Handle special input changes
+  const handleSpecialInputChange = <K extends keyof PartFormValues>(name: K, value: PartFormValues[K]) => {
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  // Prefill make from a decoded VIN and add a fitment for its model year
+  const applyDecodedVin = (decoded: DecodedVin) => {
+    const make = decoded.make ?? formData.make;
+    handleSpecialInputChange('make', make);
+
+    if (decoded.modelYear !== null) {
+      const year = decoded.modelYear;
+      setFitments(prev =>
+        prev.some(fitment => fitment.make === make && fitment.model === formData.model && fitment.year_start === year && fitment.year_end === year)
+          ? prev
+          : [...prev, { ...EMPTY_FITMENT, make, model: formData.model, year_start: year, year_end: year }]
+      );
+    }
+  };
+
+  if (!isNewPart && partLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="animate-spin text-blue-500" size={32} />
+      </div>
+    );
+  }
+
+  if (!isNewPart && (partError || !part)) {
+    return (
+      <div className="rounded-lg bg-white p-10 text-center shadow">
+        <p className="mb-4 text-gray-700">
+          {partError ? t('editor.loadError', { message: partError.message }) : t('editor.notFound')}
+        </p>
+        <Link to="/parts" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+          {t('editor.backToParts')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Link to="/parts" className="rounded-md p-1.5 text-gray-500 hover:bg-gray-200 hover:text-gray-700">
+            <ArrowLeft size={20} />
+          </Link>
+          <h1 className="text-2xl font-bold">
+            {isNewPart ? t('editor.newPart') : formData.itemname || t('editor.untitledPart')}
+          </h1>
+        </div>
+        {currentPartSlug && (
+          <div className="flex items-center gap-2">
+            {part?.is_published && (
+              <Link
+                to={storefrontPath(currentPartSlug)}
+                target="_blank"
+                className="flex items-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                <ExternalLink size={16} />
+                {t('editor.viewInStore')}
+              </Link>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => togglePublishMutation.mutate()}
+                disabled={togglePublishMutation.isLoading}
+                className="flex items-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+              >
+                {togglePublishMutation.isLoading ? (
+                  <Loader2 className="animate-spin" size={16} />
+                ) : part?.is_published ? (
+                  <>
+                    <EyeOff size={16} />
+                    {t('editor.unpublish')}
+                  </>
+                ) : (
+                  <>
+                    <Eye size={16} />
+                    {t('editor.publish')}
+                  </>
+                )}
+              </button>
+            )}
+            {part?.is_published && (
+              <button
+                onClick={() => addToCartMutation.mutate(currentPartSlug)}
+                disabled={addToCartMutation.isLoading}
+                className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+              >
+                {addToCartMutation.isLoading ? <Loader2 className="animate-spin" size={16} /> : <ShoppingCart size={16} />}
+                {addToCartMutation.isSuccess ? t('editor.addedToCart') : t('editor.addToCart')}
+              </button>
+            )}
+            <button
+              onClick={() => toggleSaveMutation.mutate(currentPartSlug)}
+              disabled={toggleSaveMutation.isLoading}
+              className="flex items-center gap-2 rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:bg-green-400"
+            >
+              {toggleSaveMutation.isLoading ? (
+                <Loader2 className="animate-spin" size={16} />
+              ) : savedParts.includes(currentPartSlug) ? (
+                <>
+                  <BookmarkCheck size={16} />
+                  {t('editor.bookmarked')}
+                </>
+              ) : (
+                <>
+                  <Bookmark size={16} />
+                  {t('editor.bookmark')}
+                </>
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <PresenceBar viewers={viewers} />
+
+      {/* Part Information Form */}
+      <div className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold">{t('editor.partInformation')}</h2>
+      
+        {categoriesLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="animate-spin text-blue-500" size={24} />
+          </div>
+        )}
+      
+        {categoriesError && (
+          <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+            {t('editor.categoriesError', { message: categoriesError.message })}
+          </div>
+        )}
+      
+        {!canEdit && (
+          <div className="mb-4 flex items-center gap-2 rounded-md bg-yellow-50 p-3 text-yellow-800">
+            <Lock size={16} />
+            {t('editor.readOnly')}
+          </div>
+        )}
+
+        {togglePublishMutation.isError && (
+          <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+            {togglePublishMutation.error.message}
+          </div>
+        )}
+
+        {addToCartMutation.isError && (
+          <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+            {addToCartMutation.error.message}
+          </div>
+        )}
+
+        {draft.pendingDraft && (
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-md bg-blue-50 p-3 text-blue-800">
+            <span className="flex items-center gap-2">
+              <FileClock size={16} />
+              {t('editor.draftFound', { date: formatDateTime(draft.pendingDraft.updatedAt) })}
+            </span>
+            <span className="flex gap-3 text-sm font-medium">
+              <button onClick={restoreDraft} className="text-blue-700 hover:text-blue-900">
+                {t('editor.restoreDraft')}
+              </button>
+              <button onClick={() => draft.discardDraft()} className="text-gray-600 hover:text-gray-900">
+                {t('editor.discardDraft')}
+              </button>
+            </span>
+          </div>
+        )}
+
+        {mergedConflict && (
+          <div className="mb-4 rounded-md bg-blue-50 p-3 text-blue-800">
+            {t('editor.merged')}
+          </div>
+        )}
+
+        {restoredRevision !== null && (
+          <div className="mb-4 rounded-md bg-blue-50 p-3 text-blue-800">
+            {t('editor.revisionLoaded', { revision: restoredRevision })}
+          </div>
+        )}
+
+        {savePartMutation.isError && (
+          <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+            {savePartMutation.error.message}
+          </div>
+        )}
+      
+        {savePartMutation.isSuccess && (
+          <div className="mb-4 rounded-md bg-green-100 p-3 text-green-700">
+            {t('editor.saveSuccess')}
+          </div>
+        )}
+
+        {/* Disabling the fieldset makes every input read-only for viewers. Focus
+            is tracked so others see which field is being edited. */}
+        <fieldset
+          disabled={!canEdit}
+          onFocus={(e) => {
+            const target = e.target as Element;
+            setFocusedField(target.getAttribute('name') || target.closest('[data-field]')?.getAttribute('data-field') || null);
+          }}
+          onBlur={() => setFocusedField(null)}
+          className="min-w-0"
+        >
+          <div className="mb-4">
+            <VinDecoder applyLabel={t('editor.prefillFromVin')} onApply={applyDecodedVin} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.itemname')}*
+                </label>
+                <input
+                  type="text"
+                  name="itemname"
+                  placeholder={t('placeholder.itemname')}
+                  value={formData.itemname}
+                  onChange={handleInputChange}
+                  className="w-full rounded-md border p-2"
+                  required
+                />
+                <FieldError message={fieldErrors.itemname} />
+                {fieldActivity('itemname')}
+              </div>
+            
+              <div data-field="category_id">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.category')}
+                </label>
+                <CategoryPicker
+                  categories={partCategories ?? []}
+                  value={formData.category_id}
+                  onChange={(categoryId) => setFormData(prev => ({ ...prev, category_id: categoryId }))}
+                  disabled={!canEdit}
+                />
+                <FieldError message={fieldErrors.category_id} />
+                {fieldActivity('category_id')}
+              </div>
+            
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.make')}*
+                </label>
+                <input
+                  type="text"
+                  name="make"
+                  placeholder={t('placeholder.make')}
+                  value={formData.make}
+                  onChange={handleInputChange}
+                  className="w-full rounded-md border p-2"
+                  required
+                />
+                <FieldError message={fieldErrors.make} />
+                {fieldActivity('make')}
+              </div>
+            
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.model')}*
+                </label>
+                <input
+                  type="text"
+                  name="model"
+                  placeholder={t('placeholder.model')}
+                  value={formData.model}
+                  onChange={handleInputChange}
+                  className="w-full rounded-md border p-2"
+                  required
+                />
+                <FieldError message={fieldErrors.model} />
+                {fieldActivity('model')}
+              </div>
+            
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.condition')}*
+                </label>
+                <select
+                  name="condition"
+                  value={formData.condition}
+                  onChange={handleInputChange}
+                  className="w-full rounded-md border p-2"
+                  required
+                >
+                  {CONDITION_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {conditionLabel(option)}
+                    </option>
+                  ))}
+                </select>
+                <FieldError message={fieldErrors.condition} />
+                {fieldActivity('condition')}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.description')}*
+                </label>
+                <textarea
+                  name="description"
+                  value={formData.description}
+                  onChange={handleInputChange}
+                  className="w-full rounded-md border p-2 h-24"
+                  placeholder={t('placeholder.description')}
+                  required
+                />
+                <FieldError message={fieldErrors.description} />
+                {fieldActivity('description')}
+              </div>
+            
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('field.price')}*
+                  </label>
+                  <div className="flex rounded-md border focus-within:ring-2 focus-within:ring-blue-500">
+                    <span className="flex items-center border-r bg-gray-50 px-3 text-gray-500">
+                      {currencySymbol(formData.currency)}
+                    </span>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      name="price"
+                      placeholder={formatAmount(0, formData.currency)}
+                      value={formData.price}
+                      onChange={handleInputChange}
+                      onBlur={reformatPrice}
+                      className="w-full rounded-r-md p-2 outline-none"
+                      required
+                    />
+                  </div>
+                  <FieldError message={fieldErrors.price} />
+                  {fieldActivity('price')}
+                </div>
+                {isNewPart ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('field.openingStock')}*
+                    </label>
+                    <input
+                      type="number"
+                      name="stock_quantity"
+                      placeholder={t('placeholder.stock')}
+                      value={formData.stock_quantity}
+                      onChange={handleInputChange}
+                      className="w-full rounded-md border p-2"
+                      required
+                      min="0"
+                    />
+                    <FieldError message={fieldErrors.stock_quantity} />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('field.stock')}
+                    </label>
+                    <p className="rounded-md border bg-gray-50 p-2 text-gray-700">
+                      {part?.reserved_quantity
+                        ? t('editor.stockOnHandReserved', { onHand: part.stock_quantity, reserved: part.reserved_quantity })
+                        : t('editor.stockOnHand', { onHand: part?.stock_quantity ?? 0 })}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">{t('editor.stockHint')}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('field.currency')}
+                  </label>
+                  <select
+                    name="currency"
+                    value={formData.currency}
+                    onChange={handleInputChange}
+                    className="w-full rounded-md border p-2"
+                  >
+                    {!rates.some(rate => rate.currency === formData.currency) && (
+                      <option value={formData.currency}>{formData.currency}</option>
+                    )}
+                    {rates.map(rate => (
+                      <option key={rate.currency} value={rate.currency}>{rate.currency}</option>
+                    ))}
+                  </select>
+                  <FieldError message={fieldErrors.currency} />
+                  {fieldActivity('currency')}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('field.taxClass')}
+                  </label>
+                  <select
+                    name="tax_class"
+                    value={formData.tax_class}
+                    onChange={handleInputChange}
+                    className="w-full rounded-md border p-2"
+                  >
+                    {!taxClasses.some(taxClass => taxClass.code === formData.tax_class) && (
+                      <option value={formData.tax_class}>{formData.tax_class}</option>
+                    )}
+                    {taxClasses.map(taxClass => (
+                      <option key={taxClass.code} value={taxClass.code}>
+                        {taxClass.name} ({Number(taxClass.rate)}%)
+                      </option>
+                    ))}
+                  </select>
+                  <FieldError message={fieldErrors.tax_class} />
+                  {fieldActivity('tax_class')}
+                </div>
+              </div>
+            
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.color')}
+                </label>
+                <input
+                  type="text"
+                  name="color"
+                  placeholder={t('placeholder.color')}
+                  value={formData.color}
+                  onChange={handleInputChange}
+                  className="w-full rounded-md border p-2"
+                />
+                <FieldError message={fieldErrors.color} />
+                {fieldActivity('color')}
+              </div>
+            
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('field.keyFeatures')}
+                </label>
+                <textarea
+                  name="key_features"
+                  value={formData.key_features.join('\n')}
+                  onChange={(e) => handleSpecialInputChange('key_features', e.target.value.split('\n').filter(f => f.trim()))}
+                  className="w-full rounded-md border p-2 h-24"
+                  placeholder={t('placeholder.keyFeatures')}
+                />
+                <FieldError message={fieldErrors.key_features} />
+                {fieldActivity('key_features')}
+              </div>
+            </div>
+          </div>
+
+          {/* Additional part details */}
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('field.weight')}
+              </label>
+              <input
+                type="number"
+                name="weight_kg"
+                placeholder={t('placeholder.weight')}
+                value={formData.weight_kg}
+                onChange={handleInputChange}
+                className="w-full rounded-md border p-2"
+                min="0"
+                step="0.1"
+              />
+              <FieldError message={fieldErrors.weight_kg} />
+              {fieldActivity('weight_kg')}
+            </div>
+          
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('field.dimensions')}
+              </label>
+              <input
+                type="text"
+                name="dimensions"
+                placeholder={t('placeholder.dimensions')}
+                value={formData.dimensions}
+                onChange={handleInputChange}
+                className="w-full rounded-md border p-2"
+              />
+              <FieldError message={fieldErrors.dimensions} />
+              {fieldActivity('dimensions')}
+              {parsedDimensions && !fieldErrors.dimensions && (
+                <p className="mt-1 text-xs text-gray-500">
+                  L {parsedDimensions.length} × W {parsedDimensions.width} × H {parsedDimensions.height} {parsedDimensions.unit}
+                </p>
+              )}
+              {shippingProblem && (
+                <p className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+                  <Truck size={12} />
+                  {t('editor.notShippable', { reason: t(`shipping.issue.${shippingProblem}`) })}
+                </p>
+              )}
+            </div>
+          
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('field.material')}
+              </label>
+              <input
+                type="text"
+                name="material"
+                placeholder={t('placeholder.material')}
+                value={formData.material}
+                onChange={handleInputChange}
+                className="w-full rounded-md border p-2"
+              />
+              <FieldError message={fieldErrors.material} />
+              {fieldActivity('material')}
+            </div>
+          
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('field.warranty')}
+              </label>
+              <input
+                type="number"
+                name="warranty_months"
+                placeholder={t('placeholder.warranty')}
+                value={formData.warranty_months}
+                onChange={handleInputChange}
+                className="w-full rounded-md border p-2"
+                min="0"
+              />
+              <FieldError message={fieldErrors.warranty_months} />
+              {fieldActivity('warranty_months')}
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <FitmentEditor
+              fitments={fitments}
+              defaultMake={formData.make}
+              onChange={setFitments}
+            />
+          </div>
+
+          <div className="mt-6">
+            <button
+              onClick={() => savePartMutation.mutate()}
+              disabled={savePartMutation.isLoading}
+              className="flex items-center justify-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+            >
+              {savePartMutation.isLoading ? (
+                <>
+                  <Loader2 className="animate-spin" size={16} />
+                  {t('editor.saving')}
+                </>
+              ) : isNewPart ? t('editor.create') : t('editor.save')}
+            </button>
+            {canEdit && draft.isDirty && (
+              <p className="mt-2 text-xs text-gray-500">
+                {t('editor.unsavedChanges')}
+                {draft.lastSavedAt && ` ${t(draft.serverError ? 'editor.draftSavedLocally' : 'editor.draftSavedAt', { time: formatTime(draft.lastSavedAt) })}`}
+              </p>
+            )}
+          </div>
+        </fieldset>
+      </div>
+
+      {/* Image Upload Section */}
+      <div className="rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold">
+          {t('editor.images', { name: formData.itemname || t('editor.part') })}
+        </h2>
+      
+        {isNewPart ? (
+          <p className="rounded-md bg-gray-50 p-6 text-center text-sm text-gray-500">
+            {t('editor.createBeforeImages')}
+          </p>
+        ) : (
+          <PartGallery partSlug={currentPartSlug} partName={formData.itemname} canEdit={canEdit} />
+        )}
+      </div>
+
+      {conflict && base && (
+        <PartMergeDialog
+          base={toPartFormValues(toPartFormData(base))}
+          mine={formData}
+          theirs={toPartFormValues(toPartFormData(conflict))}
+          categories={partCategories ?? []}
+          onResolve={resolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      {/* Stock ledger; RLS shows it to the part's editors only */}
+      {part && canEdit && (
+        <div className="mt-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 text-lg font-semibold">{t('editor.stock')}</h2>
+          <StockPanel part={part} />
+        </div>
+      )}
+
+      {/* Price history; RLS shows it to the part's editors only */}
+      {part && canEdit && (
+        <div className="mt-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 text-lg font-semibold">{t('editor.priceHistory')}</h2>
+          <PriceHistory part={part} />
+        </div>
+      )}
+
+      {/* Translations of the customer-facing text */}
+      {part && canEdit && (
+        <div className="mt-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 text-lg font-semibold">{t('editor.translations')}</h2>
+          <PartTranslations part={part} />
+        </div>
+      )}
+
+      {/* Revision history; RLS shows it to the part's editors only */}
+      {currentPartSlug && canEdit && (
+        <div className="mt-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 text-lg font-semibold">{t('editor.history')}</h2>
+          <PartHistory
+            partSlug={currentPartSlug}
+            categories={partCategories ?? []}
+            onRestore={restoreRevision}
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+export default PartEditorPage;
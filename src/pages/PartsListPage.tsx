@@ -0,0 +1,220 @@
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import type { Session } from '@supabase/supabase-js';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, FileUp, ImageOff, Loader2, Plus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { canManageParts, getSessionRole } from '../lib/roles';
+import { listImageUrl, PRIMARY_IMAGE_SELECT } from '../lib/partImages';
+import { formatMoney } from '../lib/pricing';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import type { ListImage, PartRow } from '../types';
+
+type PartsListPageProps = {
+  session: Session;
+};
+
+type SortColumn = 'itemname' | 'make' | 'model' | 'condition' | 'price' | 'stock_quantity' | 'updated_at';
+
+type PartsPage = {
+  parts: (PartRow & { primary_image: ListImage[] })[];
+  total: number;
+};
+
+const PAGE_SIZE = 20;
+
+const COLUMNS: { key: SortColumn; labelKey: MessageKey; align?: 'right' }[] = [
+  { key: 'itemname', labelKey: 'editor.part' },
+  { key: 'make', labelKey: 'field.make' },
+  { key: 'model', labelKey: 'field.model' },
+  { key: 'condition', labelKey: 'field.condition' },
+  { key: 'price', labelKey: 'field.price', align: 'right' },
+  { key: 'stock_quantity', labelKey: 'field.stock', align: 'right' },
+  { key: 'updated_at', labelKey: 'parts.updated' },
+];
+
+const isSortColumn = (value: string | null): value is SortColumn =>
+  COLUMNS.some(column => column.key === value);
+
+function PartsListPage({ session }: PartsListPageProps) {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t, conditionLabel, formatDate } = useI18n();
+
+  // Pagination and sort state lives in the URL so list views can be linked
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const sortParam = searchParams.get('sort');
+  const sort: SortColumn = isSortColumn(sortParam) ? sortParam : 'updated_at';
+  const ascending = searchParams.get('dir') === 'asc';
+
+  // Fetch one page of parts
+  const { data, isLoading, isFetching, error } = useQuery<PartsPage, Error>({
+    queryKey: ['parts', { page, sort, ascending }],
+    queryFn: async () => {
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, error, count } = await supabase
+        .from('vehicle_parts')
+        .select(`*, ${PRIMARY_IMAGE_SELECT}`, { count: 'exact' })
+        .eq('primary_image.is_primary', true)
+        .order(sort, { ascending })
+        .order('part_slug', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { parts: data || [], total: count ?? 0 };
+    },
+    keepPreviousData: true,
+  });
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateParams = (updates: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => next.set(key, value));
+      return next;
+    });
+  };
+
+  // Clicking the active column flips direction, any other column starts ascending
+  const handleSort = (column: SortColumn) => {
+    const dir = column === sort && ascending ? 'desc' : 'asc';
+    updateParams({ sort: column, dir, page: '1' });
+  };
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">{t('parts.title')}</h1>
+        {canManageParts(getSessionRole(session)) && (
+          <div className="flex gap-2">
+            <Link
+              to="/parts/import"
+              className="flex items-center gap-2 rounded-md border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <FileUp size={16} />
+              {t('parts.import')}
+            </Link>
+            <Link
+              to="/parts/new"
+              className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              <Plus size={16} />
+              {t('editor.newPart')}
+            </Link>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-hidden rounded-lg bg-white shadow">
+        {error && (
+          <div className="m-4 rounded-md bg-red-100 p-3 text-red-700">
+            {t('parts.loadError', { message: error.message })}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="w-16 px-4 py-3" />
+                {COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    className={`px-4 py-3 font-medium text-gray-600 ${column.align === 'right' ? 'text-right' : 'text-left'}`}
+                  >
+                    <button
+                      onClick={() => handleSort(column.key)}
+                      className="inline-flex items-center gap-1 hover:text-gray-900"
+                    >
+                      {t(column.labelKey)}
+                      {column.key === sort && (ascending ? <ArrowUp size={14} /> : <ArrowDown size={14} />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={COLUMNS.length + 1} className="py-12">
+                    <Loader2 className="mx-auto animate-spin text-blue-500" size={24} />
+                  </td>
+                </tr>
+              ) : data?.parts.length === 0 ? (
+                <tr>
+                  <td colSpan={COLUMNS.length + 1} className="py-12 text-center text-gray-500">
+                    {t('parts.empty')}
+                  </td>
+                </tr>
+              ) : (
+                data?.parts.map(part => (
+                  <tr
+                    key={part.part_slug}
+                    onClick={() => navigate(`/parts/${part.part_slug}`)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="px-4 py-2">
+                      <div className="flex h-10 w-10 items-center justify-center overflow-hidden rounded-md bg-gray-100 text-gray-400">
+                        {listImageUrl(part) ? (
+                          <img src={listImageUrl(part)} alt={part.primary_image[0]?.alt_text || part.itemname} className="h-full w-full object-cover" />
+                        ) : (
+                          <ImageOff size={16} />
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 font-medium text-gray-900">
+                      {part.itemname || t('editor.untitledPart')}
+                      {!part.is_published && (
+                        <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                          {t('parts.draft')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{part.make}</td>
+                    <td className="px-4 py-2 text-gray-600">{part.model}</td>
+                    <td className="px-4 py-2 text-gray-600">{conditionLabel(part.condition)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(part.price ?? 0, part.currency)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{part.stock_quantity}</td>
+                    <td className="px-4 py-2 text-gray-500">
+                      {part.updated_at ? formatDate(part.updated_at) : '—'}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between border-t px-4 py-3 text-sm text-gray-600">
+          <span className="flex items-center gap-2">
+            {total === 0
+              ? t('parts.noResults')
+              : t('parts.showing', { from: (page - 1) * PAGE_SIZE + 1, to: Math.min(page * PAGE_SIZE, total), total })}
+            {isFetching && !isLoading && <Loader2 className="animate-spin text-blue-500" size={14} />}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => updateParams({ page: String(page - 1) })}
+              disabled={page <= 1}
+              className="rounded-md border p-1.5 hover:bg-gray-50 disabled:opacity-40"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span>{t('parts.page', { page, pageCount })}</span>
+            <button
+              onClick={() => updateParams({ page: String(page + 1) })}
+              disabled={page >= pageCount}
+              className="rounded-md border p-1.5 hover:bg-gray-50 disabled:opacity-40"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default PartsListPage;
@@ -0,0 +1,273 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { STORE_CURRENCY, fetchExchangeRates, fetchTaxClasses, formatMoney } from '../lib/pricing';
+import { useI18n } from '../hooks/useI18n';
+import type { ExchangeRate, TaxClass } from '../types';
+
+type PricingTable = 'exchange_rates' | 'tax_classes';
+
+// Form inputs that hold numbers; everything else is sent as text
+const NUMBER_INPUTS = new Set(['rate', 'sort_order']);
+
+const formValues = (form: HTMLFormElement) =>
+  Object.fromEntries(
+    Array.from(new FormData(form).entries()).map(([name, value]) =>
+      [name, NUMBER_INPUTS.has(name) ? Number(value) : String(value).trim()]
+    )
+  );
+
+const inputClass = 'w-full rounded-md border p-2';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+function PricingSettingsPage() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  // Fetch exchange rates and tax classes
+  const { data: rates = [], isLoading: ratesLoading, error: ratesError } = useQuery<ExchangeRate[], Error>({
+    queryKey: ['exchangeRates'],
+    queryFn: fetchExchangeRates,
+  });
+
+  const { data: taxClasses = [], isLoading: taxLoading, error: taxError } = useQuery<TaxClass[], Error>({
+    queryKey: ['taxClasses'],
+    queryFn: fetchTaxClasses,
+  });
+
+  // Catalog sorting and price filters depend on the rates too
+  const invalidatePricing = () => {
+    queryClient.invalidateQueries(['exchangeRates']);
+    queryClient.invalidateQueries(['taxClasses']);
+    queryClient.invalidateQueries(['catalogSearch']);
+    queryClient.invalidateQueries(['catalogFacets']);
+  };
+
+  const insertMutation = useMutation<void, Error, { table: PricingTable; values: Record<string, unknown> }>({
+    mutationFn: async ({ table, values }) => {
+      const { error } = await supabase.from(table).insert(values);
+      if (error) throw error;
+    },
+    onSuccess: invalidatePricing
+  });
+
+  const updateMutation = useMutation<void, Error, { table: PricingTable; match: Record<string, string>; changes: Record<string, unknown> }>({
+    mutationFn: async ({ table, match, changes }) => {
+      const { error } = await supabase.from(table).update(changes).match(match);
+      if (error) throw error;
+    },
+    onSuccess: invalidatePricing
+  });
+
+  // Parts still priced in a currency, or still using a tax class, block its deletion
+  const deleteMutation = useMutation<void, Error, { table: PricingTable; match: Record<string, string> }>({
+    mutationFn: async ({ table, match }) => {
+      const { error } = await supabase.from(table).delete().match(match);
+      if (error?.code === '23503') throw new Error('Parts still use this; move them to another one first');
+      if (error) throw error;
+    },
+    onSuccess: invalidatePricing
+  });
+
+  const mutationError = insertMutation.error ?? updateMutation.error ?? deleteMutation.error;
+
+  const handleAdd = (table: PricingTable, normalize: (values: Record<string, unknown>) => Record<string, unknown>) =>
+    (event: React.FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const form = event.currentTarget;
+      insertMutation.mutate({ table, values: normalize(formValues(form)) }, { onSuccess: () => form.reset() });
+    };
+
+  const confirmDelete = (table: PricingTable, match: Record<string, string>, message: string) => {
+    if (confirm(message)) deleteMutation.mutate({ table, match });
+  };
+
+  if (ratesLoading || taxLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="animate-spin text-blue-500" size={24} />
+      </div>
+    );
+  }
+
+  const loadError = ratesError ?? taxError;
+  if (loadError) {
+    return <div className="rounded-md bg-red-100 p-3 text-red-700">Error loading pricing settings: {loadError.message}</div>;
+  }
+
+  const reference = rates.find(rate => Number(rate.rate) === 1)?.currency ?? STORE_CURRENCY;
+
+  const addButton = (label: string) => (
+    <button
+      type="submit"
+      disabled={insertMutation.isLoading}
+      className="flex items-center justify-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+    >
+      <Plus size={16} />
+      {label}
+    </button>
+  );
+
+  const deleteButton = (onClick: () => void, title: string) => (
+    <button
+      onClick={onClick}
+      disabled={deleteMutation.isLoading}
+      className="rounded-md p-1.5 text-red-600 hover:bg-red-50 disabled:opacity-40"
+      title={title}
+    >
+      <Trash2 size={16} />
+    </button>
+  );
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Pricing</h1>
+      </div>
+
+      {mutationError && (
+        <div className="mb-6 rounded-md bg-red-100 p-3 text-red-700">{mutationError.message}</div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {/* Exchange rates */}
+        <div className="rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-1 text-lg font-semibold">Exchange Rates</h2>
+          <p className="mb-4 text-sm text-gray-600">
+            Units of each currency per 1 {reference}. Shoppers see prices converted at these rates, and orders are
+            priced at the rate on the day they are placed.
+          </p>
+          <table className="mb-4 min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="text-left text-gray-600">
+              <tr>
+                <th className="py-2 font-medium">Currency</th>
+                <th className="py-2 font-medium">Rate</th>
+                <th className="py-2 font-medium">Example</th>
+                <th className="py-2 font-medium">Updated</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rates.map(rate => (
+                <tr key={rate.currency}>
+                  <td className="py-2 font-medium">{rate.currency}</td>
+                  <td className="py-2">
+                    {rate.currency === reference ? (
+                      <span className="text-gray-500">1 (reference)</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min="0.00000001"
+                        step="any"
+                        defaultValue={rate.rate}
+                        onBlur={(e) => {
+                          const value = Number(e.target.value);
+                          if (value > 0 && value !== Number(rate.rate)) {
+                            updateMutation.mutate({
+                              table: 'exchange_rates',
+                              match: { currency: rate.currency },
+                              changes: { rate: value, updated_at: new Date().toISOString() },
+                            });
+                          }
+                        }}
+                        className="w-32 rounded-md border p-1.5"
+                        aria-label={`${rate.currency} rate`}
+                      />
+                    )}
+                  </td>
+                  <td className="py-2 text-gray-600">{formatMoney(100 * Number(rate.rate), rate.currency)}</td>
+                  <td className="py-2 text-gray-600">{new Date(rate.updated_at).toLocaleDateString()}</td>
+                  <td className="py-2 text-right">
+                    {rate.currency !== reference &&
+                      deleteButton(() => confirmDelete('exchange_rates', { currency: rate.currency }, t('pricing.confirmDeleteCurrency', { currency: rate.currency })), 'Delete currency')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <form
+            onSubmit={handleAdd('exchange_rates', values => ({ ...values, currency: String(values.currency).toUpperCase() }))}
+            className="grid grid-cols-3 gap-4"
+          >
+            <div>
+              <label className={labelClass}>Currency</label>
+              <input name="currency" required pattern="[A-Za-z]{3}" maxLength={3} placeholder="e.g., EUR" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Rate</label>
+              <input name="rate" type="number" min="0.00000001" step="any" required className={inputClass} />
+            </div>
+            <div className="flex items-end">{addButton('Add Currency')}</div>
+          </form>
+        </div>
+
+        {/* Tax classes */}
+        <div className="rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-1 text-lg font-semibold">Tax Classes</h2>
+          <p className="mb-4 text-sm text-gray-600">
+            Prices are entered without tax. Checkout adds each part's tax class rate, and orders keep the rate they were
+            placed at.
+          </p>
+          <table className="mb-4 min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="text-left text-gray-600">
+              <tr>
+                <th className="py-2 font-medium">Name</th>
+                <th className="py-2 font-medium">Code</th>
+                <th className="py-2 font-medium">Rate (%)</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {taxClasses.map(taxClass => (
+                <tr key={taxClass.code}>
+                  <td className="py-2">{taxClass.name}</td>
+                  <td className="py-2 text-gray-500">{taxClass.code}</td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      defaultValue={taxClass.rate}
+                      onBlur={(e) => {
+                        const value = Number(e.target.value);
+                        if (e.target.value !== '' && value >= 0 && value <= 100 && value !== Number(taxClass.rate)) {
+                          updateMutation.mutate({ table: 'tax_classes', match: { code: taxClass.code }, changes: { rate: value } });
+                        }
+                      }}
+                      className="w-24 rounded-md border p-1.5"
+                      aria-label={`${taxClass.name} rate`}
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    {deleteButton(() => confirmDelete('tax_classes', { code: taxClass.code }, t('pricing.confirmDeleteTaxClass', { name: taxClass.name })), 'Delete tax class')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <form
+            onSubmit={handleAdd('tax_classes', values => ({ ...values, sort_order: taxClasses.length + 1 }))}
+            className="grid grid-cols-3 gap-4"
+          >
+            <div>
+              <label className={labelClass}>Code</label>
+              <input name="code" required pattern="[a-z0-9_]+" placeholder="e.g., zero" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Name</label>
+              <input name="name" required className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Rate (%)</label>
+              <input name="rate" type="number" min="0" max="100" step="0.01" defaultValue="0" required className={inputClass} />
+            </div>
+            <div className="col-span-3">{addButton('Add Tax Class')}</div>
+          </form>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default PricingSettingsPage;
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Provider } from '@supabase/supabase-js';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+import {
+  MIN_PASSWORD_LENGTH,
+  PHONE_PATTERN,
+  PROFILE_LIMITS,
+  fetchProfile,
+  providerLabel,
+  updatePassword,
+  updateProfile,
+} from '../lib/auth';
+import type { ProfileFields } from '../lib/auth';
+import type { Profile } from '../types';
+
+const EMPTY_FIELDS = { full_name: '', shop_name: '', phone: '' };
+
+function ProfilePage() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+  const { user, role, passwordRecovery, endPasswordRecovery } = useAuth();
+  const userId = user!.id;
+  const [fields, setFields] = useState(EMPTY_FIELDS);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  // Fetch the user's profile
+  const { data: profile, isLoading, error } = useQuery<Profile, Error>({
+    queryKey: ['profile', userId],
+    queryFn: () => fetchProfile(userId),
+  });
+
+  useEffect(() => {
+    if (profile) {
+      setFields({ full_name: profile.full_name ?? '', shop_name: profile.shop_name ?? '', phone: profile.phone ?? '' });
+    }
+  }, [profile]);
+
+  const fieldErrors = {
+    full_name: fields.full_name.trim().length > PROFILE_LIMITS.fullName
+      ? t('profile.tooLong', { field: t('profile.displayName'), max: PROFILE_LIMITS.fullName })
+      : null,
+    shop_name: fields.shop_name.trim().length > PROFILE_LIMITS.shopName
+      ? t('profile.tooLong', { field: t('profile.shopName'), max: PROFILE_LIMITS.shopName })
+      : null,
+    phone: fields.phone.trim() && !PHONE_PATTERN.test(fields.phone.trim()) ? t('profile.phoneInvalid') : null,
+  };
+  const hasFieldErrors = Object.values(fieldErrors).some(Boolean);
+
+  const passwordError =
+    password && password.length < MIN_PASSWORD_LENGTH
+      ? t('auth.passwordTooShort', { min: MIN_PASSWORD_LENGTH })
+      : confirmPassword && confirmPassword !== password
+        ? t('profile.passwordMismatch')
+        : null;
+
+  const saveProfileMutation = useMutation<Profile, Error, ProfileFields>({
+    mutationFn: (values) => updateProfile(userId, values),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['profile', userId], saved);
+      queryClient.invalidateQueries(['profiles']);
+    },
+  });
+
+  const passwordMutation = useMutation<void, Error>({
+    mutationFn: () => updatePassword(password),
+    onSuccess: () => {
+      setPassword('');
+      setConfirmPassword('');
+      endPasswordRecovery();
+    },
+  });
+
+  const signInMethods = [...new Set((user?.identities ?? []).map(identity => identity.provider))]
+    .map(provider => (provider === 'email' ? t('profile.email') : providerLabel(provider as Provider)));
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="animate-spin text-blue-500" size={32} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-red-100 p-3 text-red-700">
+        {t('profile.loadError', { message: error.message })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">{t('profile.title')}</h1>
+
+      <div className="rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold">{t('profile.details')}</h2>
+        <dl className="mb-4 grid grid-cols-1 gap-4 text-sm md:grid-cols-2">
+          <div>
+            <dt className="text-gray-500">{t('profile.email')}</dt>
+            <dd className="text-gray-900">{profile?.email ?? user?.email}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t('profile.role')}</dt>
+            <dd className="text-gray-900">{t(`role.${role}`)}</dd>
+          </div>
+        </dl>
+        {signInMethods.length > 0 && (
+          <p className="mb-6 text-sm text-gray-600">
+            {t('profile.signInMethods', { methods: signInMethods.join(', ') })}
+          </p>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveProfileMutation.mutate(fields);
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            {([
+              ['full_name', t('profile.displayName'), 'name'],
+              ['shop_name', t('profile.shopName'), 'organization'],
+              ['phone', t('profile.phone'), 'tel'],
+            ] as const).map(([field, label, autoComplete]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  type={field === 'phone' ? 'tel' : 'text'}
+                  value={fields[field]}
+                  onChange={(e) => {
+                    setFields(prev => ({ ...prev, [field]: e.target.value }));
+                    saveProfileMutation.reset();
+                  }}
+                  autoComplete={autoComplete}
+                  className={`w-full rounded-md border p-2 ${fieldErrors[field] ? 'border-red-500' : ''}`}
+                />
+                {fieldErrors[field] && <p className="mt-1 text-sm text-red-600">{fieldErrors[field]}</p>}
+              </div>
+            ))}
+          </div>
+
+          {saveProfileMutation.error && (
+            <div className="rounded-md bg-red-100 p-3 text-red-700">{saveProfileMutation.error.message}</div>
+          )}
+          {saveProfileMutation.isSuccess && (
+            <div className="rounded-md bg-green-100 p-3 text-green-700">{t('profile.saved')}</div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saveProfileMutation.isLoading || hasFieldErrors}
+            className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+          >
+            {saveProfileMutation.isLoading && <Loader2 className="animate-spin" size={16} />}
+            {t('profile.save')}
+          </button>
+        </form>
+      </div>
+
+      <div className="rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold">{t('profile.password')}</h2>
+        {passwordRecovery ? (
+          <div className="mb-4 rounded-md bg-amber-50 p-3 text-sm text-amber-800">{t('profile.recovery')}</div>
+        ) : (
+          <p className="mb-4 text-sm text-gray-600">{t('profile.passwordIntro')}</p>
+        )}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            passwordMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('profile.newPassword')}</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+                className="w-full rounded-md border p-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('profile.confirmPassword')}</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+                className="w-full rounded-md border p-2"
+              />
+            </div>
+          </div>
+
+          {(passwordError || passwordMutation.error) && (
+            <div className="rounded-md bg-red-100 p-3 text-red-700">{passwordError ?? passwordMutation.error?.message}</div>
+          )}
+          {passwordMutation.isSuccess && (
+            <div className="rounded-md bg-green-100 p-3 text-green-700">{t('profile.passwordSaved')}</div>
+          )}
+
+          <button
+            type="submit"
+            disabled={passwordMutation.isLoading || !!passwordError || !password || password !== confirmPassword}
+            className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+          >
+            {passwordMutation.isLoading && <Loader2 className="animate-spin" size={16} />}
+            {t('profile.savePassword')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default ProfilePage;
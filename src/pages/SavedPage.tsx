@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Session } from '@supabase/supabase-js';
+import { Bookmark, Check, Copy, Link2, Link2Off, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  addSavedItemToList,
+  createSavedList,
+  deleteSavedList,
+  fetchSavedItems,
+  fetchSavedLists,
+  moveSavedItem,
+  removeSavedItem,
+  setSavedListShared,
+  sharedListUrl,
+  unsavePart,
+  updateSavedList,
+} from '../lib/savedItems';
+import type { SavedPart } from '../lib/savedItems';
+import SavedPartCard from '../components/SavedPartCard';
+import { useI18n } from '../hooks/useI18n';
+import type { SavedList } from '../types';
+
+type SavedPageProps = {
+  session: Session;
+};
+
+// ?list= holds a list id, or 'unsorted' for parts not filed under one
+const UNSORTED = 'unsorted';
+
+function SavedPage({ session }: SavedPageProps) {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+  const userId = session.user.id;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selected = searchParams.get('list');
+  const [newListName, setNewListName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Fetch saved parts with their details, newest first
+  const { data: items = [], isLoading: itemsLoading, error: itemsError } = useQuery<SavedPart[], Error>({
+    queryKey: ['savedItems', userId],
+    queryFn: () => fetchSavedItems(userId),
+  });
+
+  // Fetch the user's lists
+  const { data: lists = [], error: listsError } = useQuery<SavedList[], Error>({
+    queryKey: ['savedLists', userId],
+    queryFn: () => fetchSavedLists(userId),
+  });
+
+  const currentList = lists.find(list => list.id === selected) ?? null;
+  // A part saved in several lists has a row for each; "All saved" shows it once
+  const savedParts = items.filter((item, index) => items.findIndex(other => other.part_id === item.part_id) === index);
+  const visibleItems = !selected
+    ? savedParts
+    : items.filter(item => (selected === UNSORTED ? !item.list_id : item.list_id === selected));
+  const listsOf = (partId: string) => items.filter(item => item.part_id === partId).map(item => item.list_id);
+
+  const selectList = (list: string | null) => {
+    setRenaming(null);
+    setCopied(false);
+    setSearchParams(list ? { list } : {});
+  };
+
+  const invalidateSaved = () => {
+    queryClient.invalidateQueries(['savedItems', userId]);
+    queryClient.invalidateQueries(['savedParts', userId]);
+  };
+
+  const createListMutation = useMutation<SavedList, Error>({
+    mutationFn: () => {
+      if (!newListName.trim()) throw new Error('Enter a list name');
+      return createSavedList(newListName);
+    },
+    onSuccess: (list) => {
+      setNewListName('');
+      queryClient.invalidateQueries(['savedLists', userId]);
+      selectList(list.id);
+    },
+  });
+
+  const updateListMutation = useMutation<SavedList, Error, { listId: string; name?: string; shared?: boolean }>({
+    mutationFn: ({ listId, name, shared }) =>
+      shared !== undefined ? setSavedListShared(listId, shared) : updateSavedList(listId, { name: name?.trim() }),
+    onSuccess: () => {
+      setRenaming(null);
+      setCopied(false);
+      queryClient.invalidateQueries(['savedLists', userId]);
+    },
+  });
+
+  const deleteListMutation = useMutation<void, Error, string>({
+    mutationFn: deleteSavedList,
+    onSuccess: () => {
+      selectList(null);
+      queryClient.invalidateQueries(['savedLists', userId]);
+      invalidateSaved();
+    },
+  });
+
+  const moveMutation = useMutation<void, Error, { itemId: string; listId: string | null }>({
+    mutationFn: ({ itemId, listId }) => moveSavedItem(itemId, listId),
+    onSuccess: invalidateSaved,
+  });
+
+  const addToListMutation = useMutation<void, Error, { partId: string; listId: string }>({
+    mutationFn: ({ partId, listId }) => addSavedItemToList(userId, partId, listId),
+    onSuccess: invalidateSaved,
+  });
+
+  const removeMutation = useMutation<void, Error, string>({
+    mutationFn: removeSavedItem,
+    onSuccess: invalidateSaved,
+  });
+
+  const unsaveMutation = useMutation<void, Error, string>({
+    mutationFn: (partId) => unsavePart(userId, partId),
+    onSuccess: invalidateSaved,
+  });
+
+  const copyShareLink = async (shareToken: string) => {
+    await navigator.clipboard.writeText(sharedListUrl(shareToken));
+    setCopied(true);
+  };
+
+  const mutationError = createListMutation.error || updateListMutation.error || deleteListMutation.error
+    || moveMutation.error || addToListMutation.error || removeMutation.error || unsaveMutation.error;
+
+  const listButton = (key: string | null, label: string, count: number) => (
+    <button
+      key={key ?? 'all'}
+      onClick={() => selectList(key)}
+      className={`flex w-full items-center justify-between rounded-md px-3 py-2 text-left text-sm ${
+        selected === key ? 'bg-blue-50 font-medium text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+      }`}
+    >
+      <span className="truncate">{label}</span>
+      <span className="text-xs text-gray-500">{count}</span>
+    </button>
+  );
+
+  return (
+    <>
+      <h1 className="mb-8 text-2xl font-bold">Saved Parts</h1>
+
+      {(itemsError || listsError || mutationError) && (
+        <div className="mb-4 rounded-md bg-red-100 p-3 text-red-700">
+          {(itemsError || listsError || mutationError)?.message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-4">
+        <aside className="space-y-4">
+          <div className="space-y-1 rounded-lg bg-white p-3 shadow">
+            {listButton(null, 'All saved', savedParts.length)}
+            {listButton(UNSORTED, 'Unsorted', items.filter(item => !item.list_id).length)}
+            {lists.map(list =>
+              listButton(list.id, list.name, items.filter(item => item.list_id === list.id).length)
+            )}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createListMutation.mutate();
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="New list"
+              className="w-full rounded-md border p-2 text-sm"
+              maxLength={100}
+            />
+            <button
+              type="submit"
+              disabled={createListMutation.isLoading}
+              className="rounded-md bg-blue-600 px-3 text-white hover:bg-blue-700 disabled:opacity-50"
+              title="Create list"
+            >
+              <Plus size={16} />
+            </button>
+          </form>
+        </aside>
+
+        <section className="md:col-span-3">
+          {currentList && (
+            <div className="mb-4 space-y-3 rounded-lg bg-white p-4 shadow">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                {renaming !== null ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      updateListMutation.mutate({ listId: currentList.id, name: renaming });
+                    }}
+                    className="flex gap-2"
+                  >
+                    <input
+                      type="text"
+                      value={renaming}
+                      onChange={(e) => setRenaming(e.target.value)}
+                      className="rounded-md border p-2 text-sm"
+                      maxLength={100}
+                      autoFocus
+                    />
+                    <button type="submit" className="rounded-md bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700">
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setRenaming(null)} className="text-sm text-gray-600 hover:text-gray-900">
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <h2 className="text-lg font-semibold">{currentList.name}</h2>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setRenaming(currentList.name)}
+                    className="flex items-center gap-1 rounded-md border px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Pencil size={14} />
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => updateListMutation.mutate({ listId: currentList.id, shared: !currentList.share_token })}
+                    disabled={updateListMutation.isLoading}
+                    className="flex items-center gap-1 rounded-md border px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {currentList.share_token ? <Link2Off size={14} /> : <Link2 size={14} />}
+                    {currentList.share_token ? 'Stop sharing' : 'Share'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(t('saved.confirmDeleteList', { name: currentList.name }))) deleteListMutation.mutate(currentList.id);
+                    }}
+                    className="flex items-center gap-1 rounded-md border border-red-200 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 size={14} />
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {currentList.share_token && (
+                <div className="flex items-center gap-2 rounded-md bg-blue-50 p-3 text-sm text-blue-800">
+                  <span className="min-w-0 flex-1 truncate">{sharedListUrl(currentList.share_token)}</span>
+                  <button
+                    onClick={() => copyShareLink(currentList.share_token!)}
+                    className="flex shrink-0 items-center gap-1 font-medium hover:text-blue-900"
+                  >
+                    {copied ? <Check size={14} /> : <Copy size={14} />}
+                    {copied ? 'Copied' : 'Copy link'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {itemsLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="animate-spin text-blue-500" size={24} />
+            </div>
+          ) : visibleItems.length === 0 ? (
+            <div className="rounded-lg bg-white p-12 text-center text-gray-500 shadow">
+              <Bookmark className="mx-auto mb-2 text-gray-300" size={32} />
+              {items.length === 0
+                ? 'Nothing saved yet. Use Save on a part to keep track of it here.'
+                : 'No saved parts in this list.'}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {visibleItems.map(item => {
+                const partLists = listsOf(item.part_id);
+                // "All saved" adds the part to more lists; a list view moves it between them
+                const controls = !selected ? (
+                  <div className="space-y-2 border-t pt-3">
+                    {partLists.some(Boolean) && (
+                      <p className="truncate text-xs text-gray-500">
+                        {lists.filter(list => partLists.includes(list.id)).map(list => list.name).join(', ')}
+                      </p>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          if (e.target.value) addToListMutation.mutate({ partId: item.part_id, listId: e.target.value });
+                        }}
+                        disabled={lists.every(list => partLists.includes(list.id))}
+                        className="min-w-0 flex-1 rounded-md border p-1.5 text-sm disabled:opacity-50"
+                      >
+                        <option value="">Add to list…</option>
+                        {lists.filter(list => !partLists.includes(list.id)).map(list => (
+                          <option key={list.id} value={list.id}>{list.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => unsaveMutation.mutate(item.part_id)}
+                        className="rounded-md p-1.5 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                        title="Remove from saved"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 border-t pt-3">
+                    <select
+                      value={item.list_id ?? ''}
+                      onChange={(e) => moveMutation.mutate({ itemId: item.id, listId: e.target.value || null })}
+                      className="min-w-0 flex-1 rounded-md border p-1.5 text-sm"
+                    >
+                      <option value="">Unsorted</option>
+                      {lists.map(list => (
+                        <option key={list.id} value={list.id}>{list.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => removeMutation.mutate(item.id)}
+                      className="rounded-md p-1.5 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                      title="Remove from this list"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                );
+
+                // The part was unpublished or deleted since it was saved
+                return item.part ? (
+                  <SavedPartCard key={item.id} part={item.part}>{controls}</SavedPartCard>
+                ) : (
+                  <div key={item.id} className="rounded-lg bg-white p-4 shadow">
+                    <p className="mb-3 text-sm text-gray-500">This part is no longer available.</p>
+                    {controls}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+    </>
+  );
+}
+
+export default SavedPage;
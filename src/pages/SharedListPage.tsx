@@ -0,0 +1,55 @@
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { fetchSharedList } from '../lib/savedItems';
+import SavedPartCard from '../components/SavedPartCard';
+
+function SharedListPage() {
+  const { token } = useParams<{ token: string }>();
+
+  // Fetch the shared list by its link token
+  const { data: list, isLoading, error } = useQuery({
+    queryKey: ['sharedList', token],
+    queryFn: () => fetchSharedList(token!),
+    enabled: !!token,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="animate-spin text-blue-500" size={32} />
+      </div>
+    );
+  }
+
+  if (error || !list) {
+    return (
+      <div className="rounded-md bg-red-100 p-3 text-red-700">
+        {error instanceof Error ? `Error loading list: ${error.message}` : 'This list is no longer shared.'}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold">{list.name}</h1>
+        <p className="mt-1 text-sm text-gray-600">A shared list of saved parts</p>
+      </div>
+
+      {list.parts.length === 0 ? (
+        <div className="rounded-lg bg-white p-12 text-center text-gray-500 shadow">
+          There are no parts in this list yet.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {list.parts.map(part => (
+            <SavedPartCard key={part.part_slug} part={part} />
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default SharedListPage;
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { SERVICE_LEVELS, fetchShippingConfig, serviceLevelLabel } from '../lib/shipping';
+import type { ShippingConfig } from '../lib/shipping';
+import { formatMoney } from '../lib/pricing';
+import { useI18n } from '../hooks/useI18n';
+
+type ShippingTable = 'shipping_boxes' | 'shipping_carriers' | 'shipping_zones' | 'shipping_rates';
+
+// Form inputs that hold numbers; everything else is sent as text
+const NUMBER_INPUTS = new Set([
+  'length_cm', 'width_cm', 'height_cm', 'max_weight_kg', 'tare_weight_kg', 'dim_divisor', 'price', 'min_days', 'max_days',
+]);
+
+const formValues = (form: HTMLFormElement) =>
+  Object.fromEntries(
+    Array.from(new FormData(form).entries()).map(([name, value]) =>
+      [name, NUMBER_INPUTS.has(name) ? Number(value) : String(value).trim()]
+    )
+  );
+
+const inputClass = 'w-full rounded-md border p-2';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+function ShippingSettingsPage() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+  const [carrierCode, setCarrierCode] = useState('');
+  const [zoneCode, setZoneCode] = useState('');
+
+  // Fetch boxes, carriers, zones and rates
+  const { data: config, isLoading, error } = useQuery<ShippingConfig, Error>({
+    queryKey: ['shippingConfig'],
+    queryFn: fetchShippingConfig,
+  });
+
+  const invalidateShipping = () => {
+    queryClient.invalidateQueries(['shippingConfig']);
+    queryClient.invalidateQueries(['shippingBoxes']);
+    queryClient.invalidateQueries(['shippingEstimate']);
+  };
+
+  const insertMutation = useMutation<void, Error, { table: ShippingTable; values: Record<string, unknown> }>({
+    mutationFn: async ({ table, values }) => {
+      const { error } = await supabase.from(table).insert(values);
+      if (error) throw error;
+    },
+    onSuccess: invalidateShipping
+  });
+
+  const updateMutation = useMutation<void, Error, { table: ShippingTable; match: Record<string, string>; changes: Record<string, unknown> }>({
+    mutationFn: async ({ table, match, changes }) => {
+      const { error } = await supabase.from(table).update(changes).match(match);
+      if (error) throw error;
+    },
+    onSuccess: invalidateShipping
+  });
+
+  const deleteMutation = useMutation<void, Error, { table: ShippingTable; match: Record<string, string> }>({
+    mutationFn: async ({ table, match }) => {
+      const { error } = await supabase.from(table).delete().match(match);
+      if (error) throw error;
+    },
+    onSuccess: invalidateShipping
+  });
+
+  const mutationError = insertMutation.error ?? updateMutation.error ?? deleteMutation.error;
+
+  const handleAdd = (table: ShippingTable, extra: Record<string, unknown> = {}) => (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    insertMutation.mutate({ table, values: { ...formValues(form), ...extra } }, { onSuccess: () => form.reset() });
+  };
+
+  const confirmDelete = (table: ShippingTable, match: Record<string, string>, message: string) => {
+    if (confirm(message)) deleteMutation.mutate({ table, match });
+  };
+
+  if (isLoading || !config) {
+    return (
+      <div className="flex justify-center p-12">
+        {error ? (
+          <div className="rounded-md bg-red-100 p-3 text-red-700">Error loading shipping settings: {error.message}</div>
+        ) : (
+          <Loader2 className="animate-spin text-blue-500" size={24} />
+        )}
+      </div>
+    );
+  }
+
+  const carrier = config.carriers.find(entry => entry.code === carrierCode) ?? config.carriers[0];
+  const zone = config.zones.find(entry => entry.code === zoneCode) ?? config.zones[0];
+  const rates = config.rates.filter(rate => rate.carrier_code === carrier?.code && rate.zone_code === zone?.code);
+
+  const addButton = (label: string) => (
+    <button
+      type="submit"
+      disabled={insertMutation.isLoading}
+      className="flex items-center justify-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+    >
+      <Plus size={16} />
+      {label}
+    </button>
+  );
+
+  const deleteButton = (onClick: () => void, title: string) => (
+    <button
+      onClick={onClick}
+      disabled={deleteMutation.isLoading}
+      className="rounded-md p-1.5 text-red-600 hover:bg-red-50 disabled:opacity-40"
+      title={title}
+    >
+      <Trash2 size={16} />
+    </button>
+  );
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Shipping</h1>
+      </div>
+
+      {mutationError && (
+        <div className="mb-6 rounded-md bg-red-100 p-3 text-red-700">{mutationError.message}</div>
+      )}
+
+      {/* Boxes */}
+      <div className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-1 text-lg font-semibold">Boxes</h2>
+        <p className="mb-4 text-sm text-gray-600">Inside dimensions. Estimates pack parts into the smallest active boxes they fit.</p>
+        <table className="mb-4 min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="text-left text-gray-600">
+            <tr>
+              <th className="py-2 font-medium">Name</th>
+              <th className="py-2 font-medium">Size (cm)</th>
+              <th className="py-2 font-medium">Max contents</th>
+              <th className="py-2 font-medium">Empty weight</th>
+              <th className="py-2 font-medium">Active</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {config.boxes.map(box => (
+              <tr key={box.id}>
+                <td className="py-2">{box.name}</td>
+                <td className="py-2">{box.length_cm} × {box.width_cm} × {box.height_cm}</td>
+                <td className="py-2">{box.max_weight_kg} kg</td>
+                <td className="py-2">{box.tare_weight_kg} kg</td>
+                <td className="py-2">
+                  <input
+                    type="checkbox"
+                    checked={box.is_active}
+                    onChange={(e) => updateMutation.mutate({ table: 'shipping_boxes', match: { id: box.id }, changes: { is_active: e.target.checked } })}
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  {deleteButton(() => confirmDelete('shipping_boxes', { id: box.id }, t('shipping.confirmDeleteBox', { name: box.name })), 'Delete box')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <form onSubmit={handleAdd('shipping_boxes')} className="grid grid-cols-2 gap-4 md:grid-cols-7">
+          <div className="col-span-2 md:col-span-1">
+            <label className={labelClass}>Name</label>
+            <input name="name" required className={inputClass} />
+          </div>
+          {['length_cm', 'width_cm', 'height_cm'].map(name => (
+            <div key={name}>
+              <label className={labelClass}>{name[0].toUpperCase()} (cm)</label>
+              <input name={name} type="number" min="0.01" step="0.01" required className={inputClass} />
+            </div>
+          ))}
+          <div>
+            <label className={labelClass}>Max (kg)</label>
+            <input name="max_weight_kg" type="number" min="0.001" step="0.001" required className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Empty (kg)</label>
+            <input name="tare_weight_kg" type="number" min="0" step="0.001" defaultValue="0" className={inputClass} />
+          </div>
+          <div className="flex items-end">{addButton('Add Box')}</div>
+        </form>
+      </div>
+
+      {/* Carriers and zones */}
+      <div className="mb-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-1 text-lg font-semibold">Carriers</h2>
+          <p className="mb-4 text-sm text-gray-600">
+            The divisor turns box volume (cm³) into dimensional weight. Table carriers are priced from the rates below.
+          </p>
+          <ul className="mb-4 divide-y text-sm">
+            {config.carriers.map(entry => (
+              <li key={entry.code} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={entry.is_active}
+                  onChange={(e) => updateMutation.mutate({ table: 'shipping_carriers', match: { code: entry.code }, changes: { is_active: e.target.checked } })}
+                  title="Active"
+                />
+                <span className="flex-1">
+                  {entry.name} <span className="text-gray-500">({entry.code}, {entry.provider})</span>
+                </span>
+                <input
+                  type="number"
+                  min="1"
+                  defaultValue={entry.dim_divisor}
+                  onBlur={(e) => {
+                    const divisor = parseInt(e.target.value, 10);
+                    if (divisor > 0 && divisor !== entry.dim_divisor) {
+                      updateMutation.mutate({ table: 'shipping_carriers', match: { code: entry.code }, changes: { dim_divisor: divisor } });
+                    }
+                  }}
+                  className="w-24 rounded-md border p-1.5"
+                  aria-label="Dimensional weight divisor"
+                />
+                {deleteButton(() => confirmDelete('shipping_carriers', { code: entry.code }, t('shipping.confirmDeleteCarrier', { name: entry.name })), 'Delete carrier')}
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleAdd('shipping_carriers')} className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Code</label>
+              <input name="code" required pattern="[a-z0-9_]+" placeholder="e.g., ups" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Name</label>
+              <input name="name" required className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Divisor</label>
+              <input name="dim_divisor" type="number" min="1" defaultValue="5000" required className={inputClass} />
+            </div>
+            <div className="col-span-3">{addButton('Add Carrier')}</div>
+          </form>
+        </div>
+
+        <div className="rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-1 text-lg font-semibold">Zones</h2>
+          <p className="mb-4 text-sm text-gray-600">Buyers pick a zone for their estimate; each zone has its own rates.</p>
+          <ul className="mb-4 divide-y text-sm">
+            {config.zones.map(entry => (
+              <li key={entry.code} className="flex items-center justify-between py-2">
+                <span>{entry.name} <span className="text-gray-500">({entry.code})</span></span>
+                {deleteButton(() => confirmDelete('shipping_zones', { code: entry.code }, t('shipping.confirmDeleteZone', { name: entry.name })), 'Delete zone')}
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleAdd('shipping_zones')} className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Code</label>
+              <input name="code" required pattern="[a-z0-9_]+" placeholder="e.g., europe" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Name</label>
+              <input name="name" required className={inputClass} />
+            </div>
+            <div className="col-span-2">{addButton('Add Zone')}</div>
+          </form>
+        </div>
+      </div>
+
+      {/* Rate table */}
+      <div className="rounded-lg bg-white p-6 shadow">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="mb-1 text-lg font-semibold">Rates</h2>
+            <p className="text-sm text-gray-600">Each box pays the first bracket that covers its billable weight.</p>
+          </div>
+          <div className="flex gap-2">
+            <select value={carrier?.code ?? ''} onChange={(e) => setCarrierCode(e.target.value)} className="rounded-md border p-2 text-sm" aria-label="Carrier">
+              {config.carriers.map(entry => <option key={entry.code} value={entry.code}>{entry.name}</option>)}
+            </select>
+            <select value={zone?.code ?? ''} onChange={(e) => setZoneCode(e.target.value)} className="rounded-md border p-2 text-sm" aria-label="Zone">
+              {config.zones.map(entry => <option key={entry.code} value={entry.code}>{entry.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {carrier && zone ? (
+          <>
+            <table className="mb-4 min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="text-left text-gray-600">
+                <tr>
+                  <th className="py-2 font-medium">Service</th>
+                  <th className="py-2 font-medium">Up to</th>
+                  <th className="py-2 font-medium">Price</th>
+                  <th className="py-2 font-medium">Transit</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rates.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-gray-500">
+                      {carrier.name} has no {zone.name} rates.
+                    </td>
+                  </tr>
+                ) : (
+                  SERVICE_LEVELS.flatMap(level => rates.filter(rate => rate.service_level === level.value)).map(rate => (
+                    <tr key={rate.id}>
+                      <td className="py-2">{serviceLevelLabel(rate.service_level)}</td>
+                      <td className="py-2">{rate.max_weight_kg} kg</td>
+                      <td className="py-2">{formatMoney(rate.price, rate.currency)}</td>
+                      <td className="py-2">{rate.min_days}–{rate.max_days} days</td>
+                      <td className="py-2 text-right">
+                        {deleteButton(() => deleteMutation.mutate({ table: 'shipping_rates', match: { id: rate.id } }), 'Delete rate')}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+            <form
+              onSubmit={handleAdd('shipping_rates', { carrier_code: carrier.code, zone_code: zone.code })}
+              className="grid grid-cols-2 gap-4 md:grid-cols-7"
+            >
+              <div>
+                <label className={labelClass}>Service</label>
+                <select name="service_level" className={inputClass}>
+                  {SERVICE_LEVELS.map(level => <option key={level.value} value={level.value}>{level.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Up to (kg)</label>
+                <input name="max_weight_kg" type="number" min="0.001" step="0.001" required className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Price</label>
+                <input name="price" type="number" min="0" step="0.01" required className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Currency</label>
+                <input name="currency" defaultValue="USD" required pattern="[A-Z]{3}" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Min days</label>
+                <input name="min_days" type="number" min="0" defaultValue="1" required className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Max days</label>
+                <input name="max_days" type="number" min="0" defaultValue="5" required className={inputClass} />
+              </div>
+              <div className="flex items-end">{addButton('Add Rate')}</div>
+            </form>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Add a carrier and a zone first.</p>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default ShippingSettingsPage;
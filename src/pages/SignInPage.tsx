@@ -0,0 +1,28 @@
+import { useI18n } from '../hooks/useI18n';
+import LanguageSelect from '../components/LanguageSelect';
+import SignInForm from '../components/SignInForm';
+
+function SignInPage() {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="w-full max-w-md space-y-8 rounded-xl bg-white p-10 shadow-lg">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold tracking-tight text-gray-900">
+            {t('auth.title')}
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            {t('auth.subtitle')}
+          </p>
+        </div>
+        <SignInForm />
+        <div className="flex justify-center">
+          <LanguageSelect />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SignInPage;
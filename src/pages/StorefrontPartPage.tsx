@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Check, ImageOff, Loader2, ShieldCheck, Wrench } from 'lucide-react';
+import { usePageMetadata } from '../hooks/usePageMetadata';
+import { partImageUrl } from '../lib/partImages';
+import { formatYearRange } from '../lib/fitment';
+import { fetchWasPrice } from '../lib/pricing';
+import { localizePart } from '../lib/partTranslations';
+import { usePricing } from '../hooks/usePricing';
+import { useI18n } from '../hooks/useI18n';
+import CurrencySelect from '../components/CurrencySelect';
+import LanguageSelect from '../components/LanguageSelect';
+import {
+  fetchStorefrontPart,
+  productJsonLd,
+  storefrontImageUrls,
+  storefrontSummary,
+  storefrontUrl,
+} from '../lib/storefront';
+import type { StorefrontPart } from '../lib/storefront';
+
+type I18n = ReturnType<typeof useI18n>;
+
+// Spec rows with a value; zero and blank fields are left out
+const specRows = (part: StorefrontPart, { t, conditionLabel }: I18n) =>
+  [
+    { label: t('field.make'), value: part.make },
+    { label: t('field.model'), value: part.model },
+    { label: t('field.condition'), value: conditionLabel(part.condition) },
+    { label: t('field.category'), value: part.category?.category_name },
+    { label: t('field.color'), value: part.color },
+    { label: t('field.material'), value: part.material },
+    { label: t('store.weight'), value: part.weight_kg > 0 ? t('store.weightValue', { weight: part.weight_kg }) : '' },
+    { label: t('store.dimensions'), value: part.dimensions },
+    { label: t('store.warrantyLabel'), value: part.warranty_months > 0 ? t('store.warrantyMonths', { months: part.warranty_months }) : '' },
+    { label: t('store.partNumber'), value: part.part_slug },
+  ].filter(row => row.value);
+
+function StorefrontPartPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const [selectedImage, setSelectedImage] = useState(0);
+  const { displayPrice } = usePricing();
+  const i18n = useI18n();
+  const { t, locale, conditionLabel, viewTypeLabel } = i18n;
+
+  // Fetch the published part with its images, fitments and translations
+  const { data, isLoading, error } = useQuery<StorefrontPart | null, Error>({
+    queryKey: ['storefrontPart', slug],
+    queryFn: () => fetchStorefrontPart(slug!),
+    enabled: !!slug,
+  });
+
+  // Fetch the price before a recent reduction, if any
+  const { data: wasPrice } = useQuery<number | null, Error>({
+    queryKey: ['wasPrice', slug],
+    queryFn: () => fetchWasPrice(slug!),
+    enabled: !!data,
+  });
+
+  // Translated text where the part has it, the original elsewhere
+  const part = data && localizePart(data, data.translations, locale);
+
+  const url = slug ? storefrontUrl(slug) : '';
+  usePageMetadata(part ? {
+    title: `${part.itemname} | ${[part.make, part.model].filter(Boolean).join(' ')}`,
+    description: storefrontSummary(part),
+    url,
+    image: storefrontImageUrls(part)[0],
+    type: 'product',
+    jsonLd: productJsonLd(part, url),
+  } : null);
+
+  const images = part?.images ?? [];
+  const current = images[selectedImage] ?? images[0];
+  const available = part?.available_quantity ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="border-b bg-white">
+        <div className="container mx-auto flex items-center justify-between px-6 py-3">
+          <Link to="/" className="flex items-center gap-2 font-bold text-gray-900">
+            <Wrench className="text-blue-600" size={20} />
+            {t('app.name')}
+          </Link>
+          <div className="flex items-center gap-4">
+            <LanguageSelect />
+            <CurrencySelect />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-blue-500" size={32} />
+          </div>
+        ) : error ? (
+          <div className="rounded-md bg-red-100 p-3 text-red-700">
+            {t('store.loadError', { message: error.message })}
+          </div>
+        ) : !part ? (
+          <div className="rounded-lg bg-white p-12 text-center shadow">
+            <h1 className="text-xl font-semibold text-gray-900">{t('store.notFound')}</h1>
+            <p className="mt-2 text-sm text-gray-600">{t('store.notAvailable')}</p>
+          </div>
+        ) : (
+          <article className="space-y-6">
+            <div className="grid grid-cols-1 gap-6 rounded-lg bg-white p-6 shadow lg:grid-cols-2">
+              {/* Gallery */}
+              <div>
+                <div className="flex aspect-square items-center justify-center overflow-hidden rounded-md bg-gray-100 text-gray-400">
+                  {current ? (
+                    <img
+                      src={partImageUrl(current.path)}
+                      alt={current.alt_text || t('gallery.imageAlt', { name: part.itemname, view: viewTypeLabel(current.view_type) })}
+                      width={current.width ?? undefined}
+                      height={current.height ?? undefined}
+                      className="h-full w-full object-contain"
+                    />
+                  ) : part.itemurl ? (
+                    <img src={part.itemurl} alt={part.itemname} className="h-full w-full object-contain" />
+                  ) : (
+                    <ImageOff size={48} />
+                  )}
+                </div>
+                {current?.caption && <p className="mt-2 text-sm text-gray-600">{current.caption}</p>}
+                {images.length > 1 && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {images.map((image, index) => (
+                      <button
+                        key={image.id}
+                        onClick={() => setSelectedImage(index)}
+                        title={viewTypeLabel(image.view_type)}
+                        className={`h-16 w-16 overflow-hidden rounded-md border-2 ${
+                          image === current ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+                        }`}
+                      >
+                        <img
+                          src={partImageUrl(image.thumbnail_path ?? image.path)}
+                          alt={image.alt_text || t('gallery.imageAlt', { name: part.itemname, view: viewTypeLabel(image.view_type) })}
+                          className="h-full w-full object-cover"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Summary */}
+              <div className="space-y-4">
+                {part.category && (
+                  <div className="text-xs uppercase tracking-wide text-gray-500">{part.category.category_name}</div>
+                )}
+                <h1 className="text-3xl font-bold text-gray-900">{part.itemname}</h1>
+                <p className="text-gray-600">
+                  {[part.make, part.model].filter(Boolean).join(' ')} · {conditionLabel(part.condition)}
+                </p>
+                <div className="flex items-baseline gap-4">
+                  <span className={`text-3xl font-bold ${wasPrice ? 'text-red-700' : 'text-gray-900'}`}>
+                    {displayPrice(part.price, part.currency)}
+                  </span>
+                  {wasPrice && (
+                    <span className="text-lg text-gray-500">
+                      {t('store.was')} <s>{displayPrice(wasPrice, part.currency)}</s>
+                    </span>
+                  )}
+                  <span className={`text-sm font-medium ${available > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                    {available > 0 ? t('store.inStock', { count: available }) : t('store.outOfStock')}
+                  </span>
+                </div>
+                {part.warranty_months > 0 && (
+                  <p className="flex items-center gap-2 text-sm text-gray-700">
+                    <ShieldCheck size={16} className="text-blue-600" />
+                    {t('store.warranty', { months: part.warranty_months })}
+                  </p>
+                )}
+                {part.key_features.length > 0 && (
+                  <ul className="space-y-1.5">
+                    {part.key_features.map(feature => (
+                      <li key={feature} className="flex items-start gap-2 text-sm text-gray-700">
+                        <Check size={16} className="mt-0.5 shrink-0 text-green-600" />
+                        {feature}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <section className="rounded-lg bg-white p-6 shadow">
+                <h2 className="mb-4 text-lg font-semibold">{t('store.specifications')}</h2>
+                <table className="w-full text-sm">
+                  <tbody className="divide-y">
+                    {specRows(part, i18n).map(row => (
+                      <tr key={row.label}>
+                        <th className="w-40 py-2 pr-4 text-left font-medium text-gray-600">{row.label}</th>
+                        <td className="py-2 text-gray-900">{row.value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              <section className="rounded-lg bg-white p-6 shadow">
+                <h2 className="mb-4 text-lg font-semibold">{t('store.fitment')}</h2>
+                {part.fitments.length === 0 ? (
+                  <p className="text-sm text-gray-500">{t('store.noFitment')}</p>
+                ) : (
+                  <table className="w-full text-left text-sm">
+                    <thead className="text-gray-600">
+                      <tr>
+                        <th className="pb-2 font-medium">{t('field.make')}</th>
+                        <th className="pb-2 font-medium">{t('field.model')}</th>
+                        <th className="pb-2 font-medium">{t('store.years')}</th>
+                        <th className="pb-2 font-medium">{t('store.trim')}</th>
+                        <th className="pb-2 font-medium">{t('store.engine')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {part.fitments.map((fitment, index) => (
+                        <tr key={index}>
+                          <td className="py-2">{fitment.make}</td>
+                          <td className="py-2">{fitment.model}</td>
+                          <td className="py-2">{formatYearRange(fitment)}</td>
+                          <td className="py-2 text-gray-600">{fitment.trim || '—'}</td>
+                          <td className="py-2 text-gray-600">{fitment.engine || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+            </div>
+
+            {part.description && (
+              <section className="rounded-lg bg-white p-6 shadow">
+                <h2 className="mb-4 text-lg font-semibold">{t('store.description')}</h2>
+                <p className="whitespace-pre-line text-gray-700">{part.description}</p>
+              </section>
+            )}
+          </article>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default StorefrontPartPage;
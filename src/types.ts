@@ -0,0 +1,311 @@
+// Type definitions
+export type PartImage = {
+  id: string;
+  part_slug: string;
+  path: string;
+  // Null for images uploaded before thumbnails were generated
+  thumbnail_path: string | null;
+  view_type: string;
+  sort_order: number;
+  caption: string;
+  alt_text: string;
+  is_primary: boolean;
+  width: number | null;
+  height: number | null;
+  size_bytes: number | null;
+  // Hex SHA-256 of the stored full-size file
+  content_hash: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+};
+
+// The primary image embedded in list queries; see PRIMARY_IMAGE_SELECT
+export type ListImage = Pick<PartImage, 'path' | 'thumbnail_path' | 'alt_text'>;
+
+// An entry in the persistent upload queue (src/lib/uploadQueue.ts)
+export type UploadingImage = {
+  id: string;
+  partSlug: string;
+  fileName: string;
+  // waiting: offline, or backing off before the next attempt
+  status: 'queued' | 'processing' | 'uploading' | 'waiting' | 'failed';
+  progress: number;
+  attempts: number;
+  // Waiting for the connection to return rather than for a retry
+  offline?: boolean;
+  error?: string;
+};
+
+export type AppRole = 'admin' | 'editor' | 'buyer';
+
+export type Profile = {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  shop_name: string | null;
+  phone: string | null;
+  role: AppRole;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PartCategory = {
+  id: string;
+  category_name: string;
+  icon_url: string | null;
+  parent_id: string | null;
+  sort_order: number;
+};
+
+export type PartData = {
+  part_slug: string;
+  itemname: string;
+  make: string;
+  model: string;
+  condition: string;
+  description: string;
+  price: number;
+  // ISO 4217 code the price is set in; see 20261019260000_pricing
+  currency: string;
+  tax_class: string;
+  stock_quantity: number;
+  category_id: string | null;
+  color: string;
+  key_features: string[];
+  weight_kg: number;
+  dimensions: string;
+  material: string;
+  warranty_months: number;
+  itemurl?: string;
+};
+
+export type PartFitment = {
+  id?: string;
+  make: string;
+  model: string;
+  year_start: number | null;
+  year_end: number | null;
+  trim: string | null;
+  engine: string | null;
+};
+
+// Customer-facing text in another language; blank fields fall back to the part's own
+export type PartTranslation = {
+  part_slug: string;
+  locale: string;
+  itemname: string;
+  description: string;
+  key_features: string[];
+  updated_at: string;
+};
+
+export type PartFormData = Omit<PartData, 'part_slug'>;
+
+// Editor state: numeric inputs hold their raw text until partSchema coerces it
+export type PartFormValues = {
+  [K in keyof PartFormData]: PartFormData[K] extends number ? string : PartFormData[K];
+};
+
+export type PartRow = PartData & {
+  owner_id: string | null;
+  is_published: boolean;
+  // Bumped on every change to an editable field; see 20261019190000_part_versions
+  version: number;
+  // Held for orders; stock_quantity minus this is available to sell
+  reserved_quantity: number;
+  // Generated from the two above; the only stock figure anon can read
+  available_quantity: number;
+  // Null uses the inventory dashboard's default
+  reorder_threshold: number | null;
+  updated_at: string;
+};
+
+// Unsaved editor state, autosaved to localStorage and part_drafts
+export type PartDraft = {
+  values: PartFormValues;
+  fitments: PartFitment[];
+  updatedAt: string;
+};
+
+// Someone else with the same part open, from Realtime presence
+export type PartViewer = {
+  userId: string;
+  email: string;
+  // Has unsaved changes
+  editing: boolean;
+  // Name of the form field they are in, if any
+  field: string | null;
+};
+
+export type StockMovementKind = 'receipt' | 'sale' | 'return' | 'adjustment' | 'reservation' | 'release';
+
+// One line of the stock ledger; see 20261019210000_stock_ledger
+export type StockMovement = {
+  id: string;
+  part_slug: string;
+  kind: StockMovementKind;
+  // Signed: sales and releases are negative
+  quantity: number;
+  reason: string;
+  reference: string | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+};
+
+// A named group of saved parts; see 20261019220000_saved_lists_notifications
+export type SavedList = {
+  id: string;
+  user_id: string;
+  name: string;
+  // Set while the list is shared by link
+  share_token: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SavedItem = {
+  id: string;
+  user_id: string;
+  part_id: string;
+  // Null for parts not filed under a list
+  list_id: string | null;
+  created_at: string;
+};
+
+// Written by the vehicle_parts_notify_savers trigger
+export type AppNotification = {
+  id: string;
+  user_id: string;
+  part_slug: string;
+  kind: 'price_drop' | 'back_in_stock';
+  data: { old_price?: number; new_price?: number; currency?: string; available?: number };
+  read_at: string | null;
+  created_at: string;
+};
+
+// A line in the signed-in user's cart
+export type CartItem = {
+  user_id: string;
+  part_slug: string;
+  quantity: number;
+  created_at: string;
+};
+
+export type OrderStatus = 'quote' | 'pending' | 'paid' | 'shipped' | 'returned' | 'cancelled';
+
+// See 20261019240000_orders; statuses change only through transition_order
+export type Order = {
+  id: string;
+  order_number: string;
+  customer_id: string | null;
+  customer_email: string | null;
+  status: OrderStatus;
+  subtotal: number;
+  tax_total: number;
+  currency: string;
+  notes: string;
+  payment_provider: string | null;
+  payment_reference: string | null;
+  payment_started_at: string | null;
+  created_at: string;
+  updated_at: string;
+  placed_at: string | null;
+  paid_at: string | null;
+  shipped_at: string | null;
+  returned_at: string | null;
+  cancelled_at: string | null;
+};
+
+// Name, price, warranty and tax as they were at checkout
+export type OrderItem = {
+  id: string;
+  order_id: string;
+  part_slug: string | null;
+  itemname: string;
+  unit_price: number;
+  quantity: number;
+  warranty_months: number;
+  tax_class: string | null;
+  // Percent
+  tax_rate: number;
+};
+
+// Inside dimensions, see 20261019250000_shipping
+export type ShippingBox = {
+  id: string;
+  name: string;
+  length_cm: number;
+  width_cm: number;
+  height_cm: number;
+  max_weight_kg: number;
+  tare_weight_kg: number;
+  is_active: boolean;
+};
+
+export type ShippingCarrier = {
+  code: string;
+  name: string;
+  // cm³ per kg of dimensional weight
+  dim_divisor: number;
+  provider: string;
+  is_active: boolean;
+};
+
+export type ShippingZone = {
+  code: string;
+  name: string;
+};
+
+export type ServiceLevel = 'economy' | 'standard' | 'express';
+
+export type ShippingRate = {
+  id: string;
+  carrier_code: string;
+  zone_code: string;
+  service_level: ServiceLevel;
+  max_weight_kg: number;
+  price: number;
+  currency: string;
+  min_days: number;
+  max_days: number;
+};
+
+// Units per unit of the reference currency, the one whose rate is 1
+export type ExchangeRate = {
+  currency: string;
+  rate: number;
+  updated_at: string;
+};
+
+export type TaxClass = {
+  code: string;
+  name: string;
+  // Percent, added to net prices at checkout
+  rate: number;
+  sort_order: number;
+};
+
+// Written by the vehicle_parts_record_price trigger
+export type PriceChange = {
+  id: string;
+  part_slug: string;
+  old_price: number | null;
+  old_currency: string | null;
+  new_price: number;
+  new_currency: string;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  changed_at: string;
+};
+
+export type PartRevision = {
+  id: string;
+  part_slug: string;
+  revision: number;
+  // The row as saved, without timestamps and itemurl
+  data: Partial<PartRow>;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  created_at: string;
+};
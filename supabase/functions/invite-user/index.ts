@@ -0,0 +1,72 @@
+// Invite a user by email and assign their role. Only admins may call this;
+// the service role key never leaves the function.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const ROLES = ['admin', 'editor', 'buyer'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // Check the caller's role against the database, not the JWT claim, so a
+  // demoted admin cannot keep inviting until their token expires.
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  const { data: { user }, error: userError } = await admin.auth.getUser(token);
+  if (userError || !user) {
+    return json({ error: 'Not signed in' }, 401);
+  }
+
+  const { data: caller } = await admin
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (caller?.role !== 'admin') {
+    return json({ error: 'Only admins can invite users' }, 403);
+  }
+
+  const { email, role, redirectTo } = await req.json().catch(() => ({}));
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return json({ error: 'Enter a valid email address' }, 400);
+  }
+  if (!ROLES.includes(role)) {
+    return json({ error: `Role must be one of ${ROLES.join(', ')}` }, 400);
+  }
+
+  const { data: invited, error: inviteError } = await admin.auth.admin.inviteUserByEmail(email.trim(), {
+    redirectTo: typeof redirectTo === 'string' ? redirectTo : undefined,
+  });
+  if (inviteError) {
+    return json({ error: inviteError.message }, 400);
+  }
+
+  // The auth trigger created a buyer profile; give it the requested role
+  const { data: profile, error: profileError } = await admin
+    .from('profiles')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('id', invited.user.id)
+    .select()
+    .single();
+
+  if (profileError) {
+    return json({ error: profileError.message }, 500);
+  }
+
+  return json({ profile });
+});
@@ -0,0 +1,119 @@
+// Pay for a pending order. The customer calls this with { orderId,
+// paymentMethod }; the charge goes through the configured provider and, once
+// it succeeds, the order is marked paid with the service role so customers
+// can never mark their own orders paid. PAYMENT_PROVIDER must be set; the
+// fake provider is only used when it is set to `fake`.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getPaymentProvider } from './providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A claim older than this belongs to an attempt that died; see
+// 20261019340000_order_payment_claims
+const PAYMENT_CLAIM_MINUTES = 15;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Fail closed: a deployment without a provider must not mark orders paid
+  const providerName = Deno.env.get('PAYMENT_PROVIDER');
+  if (!providerName) {
+    return json({ error: 'Payments are not configured' }, 500);
+  }
+  let provider;
+  try {
+    provider = getPaymentProvider(providerName);
+  } catch (error) {
+    return json({ error: (error as Error).message }, 500);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  const { data: { user }, error: userError } = await admin.auth.getUser(token);
+  if (userError || !user) {
+    return json({ error: 'Not signed in' }, 401);
+  }
+
+  const { orderId, paymentMethod } = await req.json().catch(() => ({}));
+  if (typeof orderId !== 'string' || typeof paymentMethod !== 'string') {
+    return json({ error: 'orderId and paymentMethod are required' }, 400);
+  }
+
+  const { data: order } = await admin
+    .from('orders')
+    .select('id, order_number, customer_id, customer_email, status, subtotal, tax_total, currency')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (!order || order.customer_id !== user.id) {
+    return json({ error: 'Order not found' }, 404);
+  }
+  if (order.status !== 'pending') {
+    return json({ error: `This order is ${order.status} and cannot be paid` }, 409);
+  }
+
+  // Claim the order in one statement, so a concurrent request for the same
+  // order finds the claim and stops before charging
+  const staleClaim = new Date(Date.now() - PAYMENT_CLAIM_MINUTES * 60_000).toISOString();
+  const { data: claimed, error: claimError } = await admin
+    .from('orders')
+    .update({ payment_started_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .eq('status', 'pending')
+    .or(`payment_started_at.is.null,payment_started_at.lt.${staleClaim}`)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    return json({ error: claimError.message }, 500);
+  }
+  if (!claimed) {
+    return json({ error: 'A payment for this order is already in progress' }, 409);
+  }
+
+  const result = await provider.charge({
+    orderId: order.id,
+    idempotencyKey: order.id,
+    orderNumber: order.order_number,
+    amount: Number(order.subtotal) + Number(order.tax_total),
+    currency: order.currency,
+    customerEmail: order.customer_email,
+    paymentMethod,
+  });
+
+  if (result.status === 'failed') {
+    await admin.from('orders').update({ payment_started_at: null }).eq('id', order.id);
+    return json({ error: result.message }, 402);
+  }
+  if (result.status === 'requires_action') {
+    return json({ status: result.status, redirectUrl: result.redirectUrl });
+  }
+
+  const { data: paid, error: paidError } = await admin.rpc('transition_order', {
+    p_order_id: order.id,
+    p_status: 'paid',
+    p_payment_provider: provider.name,
+    p_payment_reference: result.reference,
+  });
+
+  // The charge went through but the order could not be settled; staff need
+  // the reference to reconcile it
+  if (paidError) {
+    return json({ error: `Payment ${result.reference} succeeded but the order was not updated: ${paidError.message}` }, 500);
+  }
+
+  return json({ status: result.status, order: paid });
+});
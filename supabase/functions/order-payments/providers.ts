@@ -0,0 +1,56 @@
+// Payment providers the order-payments function can charge through. Pick one
+// with the PAYMENT_PROVIDER secret; set it to `fake` for local development
+// and tests. There is no default.
+
+export type PaymentRequest = {
+  orderId: string;
+  orderNumber: string;
+  // Providers must charge at most once per key; the function passes the order id
+  idempotencyKey: string;
+  // In the currency's major unit, e.g. 12.50
+  amount: number;
+  currency: string;
+  customerEmail: string | null;
+  // Provider-specific token from the checkout form
+  paymentMethod: string;
+};
+
+export type PaymentResult =
+  | { status: 'succeeded'; reference: string }
+  // The customer has to finish elsewhere (e.g. 3-D Secure); the provider's
+  // webhook settles the order later
+  | { status: 'requires_action'; reference: string; redirectUrl: string }
+  | { status: 'failed'; message: string };
+
+export interface PaymentProvider {
+  name: string;
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+}
+
+// Fake payment method tokens, in the style of card-network test numbers
+export const FAKE_PAYMENT_METHODS = {
+  approved: 'fake_approved',
+  declined: 'fake_declined',
+};
+
+// Approves every charge except the declined token, without moving money.
+// A repeated key gets the same reference back, as from a real provider.
+export const fakePaymentProvider: PaymentProvider = {
+  name: 'fake',
+  charge: async ({ paymentMethod, idempotencyKey }) => {
+    if (paymentMethod === FAKE_PAYMENT_METHODS.declined) {
+      return { status: 'failed', message: 'The card was declined' };
+    }
+    return { status: 'succeeded', reference: `fake_${idempotencyKey}` };
+  },
+};
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [fakePaymentProvider.name]: fakePaymentProvider,
+};
+
+export const getPaymentProvider = (name: string) => {
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown payment provider "${name}"`);
+  return provider;
+};
@@ -0,0 +1,116 @@
+// Bring the part_images index and the part-images bucket back in line:
+// delete files nothing references and rows whose file is gone. Call it as an
+// admin, or on a schedule with the service role key. Pass { "dryRun": true }
+// to only get the report. Files of uploads still waiting in a device's offline
+// queue are registered in part_image_uploads and left alone for 30 days.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BUCKET = 'part-images';
+const REMOVE_BATCH_SIZE = 100;
+// Keep in step with the pending window in part_image_reconcile_report
+const PENDING_UPLOAD_DAYS = 30;
+
+type ReportRow = {
+  kind: 'orphaned_object' | 'dangling_row';
+  part_slug: string;
+  path: string;
+  created_at: string;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+
+  // Scheduled runs use the service role key; people must be admins
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  if (token !== serviceRoleKey) {
+    const { data: { user } } = await admin.auth.getUser(token);
+    const { data: caller } = user
+      ? await admin.from('profiles').select('role').eq('id', user.id).maybeSingle()
+      : { data: null };
+
+    if (caller?.role !== 'admin') {
+      return json({ error: 'Only admins can reconcile part images' }, 403);
+    }
+  }
+
+  const { dryRun = false, minAgeHours = 24 } = await req.json().catch(() => ({}));
+
+  const { data, error } = await admin.rpc('part_image_reconcile_report', {
+    p_min_age: `${Number(minAgeHours) || 24} hours`,
+  });
+  if (error) {
+    return json({ error: error.message }, 500);
+  }
+
+  const report = (data ?? []) as ReportRow[];
+  const orphanedObjects = report.filter(row => row.kind === 'orphaned_object').map(row => row.path);
+  const danglingRows = report.filter(row => row.kind === 'dangling_row').map(row => row.path);
+
+  if (dryRun) {
+    return json({ dryRun, orphanedObjects, danglingRows });
+  }
+
+  for (let start = 0; start < orphanedObjects.length; start += REMOVE_BATCH_SIZE) {
+    const { error: removeError } = await admin.storage
+      .from(BUCKET)
+      .remove(orphanedObjects.slice(start, start + REMOVE_BATCH_SIZE));
+
+    if (removeError) return json({ error: removeError.message }, 500);
+  }
+
+  // Registrations past the pending window belong to abandoned uploads whose
+  // files were just reported as orphans
+  const { error: pendingError } = await admin
+    .from('part_image_uploads')
+    .delete()
+    .lt('created_at', new Date(Date.now() - PENDING_UPLOAD_DAYS * 86_400_000).toISOString());
+  if (pendingError) return json({ error: pendingError.message }, 500);
+
+  if (danglingRows.length) {
+    const { data: removed, error: deleteError } = await admin
+      .from('part_images')
+      .delete()
+      .in('path', danglingRows)
+      .select('part_slug, thumbnail_path, is_primary');
+
+    if (deleteError) return json({ error: deleteError.message }, 500);
+
+    const thumbnails = (removed ?? []).map(row => row.thumbnail_path).filter(Boolean);
+    if (thumbnails.length) await admin.storage.from(BUCKET).remove(thumbnails);
+
+    // Parts that lost their primary image fall back to the next one in the gallery
+    const slugs = [...new Set((removed ?? []).filter(row => row.is_primary).map(row => row.part_slug))];
+    for (const slug of slugs) {
+      const { data: next } = await admin
+        .from('part_images')
+        .select('id, path')
+        .eq('part_slug', slug)
+        .order('sort_order')
+        .limit(1)
+        .maybeSingle();
+
+      const itemurl = next ? admin.storage.from(BUCKET).getPublicUrl(next.path).data.publicUrl : null;
+      if (next) await admin.from('part_images').update({ is_primary: true }).eq('id', next.id);
+      await admin.from('vehicle_parts').update({ itemurl }).eq('part_slug', slug);
+    }
+  }
+
+  return json({ dryRun, orphanedObjects, danglingRows });
+});
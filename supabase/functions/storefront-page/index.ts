@@ -0,0 +1,195 @@
+// Serve the app shell for a storefront page (/p/:slug) with the part's title,
+// description, Open Graph tags and JSON-LD already in <head>, for crawlers and
+// link previews that do not run JavaScript. Point the site's host at it for
+// /p/* (e.g. a rewrite to /functions/v1/storefront-page/:slug on a custom
+// domain; the default functions domain serves HTML as plain text). SITE_URL is
+// the app's origin, where the built index.html is fetched from.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BUCKET = 'part-images';
+const SUMMARY_LENGTH = 160;
+
+// Anonymous visitors may only read these columns; see 20261019230000_storefront
+const PART_COLUMNS = `part_slug, itemname, make, model, condition, description, price, currency,
+  available_quantity, color, key_features, weight_kg, material, warranty_months, itemurl,
+  category:part_categories(category_name),
+  images:part_images(path, view_type, sort_order, is_primary),
+  fitments:part_fitments(make, model, year_start, year_end, trim, engine)`;
+
+type Fitment = {
+  make: string;
+  model: string;
+  year_start: number | null;
+  year_end: number | null;
+  trim: string | null;
+  engine: string | null;
+};
+
+type Part = {
+  part_slug: string;
+  itemname: string;
+  make: string;
+  model: string;
+  condition: string;
+  description: string;
+  price: number;
+  currency: string;
+  available_quantity: number;
+  color: string;
+  key_features: string[];
+  weight_kg: number;
+  material: string;
+  warranty_months: number;
+  itemurl: string | null;
+  category: { category_name: string } | null;
+  images: { path: string; view_type: string; sort_order: number; is_primary: boolean }[];
+  fitments: Fitment[];
+};
+
+// VIEW_TYPES in src/lib/parts.ts; images sort as in sortStorefrontImages
+const VIEW_TYPES = ['main', 'front', 'back', 'left', 'right', 'top', 'detail'];
+
+const ITEM_CONDITIONS: Record<string, string> = {
+  New: 'https://schema.org/NewCondition',
+  Refurbished: 'https://schema.org/RefurbishedCondition',
+  Used: 'https://schema.org/UsedCondition',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const summary = (part: Part, maxLength: number) => {
+  const text = (part.description || part.key_features.join('. ') || part.itemname).replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const yearRange = ({ year_start, year_end }: Fitment) => {
+  if (year_start === null && year_end === null) return 'All years';
+  if (year_start === null) return `Up to ${year_end}`;
+  if (year_end === null) return `${year_start}+`;
+  return year_start === year_end ? String(year_start) : `${year_start}–${year_end}`;
+};
+
+const currencyDecimals = (currency: string) => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+// Mirrors productJsonLd in src/lib/storefront.ts
+const productJsonLd = (part: Part, url: string, images: string[]) => ({
+  '@context': 'https://schema.org',
+  '@type': 'Product',
+  name: part.itemname,
+  description: summary(part, 5000),
+  sku: part.part_slug,
+  url,
+  image: images,
+  ...(part.category && { category: part.category.category_name }),
+  ...(part.color && { color: part.color }),
+  ...(part.material && { material: part.material }),
+  ...(part.weight_kg > 0 && {
+    weight: { '@type': 'QuantitativeValue', value: part.weight_kg, unitCode: 'KGM' },
+  }),
+  ...(part.fitments.length > 0 && {
+    isAccessoryOrSparePartFor: part.fitments.map(fitment => ({
+      '@type': 'Vehicle',
+      name: [fitment.make, fitment.model, yearRange(fitment), fitment.trim, fitment.engine].filter(Boolean).join(' '),
+    })),
+  }),
+  offers: {
+    '@type': 'Offer',
+    url,
+    price: Number(part.price).toFixed(currencyDecimals(part.currency)),
+    priceCurrency: part.currency,
+    itemCondition: ITEM_CONDITIONS[part.condition] ?? ITEM_CONDITIONS.New,
+    availability: part.available_quantity > 0 ? 'https://schema.org/InStock' : 'https://schema.org/OutOfStock',
+    ...(part.warranty_months > 0 && {
+      warranty: { '@type': 'WarrantyPromise', durationOfWarranty: { '@type': 'QuantitativeValue', value: part.warranty_months, unitCode: 'MON' } },
+    }),
+  },
+});
+
+// Tags carry data-prerendered so usePageMetadata can replace them once the app runs
+const metadataTags = (part: Part, url: string, images: string[]) => {
+  const title = `${part.itemname} | ${[part.make, part.model].filter(Boolean).join(' ')}`;
+  const description = summary(part, SUMMARY_LENGTH);
+  const meta = (attribute: 'name' | 'property', key: string, content?: string) =>
+    content ? `<meta ${attribute}="${key}" content="${escapeHtml(content)}" data-prerendered />` : '';
+
+  return {
+    title: `<title>${escapeHtml(title)}</title>`,
+    head: [
+      meta('name', 'description', description),
+      meta('property', 'og:title', title),
+      meta('property', 'og:description', description),
+      meta('property', 'og:type', 'product'),
+      meta('property', 'og:url', url),
+      meta('property', 'og:image', images[0]),
+      meta('name', 'twitter:card', images[0] ? 'summary_large_image' : 'summary'),
+      `<link rel="canonical" href="${escapeHtml(url)}" data-prerendered />`,
+      // "<" is escaped so part text cannot close the script element
+      `<script type="application/ld+json" data-prerendered>${JSON.stringify(productJsonLd(part, url, images)).replace(/</g, '\\u003c')}</script>`,
+    ].filter(Boolean).join('\n    '),
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const siteUrl = Deno.env.get('SITE_URL')!.replace(/\/$/, '');
+  // The anon key, so only what any visitor may read is served
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!);
+
+  const slug = decodeURIComponent(new URL(req.url).pathname.split('/').filter(Boolean).pop() ?? '');
+
+  const shellResponse = await fetch(`${siteUrl}/index.html`);
+  if (!shellResponse.ok) {
+    return new Response('App shell unavailable', { status: 502 });
+  }
+  let html = await shellResponse.text();
+
+  const { data, error } = await supabase
+    .from('vehicle_parts')
+    .select(PART_COLUMNS)
+    .eq('part_slug', slug)
+    .eq('is_published', true)
+    .maybeSingle();
+
+  // The app renders its own "not found" and error states
+  const part = data as unknown as Part | null;
+  if (part) {
+    const url = `${siteUrl}/p/${encodeURIComponent(part.part_slug)}`;
+    const images = [...(part.images ?? [])]
+      .sort((a, b) =>
+        Number(b.is_primary) - Number(a.is_primary) ||
+        VIEW_TYPES.indexOf(a.view_type) - VIEW_TYPES.indexOf(b.view_type) ||
+        a.sort_order - b.sort_order
+      )
+      .map(image => `${supabaseUrl}/storage/v1/object/public/${BUCKET}/${image.path}`);
+    if (!images.length && part.itemurl) images.push(part.itemurl);
+
+    const tags = metadataTags({ ...part, fitments: part.fitments ?? [] }, url, images);
+    // Replacer functions, so "$" in part text is not read as a pattern
+    html = html
+      .replace(/<title>[^<]*<\/title>/, () => tags.title)
+      .replace('</head>', () => `  ${tags.head}\n  </head>`);
+  }
+
+  return new Response(html, {
+    status: error ? 500 : part ? 200 : 404,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+});
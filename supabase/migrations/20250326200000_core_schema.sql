@@ -0,0 +1,170 @@
+/*
+  # Core catalog schema
+
+  Versions the tables the app has always queried but that were only ever
+  created through the dashboard. Every statement is idempotent so the
+  migration can be marked as applied on the existing project with
+  `supabase migration repair --status applied 20250326200000`.
+
+  1. New Tables
+    - `part_categories`
+      - `id` (uuid, primary key)
+      - `category_name` (text, unique)
+      - `icon_url` (text, optional)
+    - `vehicle_parts`
+      - `part_slug` (text, primary key; also the storage folder of the part's images)
+      - Listing fields used by `PartData`: name, make, model, condition, description,
+        price, stock, category, color, key features, weight, dimensions, material,
+        warranty and main image URL
+      - `compatible_models` / `compatible_years` (text[], legacy free-text fitment)
+      - `created_at`, `updated_at`
+    - `saved_items`
+      - `user_id` references `auth.users`
+      - `part_id` references `vehicle_parts.part_slug`
+      - Unique per (`user_id`, `part_id`)
+
+  2. Indexes
+    - Foreign keys, plus make/model and updated_at for the parts list and catalog
+
+  3. Storage
+    - Public `part-images` bucket for listing photos
+
+  4. Security
+    - Enable RLS on all three tables
+    - Categories are readable by everyone; authenticated users manage them
+    - Authenticated users can read and manage parts
+    - Users can only see and change their own saved items
+    - Anyone can view part images; authenticated users upload and delete them
+*/
+
+CREATE TABLE IF NOT EXISTS part_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_name text NOT NULL UNIQUE,
+  icon_url text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS vehicle_parts (
+  part_slug text PRIMARY KEY,
+  itemname text NOT NULL,
+  make text NOT NULL DEFAULT '',
+  model text NOT NULL DEFAULT '',
+  condition text NOT NULL DEFAULT 'New',
+  description text NOT NULL DEFAULT '',
+  price numeric(12, 2) NOT NULL DEFAULT 0,
+  stock_quantity integer NOT NULL DEFAULT 0,
+  category_id uuid REFERENCES part_categories(id) ON DELETE SET NULL,
+  color text NOT NULL DEFAULT '',
+  key_features text[] NOT NULL DEFAULT '{}',
+  weight_kg numeric(10, 3) NOT NULL DEFAULT 0,
+  dimensions text NOT NULL DEFAULT '',
+  material text NOT NULL DEFAULT '',
+  warranty_months integer NOT NULL DEFAULT 0,
+  itemurl text,
+  compatible_models text[] NOT NULL DEFAULT '{}',
+  compatible_years text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS saved_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  part_id text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, part_id)
+);
+
+CREATE INDEX IF NOT EXISTS vehicle_parts_category_id_idx ON vehicle_parts (category_id);
+CREATE INDEX IF NOT EXISTS vehicle_parts_make_model_idx ON vehicle_parts (lower(make), lower(model));
+CREATE INDEX IF NOT EXISTS vehicle_parts_updated_at_idx ON vehicle_parts (updated_at DESC);
+CREATE INDEX IF NOT EXISTS saved_items_part_id_idx ON saved_items (part_id);
+
+-- Storage bucket for part photos; the editor links them with getPublicUrl
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('part-images', 'part-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE part_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vehicle_parts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view categories" ON part_categories;
+CREATE POLICY "Anyone can view categories"
+ON part_categories
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON part_categories;
+CREATE POLICY "Authenticated users can manage categories"
+ON part_categories
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view parts" ON vehicle_parts;
+CREATE POLICY "Authenticated users can view parts"
+ON vehicle_parts
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage parts" ON vehicle_parts;
+CREATE POLICY "Authenticated users can manage parts"
+ON vehicle_parts
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can view own saved items" ON saved_items;
+CREATE POLICY "Users can view own saved items"
+ON saved_items
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can save items" ON saved_items;
+CREATE POLICY "Users can save items"
+ON saved_items
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can remove own saved items" ON saved_items;
+CREATE POLICY "Users can remove own saved items"
+ON saved_items
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anyone can view part images" ON storage.objects;
+CREATE POLICY "Anyone can view part images"
+ON storage.objects
+FOR SELECT
+TO anon, authenticated
+USING (bucket_id = 'part-images');
+
+DROP POLICY IF EXISTS "Authenticated users can upload part images" ON storage.objects;
+CREATE POLICY "Authenticated users can upload part images"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'part-images');
+
+DROP POLICY IF EXISTS "Authenticated users can replace part images" ON storage.objects;
+CREATE POLICY "Authenticated users can replace part images"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'part-images')
+WITH CHECK (bucket_id = 'part-images');
+
+DROP POLICY IF EXISTS "Authenticated users can delete part images" ON storage.objects;
+CREATE POLICY "Authenticated users can delete part images"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'part-images');
@@ -0,0 +1,109 @@
+/*
+  # Structured vehicle fitment
+
+  1. New Tables
+    - `part_fitments`
+      - One row per make, model and year range a part fits
+      - Optional `trim` and `engine` narrow a fitment further
+      - `year_start` / `year_end` are null when the source data had no usable year
+
+  2. Functions
+    - `replace_part_fitments(part_slug, fitments)` swaps a part's fitment rows
+      in a single transaction so the editor never leaves a half-saved list
+
+  3. Data
+    - Existing `vehicle_parts.compatible_models` / `compatible_years` arrays are
+      expanded into one fitment per model and year range ("2015-2019" or "2018")
+    - The array columns are dropped afterwards
+
+  4. Security
+    - Enable RLS on `part_fitments`
+    - Authenticated users can read and manage fitments
+*/
+
+CREATE TABLE IF NOT EXISTS part_fitments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  make text NOT NULL CHECK (btrim(make) <> ''),
+  model text NOT NULL CHECK (btrim(model) <> ''),
+  year_start smallint CHECK (year_start BETWEEN 1886 AND 2100),
+  year_end smallint CHECK (year_end BETWEEN 1886 AND 2100),
+  trim text,
+  engine text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (year_start IS NULL OR year_end IS NULL OR year_end >= year_start)
+);
+
+CREATE INDEX IF NOT EXISTS part_fitments_part_slug_idx ON part_fitments (part_slug);
+CREATE INDEX IF NOT EXISTS part_fitments_vehicle_idx ON part_fitments (lower(make), lower(model), year_start, year_end);
+
+-- Migrate the legacy free-text arrays
+INSERT INTO part_fitments (part_slug, make, model, year_start, year_end)
+SELECT DISTINCT p.part_slug, btrim(p.make), btrim(m.model), y.year_start, y.year_end
+FROM vehicle_parts p
+CROSS JOIN LATERAL unnest(
+  CASE WHEN cardinality(coalesce(p.compatible_models, '{}')) = 0 THEN ARRAY[p.model] ELSE p.compatible_models END
+) AS m(model)
+CROSS JOIN LATERAL (
+  SELECT
+    least(coalesce(r[1], r[3])::smallint, coalesce(r[2], r[3])::smallint) AS year_start,
+    greatest(coalesce(r[1], r[3])::smallint, coalesce(r[2], r[3])::smallint) AS year_end
+  FROM unnest(p.compatible_years) AS year,
+       regexp_match(btrim(year), '^(\d{4})\s*[-–]\s*(\d{4})$|^(\d{4})$') AS r
+  WHERE r IS NOT NULL
+  UNION ALL
+  SELECT NULL, NULL
+  WHERE NOT EXISTS (
+    SELECT 1 FROM unnest(p.compatible_years) AS year
+    WHERE btrim(year) ~ '^\d{4}(\s*[-–]\s*\d{4})?$'
+  )
+) AS y
+WHERE (cardinality(coalesce(p.compatible_models, '{}')) > 0 OR cardinality(coalesce(p.compatible_years, '{}')) > 0)
+  AND btrim(coalesce(p.make, '')) <> ''
+  AND btrim(coalesce(m.model, '')) <> '';
+
+ALTER TABLE vehicle_parts
+  DROP COLUMN IF EXISTS compatible_models,
+  DROP COLUMN IF EXISTS compatible_years;
+
+-- Replace every fitment of a part with the given JSON array
+CREATE OR REPLACE FUNCTION replace_part_fitments(p_part_slug text, p_fitments jsonb)
+RETURNS SETOF part_fitments
+LANGUAGE sql
+AS $$
+  DELETE FROM part_fitments WHERE part_slug = p_part_slug;
+
+  INSERT INTO part_fitments (part_slug, make, model, year_start, year_end, trim, engine)
+  SELECT
+    p_part_slug,
+    btrim(f.make),
+    btrim(f.model),
+    f.year_start,
+    f.year_end,
+    nullif(btrim(f.trim), ''),
+    nullif(btrim(f.engine), '')
+  FROM jsonb_to_recordset(p_fitments) AS f(
+    make text,
+    model text,
+    year_start smallint,
+    year_end smallint,
+    trim text,
+    engine text
+  )
+  RETURNING *;
+$$;
+
+ALTER TABLE part_fitments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view fitments"
+ON part_fitments
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can manage fitments"
+ON part_fitments
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
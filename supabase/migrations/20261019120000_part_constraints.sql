@@ -0,0 +1,74 @@
+/*
+  # PartData validation constraints
+
+  Mirrors the rules in `src/lib/partSchema.ts` so rows written by any client
+  (editor, importer, SQL console) obey the same limits.
+
+  1. Functions
+    - `part_key_features_valid(text[])`: at most 20 features, each 1-200 characters
+    - `part_dimensions_valid(text)`: empty, or the canonical "L x W x H unit" form
+
+  2. Constraints on `vehicle_parts`
+    - Required text fields are non-blank and length limited
+    - `condition` is one of New, Refurbished, Used
+    - `price` is 0-1,000,000 with at most two decimals
+    - `stock_quantity` is a whole number 0-1,000,000
+    - `weight_kg` is 0-10,000
+    - `warranty_months` is a whole number 0-240
+
+  Constraints are added NOT VALID so existing rows are not rejected; they are
+  enforced for every insert and update from now on. Run
+  `ALTER TABLE vehicle_parts VALIDATE CONSTRAINT ...` once old rows are cleaned up.
+*/
+
+CREATE OR REPLACE FUNCTION part_key_features_valid(features text[])
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT features IS NULL OR (
+    cardinality(features) <= 20
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(features) AS feature
+      WHERE feature IS NULL OR btrim(feature) = '' OR char_length(feature) > 200
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION part_dimensions_valid(dimensions text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT dimensions IS NULL
+    OR dimensions = ''
+    OR dimensions ~ '^\d+(\.\d+)? x \d+(\.\d+)? x \d+(\.\d+)? (mm|cm|m|in)$';
+$$;
+
+ALTER TABLE vehicle_parts
+  ADD CONSTRAINT vehicle_parts_itemname_check
+    CHECK (btrim(itemname) <> '' AND char_length(itemname) <= 200) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_make_check
+    CHECK (btrim(make) <> '' AND char_length(make) <= 100) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_model_check
+    CHECK (btrim(model) <> '' AND char_length(model) <= 100) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_description_check
+    CHECK (btrim(description) <> '' AND char_length(description) <= 5000) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_color_check
+    CHECK (char_length(color) <= 50) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_material_check
+    CHECK (char_length(material) <= 100) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_condition_check
+    CHECK (condition IN ('New', 'Refurbished', 'Used')) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_price_check
+    CHECK (price >= 0 AND price <= 1000000 AND price = round(price::numeric, 2)) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_stock_quantity_check
+    CHECK (stock_quantity >= 0 AND stock_quantity <= 1000000 AND stock_quantity = trunc(stock_quantity)) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_weight_kg_check
+    CHECK (weight_kg >= 0 AND weight_kg <= 10000) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_warranty_months_check
+    CHECK (warranty_months >= 0 AND warranty_months <= 240 AND warranty_months = trunc(warranty_months)) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_key_features_check
+    CHECK (part_key_features_valid(key_features)) NOT VALID,
+  ADD CONSTRAINT vehicle_parts_dimensions_check
+    CHECK (part_dimensions_valid(dimensions)) NOT VALID;
@@ -0,0 +1,178 @@
+/*
+  # Part ownership and part-images storage policies
+
+  The original storage policies targeted the unused `everything-automotive.com`
+  bucket, and the `part-images` policies let any signed-in user overwrite any
+  part's photos. Parts now have an owner, and every write to a part, its
+  fitments or its storage folder (`<part_slug>/...`) is checked against it.
+
+  1. Changes to `vehicle_parts`
+    - `owner_id` (uuid, references `auth.users`, defaults to the inserting user)
+    - `is_published` (boolean, default false); existing parts stay published
+    - Existing parts are assigned to whoever first uploaded images for them;
+      parts without uploads keep a null owner and can only be changed with
+      the service role until an owner is set
+
+  2. Functions
+    - `can_edit_part(part_slug)`: the current user may change the part and its images
+    - `can_view_part(part_slug)`: the part is published or editable by the current user
+    Both are SECURITY DEFINER so storage policies can evaluate them for
+    anonymous visitors without exposing unpublished rows.
+
+  3. Security
+    - `vehicle_parts`: published parts are readable by everyone, drafts only by
+      their editors; users insert parts they own; only editors update or delete
+    - `part_fitments`: follow the visibility and editability of their part
+    - `storage.objects` in `part-images`: anyone can read objects of published
+      parts; only the part's editors can upload, replace or delete them
+    - The policies for the `everything-automotive.com` bucket are dropped
+
+  The bucket stays public so `itemurl` links keep working from the CDN; the
+  SELECT policy governs listing and API downloads.
+*/
+
+ALTER TABLE vehicle_parts
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  ADD COLUMN IF NOT EXISTS is_published boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS vehicle_parts_owner_id_idx ON vehicle_parts (owner_id);
+
+-- Parts listed before this migration were visible to everyone
+UPDATE vehicle_parts SET is_published = true;
+
+-- The earliest uploader of a part's images is the best record of who created it
+UPDATE vehicle_parts p
+SET owner_id = uploads.owner
+FROM (
+  SELECT DISTINCT ON ((storage.foldername(name))[1])
+    (storage.foldername(name))[1] AS part_slug,
+    owner
+  FROM storage.objects
+  WHERE bucket_id = 'part-images' AND owner IS NOT NULL
+  ORDER BY (storage.foldername(name))[1], created_at
+) AS uploads
+WHERE uploads.part_slug = p.part_slug
+  AND p.owner_id IS NULL;
+
+CREATE OR REPLACE FUNCTION can_edit_part(p_part_slug text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.vehicle_parts
+    WHERE part_slug = p_part_slug
+      AND owner_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_part(p_part_slug text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.vehicle_parts
+    WHERE part_slug = p_part_slug
+      AND is_published
+  ) OR public.can_edit_part(p_part_slug);
+$$;
+
+-- vehicle_parts
+DROP POLICY IF EXISTS "Authenticated users can view parts" ON vehicle_parts;
+DROP POLICY IF EXISTS "Authenticated users can manage parts" ON vehicle_parts;
+
+CREATE POLICY "Anyone can view published parts"
+ON vehicle_parts
+FOR SELECT
+TO anon, authenticated
+USING (is_published OR can_edit_part(part_slug));
+
+CREATE POLICY "Users can create own parts"
+ON vehicle_parts
+FOR INSERT
+TO authenticated
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Editors can update parts"
+ON vehicle_parts
+FOR UPDATE
+TO authenticated
+USING (can_edit_part(part_slug))
+WITH CHECK (owner_id IS NOT NULL);
+
+CREATE POLICY "Editors can delete parts"
+ON vehicle_parts
+FOR DELETE
+TO authenticated
+USING (can_edit_part(part_slug));
+
+-- part_fitments
+DROP POLICY IF EXISTS "Authenticated users can view fitments" ON part_fitments;
+DROP POLICY IF EXISTS "Authenticated users can manage fitments" ON part_fitments;
+
+CREATE POLICY "Anyone can view fitments of visible parts"
+ON part_fitments
+FOR SELECT
+TO anon, authenticated
+USING (can_view_part(part_slug));
+
+CREATE POLICY "Editors can manage fitments"
+ON part_fitments
+FOR ALL
+TO authenticated
+USING (can_edit_part(part_slug))
+WITH CHECK (can_edit_part(part_slug));
+
+-- storage.objects
+DROP POLICY IF EXISTS "Users can upload files to own folder" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view own files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own files" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can view part images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload part images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can replace part images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete part images" ON storage.objects;
+
+CREATE POLICY "Anyone can view images of visible parts"
+ON storage.objects
+FOR SELECT
+TO anon, authenticated
+USING (
+  bucket_id = 'part-images' AND
+  public.can_view_part((storage.foldername(name))[1])
+);
+
+CREATE POLICY "Editors can upload part images"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'part-images' AND
+  public.can_edit_part((storage.foldername(name))[1])
+);
+
+CREATE POLICY "Editors can replace part images"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'part-images' AND
+  public.can_edit_part((storage.foldername(name))[1])
+)
+WITH CHECK (
+  bucket_id = 'part-images' AND
+  public.can_edit_part((storage.foldername(name))[1])
+);
+
+CREATE POLICY "Editors can delete part images"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'part-images' AND
+  public.can_edit_part((storage.foldername(name))[1])
+);
@@ -0,0 +1,174 @@
+/*
+  # Roles: admin, inventory editor and buyer
+
+  Signing in with Google used to grant full write access. Every user now has
+  a profile with a role, checked by RLS and exposed to the client as the
+  `user_role` JWT claim.
+
+  1. New Types
+    - `app_role`: `admin`, `editor`, `buyer`
+
+  2. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, references `auth.users`)
+      - `email`, `full_name`
+      - `role` (app_role, default `buyer`)
+      - `created_at`, `updated_at`
+
+  3. Functions
+    - `handle_new_user()` trigger creates a buyer profile for every new auth user
+    - `current_app_role()` returns the signed-in user's role, null for visitors
+    - `custom_access_token_hook(event)` adds `user_role` to issued JWTs; enable
+      it under Authentication > Hooks (configured in `config.toml` locally)
+    - `can_edit_part(part_slug)` now lets admins edit every part and editors
+      only the parts they own
+
+  4. Data
+    - Existing users had full access, so they are backfilled as editors.
+      Promote the first admin with
+      `UPDATE profiles SET role = 'admin' WHERE email = '...';`
+
+  5. Security
+    - `profiles`: users read their own profile, admins read and update all
+    - `vehicle_parts`: only admins and editors can create parts
+    - `part_categories`: only admins can create, change or delete categories
+    - Storage and fitment policies follow `can_edit_part`, so they pick up the
+      role rules without changes
+*/
+
+DO $$
+BEGIN
+  CREATE TYPE app_role AS ENUM ('admin', 'editor', 'buyer');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  full_name text,
+  role app_role NOT NULL DEFAULT 'buyer',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS profiles_role_idx ON profiles (role);
+
+-- Role is never read from user metadata: clients can set that at sign-up
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+INSERT INTO profiles (id, email, full_name, role)
+SELECT id, email, raw_user_meta_data->>'full_name', 'editor'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION custom_access_token_hook(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  user_role public.app_role;
+BEGIN
+  SELECT role INTO user_role FROM public.profiles WHERE id = (event->>'user_id')::uuid;
+
+  RETURN jsonb_set(
+    event,
+    '{claims,user_role}',
+    to_jsonb(coalesce(user_role, 'buyer'::public.app_role))
+  );
+END;
+$$;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION custom_access_token_hook(jsonb) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION custom_access_token_hook(jsonb) FROM authenticated, anon, public;
+GRANT SELECT ON TABLE profiles TO supabase_auth_admin;
+
+CREATE OR REPLACE FUNCTION can_edit_part(p_part_slug text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.vehicle_parts
+    WHERE part_slug = p_part_slug
+      AND (
+        public.current_app_role() = 'admin'
+        OR (public.current_app_role() = 'editor' AND owner_id = auth.uid())
+      )
+  );
+$$;
+
+-- profiles
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own profile"
+ON profiles
+FOR SELECT
+TO authenticated
+USING (id = auth.uid() OR current_app_role() = 'admin');
+
+CREATE POLICY "Admins can update profiles"
+ON profiles
+FOR UPDATE
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
+
+CREATE POLICY "Auth can read profiles for token claims"
+ON profiles
+FOR SELECT
+TO supabase_auth_admin
+USING (true);
+
+-- vehicle_parts
+DROP POLICY IF EXISTS "Users can create own parts" ON vehicle_parts;
+
+CREATE POLICY "Editors can create own parts"
+ON vehicle_parts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  owner_id = auth.uid() AND
+  current_app_role() IN ('admin', 'editor')
+);
+
+-- part_categories
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON part_categories;
+
+CREATE POLICY "Admins can manage categories"
+ON part_categories
+FOR ALL
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
@@ -0,0 +1,116 @@
+/*
+  # Category hierarchy, ordering and icons
+
+  1. Changes to `part_categories`
+    - `parent_id` (uuid, references `part_categories`): nests categories,
+      e.g. Brakes > Pads; a parent with children cannot be deleted
+    - `sort_order` (integer): position among siblings
+    - `updated_at`
+    - A trigger rejects parents that would create a cycle
+
+  2. Changes to `vehicle_parts`
+    - `category_id` now uses ON DELETE RESTRICT, so a category that parts
+      still reference cannot be deleted
+
+  3. Functions
+    - `reorder_categories(ids)`: sets `sort_order` to each id's position in one statement
+
+  4. Storage
+    - Public `category-icons` bucket; objects live under `<category id>/`
+
+  5. Security
+    - Anyone can view category icons; only admins upload, replace or delete them
+*/
+
+ALTER TABLE part_categories
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES part_categories(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS part_categories_parent_id_idx ON part_categories (parent_id, sort_order);
+
+-- Start from the alphabetical order the app has shown so far
+UPDATE part_categories c
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (ORDER BY category_name) AS position
+  FROM part_categories
+) AS ordered
+WHERE ordered.id = c.id;
+
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM part_categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM part_categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be moved under itself or one of its subcategories'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS part_categories_check_parent ON part_categories;
+CREATE TRIGGER part_categories_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON part_categories
+  FOR EACH ROW EXECUTE FUNCTION check_category_parent();
+
+ALTER TABLE vehicle_parts
+  DROP CONSTRAINT IF EXISTS vehicle_parts_category_id_fkey,
+  ADD CONSTRAINT vehicle_parts_category_id_fkey
+    FOREIGN KEY (category_id) REFERENCES part_categories(id) ON DELETE RESTRICT;
+
+-- Runs with the caller's rights, so the admin-only category policies apply
+CREATE OR REPLACE FUNCTION reorder_categories(p_ids uuid[])
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE part_categories c
+  SET sort_order = ordered.position, updated_at = now()
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE c.id = ordered.id;
+$$;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('category-icons', 'category-icons', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view category icons"
+ON storage.objects
+FOR SELECT
+TO anon, authenticated
+USING (bucket_id = 'category-icons');
+
+CREATE POLICY "Admins can upload category icons"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'category-icons' AND public.current_app_role() = 'admin');
+
+CREATE POLICY "Admins can replace category icons"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'category-icons' AND public.current_app_role() = 'admin')
+WITH CHECK (bucket_id = 'category-icons' AND public.current_app_role() = 'admin');
+
+CREATE POLICY "Admins can delete category icons"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'category-icons' AND public.current_app_role() = 'admin');
@@ -0,0 +1,154 @@
+/*
+  # Part image gallery
+
+  Images used to be one file per fixed view folder in storage. They now have
+  a row each, so a part can hold any number of ordered, captioned photos.
+
+  1. New Tables
+    - `part_images`
+      - `part_slug` (references `vehicle_parts`)
+      - `path` / `thumbnail_path`: object names in the `part-images` bucket
+      - `view_type`: main, front, back, left, right, top or detail
+      - `sort_order`, `caption`, `alt_text`
+      - `is_primary`: the image shown in listings; at most one per part
+      - `width`, `height` of the full-size image when known
+
+  2. Functions
+    - `reorder_part_images(part_slug, ids)`: stores a new gallery order
+    - `set_primary_part_image(image_id, itemurl)`: moves the primary flag and
+      updates `vehicle_parts.itemurl` in one transaction
+
+  3. Data
+    - Existing `<slug>/<view>/full.<ext>` (with `thumb.<ext>`) and legacy
+      `<slug>/<view>_jpg/<file>` objects become rows in view order; the main
+      view becomes the primary image. The objects stay where they are.
+
+  4. Security
+    - Enable RLS on `part_images`
+    - Anyone can view images of visible parts; only the part's editors manage them
+*/
+
+CREATE TABLE IF NOT EXISTS part_images (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  path text NOT NULL UNIQUE,
+  thumbnail_path text,
+  view_type text NOT NULL DEFAULT 'detail'
+    CHECK (view_type IN ('main', 'front', 'back', 'left', 'right', 'top', 'detail')),
+  sort_order integer NOT NULL DEFAULT 0,
+  caption text NOT NULL DEFAULT '' CHECK (char_length(caption) <= 200),
+  alt_text text NOT NULL DEFAULT '' CHECK (char_length(alt_text) <= 200),
+  is_primary boolean NOT NULL DEFAULT false,
+  width integer,
+  height integer,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS part_images_part_slug_idx ON part_images (part_slug, sort_order);
+CREATE UNIQUE INDEX IF NOT EXISTS part_images_one_primary_idx ON part_images (part_slug) WHERE is_primary;
+
+-- Migrate the per-view storage folders
+WITH processed AS (
+  SELECT
+    split_part(o.name, '/', 1) AS part_slug,
+    split_part(o.name, '/', 2) AS view_type,
+    o.name AS path,
+    thumb.name AS thumbnail_path,
+    o.created_at
+  FROM storage.objects o
+  LEFT JOIN storage.objects thumb
+    ON thumb.bucket_id = o.bucket_id
+   AND thumb.name = regexp_replace(o.name, '/full\.([a-z]+)$', '/thumb.\1')
+  WHERE o.bucket_id = 'part-images'
+    AND o.name ~ '^[^/]+/(main|front|back|left|right|top)/full\.[a-z]+$'
+),
+legacy AS (
+  SELECT
+    split_part(o.name, '/', 1) AS part_slug,
+    regexp_replace(split_part(o.name, '/', 2), '_jpg$', '') AS view_type,
+    o.name AS path,
+    NULL::text AS thumbnail_path,
+    o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'part-images'
+    AND o.name ~ '^[^/]+/(main|front|back|left|right|top)_jpg/[^/.][^/]*$'
+),
+images AS (
+  SELECT * FROM processed
+  UNION ALL
+  SELECT * FROM legacy l
+  WHERE NOT EXISTS (
+    SELECT 1 FROM processed p
+    WHERE p.part_slug = l.part_slug AND p.view_type = l.view_type
+  )
+)
+INSERT INTO part_images (part_slug, path, thumbnail_path, view_type, sort_order, is_primary, created_at)
+SELECT DISTINCT ON (i.part_slug, i.view_type)
+  i.part_slug,
+  i.path,
+  i.thumbnail_path,
+  i.view_type,
+  array_position(ARRAY['main', 'front', 'back', 'left', 'right', 'top'], i.view_type),
+  i.view_type = 'main',
+  i.created_at
+FROM images i
+JOIN vehicle_parts p ON p.part_slug = i.part_slug
+ORDER BY i.part_slug, i.view_type, i.created_at DESC
+ON CONFLICT (path) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION reorder_part_images(p_part_slug text, p_ids uuid[])
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE part_images i
+  SET sort_order = ordered.position, updated_at = now()
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE i.id = ordered.id
+    AND i.part_slug = p_part_slug;
+$$;
+
+-- The bucket's public URL is only known to the client, so it passes the new itemurl
+CREATE OR REPLACE FUNCTION set_primary_part_image(p_image_id uuid, p_itemurl text)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_slug text;
+BEGIN
+  SELECT part_slug INTO target_slug FROM part_images WHERE id = p_image_id;
+  IF target_slug IS NULL THEN
+    RAISE EXCEPTION 'Image not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT can_edit_part(target_slug) THEN
+    RAISE EXCEPTION 'You cannot change the images of this part' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE part_images
+  SET is_primary = false, updated_at = now()
+  WHERE part_slug = target_slug AND is_primary AND id <> p_image_id;
+
+  UPDATE part_images
+  SET is_primary = true, updated_at = now()
+  WHERE id = p_image_id;
+
+  UPDATE vehicle_parts
+  SET itemurl = p_itemurl, updated_at = now()
+  WHERE part_slug = target_slug;
+END;
+$$;
+
+ALTER TABLE part_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view images of visible parts"
+ON part_images
+FOR SELECT
+TO anon, authenticated
+USING (can_view_part(part_slug));
+
+CREATE POLICY "Editors can manage part images"
+ON part_images
+FOR ALL
+TO authenticated
+USING (can_edit_part(part_slug))
+WITH CHECK (can_edit_part(part_slug));
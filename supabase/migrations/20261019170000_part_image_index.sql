@@ -0,0 +1,72 @@
+/*
+  # Part image index metadata and reconciliation
+
+  `part_images` is the index of every gallery file. Reads no longer touch
+  storage, so the index also records what was uploaded and by whom, and a
+  report finds where it has drifted from the bucket.
+
+  1. Changes to `part_images`
+    - `size_bytes` (bigint): size of the full-size file
+    - `content_hash` (text): hex SHA-256 of the full-size file, computed by the uploader
+    - `uploaded_by` (uuid, references `auth.users`, defaults to the current user)
+    - Existing rows get their size and uploader from `storage.objects`
+
+  2. Functions
+    - `part_image_reconcile_report(min_age)` lists
+      - `orphaned_object`: files in `part-images` that no row references
+      - `dangling_row`: rows whose full-size file is missing
+      Objects younger than `min_age` are skipped so uploads still in flight
+      are not reported. Admins and the service role only; the
+      `reconcile-part-images` edge function uses it to clean up.
+*/
+
+ALTER TABLE part_images
+  ADD COLUMN IF NOT EXISTS size_bytes bigint CHECK (size_bytes >= 0),
+  ADD COLUMN IF NOT EXISTS content_hash text CHECK (content_hash ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN IF NOT EXISTS uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS part_images_content_hash_idx ON part_images (part_slug, content_hash);
+
+UPDATE part_images i
+SET
+  size_bytes = coalesce(i.size_bytes, (o.metadata->>'size')::bigint),
+  uploaded_by = coalesce(i.uploaded_by, o.owner)
+FROM storage.objects o
+WHERE o.bucket_id = 'part-images'
+  AND o.name = i.path;
+
+CREATE OR REPLACE FUNCTION part_image_reconcile_report(p_min_age interval DEFAULT interval '1 day')
+RETURNS TABLE (kind text, part_slug text, path text, created_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') <> 'service_role' AND public.current_app_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can reconcile part images' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT 'orphaned_object'::text, split_part(o.name, '/', 1), o.name, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'part-images'
+    AND o.created_at < now() - p_min_age
+    AND o.name !~ '(^|/)\.[^/]*$'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.part_images i
+      WHERE i.path = o.name OR i.thumbnail_path = o.name
+    )
+  UNION ALL
+  SELECT 'dangling_row'::text, i.part_slug, i.path, i.created_at
+  FROM public.part_images i
+  WHERE i.created_at < now() - p_min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'part-images' AND o.name = i.path
+    )
+  ORDER BY 1, 2, 3;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION part_image_reconcile_report(interval) FROM anon, public;
@@ -0,0 +1,107 @@
+/*
+  # Part drafts and revision history
+
+  Edits used to live only in the editor until saved, and a save overwrote the
+  row without a trace. Unsaved edits are now autosaved as drafts, and every
+  change to a part is kept as a numbered revision.
+
+  1. New Tables
+    - `part_drafts`: one unsaved draft per user and part
+      - `user_id` (references `auth.users`, defaults to the current user)
+      - `draft_key`: the part slug, or `new` for a part not created yet
+      - `part_slug` (references `vehicle_parts`, null for new parts)
+      - `data` (jsonb): form values and fitments as the editor holds them
+      - `updated_at`
+    - `part_revisions`: a snapshot of a part after each change
+      - `part_slug` (references `vehicle_parts`)
+      - `revision`: 1, 2, 3... per part
+      - `data` (jsonb): the row without timestamps and `itemurl`
+      - `changed_by`, `changed_by_email`: who saved it
+      - `created_at`
+
+  2. Triggers
+    - `vehicle_parts_record_revision` writes a revision after every insert,
+      and after every update that changes more than timestamps or `itemurl`.
+      `itemurl` follows the gallery's primary image, so it is left out.
+      Fitments are stored separately and are not part of revisions.
+
+  3. Data
+    - Existing parts get revision 1 from their current row
+
+  4. Security
+    - Enable RLS on both tables
+    - Drafts are private to their author
+    - A part's editors can read its revisions; only the trigger writes them
+*/
+
+CREATE TABLE IF NOT EXISTS part_drafts (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  draft_key text NOT NULL,
+  part_slug text REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  data jsonb NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, draft_key),
+  CHECK (draft_key = coalesce(part_slug, 'new'))
+);
+
+CREATE TABLE IF NOT EXISTS part_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  revision integer NOT NULL,
+  data jsonb NOT NULL,
+  changed_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (part_slug, revision)
+);
+
+CREATE OR REPLACE FUNCTION record_part_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  snapshot jsonb := to_jsonb(NEW) - 'created_at' - 'updated_at' - 'itemurl';
+BEGIN
+  IF TG_OP = 'UPDATE' AND snapshot = to_jsonb(OLD) - 'created_at' - 'updated_at' - 'itemurl' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.part_revisions (part_slug, revision, data)
+  SELECT NEW.part_slug, coalesce(max(r.revision), 0) + 1, snapshot
+  FROM public.part_revisions r
+  WHERE r.part_slug = NEW.part_slug;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vehicle_parts_record_revision ON vehicle_parts;
+CREATE TRIGGER vehicle_parts_record_revision
+AFTER INSERT OR UPDATE ON vehicle_parts
+FOR EACH ROW EXECUTE FUNCTION record_part_revision();
+
+INSERT INTO part_revisions (part_slug, revision, data, changed_by, created_at)
+SELECT p.part_slug, 1, to_jsonb(p) - 'created_at' - 'updated_at' - 'itemurl', p.owner_id, p.updated_at
+FROM vehicle_parts p
+WHERE NOT EXISTS (SELECT 1 FROM part_revisions r WHERE r.part_slug = p.part_slug);
+
+CREATE INDEX IF NOT EXISTS part_drafts_part_slug_idx ON part_drafts (part_slug);
+
+-- Security
+ALTER TABLE part_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE part_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own drafts"
+ON part_drafts
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND (part_slug IS NULL OR can_edit_part(part_slug)));
+
+CREATE POLICY "Editors can view part revisions"
+ON part_revisions
+FOR SELECT
+TO authenticated
+USING (can_edit_part(part_slug));
@@ -0,0 +1,76 @@
+/*
+  # Optimistic concurrency for parts
+
+  Two people saving the same part used to overwrite each other silently. Each
+  part now carries a version number; a write that names an older version is
+  rejected so the editor can show a merge instead.
+
+  1. Changes to `vehicle_parts`
+    - `version` (integer, starts at 1)
+
+  2. Triggers
+    - `vehicle_parts_check_version` (before update)
+      - An update that sets `version` must set the current one, or it fails
+        with SQLSTATE 40001. Writers that leave `version` out are not checked;
+        the importer relies on this to overwrite on purpose.
+      - `version` goes up by one whenever an editable field changes. Publishing
+        and `itemurl` (kept in step with the gallery's primary image by
+        `set_primary_part_image`) do not count, so neither conflicts with an
+        open editor.
+    - `record_part_revision` leaves `version` out of snapshots
+
+  3. Security
+    - No policy changes
+*/
+
+ALTER TABLE vehicle_parts
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1 CHECK (version > 0);
+
+CREATE OR REPLACE FUNCTION check_part_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  untracked text[] := ARRAY['version', 'created_at', 'updated_at', 'itemurl', 'is_published', 'owner_id'];
+BEGIN
+  IF NEW.version IS DISTINCT FROM OLD.version THEN
+    RAISE EXCEPTION 'Part % was changed by someone else', OLD.part_slug
+      USING ERRCODE = '40001',
+            DETAIL = format('Saved against version %s, current version is %s', NEW.version, OLD.version);
+  END IF;
+
+  IF (to_jsonb(NEW) - untracked) IS DISTINCT FROM (to_jsonb(OLD) - untracked) THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vehicle_parts_check_version ON vehicle_parts;
+CREATE TRIGGER vehicle_parts_check_version
+BEFORE UPDATE ON vehicle_parts
+FOR EACH ROW EXECUTE FUNCTION check_part_version();
+
+CREATE OR REPLACE FUNCTION record_part_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  snapshot jsonb := to_jsonb(NEW) - ARRAY['created_at', 'updated_at', 'itemurl', 'version'];
+BEGIN
+  IF TG_OP = 'UPDATE' AND snapshot = to_jsonb(OLD) - ARRAY['created_at', 'updated_at', 'itemurl', 'version'] THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.part_revisions (part_slug, revision, data)
+  SELECT NEW.part_slug, coalesce(max(r.revision), 0) + 1, snapshot
+  FROM public.part_revisions r
+  WHERE r.part_slug = NEW.part_slug;
+
+  RETURN NULL;
+END;
+$$;
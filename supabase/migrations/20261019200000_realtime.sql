@@ -0,0 +1,34 @@
+/*
+  # Realtime for the part editor
+
+  Open editors now follow changes made elsewhere: the part itself, its
+  gallery and the user's saved items are streamed over Supabase Realtime.
+
+  1. Publication
+    - Add `vehicle_parts`, `part_images` and `saved_items` to
+      `supabase_realtime`
+
+  2. Security
+    - No policy changes. Realtime applies each table's RLS select policy, so
+      subscribers only receive rows they could already read. Deletes carry
+      only the primary key.
+*/
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH table_name IN ARRAY ARRAY['vehicle_parts', 'part_images', 'saved_items'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END;
+$$;
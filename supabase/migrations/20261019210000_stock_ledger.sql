@@ -0,0 +1,291 @@
+/*
+  # Stock ledger
+
+  `stock_quantity` used to be a number typed into the editor, with no record
+  of why it changed. Every change is now a signed movement in a ledger, and
+  the part's stock columns are kept in step by `record_stock_movement`.
+
+  1. New Tables
+    - `stock_movements`
+      - `part_slug` (references `vehicle_parts`)
+      - `kind`: receipt, sale, return, adjustment, reservation or release
+      - `quantity`: signed change. Receipts, sales, returns and adjustments
+        move stock on hand; reservations and releases move reserved stock.
+      - `reason`, optional `reference` (e.g. an order number)
+      - `created_by`, `created_by_email`, `created_at`
+
+  2. Changes to `vehicle_parts`
+    - `reserved_quantity`: units held for orders, never more than on hand
+    - `reorder_threshold`: alert when available stock drops to this level;
+      null uses the dashboard default
+
+  3. Functions
+    - `record_stock_movement(part_slug, kind, quantity, reason, reference)`:
+      locks the part, applies the movement and rejects anything that would
+      take stock below zero or below what is reserved. `quantity` is a
+      positive amount, except for adjustments, which are signed.
+    - `low_stock_parts(default_threshold)`: parts the caller can edit that are
+      at or below their reorder threshold, scarcest first
+
+  4. Triggers
+    - New parts with stock get an opening receipt
+    - Writing `stock_quantity` directly (the importer does) is recorded as an
+      adjustment; writing `reserved_quantity` directly is rejected
+    - Stock columns no longer bump `version` or write part revisions, so
+      sales do not conflict with open editors
+
+  5. Data
+    - Existing stock becomes an opening receipt per part
+
+  6. Security
+    - Enable RLS on `stock_movements`; a part's editors can read its ledger
+    - Only the functions write movements
+*/
+
+ALTER TABLE vehicle_parts
+  ADD COLUMN IF NOT EXISTS reserved_quantity integer NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+  ADD COLUMN IF NOT EXISTS reorder_threshold integer CHECK (reorder_threshold >= 0);
+
+ALTER TABLE vehicle_parts
+  DROP CONSTRAINT IF EXISTS vehicle_parts_reserved_within_stock,
+  ADD CONSTRAINT vehicle_parts_reserved_within_stock CHECK (reserved_quantity <= stock_quantity);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('receipt', 'sale', 'return', 'adjustment', 'reservation', 'release')),
+  quantity integer NOT NULL CHECK (quantity <> 0),
+  reason text NOT NULL DEFAULT '' CHECK (char_length(reason) <= 500),
+  reference text CHECK (char_length(reference) <= 100),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (
+    (kind IN ('receipt', 'return', 'reservation') AND quantity > 0)
+    OR (kind IN ('sale', 'release') AND quantity < 0)
+    OR kind = 'adjustment'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_part_slug_idx ON stock_movements (part_slug, created_at DESC);
+
+-- Applies a movement without a permission check. Not callable by clients;
+-- order functions build on it.
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_part_slug text,
+  p_kind text,
+  p_quantity integer,
+  p_reason text DEFAULT '',
+  p_reference text DEFAULT NULL
+)
+RETURNS stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  part public.vehicle_parts;
+  signed integer;
+  movement public.stock_movements;
+BEGIN
+  IF p_kind = 'adjustment' THEN
+    signed := p_quantity;
+  ELSIF p_kind IN ('receipt', 'return', 'reservation') THEN
+    signed := abs(p_quantity);
+  ELSIF p_kind IN ('sale', 'release') THEN
+    signed := -abs(p_quantity);
+  ELSE
+    RAISE EXCEPTION 'Unknown stock movement kind %', p_kind USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF coalesce(signed, 0) = 0 THEN
+    RAISE EXCEPTION 'Quantity must not be zero' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO part FROM public.vehicle_parts WHERE part_slug = p_part_slug FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Part % does not exist', p_part_slug USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_kind IN ('reservation', 'release') THEN
+    IF part.reserved_quantity + signed < 0 THEN
+      RAISE EXCEPTION 'Only % units of % are reserved', part.reserved_quantity, p_part_slug
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF part.reserved_quantity + signed > part.stock_quantity THEN
+      RAISE EXCEPTION 'Only % units of % are available', part.stock_quantity - part.reserved_quantity, p_part_slug
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF part.stock_quantity + signed < part.reserved_quantity THEN
+    RAISE EXCEPTION 'Only % units of % are available', part.stock_quantity - part.reserved_quantity, p_part_slug
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.stock_movements (part_slug, kind, quantity, reason, reference)
+  VALUES (p_part_slug, p_kind, signed, coalesce(p_reason, ''), p_reference)
+  RETURNING * INTO movement;
+
+  PERFORM set_config('app.stock_ledger', 'on', true);
+  UPDATE public.vehicle_parts
+  SET
+    stock_quantity = stock_quantity + CASE WHEN p_kind IN ('reservation', 'release') THEN 0 ELSE signed END,
+    reserved_quantity = reserved_quantity + CASE WHEN p_kind IN ('reservation', 'release') THEN signed ELSE 0 END,
+    updated_at = now()
+  WHERE part_slug = p_part_slug;
+  PERFORM set_config('app.stock_ledger', 'off', true);
+
+  RETURN movement;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_stock_movement(text, text, integer, text, text) FROM anon, authenticated, public;
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_part_slug text,
+  p_kind text,
+  p_quantity integer,
+  p_reason text DEFAULT '',
+  p_reference text DEFAULT NULL
+)
+RETURNS stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.can_edit_part(p_part_slug) THEN
+    RAISE EXCEPTION 'You cannot change stock for this part' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_kind = 'adjustment' AND coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Adjustments need a reason' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN public.apply_stock_movement(p_part_slug, p_kind, p_quantity, p_reason, p_reference);
+END;
+$$;
+
+-- Runs with the caller's rights and lists only parts the caller can restock
+CREATE OR REPLACE FUNCTION low_stock_parts(p_default_threshold integer DEFAULT 5)
+RETURNS SETOF vehicle_parts
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM vehicle_parts
+  WHERE can_edit_part(part_slug)
+    AND stock_quantity - reserved_quantity <= coalesce(reorder_threshold, p_default_threshold)
+  ORDER BY stock_quantity - reserved_quantity, itemname;
+$$;
+
+CREATE OR REPLACE FUNCTION record_direct_stock_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_setting('app.stock_ledger', true) IS NOT DISTINCT FROM 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.reserved_quantity <> 0 THEN
+      RAISE EXCEPTION 'New parts cannot start with reserved stock' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.stock_quantity > 0 THEN
+      INSERT INTO public.stock_movements (part_slug, kind, quantity, reason)
+      VALUES (NEW.part_slug, 'receipt', NEW.stock_quantity, 'Opening stock');
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reserved_quantity IS DISTINCT FROM OLD.reserved_quantity THEN
+    RAISE EXCEPTION 'Reserved stock only changes through stock movements' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+    INSERT INTO public.stock_movements (part_slug, kind, quantity, reason)
+    VALUES (NEW.part_slug, 'adjustment', NEW.stock_quantity - OLD.stock_quantity, 'Stock level set directly');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vehicle_parts_record_stock_change ON vehicle_parts;
+CREATE TRIGGER vehicle_parts_record_stock_change
+BEFORE UPDATE OF stock_quantity, reserved_quantity ON vehicle_parts
+FOR EACH ROW EXECUTE FUNCTION record_direct_stock_change();
+
+-- The movement references the part, so opening stock is written after insert
+DROP TRIGGER IF EXISTS vehicle_parts_record_opening_stock ON vehicle_parts;
+CREATE TRIGGER vehicle_parts_record_opening_stock
+AFTER INSERT ON vehicle_parts
+FOR EACH ROW EXECUTE FUNCTION record_direct_stock_change();
+
+-- Stock has its own history, so it no longer counts as an edit
+CREATE OR REPLACE FUNCTION check_part_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  untracked text[] := ARRAY[
+    'version', 'created_at', 'updated_at', 'itemurl', 'is_published', 'owner_id',
+    'stock_quantity', 'reserved_quantity', 'reorder_threshold'
+  ];
+BEGIN
+  IF NEW.version IS DISTINCT FROM OLD.version THEN
+    RAISE EXCEPTION 'Part % was changed by someone else', OLD.part_slug
+      USING ERRCODE = '40001',
+            DETAIL = format('Saved against version %s, current version is %s', NEW.version, OLD.version);
+  END IF;
+
+  IF (to_jsonb(NEW) - untracked) IS DISTINCT FROM (to_jsonb(OLD) - untracked) THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_part_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  untracked text[] := ARRAY[
+    'created_at', 'updated_at', 'itemurl', 'version', 'stock_quantity', 'reserved_quantity', 'reorder_threshold'
+  ];
+  snapshot jsonb := to_jsonb(NEW) - untracked;
+BEGIN
+  IF TG_OP = 'UPDATE' AND snapshot = to_jsonb(OLD) - untracked THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.part_revisions (part_slug, revision, data)
+  SELECT NEW.part_slug, coalesce(max(r.revision), 0) + 1, snapshot
+  FROM public.part_revisions r
+  WHERE r.part_slug = NEW.part_slug;
+
+  RETURN NULL;
+END;
+$$;
+
+INSERT INTO stock_movements (part_slug, kind, quantity, reason, created_by, created_by_email)
+SELECT p.part_slug, 'receipt', p.stock_quantity, 'Opening balance', p.owner_id, NULL
+FROM vehicle_parts p
+WHERE p.stock_quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements m WHERE m.part_slug = p.part_slug);
+
+-- Security
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors can view stock movements"
+ON stock_movements
+FOR SELECT
+TO authenticated
+USING (can_edit_part(part_slug));
@@ -0,0 +1,189 @@
+/*
+  # Saved lists and part notifications
+
+  Saved parts can be grouped into named lists, and a list can be shared
+  through a link. Users are notified in the app when a saved part gets
+  cheaper or comes back in stock. The notifications come from a trigger on
+  `vehicle_parts`, so they are written whichever client changes the part:
+  the editor, the importer or the stock ledger.
+
+  1. New Tables
+    - `saved_lists`
+      - `user_id` (owner), `name`
+      - `share_token`: set while the list is shared; the link carries it
+    - `notifications`
+      - `user_id` (recipient), `part_slug`
+      - `kind`: `price_drop` or `back_in_stock`
+      - `data`: the values before and after, e.g. `{"old_price": 40, "new_price": 32}`
+      - `read_at`, `created_at`
+
+  2. Changes to `saved_items`
+    - `list_id`: the list the part is filed under; null leaves it unsorted.
+      Deleting a list keeps its parts saved.
+
+  3. Functions
+    - `shared_saved_list(share_token)`: the list's name and part slugs for
+      anyone signed in with the link. The parts themselves are read through
+      `vehicle_parts`, so drafts stay hidden.
+
+  4. Triggers
+    - `vehicle_parts_notify_savers` (after update of price or stock): notify
+      everyone who saved a published part when its price goes down, or when
+      available stock (on hand minus reserved) goes from none to some
+
+  5. Realtime
+    - Add `notifications` and `saved_lists` to `supabase_realtime`
+
+  6. Security
+    - Enable RLS on both tables; users manage their own lists and read, mark
+      and clear their own notifications. Only the trigger writes
+      notifications.
+    - `saved_items` can only be filed under the user's own lists
+*/
+
+CREATE TABLE IF NOT EXISTS saved_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 100),
+  share_token uuid UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE saved_items
+  ADD COLUMN IF NOT EXISTS list_id uuid REFERENCES saved_lists(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS saved_items_list_id_idx ON saved_items (list_id);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('price_drop', 'back_in_stock')),
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_part_slug_idx ON notifications (part_slug);
+
+CREATE OR REPLACE FUNCTION notify_part_savers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT NEW.is_published THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.price < OLD.price THEN
+    INSERT INTO public.notifications (user_id, part_slug, kind, data)
+    SELECT s.user_id, NEW.part_slug, 'price_drop', jsonb_build_object('old_price', OLD.price, 'new_price', NEW.price)
+    FROM public.saved_items s
+    WHERE s.part_id = NEW.part_slug;
+  END IF;
+
+  IF OLD.stock_quantity - OLD.reserved_quantity <= 0 AND NEW.stock_quantity - NEW.reserved_quantity > 0 THEN
+    INSERT INTO public.notifications (user_id, part_slug, kind, data)
+    SELECT s.user_id, NEW.part_slug, 'back_in_stock', jsonb_build_object('available', NEW.stock_quantity - NEW.reserved_quantity)
+    FROM public.saved_items s
+    WHERE s.part_id = NEW.part_slug;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vehicle_parts_notify_savers ON vehicle_parts;
+CREATE TRIGGER vehicle_parts_notify_savers
+AFTER UPDATE OF price, stock_quantity, reserved_quantity ON vehicle_parts
+FOR EACH ROW EXECUTE FUNCTION notify_part_savers();
+
+CREATE OR REPLACE FUNCTION shared_saved_list(p_share_token uuid)
+RETURNS TABLE (list_name text, part_slug text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT l.name, s.part_id
+  FROM public.saved_lists l
+  LEFT JOIN public.saved_items s ON s.list_id = l.id
+  WHERE l.share_token = p_share_token;
+$$;
+
+REVOKE EXECUTE ON FUNCTION shared_saved_list(uuid) FROM anon, public;
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['notifications', 'saved_lists'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Security
+ALTER TABLE saved_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own saved lists"
+ON saved_lists
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view own notifications"
+ON notifications
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications read"
+ON notifications
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Marking read is the only change users make
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+CREATE POLICY "Users can clear own notifications"
+ON notifications
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can save items" ON saved_items;
+CREATE POLICY "Users can save items"
+ON saved_items
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND (list_id IS NULL OR EXISTS (SELECT 1 FROM saved_lists l WHERE l.id = list_id AND l.user_id = auth.uid()))
+);
+
+DROP POLICY IF EXISTS "Users can file own saved items" ON saved_items;
+CREATE POLICY "Users can file own saved items"
+ON saved_items
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND (list_id IS NULL OR EXISTS (SELECT 1 FROM saved_lists l WHERE l.id = list_id AND l.user_id = auth.uid()))
+);
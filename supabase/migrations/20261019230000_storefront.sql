@@ -0,0 +1,35 @@
+/*
+  # Public storefront
+
+  Logged-out visitors can open `/p/:slug` product pages. Row access is
+  already limited to published parts by "Anyone can view published parts"
+  and the matching policies on `part_images` and `part_fitments`; this
+  migration narrows which columns anonymous visitors can read, so the
+  storefront's queries do not expose ownership or stock-keeping details.
+
+  1. Security
+    - `vehicle_parts`: anon can read the catalog columns only, not
+      `owner_id`, `version`, `reorder_threshold` or the legacy
+      `compatible_*` arrays
+    - `part_images`: anon can read display columns only, not
+      `uploaded_by`, `content_hash` or `size_bytes`
+    - Columns added to these tables later are hidden from anon until they
+      are granted here
+
+  The storefront selects its columns explicitly; `select('*')` fails for
+  anonymous callers.
+*/
+
+REVOKE SELECT ON vehicle_parts FROM anon;
+GRANT SELECT (
+  part_slug, itemname, make, model, condition, description, price,
+  stock_quantity, reserved_quantity, category_id, color, key_features,
+  weight_kg, dimensions, material, warranty_months, itemurl, is_published,
+  created_at, updated_at
+) ON vehicle_parts TO anon;
+
+REVOKE SELECT ON part_images FROM anon;
+GRANT SELECT (
+  id, part_slug, path, thumbnail_path, view_type, sort_order, caption,
+  alt_text, is_primary, width, height, created_at
+) ON part_images TO anon;
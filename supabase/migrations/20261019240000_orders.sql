@@ -0,0 +1,270 @@
+/*
+  # Cart, quotes and orders
+
+  Buyers collect parts in a cart and check out either as a quote (prices are
+  held, no stock is taken) or as an order. Orders move through a fixed set of
+  statuses, and every status change that affects stock goes through the stock
+  ledger in the same transaction, so two buyers cannot both get the last
+  unit.
+
+  1. New Tables
+    - `cart_items`: (`user_id`, `part_slug`) with a `quantity`
+    - `orders`
+      - `order_number` (ORD-1000, ORD-1001, ...), `customer_id`, `customer_email`
+      - `status`: quote, pending, paid, shipped, returned or cancelled
+      - `subtotal`, `currency`, `notes`
+      - `payment_provider`, `payment_reference`: set when the order is paid
+      - a timestamp for each status reached
+    - `order_items`: `part_slug` with a snapshot of `itemname`, `unit_price`
+      and `warranty_months` taken at checkout
+
+  2. Functions
+    - `checkout_cart(as_quote, notes)`: turn the caller's cart into an order
+      or quote and empty the cart. Orders reserve their stock straight away
+      and fail if any line is no longer available.
+    - `transition_order(order_id, status, payment_provider, payment_reference)`:
+      the only way an order changes status.
+        quote   -> pending    customer accepts; stock is reserved at the quoted price
+        quote   -> cancelled  customer or staff
+        pending -> cancelled  customer or staff; the reservation is released
+        pending -> paid       payment function or staff; reserved stock is sold
+        paid    -> shipped    staff
+        paid    -> returned   staff; stock is returned
+        shipped -> returned   staff; stock is returned
+      Staff are admins and editors. The payment function calls it with the
+      service role key.
+
+  3. Security
+    - Enable RLS on all three tables
+    - Users manage their own cart; only published parts can be added
+    - Customers read their own orders, staff read every order. Orders are
+      only written through the functions above.
+*/
+
+CREATE SEQUENCE IF NOT EXISTS order_number_seq START 1000;
+
+CREATE TABLE IF NOT EXISTS cart_items (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  quantity integer NOT NULL CHECK (quantity BETWEEN 1 AND 1000),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, part_slug)
+);
+
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_number text NOT NULL UNIQUE DEFAULT 'ORD-' || nextval('order_number_seq'),
+  customer_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  customer_email text DEFAULT (auth.jwt() ->> 'email'),
+  status text NOT NULL CHECK (status IN ('quote', 'pending', 'paid', 'shipped', 'returned', 'cancelled')),
+  subtotal numeric(12, 2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0),
+  currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  notes text NOT NULL DEFAULT '' CHECK (char_length(notes) <= 2000),
+  payment_provider text,
+  payment_reference text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  placed_at timestamptz,
+  paid_at timestamptz,
+  shipped_at timestamptz,
+  returned_at timestamptz,
+  cancelled_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS orders_customer_id_idx ON orders (customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS orders_status_idx ON orders (status, created_at);
+
+CREATE TABLE IF NOT EXISTS order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  -- Kept when the part is deleted, so the order still reads correctly
+  part_slug text REFERENCES vehicle_parts(part_slug) ON DELETE SET NULL ON UPDATE CASCADE,
+  itemname text NOT NULL,
+  unit_price numeric(12, 2) NOT NULL CHECK (unit_price >= 0),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  warranty_months integer NOT NULL DEFAULT 0,
+  UNIQUE (order_id, part_slug)
+);
+
+CREATE INDEX IF NOT EXISTS order_items_part_slug_idx ON order_items (part_slug);
+
+-- Moves every line of an order through the stock ledger. Lines are handled
+-- in part_slug order so concurrent checkouts lock parts in the same order.
+CREATE OR REPLACE FUNCTION apply_order_stock(p_order orders, p_kind text, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  item public.order_items;
+BEGIN
+  FOR item IN
+    SELECT * FROM public.order_items
+    WHERE order_id = p_order.id AND part_slug IS NOT NULL
+    ORDER BY part_slug
+  LOOP
+    PERFORM public.apply_stock_movement(item.part_slug, p_kind, item.quantity, p_reason, p_order.order_number);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_order_stock(orders, text, text) FROM anon, authenticated, public;
+
+CREATE OR REPLACE FUNCTION checkout_cart(p_as_quote boolean DEFAULT false, p_notes text DEFAULT '')
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  new_order public.orders;
+  unavailable text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to check out' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT string_agg(c.part_slug, ', ') INTO unavailable
+  FROM public.cart_items c
+  JOIN public.vehicle_parts p ON p.part_slug = c.part_slug
+  WHERE c.user_id = auth.uid() AND NOT p.is_published;
+
+  IF unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'No longer available: %', unavailable USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.orders (customer_id, status, notes, placed_at)
+  VALUES (
+    auth.uid(),
+    CASE WHEN p_as_quote THEN 'quote' ELSE 'pending' END,
+    coalesce(p_notes, ''),
+    CASE WHEN p_as_quote THEN NULL ELSE now() END
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO public.order_items (order_id, part_slug, itemname, unit_price, quantity, warranty_months)
+  SELECT new_order.id, p.part_slug, p.itemname, p.price, c.quantity, p.warranty_months
+  FROM public.cart_items c
+  JOIN public.vehicle_parts p ON p.part_slug = c.part_slug
+  WHERE c.user_id = auth.uid();
+
+  UPDATE public.orders
+  SET subtotal = (SELECT coalesce(sum(unit_price * quantity), 0) FROM public.order_items WHERE order_id = new_order.id)
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  IF NOT p_as_quote THEN
+    PERFORM public.apply_order_stock(new_order, 'reservation', 'Order ' || new_order.order_number);
+  END IF;
+
+  DELETE FROM public.cart_items WHERE user_id = auth.uid();
+
+  RETURN new_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_order(
+  p_order_id uuid,
+  p_status text,
+  p_payment_provider text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target public.orders;
+  is_service boolean := coalesce(auth.jwt() ->> 'role', '') = 'service_role';
+  is_staff boolean := coalesce(public.current_app_role() IN ('admin', 'editor'), false);
+  is_customer boolean;
+  allowed boolean;
+BEGIN
+  SELECT * INTO target FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % does not exist', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  is_customer := coalesce(target.customer_id = auth.uid(), false);
+
+  allowed := CASE target.status || '>' || p_status
+    WHEN 'quote>pending' THEN is_customer OR is_service
+    WHEN 'quote>cancelled' THEN is_customer OR is_staff OR is_service
+    WHEN 'pending>cancelled' THEN is_customer OR is_staff OR is_service
+    WHEN 'pending>paid' THEN is_staff OR is_service
+    WHEN 'paid>shipped' THEN is_staff OR is_service
+    WHEN 'paid>returned' THEN is_staff OR is_service
+    WHEN 'shipped>returned' THEN is_staff OR is_service
+  END;
+
+  IF allowed IS NULL THEN
+    RAISE EXCEPTION 'A % order cannot become %', target.status, p_status USING ERRCODE = 'check_violation';
+  END IF;
+  IF NOT allowed THEN
+    RAISE EXCEPTION 'You cannot mark this order %', p_status USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_status = 'pending' THEN
+    PERFORM public.apply_order_stock(target, 'reservation', 'Order ' || target.order_number);
+  ELSIF p_status = 'cancelled' AND target.status = 'pending' THEN
+    PERFORM public.apply_order_stock(target, 'release', 'Order ' || target.order_number || ' cancelled');
+  ELSIF p_status = 'paid' THEN
+    PERFORM public.apply_order_stock(target, 'release', 'Order ' || target.order_number || ' paid');
+    PERFORM public.apply_order_stock(target, 'sale', 'Order ' || target.order_number);
+  ELSIF p_status = 'returned' THEN
+    PERFORM public.apply_order_stock(target, 'return', 'Order ' || target.order_number || ' returned');
+  END IF;
+
+  UPDATE public.orders
+  SET
+    status = p_status,
+    updated_at = now(),
+    placed_at = CASE WHEN p_status = 'pending' THEN now() ELSE placed_at END,
+    paid_at = CASE WHEN p_status = 'paid' THEN now() ELSE paid_at END,
+    shipped_at = CASE WHEN p_status = 'shipped' THEN now() ELSE shipped_at END,
+    returned_at = CASE WHEN p_status = 'returned' THEN now() ELSE returned_at END,
+    cancelled_at = CASE WHEN p_status = 'cancelled' THEN now() ELSE cancelled_at END,
+    payment_provider = CASE WHEN p_status = 'paid' THEN coalesce(p_payment_provider, 'manual') ELSE payment_provider END,
+    payment_reference = CASE WHEN p_status = 'paid' THEN p_payment_reference ELSE payment_reference END
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+-- Security
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own cart"
+ON cart_items
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND EXISTS (
+  SELECT 1 FROM vehicle_parts p WHERE p.part_slug = cart_items.part_slug AND p.is_published
+));
+
+CREATE POLICY "Customers and staff can view orders"
+ON orders
+FOR SELECT
+TO authenticated
+USING (customer_id = auth.uid() OR current_app_role() IN ('admin', 'editor'));
+
+CREATE POLICY "Customers and staff can view order items"
+ON order_items
+FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM orders o
+  WHERE o.id = order_items.order_id
+    AND (o.customer_id = auth.uid() OR current_app_role() IN ('admin', 'editor'))
+));
@@ -0,0 +1,160 @@
+/*
+  # Shipping boxes, carriers, zones and rate tables
+
+  Shipping estimates pack a cart's parts (from `weight_kg` and `dimensions`)
+  into the configured boxes and price each box from the carrier's rate
+  table. Carriers bill the greater of the actual weight and the dimensional
+  weight (box volume divided by the carrier's divisor).
+
+  1. New Tables
+    - `shipping_boxes`: inside `length_cm`, `width_cm`, `height_cm`,
+      `max_weight_kg` and the empty box's `tare_weight_kg`
+    - `shipping_carriers`
+      - `code` (text, primary key), `name`
+      - `dim_divisor`: cm³ per kg for dimensional weight, e.g. 5000
+      - `provider`: how the app quotes the carrier; `table` prices from
+        `shipping_rates`, other values name an API integration
+    - `shipping_zones`: `code` and `name`, e.g. domestic, international
+    - `shipping_rates`: one price per carrier, zone, service level and weight
+      bracket. A package pays the cheapest bracket whose `max_weight_kg`
+      covers its billable weight.
+
+  2. Seed data
+    - Three boxes, a table-priced carrier and domestic/international rates
+      so estimates work out of the box; admins replace them with real ones
+
+  3. Security
+    - Enable RLS on all four tables
+    - Signed-in users can read them (the cart shows estimates); only admins
+      change them
+*/
+
+CREATE TABLE IF NOT EXISTS shipping_boxes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (char_length(name) BETWEEN 1 AND 100),
+  length_cm numeric(8, 2) NOT NULL CHECK (length_cm > 0),
+  width_cm numeric(8, 2) NOT NULL CHECK (width_cm > 0),
+  height_cm numeric(8, 2) NOT NULL CHECK (height_cm > 0),
+  max_weight_kg numeric(10, 3) NOT NULL CHECK (max_weight_kg > 0),
+  tare_weight_kg numeric(10, 3) NOT NULL DEFAULT 0 CHECK (tare_weight_kg >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shipping_carriers (
+  code text PRIMARY KEY CHECK (code ~ '^[a-z0-9_]+$'),
+  name text NOT NULL,
+  dim_divisor integer NOT NULL CHECK (dim_divisor > 0),
+  provider text NOT NULL DEFAULT 'table',
+  is_active boolean NOT NULL DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  code text PRIMARY KEY CHECK (code ~ '^[a-z0-9_]+$'),
+  name text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  carrier_code text NOT NULL REFERENCES shipping_carriers(code) ON DELETE CASCADE ON UPDATE CASCADE,
+  zone_code text NOT NULL REFERENCES shipping_zones(code) ON DELETE CASCADE ON UPDATE CASCADE,
+  service_level text NOT NULL CHECK (service_level IN ('economy', 'standard', 'express')),
+  max_weight_kg numeric(10, 3) NOT NULL CHECK (max_weight_kg > 0),
+  price numeric(12, 2) NOT NULL CHECK (price >= 0),
+  currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  min_days integer NOT NULL DEFAULT 1 CHECK (min_days >= 0),
+  max_days integer NOT NULL DEFAULT 5,
+  CHECK (max_days >= min_days),
+  UNIQUE (carrier_code, zone_code, service_level, max_weight_kg)
+);
+
+INSERT INTO shipping_boxes (name, length_cm, width_cm, height_cm, max_weight_kg, tare_weight_kg)
+VALUES
+  ('Small', 30, 20, 15, 10, 0.2),
+  ('Medium', 50, 40, 30, 25, 0.5),
+  ('Large', 100, 60, 50, 40, 1.2)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO shipping_carriers (code, name, dim_divisor)
+VALUES ('table_post', 'Standard Post', 5000)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_zones (code, name)
+VALUES
+  ('domestic', 'Domestic'),
+  ('international', 'International')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_rates (carrier_code, zone_code, service_level, max_weight_kg, price, min_days, max_days)
+VALUES
+  ('table_post', 'domestic', 'economy', 5, 8.50, 5, 8),
+  ('table_post', 'domestic', 'economy', 20, 16.00, 5, 8),
+  ('table_post', 'domestic', 'economy', 70, 38.00, 5, 8),
+  ('table_post', 'domestic', 'standard', 5, 12.00, 2, 4),
+  ('table_post', 'domestic', 'standard', 20, 22.50, 2, 4),
+  ('table_post', 'domestic', 'standard', 70, 52.00, 2, 4),
+  ('table_post', 'domestic', 'express', 5, 24.00, 1, 1),
+  ('table_post', 'domestic', 'express', 20, 45.00, 1, 1),
+  ('table_post', 'international', 'standard', 5, 35.00, 6, 12),
+  ('table_post', 'international', 'standard', 20, 85.00, 6, 12),
+  ('table_post', 'international', 'express', 5, 60.00, 2, 5),
+  ('table_post', 'international', 'express', 20, 140.00, 2, 5)
+ON CONFLICT (carrier_code, zone_code, service_level, max_weight_kg) DO NOTHING;
+
+-- Security
+ALTER TABLE shipping_boxes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_carriers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view shipping boxes"
+ON shipping_boxes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage shipping boxes"
+ON shipping_boxes
+FOR ALL
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
+
+CREATE POLICY "Authenticated users can view shipping carriers"
+ON shipping_carriers
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage shipping carriers"
+ON shipping_carriers
+FOR ALL
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
+
+CREATE POLICY "Authenticated users can view shipping zones"
+ON shipping_zones
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage shipping zones"
+ON shipping_zones
+FOR ALL
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
+
+CREATE POLICY "Authenticated users can view shipping rates"
+ON shipping_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage shipping rates"
+ON shipping_rates
+FOR ALL
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
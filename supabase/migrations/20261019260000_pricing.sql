@@ -0,0 +1,345 @@
+/*
+  # Currencies, tax classes and price history
+
+  Parts are priced in their own base currency and carry a tax class. Display
+  prices are converted through an exchange-rate table that admins maintain,
+  and every price change is recorded so the app can audit it and show
+  "was/now" pricing.
+
+  1. New Tables
+    - `exchange_rates`
+      - `currency` (ISO 4217 code, primary key)
+      - `rate`: units of this currency per unit of the reference currency,
+        the one whose rate is 1 (USD as seeded). Converting an amount divides
+        by the source rate and multiplies by the target rate.
+    - `tax_classes`: `code`, `name` and `rate` (percent). Prices are net;
+      tax is added at checkout. Seeded at 0% so totals do not change until
+      admins set real rates.
+    - `price_history`: the old and new price and currency of every change,
+      with who made it. The first row for a part has no old price.
+
+  2. Changes to `vehicle_parts`
+    - `currency` (default USD, must have an exchange rate)
+    - `tax_class` (default `standard`)
+    Both are tracked by part versions and revisions like other fields.
+
+  3. Changes to orders
+    - `orders.tax_total`; `order_items.tax_class` and `tax_rate` snapshot
+      the part's tax class at checkout
+    - `checkout_cart(as_quote, notes, currency)` converts each line into the
+      order currency (the reference currency when omitted) and adds tax
+
+  4. Functions
+    - `price_reference(vehicle_parts)`: the price in the reference currency,
+      as a computed column the catalog sorts and filters on
+    - `part_was_price(part_slug)`: for a part reduced in the last 30 days, the
+      lowest price it had in the 30 days before the reduction, or null
+    - `notify_part_savers` no longer reports a price drop when the currency
+      changes at the same time
+
+  5. Security
+    - Everyone, including anon, can read exchange rates and tax classes;
+      only admins change them
+    - anon can read `vehicle_parts.currency` and `tax_class`
+    - Editors read the price history of the parts they can edit
+*/
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency text PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  rate numeric(18, 8) NOT NULL CHECK (rate > 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO exchange_rates (currency, rate)
+VALUES ('USD', 1)
+ON CONFLICT (currency) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS tax_classes (
+  code text PRIMARY KEY CHECK (code ~ '^[a-z0-9_]+$'),
+  name text NOT NULL,
+  rate numeric(5, 2) NOT NULL DEFAULT 0 CHECK (rate BETWEEN 0 AND 100),
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+INSERT INTO tax_classes (code, name, sort_order)
+VALUES
+  ('standard', 'Standard rate', 1),
+  ('reduced', 'Reduced rate', 2),
+  ('exempt', 'Exempt', 3)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE vehicle_parts
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD' REFERENCES exchange_rates(currency),
+  ADD COLUMN IF NOT EXISTS tax_class text NOT NULL DEFAULT 'standard' REFERENCES tax_classes(code);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS tax_total numeric(12, 2) NOT NULL DEFAULT 0 CHECK (tax_total >= 0);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS tax_class text,
+  ADD COLUMN IF NOT EXISTS tax_rate numeric(5, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS price_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  old_price numeric(12, 2),
+  old_currency text,
+  new_price numeric(12, 2) NOT NULL,
+  new_currency text NOT NULL,
+  changed_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS price_history_part_slug_idx ON price_history (part_slug, changed_at DESC);
+
+CREATE OR REPLACE FUNCTION record_price_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.price = OLD.price AND NEW.currency = OLD.currency THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.price_history (part_slug, old_price, old_currency, new_price, new_currency)
+  VALUES (
+    NEW.part_slug,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.price END,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.currency END,
+    NEW.price,
+    NEW.currency
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vehicle_parts_record_price ON vehicle_parts;
+CREATE TRIGGER vehicle_parts_record_price
+AFTER INSERT OR UPDATE OF price, currency ON vehicle_parts
+FOR EACH ROW EXECUTE FUNCTION record_price_change();
+
+-- Existing parts start their history at today's price
+INSERT INTO price_history (part_slug, new_price, new_currency, changed_by, changed_by_email, changed_at)
+SELECT p.part_slug, p.price, p.currency, p.owner_id, NULL, p.updated_at
+FROM vehicle_parts p
+WHERE NOT EXISTS (SELECT 1 FROM price_history h WHERE h.part_slug = p.part_slug);
+
+CREATE OR REPLACE FUNCTION price_reference(part vehicle_parts)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT round(part.price / r.rate, 2)
+  FROM public.exchange_rates r
+  WHERE r.currency = part.currency;
+$$;
+
+-- The "was" price follows the common 30-day rule: after a reduction, the
+-- reference is the lowest price in effect during the 30 days before it, and
+-- it is shown for 30 days. Only prices in the part's current currency count.
+CREATE OR REPLACE FUNCTION part_was_price(p_part_slug text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH part AS (
+    SELECT part_slug, price, currency
+    FROM public.vehicle_parts
+    WHERE part_slug = p_part_slug
+      AND (is_published OR public.can_edit_part(part_slug))
+  ),
+  reduction AS (
+    SELECT h.changed_at
+    FROM public.price_history h
+    JOIN part ON part.part_slug = h.part_slug
+    WHERE h.old_currency = part.currency
+      AND h.new_currency = part.currency
+      AND h.new_price < h.old_price
+      AND h.changed_at > now() - interval '30 days'
+    ORDER BY h.changed_at DESC
+    LIMIT 1
+  ),
+  earlier AS (
+    SELECT h.old_price AS price
+    FROM public.price_history h, part, reduction
+    WHERE h.part_slug = part.part_slug
+      AND h.old_currency = part.currency
+      AND h.changed_at BETWEEN reduction.changed_at - interval '30 days' AND reduction.changed_at
+    UNION ALL
+    SELECT h.new_price
+    FROM public.price_history h, part, reduction
+    WHERE h.part_slug = part.part_slug
+      AND h.new_currency = part.currency
+      AND h.changed_at >= reduction.changed_at - interval '30 days'
+      AND h.changed_at < reduction.changed_at
+  )
+  SELECT min(earlier.price)
+  FROM earlier, part
+  HAVING min(earlier.price) > min(part.price);
+$$;
+
+CREATE OR REPLACE FUNCTION notify_part_savers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT NEW.is_published THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.currency = OLD.currency AND NEW.price < OLD.price THEN
+    INSERT INTO public.notifications (user_id, part_slug, kind, data)
+    SELECT s.user_id, NEW.part_slug, 'price_drop',
+      jsonb_build_object('old_price', OLD.price, 'new_price', NEW.price, 'currency', NEW.currency)
+    FROM public.saved_items s
+    WHERE s.part_id = NEW.part_slug;
+  END IF;
+
+  IF OLD.stock_quantity - OLD.reserved_quantity <= 0 AND NEW.stock_quantity - NEW.reserved_quantity > 0 THEN
+    INSERT INTO public.notifications (user_id, part_slug, kind, data)
+    SELECT s.user_id, NEW.part_slug, 'back_in_stock', jsonb_build_object('available', NEW.stock_quantity - NEW.reserved_quantity)
+    FROM public.saved_items s
+    WHERE s.part_id = NEW.part_slug;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS checkout_cart(boolean, text);
+
+CREATE OR REPLACE FUNCTION checkout_cart(
+  p_as_quote boolean DEFAULT false,
+  p_notes text DEFAULT '',
+  p_currency text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  new_order public.orders;
+  unavailable text;
+  order_rate public.exchange_rates;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to check out' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO order_rate
+  FROM public.exchange_rates
+  WHERE CASE WHEN p_currency IS NULL THEN rate = 1 ELSE currency = p_currency END
+  ORDER BY currency
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prices cannot be converted to %', p_currency USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT string_agg(c.part_slug, ', ') INTO unavailable
+  FROM public.cart_items c
+  JOIN public.vehicle_parts p ON p.part_slug = c.part_slug
+  WHERE c.user_id = auth.uid() AND NOT p.is_published;
+
+  IF unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'No longer available: %', unavailable USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.orders (customer_id, status, notes, placed_at, currency)
+  VALUES (
+    auth.uid(),
+    CASE WHEN p_as_quote THEN 'quote' ELSE 'pending' END,
+    coalesce(p_notes, ''),
+    CASE WHEN p_as_quote THEN NULL ELSE now() END,
+    order_rate.currency
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO public.order_items (order_id, part_slug, itemname, unit_price, quantity, warranty_months, tax_class, tax_rate)
+  SELECT
+    new_order.id, p.part_slug, p.itemname,
+    round(p.price / r.rate * order_rate.rate, 2),
+    c.quantity, p.warranty_months, t.code, t.rate
+  FROM public.cart_items c
+  JOIN public.vehicle_parts p ON p.part_slug = c.part_slug
+  JOIN public.exchange_rates r ON r.currency = p.currency
+  JOIN public.tax_classes t ON t.code = p.tax_class
+  WHERE c.user_id = auth.uid();
+
+  UPDATE public.orders o
+  SET
+    subtotal = totals.subtotal,
+    tax_total = totals.tax_total
+  FROM (
+    SELECT
+      coalesce(sum(unit_price * quantity), 0) AS subtotal,
+      coalesce(sum(round(unit_price * quantity * tax_rate / 100, 2)), 0) AS tax_total
+    FROM public.order_items
+    WHERE order_id = new_order.id
+  ) AS totals
+  WHERE o.id = new_order.id
+  RETURNING o.* INTO new_order;
+
+  IF NOT p_as_quote THEN
+    PERFORM public.apply_order_stock(new_order, 'reservation', 'Order ' || new_order.order_number);
+  END IF;
+
+  DELETE FROM public.cart_items WHERE user_id = auth.uid();
+
+  RETURN new_order;
+END;
+$$;
+
+-- Security
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_history ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT (currency, tax_class) ON vehicle_parts TO anon;
+
+CREATE POLICY "Anyone can view exchange rates"
+ON exchange_rates
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage exchange rates"
+ON exchange_rates
+FOR ALL
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
+
+CREATE POLICY "Anyone can view tax classes"
+ON tax_classes
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage tax classes"
+ON tax_classes
+FOR ALL
+TO authenticated
+USING (current_app_role() = 'admin')
+WITH CHECK (current_app_role() = 'admin');
+
+CREATE POLICY "Editors can view price history"
+ON price_history
+FOR SELECT
+TO authenticated
+USING (can_edit_part(part_slug));
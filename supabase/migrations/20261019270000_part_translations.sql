@@ -0,0 +1,54 @@
+/*
+  # Part translations
+
+  Parts are written in the store's default language (English). Editors can
+  add Spanish, French or other translations of the customer-facing text;
+  the storefront shows the visitor's language and falls back to the part's
+  own text for any field left blank.
+
+  1. New Tables
+    - `part_translations`
+      - `part_slug`, `locale` (two-letter language code), primary key together
+      - `itemname`, `description`, `key_features`: blank means "not
+        translated", not "empty"
+      - `updated_at`, `updated_by`
+
+  2. Constraints
+    - Lengths mirror the `vehicle_parts` limits in 20261019120000_part_constraints
+
+  3. Security
+    - Anyone, including anon, can read translations of parts they can view
+    - Editors manage translations of the parts they can edit
+    - anon cannot read `updated_by`
+*/
+
+CREATE TABLE IF NOT EXISTS part_translations (
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  locale text NOT NULL CHECK (locale ~ '^[a-z]{2}$' AND locale <> 'en'),
+  itemname text NOT NULL DEFAULT '' CHECK (char_length(itemname) <= 200),
+  description text NOT NULL DEFAULT '' CHECK (char_length(description) <= 5000),
+  key_features text[] NOT NULL DEFAULT '{}' CHECK (part_key_features_valid(key_features)),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  PRIMARY KEY (part_slug, locale)
+);
+
+ALTER TABLE part_translations ENABLE ROW LEVEL SECURITY;
+
+-- Security
+
+REVOKE SELECT ON part_translations FROM anon;
+GRANT SELECT (part_slug, locale, itemname, description, key_features, updated_at) ON part_translations TO anon;
+
+CREATE POLICY "Anyone can view translations of visible parts"
+ON part_translations
+FOR SELECT
+TO anon, authenticated
+USING (can_view_part(part_slug));
+
+CREATE POLICY "Editors can manage translations"
+ON part_translations
+FOR ALL
+TO authenticated
+USING (can_edit_part(part_slug))
+WITH CHECK (can_edit_part(part_slug));
@@ -0,0 +1,82 @@
+/*
+  # Profile details and self-service profile editing
+
+  Email magic-link, password and SSO accounts arrive without the name Google
+  used to supply. Users can now fill in their own profile; only admins can
+  change roles.
+
+  1. Modified Tables
+    - `profiles`
+      - `full_name` is shown as the display name (at most 100 characters;
+        added NOT VALID so names already copied from Google are kept)
+      - `shop_name` (text, at most 200 characters)
+      - `phone` (text, digits with optional `+`, spaces, dots, dashes and
+        parentheses)
+
+  2. Functions
+    - `handle_new_user()` also reads the `name` claim, which GitHub, Azure and
+      most SAML providers send instead of `full_name`
+    - `protect_profile_fields()` trigger rejects changes to `id`, `email` and
+      `role` by anyone but an admin; the service role (auth.uid() is null) is
+      not affected
+
+  3. Security
+    - `profiles`: users can update their own profile
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS shop_name text,
+  ADD COLUMN IF NOT EXISTS phone text;
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_full_name_check CHECK (char_length(full_name) <= 100) NOT VALID,
+  ADD CONSTRAINT profiles_shop_name_check CHECK (char_length(shop_name) <= 200),
+  ADD CONSTRAINT profiles_phone_check CHECK (phone ~ '^\+?[0-9 ().-]{4,30}$');
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    left(coalesce(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name'), 100)
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION protect_profile_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND public.current_app_role() IS DISTINCT FROM 'admin'
+    AND (NEW.id, NEW.email, NEW.role) IS DISTINCT FROM (OLD.id, OLD.email, OLD.role)
+  THEN
+    RAISE EXCEPTION 'Only admins can change email addresses and roles' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_fields ON profiles;
+CREATE TRIGGER profiles_protect_fields
+BEFORE UPDATE ON profiles
+FOR EACH ROW EXECUTE FUNCTION protect_profile_fields();
+
+-- Security
+CREATE POLICY "Users can update own profile"
+ON profiles
+FOR UPDATE
+TO authenticated
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
@@ -0,0 +1,24 @@
+/*
+  # Stop editors from reassigning their parts
+
+  "Editors can update parts" only checked that `owner_id` stayed set, so an
+  owner could hand a part to any other user. Non-admins must now keep
+  themselves as the owner; admins can still reassign parts.
+
+  1. Security
+    - `vehicle_parts`: "Editors can update parts" checks
+      `owner_id = auth.uid()` unless the user is an admin
+*/
+
+-- Security
+DROP POLICY IF EXISTS "Editors can update parts" ON vehicle_parts;
+
+CREATE POLICY "Editors can update parts"
+ON vehicle_parts
+FOR UPDATE
+TO authenticated
+USING (can_edit_part(part_slug))
+WITH CHECK (
+  owner_id = auth.uid() OR
+  (current_app_role() = 'admin' AND owner_id IS NOT NULL)
+);
@@ -0,0 +1,85 @@
+/*
+  # A saved part can be in several lists
+
+  `saved_items` was unique per (`user_id`, `part_id`), so filing a part under
+  one list took it out of every other. Each row is now the part's place in
+  one list, or in the user's unsorted parts when `list_id` is null.
+
+  1. Changes to `saved_items`
+    - Unique per (`list_id`, `part_id`) instead of (`user_id`, `part_id`)
+    - A partial unique index keeps one unsorted row per user and part
+
+  2. Functions
+    - `notify_part_savers()` notifies each user once, however many of their
+      lists hold the part. As in 20261019260000_pricing, a price change
+      together with a currency change is not a drop, and the notification
+      carries the currency.
+    - `release_saved_list_items()` runs before a list is deleted: parts that
+      are still saved elsewhere leave with the list, the rest become unsorted
+      as before
+*/
+
+ALTER TABLE saved_items
+  DROP CONSTRAINT IF EXISTS saved_items_user_id_part_id_key;
+
+ALTER TABLE saved_items
+  ADD CONSTRAINT saved_items_list_id_part_id_key UNIQUE (list_id, part_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS saved_items_unsorted_key
+  ON saved_items (user_id, part_id)
+  WHERE list_id IS NULL;
+
+CREATE OR REPLACE FUNCTION notify_part_savers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT NEW.is_published THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.currency = OLD.currency AND NEW.price < OLD.price THEN
+    INSERT INTO public.notifications (user_id, part_slug, kind, data)
+    SELECT DISTINCT s.user_id, NEW.part_slug, 'price_drop',
+      jsonb_build_object('old_price', OLD.price, 'new_price', NEW.price, 'currency', NEW.currency)
+    FROM public.saved_items s
+    WHERE s.part_id = NEW.part_slug;
+  END IF;
+
+  IF OLD.stock_quantity - OLD.reserved_quantity <= 0 AND NEW.stock_quantity - NEW.reserved_quantity > 0 THEN
+    INSERT INTO public.notifications (user_id, part_slug, kind, data)
+    SELECT DISTINCT s.user_id, NEW.part_slug, 'back_in_stock', jsonb_build_object('available', NEW.stock_quantity - NEW.reserved_quantity)
+    FROM public.saved_items s
+    WHERE s.part_id = NEW.part_slug;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- The list_id foreign key sets the remaining rows to null afterwards
+CREATE OR REPLACE FUNCTION release_saved_list_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.saved_items s
+  WHERE s.list_id = OLD.id
+    AND EXISTS (
+      SELECT 1 FROM public.saved_items other
+      WHERE other.user_id = s.user_id
+        AND other.part_id = s.part_id
+        AND other.id <> s.id
+    );
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS saved_lists_release_items ON saved_lists;
+CREATE TRIGGER saved_lists_release_items
+BEFORE DELETE ON saved_lists
+FOR EACH ROW EXECUTE FUNCTION release_saved_list_items();
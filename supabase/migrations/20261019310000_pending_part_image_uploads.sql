@@ -0,0 +1,86 @@
+/*
+  # Pending part image uploads
+
+  The offline upload queue stores a photo's thumbnail first and records the
+  `part_images` row only once the full-size file is in. A queue that stays
+  offline for more than a day left those files looking orphaned, and the
+  reconcile sweep deleted them. Uploads are now registered before any file
+  is sent, and the sweep leaves registered paths alone.
+
+  1. New Tables
+    - `part_image_uploads`
+      - `path` (primary key), `thumbnail_path`: the files the upload will store
+      - `part_slug` (references `vehicle_parts`)
+      - `uploaded_by` (defaults to the current user), `created_at`
+      The uploader deletes the row once the `part_images` row exists, or when
+      the upload is cancelled.
+
+  2. Functions
+    - `part_image_reconcile_report(min_age)` no longer reports objects of
+      pending uploads. Registrations older than 30 days are treated as
+      abandoned and their files are reported again.
+
+  3. Security
+    - Enable RLS on `part_image_uploads`; the part's editors manage it
+*/
+
+CREATE TABLE IF NOT EXISTS part_image_uploads (
+  path text PRIMARY KEY,
+  thumbnail_path text NOT NULL,
+  part_slug text NOT NULL REFERENCES vehicle_parts(part_slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS part_image_uploads_part_slug_idx ON part_image_uploads (part_slug);
+
+CREATE OR REPLACE FUNCTION part_image_reconcile_report(p_min_age interval DEFAULT interval '1 day')
+RETURNS TABLE (kind text, part_slug text, path text, created_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') <> 'service_role' AND public.current_app_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can reconcile part images' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT 'orphaned_object'::text, split_part(o.name, '/', 1), o.name, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'part-images'
+    AND o.created_at < now() - p_min_age
+    AND o.name !~ '(^|/)\.[^/]*$'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.part_images i
+      WHERE i.path = o.name OR i.thumbnail_path = o.name
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.part_image_uploads u
+      WHERE (u.path = o.name OR u.thumbnail_path = o.name)
+        AND u.created_at > now() - interval '30 days'
+    )
+  UNION ALL
+  SELECT 'dangling_row'::text, i.part_slug, i.path, i.created_at
+  FROM public.part_images i
+  WHERE i.created_at < now() - p_min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'part-images' AND o.name = i.path
+    )
+  ORDER BY 1, 2, 3;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION part_image_reconcile_report(interval) FROM anon, public;
+
+-- Security
+ALTER TABLE part_image_uploads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors can manage pending image uploads"
+ON part_image_uploads
+FOR ALL
+TO authenticated
+USING (can_edit_part(part_slug))
+WITH CHECK (can_edit_part(part_slug));
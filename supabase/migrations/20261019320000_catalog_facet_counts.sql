@@ -0,0 +1,103 @@
+/*
+  # Catalog facet counts
+
+  Catalog search counted its facets in the browser from every published part
+  matching the text query. PostgREST caps responses at max_rows, so large
+  catalogs were counted from a truncated list. The counts are now computed in
+  the database.
+
+  1. Functions
+    - `catalog_facet_counts(...)`: for the published parts matching the text
+      pattern, one row per facet value with the number of parts that pass
+      every other active filter. Counting each facet without its own
+      selection keeps options from collapsing to zero once one is picked.
+      - facet `makes`, `models`, `categories`, `conditions`: grouped by value
+      - facet `price`: one row per entry of `p_price_buckets`
+        (`[{ "min": n | null, "max": n | null }]`, reference currency), the
+        value being the bucket's position starting at 0
+      - facet `stock`: rows for `any`, `in` and `out`
+
+  2. Security
+    - Runs with the caller's rights, so only parts the caller can read count
+*/
+
+CREATE OR REPLACE FUNCTION catalog_facet_counts(
+  p_pattern text DEFAULT NULL,
+  p_makes text[] DEFAULT '{}',
+  p_models text[] DEFAULT '{}',
+  p_year integer DEFAULT NULL,
+  p_categories uuid[] DEFAULT '{}',
+  p_conditions text[] DEFAULT '{}',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_stock text DEFAULT 'any',
+  p_price_buckets jsonb DEFAULT '[]'
+)
+RETURNS TABLE (facet text, value text, count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH parts AS (
+    SELECT
+      p.make,
+      p.model,
+      p.category_id,
+      p.condition,
+      p.stock_quantity,
+      public.price_reference(p) AS price,
+      cardinality(p_makes) = 0 OR p.make = ANY (p_makes) AS by_make,
+      cardinality(p_models) = 0 OR p.model = ANY (p_models) AS by_model,
+      p_year IS NULL OR EXISTS (
+        SELECT 1 FROM public.part_fitments f
+        WHERE f.part_slug = p.part_slug
+          AND (f.year_start IS NULL OR f.year_start <= p_year)
+          AND (f.year_end IS NULL OR f.year_end >= p_year)
+      ) AS by_year,
+      cardinality(p_categories) = 0 OR coalesce(p.category_id = ANY (p_categories), false) AS by_category,
+      cardinality(p_conditions) = 0 OR p.condition = ANY (p_conditions) AS by_condition,
+      coalesce(
+        (p_min_price IS NULL OR public.price_reference(p) >= p_min_price)
+        AND (p_max_price IS NULL OR public.price_reference(p) < p_max_price),
+        false
+      ) AS by_price,
+      CASE p_stock
+        WHEN 'in' THEN p.stock_quantity > 0
+        WHEN 'out' THEN p.stock_quantity <= 0
+        ELSE true
+      END AS by_stock
+    FROM public.vehicle_parts p
+    WHERE p.is_published
+      AND (p_pattern IS NULL OR p.itemname ILIKE p_pattern OR p.description ILIKE p_pattern)
+  )
+  SELECT 'makes', make, count(*) FROM parts
+  WHERE by_model AND by_year AND by_category AND by_condition AND by_price AND by_stock
+  GROUP BY make
+  UNION ALL
+  SELECT 'models', model, count(*) FROM parts
+  WHERE by_make AND by_year AND by_category AND by_condition AND by_price AND by_stock
+  GROUP BY model
+  UNION ALL
+  SELECT 'categories', category_id::text, count(*) FROM parts
+  WHERE by_make AND by_model AND by_year AND by_condition AND by_price AND by_stock AND category_id IS NOT NULL
+  GROUP BY category_id
+  UNION ALL
+  SELECT 'conditions', condition, count(*) FROM parts
+  WHERE by_make AND by_model AND by_year AND by_category AND by_price AND by_stock
+  GROUP BY condition
+  UNION ALL
+  SELECT 'price', (b.ordinal - 1)::text, count(p.price)
+  FROM jsonb_array_elements(p_price_buckets) WITH ORDINALITY AS b (bounds, ordinal)
+  LEFT JOIN parts p
+    ON p.by_make AND p.by_model AND p.by_year AND p.by_category AND p.by_condition AND p.by_stock
+    AND (b.bounds->>'min' IS NULL OR p.price >= (b.bounds->>'min')::numeric)
+    AND (b.bounds->>'max' IS NULL OR p.price < (b.bounds->>'max')::numeric)
+  GROUP BY b.ordinal
+  UNION ALL
+  SELECT 'stock', s.option, count(p.stock_quantity)
+  FROM (VALUES ('any'), ('in'), ('out')) AS s (option)
+  LEFT JOIN parts p
+    ON p.by_make AND p.by_model AND p.by_year AND p.by_category AND p.by_condition AND p.by_price
+    AND (s.option = 'any' OR (s.option = 'in') = (p.stock_quantity > 0))
+  GROUP BY s.option;
+$$;
@@ -0,0 +1,17 @@
+/*
+  # Order payment claims
+
+  Two payment requests for the same order could both reach the provider and
+  charge it twice. The order-payments function now claims the order before
+  charging it: one UPDATE sets `payment_started_at` only while the order is
+  pending and no other payment is in flight, so only one request gets the
+  row back.
+
+  1. Changes
+    - `orders.payment_started_at`: when the running payment attempt began.
+      Cleared when the charge fails. A claim older than the function's
+      timeout may be taken again; the provider sees the same idempotency key
+      (the order id), so a retried charge is not charged twice.
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_started_at timestamptz;
@@ -0,0 +1,75 @@
+/*
+  # Save a part and its fitments together
+
+  The editor wrote the part and then replaced its fitments in a second call.
+  The fitments were not covered by the version check, and a failed fitment
+  write left the part half-saved. An update that matched no row because RLS
+  hid it was also indistinguishable from a version conflict.
+
+  1. Functions
+    - `save_part(part_slug, values, version, fitments)`: inserts the part
+      when `version` is null, otherwise updates it against that version
+      (see 20261019190000_part_versions), then replaces its fitments, all in
+      one transaction. Only the columns present in `values` are written, so
+      the rest keep their defaults or current values.
+      - A stale version fails with SQLSTATE 40001, as before
+      - An update that finds no row it may change fails with 42501
+    - Runs with the caller's rights, so the vehicle_parts and part_fitments
+      policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION save_part(
+  p_part_slug text,
+  p_values jsonb,
+  p_version integer,
+  p_fitments jsonb
+)
+RETURNS vehicle_parts
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  record_values jsonb := p_values || jsonb_build_object('part_slug', p_part_slug);
+  columns text;
+  saved public.vehicle_parts;
+BEGIN
+  IF p_version IS NOT NULL THEN
+    record_values := record_values || jsonb_build_object('version', p_version);
+  END IF;
+
+  SELECT string_agg(quote_ident(a.attname), ', ')
+  INTO columns
+  FROM pg_attribute a
+  WHERE a.attrelid = 'public.vehicle_parts'::regclass
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+    AND record_values ? a.attname;
+
+  IF p_version IS NULL THEN
+    EXECUTE format(
+      'INSERT INTO public.vehicle_parts (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.vehicle_parts, $1) RETURNING *',
+      columns
+    )
+    INTO saved
+    USING record_values;
+  ELSE
+    -- Populating from the current row keeps every column left out of values
+    EXECUTE format(
+      'UPDATE public.vehicle_parts p SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(p, $1)) WHERE p.part_slug = $2 RETURNING p.*',
+      columns
+    )
+    INTO saved
+    USING record_values, p_part_slug;
+
+    -- EXECUTE leaves FOUND alone; no row means RLS hid it or it is gone
+    IF saved.part_slug IS NULL THEN
+      RAISE EXCEPTION 'Part % does not exist or you cannot edit it', p_part_slug
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  PERFORM public.replace_part_fitments(p_part_slug, p_fitments);
+
+  RETURN saved;
+END;
+$$;
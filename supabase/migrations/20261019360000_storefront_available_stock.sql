@@ -0,0 +1,163 @@
+/*
+  # Storefront stock without reservations
+
+  Anonymous visitors could read `reserved_quantity`, and with it how many
+  units are held for other customers' orders. The storefront only shows
+  how many units can be bought, so that is all it can now read.
+
+  1. Changes to `vehicle_parts`
+    - `available_quantity`: `stock_quantity` minus `reserved_quantity`, as a
+      stored generated column. It replaces the `available_quantity(vehicle_parts)`
+      computed column from 20261019330000_available_stock, which anon could
+      not call: passing the whole row needs every column to be readable.
+    - Like the stock columns it comes from, it does not bump `version` or
+      write part revisions
+
+  2. Functions
+    - `catalog_facet_counts(...)` reads the new column
+
+  3. Security
+    - anon can read `available_quantity`, no longer `stock_quantity` or
+      `reserved_quantity` (see 20261019230000_storefront)
+*/
+
+DROP FUNCTION available_quantity(vehicle_parts);
+
+ALTER TABLE vehicle_parts
+  ADD COLUMN available_quantity integer GENERATED ALWAYS AS (stock_quantity - reserved_quantity) STORED;
+
+CREATE OR REPLACE FUNCTION check_part_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  untracked text[] := ARRAY[
+    'version', 'created_at', 'updated_at', 'itemurl', 'is_published', 'owner_id',
+    'stock_quantity', 'reserved_quantity', 'available_quantity', 'reorder_threshold'
+  ];
+BEGIN
+  IF NEW.version IS DISTINCT FROM OLD.version THEN
+    RAISE EXCEPTION 'Part % was changed by someone else', OLD.part_slug
+      USING ERRCODE = '40001',
+            DETAIL = format('Saved against version %s, current version is %s', NEW.version, OLD.version);
+  END IF;
+
+  IF (to_jsonb(NEW) - untracked) IS DISTINCT FROM (to_jsonb(OLD) - untracked) THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_part_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  untracked text[] := ARRAY[
+    'created_at', 'updated_at', 'itemurl', 'version',
+    'stock_quantity', 'reserved_quantity', 'available_quantity', 'reorder_threshold'
+  ];
+  snapshot jsonb := to_jsonb(NEW) - untracked;
+BEGIN
+  IF TG_OP = 'UPDATE' AND snapshot = to_jsonb(OLD) - untracked THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.part_revisions (part_slug, revision, data)
+  SELECT NEW.part_slug, coalesce(max(r.revision), 0) + 1, snapshot
+  FROM public.part_revisions r
+  WHERE r.part_slug = NEW.part_slug;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION catalog_facet_counts(
+  p_pattern text DEFAULT NULL,
+  p_makes text[] DEFAULT '{}',
+  p_models text[] DEFAULT '{}',
+  p_year integer DEFAULT NULL,
+  p_categories uuid[] DEFAULT '{}',
+  p_conditions text[] DEFAULT '{}',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_stock text DEFAULT 'any',
+  p_price_buckets jsonb DEFAULT '[]'
+)
+RETURNS TABLE (facet text, value text, count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH parts AS (
+    SELECT
+      p.make,
+      p.model,
+      p.category_id,
+      p.condition,
+      p.available_quantity AS available,
+      public.price_reference(p) AS price,
+      cardinality(p_makes) = 0 OR p.make = ANY (p_makes) AS by_make,
+      cardinality(p_models) = 0 OR p.model = ANY (p_models) AS by_model,
+      p_year IS NULL OR EXISTS (
+        SELECT 1 FROM public.part_fitments f
+        WHERE f.part_slug = p.part_slug
+          AND (f.year_start IS NULL OR f.year_start <= p_year)
+          AND (f.year_end IS NULL OR f.year_end >= p_year)
+      ) AS by_year,
+      cardinality(p_categories) = 0 OR coalesce(p.category_id = ANY (p_categories), false) AS by_category,
+      cardinality(p_conditions) = 0 OR p.condition = ANY (p_conditions) AS by_condition,
+      coalesce(
+        (p_min_price IS NULL OR public.price_reference(p) >= p_min_price)
+        AND (p_max_price IS NULL OR public.price_reference(p) < p_max_price),
+        false
+      ) AS by_price,
+      CASE p_stock
+        WHEN 'in' THEN p.available_quantity > 0
+        WHEN 'out' THEN p.available_quantity <= 0
+        ELSE true
+      END AS by_stock
+    FROM public.vehicle_parts p
+    WHERE p.is_published
+      AND (p_pattern IS NULL OR p.itemname ILIKE p_pattern OR p.description ILIKE p_pattern)
+  )
+  SELECT 'makes', make, count(*) FROM parts
+  WHERE by_model AND by_year AND by_category AND by_condition AND by_price AND by_stock
+  GROUP BY make
+  UNION ALL
+  SELECT 'models', model, count(*) FROM parts
+  WHERE by_make AND by_year AND by_category AND by_condition AND by_price AND by_stock
+  GROUP BY model
+  UNION ALL
+  SELECT 'categories', category_id::text, count(*) FROM parts
+  WHERE by_make AND by_model AND by_year AND by_condition AND by_price AND by_stock AND category_id IS NOT NULL
+  GROUP BY category_id
+  UNION ALL
+  SELECT 'conditions', condition, count(*) FROM parts
+  WHERE by_make AND by_model AND by_year AND by_category AND by_price AND by_stock
+  GROUP BY condition
+  UNION ALL
+  SELECT 'price', (b.ordinal - 1)::text, count(p.price)
+  FROM jsonb_array_elements(p_price_buckets) WITH ORDINALITY AS b (bounds, ordinal)
+  LEFT JOIN parts p
+    ON p.by_make AND p.by_model AND p.by_year AND p.by_category AND p.by_condition AND p.by_stock
+    AND (b.bounds->>'min' IS NULL OR p.price >= (b.bounds->>'min')::numeric)
+    AND (b.bounds->>'max' IS NULL OR p.price < (b.bounds->>'max')::numeric)
+  GROUP BY b.ordinal
+  UNION ALL
+  SELECT 'stock', s.option, count(p.available)
+  FROM (VALUES ('any'), ('in'), ('out')) AS s (option)
+  LEFT JOIN parts p
+    ON p.by_make AND p.by_model AND p.by_year AND p.by_category AND p.by_condition AND p.by_price
+    AND (s.option = 'any' OR (s.option = 'in') = (p.available > 0))
+  GROUP BY s.option;
+$$;
+
+-- Security
+REVOKE SELECT (stock_quantity, reserved_quantity) ON vehicle_parts FROM anon;
+GRANT SELECT (available_quantity) ON vehicle_parts TO anon;
@@ -0,0 +1,40 @@
+/*
+  # Serialize revision numbers per part
+
+  `record_part_revision` numbered snapshots with `max(revision) + 1` without
+  holding anything, so two transactions writing the same part could read the
+  same maximum and the second insert failed on the (part_slug, revision) key.
+
+  1. Functions
+    - `record_part_revision()` locks the part row before reading the latest
+      revision, so writers of one part number their snapshots in turn.
+      Writes to different parts do not wait on each other.
+*/
+
+CREATE OR REPLACE FUNCTION record_part_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  untracked text[] := ARRAY[
+    'created_at', 'updated_at', 'itemurl', 'version',
+    'stock_quantity', 'reserved_quantity', 'available_quantity', 'reorder_threshold'
+  ];
+  snapshot jsonb := to_jsonb(NEW) - untracked;
+BEGIN
+  IF TG_OP = 'UPDATE' AND snapshot = to_jsonb(OLD) - untracked THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM public.vehicle_parts p WHERE p.part_slug = NEW.part_slug FOR UPDATE;
+
+  INSERT INTO public.part_revisions (part_slug, revision, data)
+  SELECT NEW.part_slug, coalesce(max(r.revision), 0) + 1, snapshot
+  FROM public.part_revisions r
+  WHERE r.part_slug = NEW.part_slug;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,56 @@
+/*
+  # Register uploaded images in the database
+
+  The uploader decided whether a new image was the part's first from a
+  gallery it had just fetched, so two uploads finishing together could both
+  be recorded as the main image and each make itself primary.
+
+  1. Functions
+    - `register_part_image(part_slug, path, thumbnail_path, width, height,
+      size_bytes, content_hash)`: records an uploaded image at the end of the
+      gallery. It first tries to insert it as the primary `main` image; when
+      `part_images_one_primary_idx` says the part already has one, it inserts
+      it as a `detail` image instead. Returns the stored row.
+    - Runs with the caller's rights, so the part_images policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION register_part_image(
+  p_part_slug text,
+  p_path text,
+  p_thumbnail_path text,
+  p_width integer,
+  p_height integer,
+  p_size_bytes bigint,
+  p_content_hash text
+)
+RETURNS part_images
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  saved public.part_images;
+BEGIN
+  INSERT INTO public.part_images (
+    part_slug, path, thumbnail_path, view_type, sort_order, is_primary, width, height, size_bytes, content_hash
+  )
+  SELECT p_part_slug, p_path, p_thumbnail_path, 'main', coalesce(max(i.sort_order), 0) + 1, true,
+    p_width, p_height, p_size_bytes, p_content_hash
+  FROM public.part_images i
+  WHERE i.part_slug = p_part_slug
+  ON CONFLICT (part_slug) WHERE is_primary DO NOTHING
+  RETURNING * INTO saved;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.part_images (
+      part_slug, path, thumbnail_path, view_type, sort_order, is_primary, width, height, size_bytes, content_hash
+    )
+    SELECT p_part_slug, p_path, p_thumbnail_path, 'detail', coalesce(max(i.sort_order), 0) + 1, false,
+      p_width, p_height, p_size_bytes, p_content_hash
+    FROM public.part_images i
+    WHERE i.part_slug = p_part_slug
+    RETURNING * INTO saved;
+  END IF;
+
+  RETURN saved;
+END;
+$$;
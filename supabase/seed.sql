@@ -0,0 +1,56 @@
+-- Sample data for a local stack; `supabase db reset` runs this after the migrations
+
+INSERT INTO part_categories (category_name) VALUES
+  ('Brakes'),
+  ('Engine'),
+  ('Exhaust'),
+  ('Electrical'),
+  ('Filters'),
+  ('Lighting'),
+  ('Suspension'),
+  ('Transmission'),
+  ('Body & Exterior'),
+  ('Interior'),
+  ('Wheels & Tires'),
+  ('Cooling')
+ON CONFLICT (category_name) DO NOTHING;
+
+-- A second level under Brakes shows the hierarchy in the picker
+INSERT INTO part_categories (category_name, parent_id, sort_order)
+SELECT child.name, parent.id, child.position
+FROM part_categories parent
+CROSS JOIN (VALUES ('Pads', 1), ('Rotors', 2), ('Calipers', 3)) AS child(name, position)
+WHERE parent.category_name = 'Brakes'
+ON CONFLICT (category_name) DO NOTHING;
+
+INSERT INTO vehicle_parts (
+  part_slug, itemname, make, model, condition, description, price, stock_quantity,
+  category_id, color, key_features, weight_kg, dimensions, material, warranty_months
+)
+SELECT
+  p.part_slug, p.itemname, p.make, p.model, p.condition, p.description, p.price, p.stock_quantity,
+  c.id, p.color, p.key_features, p.weight_kg, p.dimensions, p.material, p.warranty_months
+FROM (VALUES
+  ('toyota-corolla-front-brake-pads-seed0001', 'Front Brake Pads', 'Toyota', 'Corolla', 'New',
+   'Ceramic front brake pad set with wear indicators.', 49.99, 24, 'Pads', 'Black',
+   ARRAY['Low dust ceramic compound', 'Includes wear sensors'], 1.2, '15 x 6 x 2 cm', 'Ceramic', 24),
+  ('honda-civic-oil-filter-seed0002', 'Oil Filter', 'Honda', 'Civic', 'New',
+   'Spin-on oil filter for 1.5L and 2.0L engines.', 8.5, 120, 'Filters', '',
+   ARRAY['Anti-drain back valve'], 0.3, '8 x 8 x 9 cm', 'Steel', 12),
+  ('ford-f-150-headlight-assembly-seed0003', 'Headlight Assembly (Left)', 'Ford', 'F-150', 'Used',
+   'Driver side halogen headlight, lens in good condition.', 135, 2, 'Lighting', 'Clear',
+   ARRAY['Pulled from a low-mileage truck', 'Bulbs included'], 4.8, '70 x 35 x 30 cm', 'Polycarbonate', 3)
+) AS p(part_slug, itemname, make, model, condition, description, price, stock_quantity,
+       category_name, color, key_features, weight_kg, dimensions, material, warranty_months)
+JOIN part_categories c ON c.category_name = p.category_name
+ON CONFLICT (part_slug) DO NOTHING;
+
+-- Seed parts have no owner; publish them so they show up in the catalog
+UPDATE vehicle_parts SET is_published = true WHERE part_slug LIKE '%-seed____';
+
+INSERT INTO part_fitments (part_slug, make, model, year_start, year_end, trim, engine) VALUES
+  ('toyota-corolla-front-brake-pads-seed0001', 'Toyota', 'Corolla', 2014, 2019, NULL, NULL),
+  ('toyota-corolla-front-brake-pads-seed0001', 'Toyota', 'Matrix', 2009, 2014, NULL, NULL),
+  ('honda-civic-oil-filter-seed0002', 'Honda', 'Civic', 2016, 2021, NULL, '1.5L'),
+  ('honda-civic-oil-filter-seed0002', 'Honda', 'Civic', 2016, 2021, NULL, '2.0L'),
+  ('ford-f-150-headlight-assembly-seed0003', 'Ford', 'F-150', 2015, 2017, 'XL', NULL);
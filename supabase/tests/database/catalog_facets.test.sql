@@ -0,0 +1,51 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, is_published, price, stock_quantity) VALUES
+  ('test-facet-mx5', 'Facet Mirror', 'Mazda', 'MX-5', 'Left mirror', true, 40, 2),
+  ('test-facet-rx8', 'Facet Mirror', 'Mazda', 'RX-8', 'Right mirror', true, 120, 0),
+  ('test-facet-civic', 'Facet Mirror', 'Honda', 'Civic', 'Left mirror', true, 60, 1),
+  ('test-facet-draft', 'Facet Mirror', 'Honda', 'Civic', 'Unpublished', false, 60, 1);
+
+SELECT results_eq(
+  $$ SELECT value, count FROM catalog_facet_counts(p_pattern => '%Facet Mirror%', p_makes => '{Mazda}')
+     WHERE facet = 'makes' ORDER BY value $$,
+  $$ VALUES ('Honda', 1::bigint), ('Mazda', 2::bigint) $$,
+  'a facet is counted without its own selection'
+);
+SELECT results_eq(
+  $$ SELECT value, count FROM catalog_facet_counts(p_pattern => '%Facet Mirror%', p_makes => '{Mazda}')
+     WHERE facet = 'models' ORDER BY value $$,
+  $$ VALUES ('MX-5', 1::bigint), ('RX-8', 1::bigint) $$,
+  'other facets are narrowed by the selection'
+);
+SELECT results_eq(
+  $$ SELECT value, count FROM catalog_facet_counts(
+       p_pattern => '%Facet Mirror%',
+       p_price_buckets => '[{"min": null, "max": 50}, {"min": 50, "max": 100}, {"min": 100, "max": null}]'
+     ) WHERE facet = 'price' ORDER BY value $$,
+  $$ VALUES ('0', 1::bigint), ('1', 1::bigint), ('2', 1::bigint) $$,
+  'price buckets are counted by position'
+);
+SELECT results_eq(
+  $$ SELECT value, count FROM catalog_facet_counts(p_pattern => '%Facet Mirror%', p_stock => 'in')
+     WHERE facet = 'stock' ORDER BY value $$,
+  $$ VALUES ('any', 3::bigint), ('in', 2::bigint), ('out', 1::bigint) $$,
+  'stock options are counted without the stock selection'
+);
+
+SELECT apply_stock_movement('test-facet-civic', 'reservation', 1, 'Order hold');
+
+SELECT results_eq(
+  $$ SELECT value, count FROM catalog_facet_counts(p_pattern => '%Facet Mirror%')
+     WHERE facet = 'stock' ORDER BY value $$,
+  $$ VALUES ('any', 3::bigint), ('in', 1::bigint), ('out', 2::bigint) $$,
+  'reserved units do not count as in stock'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,71 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'first@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'second@example.com');
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published, price, stock_quantity) VALUES
+  ('test-last-unit', 'Last Unit', 'Volvo', '240', 'Order test', '11111111-1111-1111-1111-111111111111', true, 25, 1);
+
+INSERT INTO cart_items (user_id, part_slug, quantity) VALUES
+  ('22222222-2222-2222-2222-222222222222', 'test-last-unit', 1),
+  ('33333333-3333-3333-3333-333333333333', 'test-last-unit', 1);
+
+SET LOCAL ROLE authenticated;
+
+-- The first buyer checks out and gets the unit
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+SELECT lives_ok($$ SELECT checkout_cart(false, '') $$, 'the first buyer can check out');
+SELECT results_eq(
+  $$ SELECT status, subtotal FROM orders WHERE customer_id = auth.uid() $$,
+  $$ VALUES ('pending', 25.00::numeric) $$,
+  'the order is pending at the snapshot price'
+);
+SELECT is((SELECT count(*)::integer FROM cart_items), 0, 'checking out empties the cart');
+
+-- The second buyer is too late
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+SELECT throws_ok($$ SELECT checkout_cart(false, '') $$, '23514', NULL, 'the last unit cannot be ordered twice');
+SELECT lives_ok($$ SELECT checkout_cart(true, 'Price for two?') $$, 'a quote does not need stock');
+SELECT is((SELECT count(*)::integer FROM orders), 1, 'buyers only see their own orders');
+SELECT throws_ok(
+  $$ SELECT transition_order((SELECT id FROM orders WHERE status = 'quote'), 'paid') $$,
+  '23514',
+  NULL,
+  'a quote cannot be paid without being accepted'
+);
+
+RESET ROLE;
+
+-- The payment function settles the first order
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+SELECT lives_ok(
+  $$ SELECT transition_order(
+       (SELECT id FROM orders WHERE customer_id = '22222222-2222-2222-2222-222222222222'),
+       'paid', 'fake', 'fake_123'
+     ) $$,
+  'the payment function can mark an order paid'
+);
+SELECT results_eq(
+  $$ SELECT stock_quantity, reserved_quantity FROM vehicle_parts WHERE part_slug = 'test-last-unit' $$,
+  $$ VALUES (0, 0) $$,
+  'paying turns the reservation into a sale'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ SELECT transition_order((SELECT id FROM orders WHERE customer_id = auth.uid()), 'shipped') $$,
+  '42501',
+  NULL,
+  'customers cannot ship their own orders'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
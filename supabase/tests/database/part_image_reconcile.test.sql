@@ -0,0 +1,43 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, is_published, price) VALUES
+  ('test-photo-part', 'Photo Part', 'Mazda', 'MX-5', 'Has queued photos', true, 40);
+
+INSERT INTO storage.objects (bucket_id, name, created_at) VALUES
+  ('part-images', 'test-photo-part/queued.webp', now() - interval '3 days'),
+  ('part-images', 'test-photo-part/queued-thumb.webp', now() - interval '3 days'),
+  ('part-images', 'test-photo-part/abandoned.webp', now() - interval '40 days'),
+  ('part-images', 'test-photo-part/stray.webp', now() - interval '3 days');
+
+INSERT INTO part_image_uploads (path, thumbnail_path, part_slug, created_at) VALUES
+  ('test-photo-part/queued.webp', 'test-photo-part/queued-thumb.webp', 'test-photo-part', now() - interval '3 days'),
+  ('test-photo-part/abandoned.webp', 'test-photo-part/abandoned-thumb.webp', 'test-photo-part', now() - interval '40 days');
+
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM part_image_reconcile_report() WHERE path = 'test-photo-part/queued.webp' $$,
+  'files of a pending upload are not orphans'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM part_image_reconcile_report() WHERE path = 'test-photo-part/queued-thumb.webp' $$,
+  'the thumbnail of a pending upload is not an orphan'
+);
+SELECT results_eq(
+  $$ SELECT kind FROM part_image_reconcile_report() WHERE path = 'test-photo-part/abandoned.webp' $$,
+  $$ VALUES ('orphaned_object') $$,
+  'files of an abandoned upload are orphans again'
+);
+SELECT results_eq(
+  $$ SELECT kind FROM part_image_reconcile_report() WHERE path = 'test-photo-part/stray.webp' $$,
+  $$ VALUES ('orphaned_object') $$,
+  'unregistered files without a part_images row are still orphans'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
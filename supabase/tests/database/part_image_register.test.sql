@@ -0,0 +1,34 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description) VALUES
+  ('test-gallery-part', 'Gallery Part', 'Mazda', 'MX-5', 'Photo registration test');
+
+SELECT is(
+  (SELECT (register_part_image('test-gallery-part', 'test-gallery-part/one.webp', NULL, 800, 600, 1024, NULL)).is_primary),
+  true,
+  'the first image of a part becomes primary'
+);
+SELECT is(
+  (SELECT (register_part_image('test-gallery-part', 'test-gallery-part/two.webp', NULL, 800, 600, 1024, NULL)).is_primary),
+  false,
+  'later images are not primary'
+);
+
+SELECT results_eq(
+  $$ SELECT view_type, sort_order FROM part_images WHERE part_slug = 'test-gallery-part' ORDER BY sort_order $$,
+  $$ VALUES ('main'::text, 1), ('detail'::text, 2) $$,
+  'images are added at the end of the gallery, the first as the main view'
+);
+SELECT is(
+  (SELECT count(*)::integer FROM part_images WHERE part_slug = 'test-gallery-part' AND is_primary),
+  1,
+  'a part keeps a single primary image'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
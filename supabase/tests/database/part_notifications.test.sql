@@ -0,0 +1,75 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'buyer@example.com');
+
+INSERT INTO exchange_rates (currency, rate) VALUES ('EUR', 0.9) ON CONFLICT (currency) DO NOTHING;
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published, price, stock_quantity) VALUES
+  ('test-watched-part', 'Watched Part', 'Mazda', 'MX-5', 'Notification test', '11111111-1111-1111-1111-111111111111', true, 40, 0),
+  ('test-draft-part', 'Draft Part', 'Mazda', 'MX-5', 'Not listed yet', '11111111-1111-1111-1111-111111111111', false, 40, 0);
+
+INSERT INTO saved_items (user_id, part_id) VALUES
+  ('22222222-2222-2222-2222-222222222222', 'test-watched-part'),
+  ('22222222-2222-2222-2222-222222222222', 'test-draft-part');
+
+UPDATE vehicle_parts SET price = 45 WHERE part_slug = 'test-watched-part';
+SELECT is(
+  (SELECT count(*)::integer FROM notifications WHERE part_slug = 'test-watched-part'),
+  0,
+  'a price rise does not notify'
+);
+
+UPDATE vehicle_parts SET price = 32 WHERE part_slug = 'test-watched-part';
+SELECT results_eq(
+  $$ SELECT user_id, kind, data FROM notifications WHERE part_slug = 'test-watched-part' $$,
+  $$ VALUES ('22222222-2222-2222-2222-222222222222'::uuid, 'price_drop', '{"old_price": 45, "new_price": 32, "currency": "USD"}'::jsonb) $$,
+  'a price drop notifies the saver'
+);
+
+UPDATE vehicle_parts SET price = 30, currency = 'EUR' WHERE part_slug = 'test-watched-part';
+SELECT is(
+  (SELECT count(*)::integer FROM notifications WHERE part_slug = 'test-watched-part' AND kind = 'price_drop'),
+  1,
+  'a lower price in another currency is not a price drop'
+);
+
+SELECT apply_stock_movement('test-watched-part', 'receipt', 3, 'Delivery');
+SELECT is(
+  (SELECT count(*)::integer FROM notifications WHERE part_slug = 'test-watched-part' AND kind = 'back_in_stock'),
+  1,
+  'a receipt into empty stock notifies the saver'
+);
+
+SELECT apply_stock_movement('test-watched-part', 'receipt', 2, 'Delivery');
+SELECT is(
+  (SELECT count(*)::integer FROM notifications WHERE part_slug = 'test-watched-part' AND kind = 'back_in_stock'),
+  1,
+  'topping up stock that was already available does not notify again'
+);
+
+UPDATE vehicle_parts SET price = 10 WHERE part_slug = 'test-draft-part';
+SELECT is(
+  (SELECT count(*)::integer FROM notifications WHERE part_slug = 'test-draft-part'),
+  0,
+  'unpublished parts do not notify'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE notifications SET kind = 'back_in_stock' WHERE part_slug = 'test-watched-part' $$,
+  '42501',
+  NULL,
+  'users can only mark notifications read'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,124 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(18);
+
+-- Fixtures: an owner, another signed-in user, one published and one draft part
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'other@example.com');
+
+UPDATE profiles SET role = 'editor'
+WHERE id IN ('11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222');
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published) VALUES
+  ('test-published-part', 'Published Part', 'Toyota', 'Corolla', 'Listed', '11111111-1111-1111-1111-111111111111', true),
+  ('test-draft-part', 'Draft Part', 'Toyota', 'Corolla', 'Not listed yet', '11111111-1111-1111-1111-111111111111', false);
+
+INSERT INTO storage.objects (bucket_id, name, owner) VALUES
+  ('part-images', 'test-published-part/main_jpg/main.jpg', '11111111-1111-1111-1111-111111111111'),
+  ('part-images', 'test-draft-part/main_jpg/main.jpg', '11111111-1111-1111-1111-111111111111');
+
+-- Anonymous visitors
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$ SELECT part_slug FROM vehicle_parts WHERE part_slug LIKE 'test-%' $$,
+  ARRAY['test-published-part'],
+  'anon sees only published parts'
+);
+SELECT results_eq(
+  $$ SELECT name FROM storage.objects WHERE bucket_id = 'part-images' AND name LIKE 'test-%' $$,
+  ARRAY['test-published-part/main_jpg/main.jpg'],
+  'anon can read images of published parts only'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('part-images', 'test-published-part/front_jpg/front.jpg') $$,
+  '42501',
+  NULL,
+  'anon cannot upload part images'
+);
+
+-- Another editor
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is(can_edit_part('test-published-part'), false, 'an editor cannot edit another editor''s part');
+SELECT results_eq(
+  $$ SELECT part_slug FROM vehicle_parts WHERE part_slug LIKE 'test-%' $$,
+  ARRAY['test-published-part'],
+  'non-owner does not see drafts'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('part-images', 'test-published-part/front_jpg/front.jpg') $$,
+  '42501',
+  NULL,
+  'non-owner cannot upload into another part''s folder'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('part-images', 'missing-part/main_jpg/main.jpg') $$,
+  '42501',
+  NULL,
+  'uploads need an existing part folder'
+);
+SELECT is_empty(
+  $$ UPDATE storage.objects SET metadata = '{"tampered": true}'
+     WHERE name = 'test-published-part/main_jpg/main.jpg' RETURNING name $$,
+  'non-owner cannot replace part images'
+);
+SELECT is_empty(
+  $$ DELETE FROM storage.objects WHERE name LIKE 'test-%' RETURNING name $$,
+  'non-owner cannot delete part images'
+);
+SELECT is_empty(
+  $$ UPDATE vehicle_parts SET price = 1 WHERE part_slug = 'test-published-part' RETURNING part_slug $$,
+  'non-owner cannot update the part'
+);
+SELECT throws_ok(
+  $$ INSERT INTO part_fitments (part_slug, make, model) VALUES ('test-published-part', 'Toyota', 'Matrix') $$,
+  '42501',
+  NULL,
+  'non-owner cannot add fitments'
+);
+
+-- The owner
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is(can_edit_part('test-draft-part'), true, 'owner can edit the part');
+SELECT results_eq(
+  $$ SELECT name FROM storage.objects WHERE bucket_id = 'part-images' AND name LIKE 'test-%' ORDER BY name $$,
+  ARRAY['test-draft-part/main_jpg/main.jpg', 'test-published-part/main_jpg/main.jpg'],
+  'owner can read images of their drafts'
+);
+SELECT lives_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name, owner) VALUES
+       ('part-images', 'test-draft-part/front_jpg/front.jpg', '11111111-1111-1111-1111-111111111111') $$,
+  'owner can upload part images'
+);
+SELECT isnt_empty(
+  $$ DELETE FROM storage.objects WHERE name = 'test-draft-part/front_jpg/front.jpg' RETURNING name $$,
+  'owner can delete part images'
+);
+SELECT throws_ok(
+  $$ UPDATE vehicle_parts SET owner_id = '22222222-2222-2222-2222-222222222222'
+     WHERE part_slug = 'test-draft-part' $$,
+  '42501',
+  NULL,
+  'owner cannot give the part to another user'
+);
+SELECT lives_ok(
+  $$ INSERT INTO vehicle_parts (part_slug, itemname, make, model, description)
+     VALUES ('test-new-part', 'New Part', 'Honda', 'Civic', 'Fresh') $$,
+  'editors can create parts'
+);
+SELECT is(
+  (SELECT owner_id FROM vehicle_parts WHERE part_slug = 'test-new-part'),
+  '11111111-1111-1111-1111-111111111111'::uuid,
+  'new parts are owned by their creator'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,63 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'buyer@example.com');
+
+UPDATE profiles SET role = 'editor' WHERE id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published) VALUES
+  ('test-listed-part', 'Brake Pad', 'Seat', 'Ibiza', 'In the store', '11111111-1111-1111-1111-111111111111', true),
+  ('test-hidden-part', 'Hidden Part', 'Seat', 'Ibiza', 'Not listed yet', '11111111-1111-1111-1111-111111111111', false);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO part_translations (part_slug, locale, itemname, key_features) VALUES
+       ('test-listed-part', 'es', 'Pastilla de freno', '{"Cerámica"}'),
+       ('test-hidden-part', 'es', 'Pieza oculta', '{}') $$,
+  'editors translate their own parts'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO part_translations (part_slug, locale, itemname) VALUES ('test-listed-part', 'fr', 'Plaquette') $$,
+  '42501',
+  NULL,
+  'buyers cannot translate parts'
+);
+
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$ SELECT itemname FROM part_translations WHERE part_slug LIKE 'test-%' $$,
+  ARRAY['Pastilla de freno'],
+  'anon reads translations of published parts only'
+);
+SELECT throws_ok(
+  $$ SELECT updated_by FROM part_translations $$,
+  '42501',
+  NULL,
+  'anon cannot read who translated a part'
+);
+
+RESET ROLE;
+
+SELECT throws_ok(
+  $$ INSERT INTO part_translations (part_slug, locale) VALUES ('test-listed-part', 'en') $$,
+  '23514',
+  NULL,
+  'the default language is not stored as a translation'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,56 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description) VALUES
+  ('test-versioned-part', 'Versioned Part', 'Honda', 'Civic', 'Concurrency test');
+
+SELECT is(
+  (SELECT version FROM vehicle_parts WHERE part_slug = 'test-versioned-part'),
+  1,
+  'new parts start at version 1'
+);
+
+SELECT lives_ok(
+  $$ UPDATE vehicle_parts SET itemname = 'Renamed Part', version = 1 WHERE part_slug = 'test-versioned-part' $$,
+  'a save against the current version succeeds'
+);
+SELECT is(
+  (SELECT version FROM vehicle_parts WHERE part_slug = 'test-versioned-part'),
+  2,
+  'changing a field bumps the version'
+);
+
+SELECT throws_ok(
+  $$ UPDATE vehicle_parts SET itemname = 'Stale Save', version = 1 WHERE part_slug = 'test-versioned-part' $$,
+  '40001',
+  NULL,
+  'a save against an old version is rejected'
+);
+
+UPDATE vehicle_parts SET itemurl = 'https://example.com/main.jpg', is_published = true
+WHERE part_slug = 'test-versioned-part';
+SELECT is(
+  (SELECT version FROM vehicle_parts WHERE part_slug = 'test-versioned-part'),
+  2,
+  'image and publishing changes keep the version'
+);
+
+UPDATE vehicle_parts SET price = 42 WHERE part_slug = 'test-versioned-part';
+SELECT is(
+  (SELECT version FROM vehicle_parts WHERE part_slug = 'test-versioned-part'),
+  3,
+  'writes without a version are not checked but still bump it'
+);
+
+SELECT is(
+  (SELECT count(*)::integer FROM part_revisions WHERE part_slug = 'test-versioned-part'),
+  4,
+  'each field change and the publish wrote a revision'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
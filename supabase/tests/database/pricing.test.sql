@@ -0,0 +1,69 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'buyer@example.com');
+
+INSERT INTO exchange_rates (currency, rate) VALUES ('EUR', 0.5);
+UPDATE tax_classes SET rate = 10 WHERE code = 'standard';
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published, price, stock_quantity) VALUES
+  ('test-repriced', 'Repriced', 'Mazda', 'MX-5', 'History test', '11111111-1111-1111-1111-111111111111', true, 100, 0),
+  ('test-on-sale', 'On Sale', 'Mazda', 'MX-5', 'Was/now test', '11111111-1111-1111-1111-111111111111', true, 80, 0),
+  ('test-taxed', 'Taxed', 'Mazda', 'MX-5', 'Checkout test', '11111111-1111-1111-1111-111111111111', true, 25, 5);
+
+UPDATE vehicle_parts SET price = 90 WHERE part_slug = 'test-repriced';
+UPDATE vehicle_parts SET description = 'Unrelated edit' WHERE part_slug = 'test-repriced';
+
+SELECT results_eq(
+  $$ SELECT old_price, new_price FROM price_history WHERE part_slug = 'test-repriced' ORDER BY old_price NULLS FIRST $$,
+  $$ VALUES (NULL::numeric, 100::numeric), (100, 90) $$,
+  'price changes are recorded and other edits are not'
+);
+
+-- 100 for months, 90 from 20 days ago, reduced to 80 two days ago
+INSERT INTO price_history (part_slug, old_price, old_currency, new_price, new_currency, changed_at) VALUES
+  ('test-on-sale', NULL, NULL, 100, 'USD', now() - interval '90 days'),
+  ('test-on-sale', 100, 'USD', 90, 'USD', now() - interval '20 days'),
+  ('test-on-sale', 90, 'USD', 80, 'USD', now() - interval '2 days');
+
+SELECT is(
+  part_was_price('test-on-sale'),
+  90::numeric,
+  'the was price is the lowest price in the 30 days before the reduction'
+);
+SELECT is(
+  (SELECT count(*)::int FROM price_history WHERE part_slug = 'test-taxed'),
+  1,
+  'new parts start their history at the opening price'
+);
+
+INSERT INTO cart_items (user_id, part_slug, quantity) VALUES
+  ('22222222-2222-2222-2222-222222222222', 'test-taxed', 2);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT currency, subtotal, tax_total FROM checkout_cart(true, '', 'EUR') $$,
+  $$ VALUES ('EUR'::text, 25.00::numeric, 2.50::numeric) $$,
+  'checkout converts prices into the order currency and adds tax'
+);
+SELECT throws_ok(
+  $$ INSERT INTO exchange_rates (currency, rate) VALUES ('GBP', 0.8) $$,
+  '42501',
+  NULL,
+  'buyers cannot set exchange rates'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM price_history $$,
+  'buyers cannot read the price history'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,62 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'admin@example.com', '{}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'buyer@example.com', '{"name": "Sam Supplier"}');
+
+UPDATE profiles SET role = 'admin' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT is(
+  (SELECT full_name FROM profiles WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  'Sam Supplier',
+  'the display name falls back to the name claim'
+);
+
+SET LOCAL ROLE authenticated;
+
+-- Buyer
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}', true);
+
+SELECT isnt_empty(
+  $$ UPDATE profiles SET full_name = 'Sam', shop_name = 'Sam''s Salvage', phone = '+1 (555) 010-0000'
+     WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' RETURNING id $$,
+  'users can update their own profile'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET role = 'admin' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  '42501',
+  NULL,
+  'users cannot change their own role'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET email = 'other@example.com' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  '42501',
+  NULL,
+  'users cannot change their profile email'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET phone = 'call me' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  '23514',
+  NULL,
+  'phone numbers are checked'
+);
+SELECT is_empty(
+  $$ UPDATE profiles SET shop_name = 'Not mine' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' RETURNING id $$,
+  'users cannot update other profiles'
+);
+
+-- Admin
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT isnt_empty(
+  $$ UPDATE profiles SET role = 'editor' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' RETURNING id $$,
+  'admins can still assign roles'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
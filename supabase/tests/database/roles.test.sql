@@ -0,0 +1,88 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'admin@example.com'),
+  ('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 'editor@example.com'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'buyer@example.com');
+
+SELECT is(
+  (SELECT role FROM profiles WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  'buyer'::app_role,
+  'new users get a buyer profile'
+);
+
+UPDATE profiles SET role = 'admin' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+UPDATE profiles SET role = 'editor' WHERE id = 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee';
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published) VALUES
+  ('test-editor-part', 'Editor Part', 'Ford', 'Focus', 'Owned by the editor', 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', true);
+
+SELECT is(
+  custom_access_token_hook('{"user_id": "eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee", "claims": {}}')->'claims'->>'user_role',
+  'editor',
+  'the access token hook adds the role claim'
+);
+
+SET LOCAL ROLE authenticated;
+
+-- Buyer
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO vehicle_parts (part_slug, itemname, make, model, description)
+     VALUES ('test-buyer-part', 'Buyer Part', 'Ford', 'Focus', 'Should fail') $$,
+  '42501',
+  NULL,
+  'buyers cannot create parts'
+);
+SELECT is(can_edit_part('test-editor-part'), false, 'buyers cannot edit parts');
+SELECT throws_ok(
+  $$ INSERT INTO part_categories (category_name) VALUES ('Test Buyer Category') $$,
+  '42501',
+  NULL,
+  'buyers cannot create categories'
+);
+SELECT is_empty(
+  $$ UPDATE profiles SET role = 'admin' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' RETURNING id $$,
+  'buyers cannot promote themselves'
+);
+SELECT results_eq(
+  $$ SELECT id FROM profiles $$,
+  ARRAY['bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'::uuid],
+  'users only see their own profile'
+);
+
+-- Editor
+SELECT set_config('request.jwt.claims', '{"sub": "eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee", "role": "authenticated"}', true);
+
+SELECT is(can_edit_part('test-editor-part'), true, 'editors can edit their own parts');
+SELECT is_empty(
+  $$ UPDATE part_categories SET icon_url = 'https://example.com/icon.svg' RETURNING id $$,
+  'editors cannot change categories'
+);
+
+-- Admin
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT is(can_edit_part('test-editor-part'), true, 'admins can edit every part');
+SELECT lives_ok(
+  $$ INSERT INTO part_categories (category_name) VALUES ('Test Admin Category') $$,
+  'admins can create categories'
+);
+SELECT isnt_empty(
+  $$ UPDATE profiles SET role = 'editor' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' RETURNING id $$,
+  'admins can assign roles'
+);
+SELECT is(
+  (SELECT count(*)::int FROM profiles WHERE email LIKE '%@example.com'),
+  3,
+  'admins see every profile'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
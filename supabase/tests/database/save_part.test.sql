@@ -0,0 +1,59 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+SELECT lives_ok(
+  $$ SELECT save_part(
+    'test-saved-part',
+    '{"itemname": "Saved Part", "make": "Honda", "model": "Civic", "description": "Save test"}',
+    NULL,
+    '[{"make": "Honda", "model": "Civic", "year_start": 2016, "year_end": 2020}]'
+  ) $$,
+  'a new part is inserted with its fitments'
+);
+SELECT is(
+  (SELECT count(*)::integer FROM part_fitments WHERE part_slug = 'test-saved-part'),
+  1,
+  'the fitments were stored with the part'
+);
+
+SELECT is(
+  (SELECT (save_part(
+    'test-saved-part',
+    '{"itemname": "Renamed Part"}',
+    1,
+    '[]'
+  )).description),
+  'Save test',
+  'columns left out of the values keep their current value'
+);
+SELECT is(
+  (SELECT count(*)::integer FROM part_fitments WHERE part_slug = 'test-saved-part'),
+  0,
+  'the fitments were replaced in the same call'
+);
+
+SELECT throws_ok(
+  $$ SELECT save_part(
+    'test-saved-part',
+    '{"itemname": "Stale Save"}',
+    1,
+    '[{"make": "Honda", "model": "Accord", "year_start": 2018, "year_end": 2020}]'
+  ) $$,
+  '40001',
+  NULL,
+  'a save against an old version is rejected with its fitments'
+);
+
+SELECT throws_ok(
+  $$ SELECT save_part('test-missing-part', '{"itemname": "Missing"}', 1, '[]') $$,
+  '42501',
+  NULL,
+  'an update that finds no row is a permission error, not a conflict'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
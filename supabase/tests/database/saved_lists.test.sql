@@ -0,0 +1,64 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'buyer@example.com');
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published, price) VALUES
+  ('test-listed-part', 'Listed Part', 'Mazda', 'MX-5', 'In two lists', '11111111-1111-1111-1111-111111111111', true, 40),
+  ('test-single-part', 'Single Part', 'Mazda', 'MX-5', 'In one list', '11111111-1111-1111-1111-111111111111', true, 40);
+
+INSERT INTO saved_lists (id, user_id, name) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'Project car'),
+  ('aaaaaaaa-0000-0000-0000-000000000002', '22222222-2222-2222-2222-222222222222', 'Spares');
+
+INSERT INTO saved_items (user_id, part_id, list_id) VALUES
+  ('22222222-2222-2222-2222-222222222222', 'test-listed-part', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('22222222-2222-2222-2222-222222222222', 'test-single-part', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('22222222-2222-2222-2222-222222222222', 'test-listed-part', NULL);
+
+SELECT lives_ok(
+  $$ INSERT INTO saved_items (user_id, part_id, list_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', 'test-listed-part', 'aaaaaaaa-0000-0000-0000-000000000002') $$,
+  'a part can be saved in several lists'
+);
+SELECT throws_ok(
+  $$ INSERT INTO saved_items (user_id, part_id, list_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', 'test-listed-part', 'aaaaaaaa-0000-0000-0000-000000000002') $$,
+  '23505',
+  NULL,
+  'a part is in a list at most once'
+);
+SELECT throws_ok(
+  $$ INSERT INTO saved_items (user_id, part_id) VALUES ('22222222-2222-2222-2222-222222222222', 'test-listed-part') $$,
+  '23505',
+  NULL,
+  'a part is unsorted at most once'
+);
+
+UPDATE vehicle_parts SET price = 32 WHERE part_slug = 'test-listed-part';
+SELECT is(
+  (SELECT count(*)::integer FROM notifications WHERE part_slug = 'test-listed-part'),
+  1,
+  'a saver is notified once however many lists hold the part'
+);
+
+DELETE FROM saved_lists WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT results_eq(
+  $$ SELECT list_id FROM saved_items WHERE part_id = 'test-listed-part' ORDER BY list_id NULLS FIRST $$,
+  $$ VALUES (NULL::uuid), ('aaaaaaaa-0000-0000-0000-000000000002'::uuid) $$,
+  'deleting a list drops parts that are saved elsewhere'
+);
+SELECT results_eq(
+  $$ SELECT list_id FROM saved_items WHERE part_id = 'test-single-part' $$,
+  $$ VALUES (NULL::uuid) $$,
+  'parts only in the deleted list become unsorted'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,44 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'admin@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'buyer@example.com');
+
+UPDATE profiles SET role = 'admin' WHERE id = '11111111-1111-1111-1111-111111111111';
+UPDATE profiles SET role = 'buyer' WHERE id = '22222222-2222-2222-2222-222222222222';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM shipping_rates WHERE zone_code = 'domestic' $$,
+  'buyers can read the rate table'
+);
+SELECT throws_ok(
+  $$ INSERT INTO shipping_boxes (name, length_cm, width_cm, height_cm, max_weight_kg) VALUES ('Test Tube', 90, 10, 10, 5) $$,
+  '42501',
+  NULL,
+  'buyers cannot add boxes'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO shipping_boxes (name, length_cm, width_cm, height_cm, max_weight_kg) VALUES ('Test Tube', 90, 10, 10, 5) $$,
+  'admins can add boxes'
+);
+SELECT throws_ok(
+  $$ INSERT INTO shipping_rates (carrier_code, zone_code, service_level, max_weight_kg, price, min_days, max_days)
+     VALUES ('table_post', 'domestic', 'standard', 99, 10, 5, 2) $$,
+  '23514',
+  NULL,
+  'a rate cannot arrive before it leaves'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
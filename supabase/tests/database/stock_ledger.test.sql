@@ -0,0 +1,89 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com');
+
+UPDATE profiles SET role = 'editor' WHERE id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, stock_quantity, reorder_threshold) VALUES
+  ('test-stocked-part', 'Stocked Part', 'Ford', 'Focus', 'Ledger test', '11111111-1111-1111-1111-111111111111', 10, 4);
+
+SELECT results_eq(
+  $$ SELECT kind, quantity FROM stock_movements WHERE part_slug = 'test-stocked-part' $$,
+  $$ VALUES ('receipt', 10) $$,
+  'opening stock is recorded as a receipt'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ SELECT record_stock_movement('test-stocked-part', 'reservation', 4, 'Order hold', 'ORD-1') $$,
+  'the owner can reserve stock'
+);
+SELECT lives_ok(
+  $$ SELECT record_stock_movement('test-stocked-part', 'sale', 2, 'Counter sale') $$,
+  'the owner can record a sale'
+);
+SELECT results_eq(
+  $$ SELECT stock_quantity, reserved_quantity FROM vehicle_parts WHERE part_slug = 'test-stocked-part' $$,
+  $$ VALUES (8, 4) $$,
+  'sales lower stock on hand and reservations hold it'
+);
+SELECT is(
+  (SELECT quantity FROM stock_movements WHERE part_slug = 'test-stocked-part' AND kind = 'sale'),
+  -2,
+  'sales are stored as negative movements'
+);
+
+SELECT throws_ok(
+  $$ SELECT record_stock_movement('test-stocked-part', 'sale', 5, 'Too many') $$,
+  '23514',
+  NULL,
+  'reserved stock cannot be sold'
+);
+SELECT throws_ok(
+  $$ SELECT record_stock_movement('test-stocked-part', 'adjustment', -1, '') $$,
+  '22023',
+  NULL,
+  'adjustments need a reason'
+);
+SELECT throws_ok(
+  $$ UPDATE vehicle_parts SET reserved_quantity = 0 WHERE part_slug = 'test-stocked-part' $$,
+  '42501',
+  NULL,
+  'reserved stock cannot be written directly'
+);
+SELECT throws_ok(
+  $$ INSERT INTO stock_movements (part_slug, kind, quantity) VALUES ('test-stocked-part', 'receipt', 100) $$,
+  '42501',
+  NULL,
+  'movements cannot be inserted directly'
+);
+SELECT results_eq(
+  $$ SELECT part_slug FROM low_stock_parts(0) WHERE part_slug LIKE 'test-%' $$,
+  ARRAY['test-stocked-part'],
+  '4 available is at the part''s own reorder threshold'
+);
+
+RESET ROLE;
+
+UPDATE vehicle_parts SET stock_quantity = 12 WHERE part_slug = 'test-stocked-part';
+SELECT results_eq(
+  $$ SELECT kind, quantity, reason FROM stock_movements WHERE part_slug = 'test-stocked-part' AND reason = 'Stock level set directly' $$,
+  $$ VALUES ('adjustment', 4, 'Stock level set directly') $$,
+  'a direct write to stock_quantity is recorded as an adjustment'
+);
+SELECT is(
+  (SELECT version FROM vehicle_parts WHERE part_slug = 'test-stocked-part'),
+  1,
+  'stock changes do not bump the part version'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,54 @@
+-- Run with `supabase test db` against a local stack
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com');
+
+INSERT INTO vehicle_parts (part_slug, itemname, make, model, description, owner_id, is_published) VALUES
+  ('test-listed-part', 'Listed Part', 'Subaru', 'Impreza', 'In the store', '11111111-1111-1111-1111-111111111111', true),
+  ('test-hidden-part', 'Hidden Part', 'Subaru', 'Impreza', 'Not listed yet', '11111111-1111-1111-1111-111111111111', false);
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$ SELECT itemname FROM vehicle_parts WHERE part_slug LIKE 'test-%' $$,
+  ARRAY['Listed Part'],
+  'anon reads the catalog columns of published parts'
+);
+SELECT throws_ok(
+  $$ SELECT owner_id FROM vehicle_parts WHERE part_slug = 'test-listed-part' $$,
+  '42501',
+  NULL,
+  'anon cannot read who owns a part'
+);
+SELECT throws_ok(
+  $$ SELECT reorder_threshold FROM vehicle_parts WHERE part_slug = 'test-listed-part' $$,
+  '42501',
+  NULL,
+  'anon cannot read stock-keeping settings'
+);
+SELECT is(
+  (SELECT available_quantity FROM vehicle_parts WHERE part_slug = 'test-listed-part'),
+  0,
+  'anon reads how many units can be bought'
+);
+SELECT throws_ok(
+  $$ SELECT reserved_quantity FROM vehicle_parts WHERE part_slug = 'test-listed-part' $$,
+  '42501',
+  NULL,
+  'anon cannot read how many units are held for orders'
+);
+SELECT throws_ok(
+  $$ SELECT uploaded_by FROM part_images $$,
+  '42501',
+  NULL,
+  'anon cannot read who uploaded an image'
+);
+
+SELECT * FROM finish();
+ROLLBACK;